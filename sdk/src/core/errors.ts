@@ -18,6 +18,7 @@
  * - DecompressionError - Decompression-specific failures
  * - RpcError - RPC connection and communication failures
  * - ValidationError - Input validation failures
+ * - SigningError - Remote signer failures
  */
 
 /**
@@ -177,3 +178,28 @@ export class ValidationError extends ZeraError {
     this.name = 'ValidationError';
   }
 }
+
+/**
+ * Error for remote signer failures
+ * 
+ * This error is thrown when a remote signer (KMS, HSM or signing service)
+ * cannot sign, such as:
+ * - Unknown, disabled or unauthorized keys
+ * - Requests denied by the signing service's policy
+ * - Signatures that do not verify for the signer's public key
+ * 
+ * @example
+ * throw new SigningError('Key treasury-authority is disabled');
+ */
+export class SigningError extends ZeraError {
+  /**
+   * Create a new signing error
+   * 
+   * @param message - Description of the signing failure
+   * @param cause - Original error that caused the failure (optional)
+   */
+  constructor(message: string, cause?: Error) {
+    super(message, 'SIGNING_ERROR', cause);
+    this.name = 'SigningError';
+  }
+}
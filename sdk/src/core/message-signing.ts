@@ -0,0 +1,72 @@
+/**
+ * message-signing.ts
+ *
+ * Purpose: Sign and verify detached messages with any wallet type
+ *
+ * Message signatures follow the wallet adapter convention: a 64-byte Ed25519
+ * signature over the raw message bytes, with no prefix or envelope, so a
+ * Keypair and a browser wallet holding the same key sign identically.
+ *
+ * Dependencies:
+ * - @solana/web3.js for PublicKey
+ * - @noble/curves for Ed25519
+ *
+ * Exports:
+ * - signWalletMessage() - Detached message signature from any wallet type
+ * - verifyMessage() - Checks a detached message signature
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import { ed25519 } from '@noble/curves/ed25519';
+import { ExtendedWalletAdapter } from './types';
+
+/**
+ * Sign an arbitrary message with a wallet
+ * 
+ * Signs locally when the raw Keypair is available, which avoids a wallet
+ * prompt, and falls back to the adapter's `signMessage` otherwise.
+ * 
+ * @param wallet - The extended wallet adapter
+ * @param message - Message bytes to sign
+ * @returns Detached Ed25519 signature (64 bytes)
+ * @throws Error if the wallet can neither expose its Keypair nor sign messages
+ */
+export async function signWalletMessage(
+  wallet: ExtendedWalletAdapter,
+  message: Uint8Array
+): Promise<Uint8Array> {
+  if (wallet.rawKeypair) {
+    return ed25519.sign(message, wallet.rawKeypair.secretKey.slice(0, 32));
+  }
+
+  if (wallet.signMessage) {
+    return await wallet.signMessage(message);
+  }
+
+  throw new Error('Wallet does not support message signing');
+}
+
+/**
+ * Verify a detached message signature
+ *
+ * Accepts signatures from `signWalletMessage`, a normalized Keypair's
+ * `signMessage` or a browser wallet adapter's `signMessage`. Text is encoded
+ * as UTF-8, the way dapps encode it before calling `signMessage`.
+ *
+ * @param message - Signed message bytes or text
+ * @param signature - Detached Ed25519 signature (64 bytes)
+ * @param publicKey - Public key of the expected signer
+ * @returns True if the signature is valid; false for any malformed input
+ */
+export function verifyMessage(
+  message: Uint8Array | string,
+  signature: Uint8Array,
+  publicKey: PublicKey
+): boolean {
+  try {
+    const bytes = typeof message === 'string' ? new TextEncoder().encode(message) : message;
+    return signature.length === 64 && ed25519.verify(signature, bytes, publicKey.toBytes());
+  } catch {
+    return false;
+  }
+}
@@ -8,6 +8,7 @@
  * - WalletAdapter for signing transactions
  * 
  * Exports:
+ * - Relayer / SponsoringRelayer - Relayer interfaces
  * - createTestRelayer() - Creates TestRelayer using user's wallet as fee payer
  */
 
@@ -29,6 +30,20 @@ export interface Relayer {
   isReady(): boolean;
 }
 
+/**
+ * Relayer that pays the fees of transactions signed by someone else
+ * 
+ * The caller sets the relayer as fee payer, sets the recent blockhash and adds
+ * its own signatures first; the relayer only adds the fee payer signature and
+ * submits, leaving the message unchanged so the existing signatures stay valid.
+ */
+export interface SponsoringRelayer extends Relayer {
+  /** Fee in lamports the relayer charges for sponsoring a transaction */
+  getFeeAmount(): number;
+  /** Add the fee payer signature to a partially signed transaction and submit it */
+  submitSponsoredTransaction(tx: Transaction): Promise<TransactionSignature>;
+}
+
 /**
  * TestRelayer implementation that uses the user's wallet as fee payer
  * 
@@ -37,7 +52,7 @@ export interface Relayer {
  * 
  * For production use, this should be replaced with an external relayer service.
  */
-export class TestRelayer implements Relayer {
+export class TestRelayer implements SponsoringRelayer {
   private wallet: WalletAdapter;
   private connection: Connection;
   private feeLamports: number;
@@ -96,6 +111,49 @@ export class TestRelayer implements Relayer {
     }
   }
 
+  /**
+   * Co-sign a partially signed transaction as fee payer and submit it
+   * 
+   * The wallet must add its signature without clearing the others.
+   * 
+   * @param tx - Transaction with this relayer as fee payer and a recent blockhash
+   * @returns Promise resolving to transaction signature
+   * @throws Error if the transaction is not set up for this relayer or submission fails
+   */
+  async submitSponsoredTransaction(tx: Transaction): Promise<TransactionSignature> {
+    try {
+      if (!tx.feePayer || !tx.feePayer.equals(this.wallet.publicKey)) {
+        throw new Error('Sponsored transaction must use the relayer as fee payer');
+      }
+      if (!tx.recentBlockhash) {
+        throw new Error('Sponsored transaction has no recent blockhash');
+      }
+
+      const signedTx = await this.wallet.signTransaction(tx);
+
+      const signature = await this.connection.sendRawTransaction(
+        signedTx.serialize(),
+        {
+          skipPreflight: false,
+          preflightCommitment: 'confirmed',
+        }
+      );
+
+      const confirmation = await this.connection.confirmTransaction(signature, 'confirmed');
+
+      if (confirmation.value.err) {
+        throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`);
+      }
+
+      return signature;
+
+    } catch (error) {
+      throw new Error(
+        `Failed to submit sponsored transaction: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   /**
    * Get the relayer's public key (user's wallet in this case)
    * 
@@ -0,0 +1,282 @@
+/**
+ * remote-signer.ts
+ *
+ * Purpose: Sign with keys held by a KMS, HSM or remote signing service
+ *
+ * A `RemoteSigner` only ever sees serialized message bytes (the transaction
+ * message, or the raw bytes passed to `signMessage`) together with audit
+ * metadata, and returns a detached Ed25519 signature. `RemoteSignerWallet`
+ * turns it into a `WalletAdapter`, so it can be used wherever the SDK takes a
+ * wallet, including as a separate fee payer or mint authority
+ * (`PrivacyConfig.feePayer`, `PrivacyConfig.mintAuthority`).
+ *
+ * Every signature is verified against the signer's public key before it is
+ * added to a transaction, so a misconfigured key ID fails locally instead of
+ * on-chain.
+ *
+ * Dependencies:
+ * - @solana/web3.js for transactions and public keys
+ * - @noble/hashes for message digests in the audit metadata
+ *
+ * Exports:
+ * - RemoteSigner / SigningMetadata / SignerRole - Remote signer interface
+ * - RemoteSignerWallet - WalletAdapter backed by a RemoteSigner
+ * - LocalSignerService - In-process signing service for tests
+ * - isRemoteSigner() / toWalletAdapter() - Accept a RemoteSigner in place of a wallet
+ */
+
+import { Keypair, PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+import { ed25519 } from '@noble/curves/ed25519';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+import { ExtendedWalletAdapter, WalletAdapter } from './types';
+import { SigningError } from './errors';
+import { verifyMessage } from './message-signing';
+
+/**
+ * Role a signer plays in the transactions it signs
+ */
+export type SignerRole = 'wallet' | 'feePayer' | 'mintAuthority';
+
+/**
+ * Audit metadata sent with every signing request
+ */
+export interface SigningMetadata {
+  /** Key the request is for */
+  keyId: string;
+  /** Role the signer plays */
+  role: SignerRole;
+  /** Whether a transaction message or an arbitrary message is signed */
+  operation: 'signTransaction' | 'signMessage';
+  /** Hex SHA-256 of the signed bytes, for the audit trail */
+  messageHash: string;
+  /** When the request was made, in milliseconds since the epoch */
+  requestedAt: number;
+  /** Caller-supplied labels, e.g. a request ID or the initiating user */
+  context?: Record<string, string>;
+}
+
+/**
+ * Signer whose key lives outside the process
+ */
+export interface RemoteSigner {
+  /** Public key of the remote key */
+  readonly publicKey: PublicKey;
+  /** Identifier of the key in the KMS or signing service */
+  readonly keyId: string;
+  /**
+   * Sign serialized message bytes
+   *
+   * @returns Detached Ed25519 signature (64 bytes)
+   */
+  sign(message: Uint8Array, metadata: SigningMetadata): Promise<Uint8Array>;
+}
+
+/**
+ * Check whether a value is a RemoteSigner rather than a wallet
+ */
+export function isRemoteSigner(value: unknown): value is RemoteSigner {
+  return typeof value === 'object' &&
+    value !== null &&
+    typeof (value as RemoteSigner).keyId === 'string' &&
+    typeof (value as RemoteSigner).sign === 'function' &&
+    !('signTransaction' in value);
+}
+
+/**
+ * Use a wallet as-is, or wrap a RemoteSigner in a RemoteSignerWallet
+ *
+ * @param wallet - Wallet adapter or remote signer
+ * @param role - Role recorded in the audit metadata of a remote signer
+ */
+export function toWalletAdapter(
+  wallet: ExtendedWalletAdapter | RemoteSigner,
+  role: SignerRole = 'wallet'
+): ExtendedWalletAdapter {
+  return isRemoteSigner(wallet) ? new RemoteSignerWallet(wallet, role) : wallet;
+}
+
+/**
+ * WalletAdapter that signs through a RemoteSigner
+ */
+export class RemoteSignerWallet implements ExtendedWalletAdapter {
+  readonly publicKey: PublicKey;
+  /** Remote keys are never available locally */
+  readonly rawKeypair: undefined = undefined;
+
+  private signer: RemoteSigner;
+  private role: SignerRole;
+  private context?: Record<string, string>;
+
+  /**
+   * @param signer - Remote signer holding the key
+   * @param role - Role recorded in the audit metadata
+   * @param context - Labels added to the audit metadata of every request
+   */
+  constructor(signer: RemoteSigner, role: SignerRole = 'wallet', context?: Record<string, string>) {
+    this.publicKey = signer.publicKey;
+    this.signer = signer;
+    this.role = role;
+    this.context = context;
+  }
+
+  /** Identifier of the remote key */
+  get keyId(): string {
+    return this.signer.keyId;
+  }
+
+  /**
+   * Add the remote key's signature to a legacy or versioned transaction
+   *
+   * @throws SigningError if the key is not a required signer or the signer fails
+   */
+  async signTransaction<T>(tx: T): Promise<T> {
+    if (tx instanceof VersionedTransaction) {
+      const signature = await this._sign(tx.message.serialize(), 'signTransaction');
+      tx.addSignature(this.publicKey, signature);
+    } else if (tx instanceof Transaction) {
+      const message = tx.compileMessage();
+      const required = message.accountKeys.slice(0, message.header.numRequiredSignatures);
+      if (!required.some(key => key.equals(this.publicKey))) {
+        throw new SigningError(`Key ${this.keyId} is not a required signer of the transaction`);
+      }
+      const signature = await this._sign(message.serialize(), 'signTransaction');
+      tx.addSignature(this.publicKey, Buffer.from(signature));
+    } else {
+      throw new SigningError('Unsupported transaction type');
+    }
+    return tx;
+  }
+
+  async signAllTransactions<T>(txs: T[]): Promise<T[]> {
+    for (const tx of txs) {
+      await this.signTransaction(tx);
+    }
+    return txs;
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    return await this._sign(message, 'signMessage');
+  }
+
+  private async _sign(message: Uint8Array, operation: SigningMetadata['operation']): Promise<Uint8Array> {
+    const metadata: SigningMetadata = {
+      keyId: this.signer.keyId,
+      role: this.role,
+      operation,
+      messageHash: bytesToHex(sha256(message)),
+      requestedAt: Date.now(),
+      ...(this.context ? { context: this.context } : {})
+    };
+
+    let signature: Uint8Array;
+    try {
+      signature = await this.signer.sign(message, metadata);
+    } catch (error) {
+      if (error instanceof SigningError) {
+        throw error;
+      }
+      throw new SigningError(
+        `Remote signer failed for key ${this.keyId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    if (!verifyMessage(message, signature, this.publicKey)) {
+      throw new SigningError(`Remote signer returned an invalid signature for key ${this.keyId}`);
+    }
+    return signature;
+  }
+}
+
+/**
+ * Signing request as recorded by LocalSignerService
+ */
+export interface SigningRecord extends SigningMetadata {
+  /** Whether the request was signed */
+  approved: boolean;
+  /** Why the request was refused */
+  reason?: string;
+}
+
+/**
+ * In-process signing service standing in for a KMS in tests
+ *
+ * Holds keypairs by key ID, applies an optional approval policy and records
+ * every request it receives. The keys never leave the service: callers only
+ * get RemoteSigners.
+ */
+export class LocalSignerService {
+  private keys: Map<string, Keypair> = new Map();
+  private disabled: Set<string> = new Set();
+  private records: SigningRecord[] = [];
+  private approve?: (metadata: SigningMetadata, message: Uint8Array) => boolean | Promise<boolean>;
+
+  /**
+   * @param approve - Policy deciding whether a request is signed (default: sign everything)
+   */
+  constructor(approve?: (metadata: SigningMetadata, message: Uint8Array) => boolean | Promise<boolean>) {
+    this.approve = approve;
+  }
+
+  /**
+   * Create (or import) a key and return its signer
+   *
+   * @throws SigningError if the key ID is taken
+   */
+  createKey(keyId: string, keypair: Keypair = Keypair.generate()): RemoteSigner {
+    if (this.keys.has(keyId)) {
+      throw new SigningError(`Key ${keyId} already exists`);
+    }
+    this.keys.set(keyId, keypair);
+    return this.getSigner(keyId);
+  }
+
+  /**
+   * Get the signer of an existing key
+   *
+   * @throws SigningError if the key does not exist
+   */
+  getSigner(keyId: string): RemoteSigner {
+    const keypair = this.keys.get(keyId);
+    if (!keypair) {
+      throw new SigningError(`Unknown key ${keyId}`);
+    }
+    return {
+      publicKey: keypair.publicKey,
+      keyId,
+      sign: (message, metadata) => this._sign(keyId, message, metadata)
+    };
+  }
+
+  /**
+   * Refuse every further request for a key
+   */
+  disableKey(keyId: string): void {
+    this.disabled.add(keyId);
+  }
+
+  /**
+   * Requests received so far, oldest first
+   */
+  getAuditLog(): SigningRecord[] {
+    return [...this.records];
+  }
+
+  private async _sign(keyId: string, message: Uint8Array, metadata: SigningMetadata): Promise<Uint8Array> {
+    const refuse = (reason: string): never => {
+      this.records.push({ ...metadata, approved: false, reason });
+      throw new SigningError(reason);
+    };
+
+    const keypair = this.keys.get(keyId);
+    if (!keypair) return refuse(`Unknown key ${keyId}`);
+    if (this.disabled.has(keyId)) return refuse(`Key ${keyId} is disabled`);
+    if (metadata.keyId !== keyId) return refuse(`Request for key ${metadata.keyId} sent to key ${keyId}`);
+    if (bytesToHex(sha256(message)) !== metadata.messageHash) return refuse('Message does not match its hash');
+    if (this.approve && !(await this.approve(metadata, message))) return refuse(`Request denied by policy for key ${keyId}`);
+
+    this.records.push({ ...metadata, approved: true });
+    return ed25519.sign(message, keypair.secretKey.slice(0, 32));
+  }
+}
@@ -9,11 +9,16 @@
  * 
  * Exports:
  * - normalizeWallet() - Converts different wallet types to unified interface
+ *
+ * Message signing helpers live in message-signing.ts, so remote-signer.ts can
+ * use them without importing this module.
  */
 
 import { Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import { ed25519 } from '@noble/curves/ed25519';
 import * as anchor from '@coral-xyz/anchor';
 import { WalletAdapter, ExtendedWalletAdapter } from './types';
+import { RemoteSigner, RemoteSignerWallet, isRemoteSigner } from './remote-signer';
 
 /**
  * Normalize different wallet types into a unified WalletAdapter interface
@@ -21,13 +26,14 @@ import { WalletAdapter, ExtendedWalletAdapter } from './types';
  * This function handles conversion from:
  * - Keypair (Node.js environments)
  * - Wallet adapter (browser environments) 
+ * - RemoteSigner (KMS or HSM-backed keys)
  * - Undefined (CLI environments - uses anchor.utils.wallet())
  * 
- * @param wallet - The wallet to normalize (Keypair, wallet adapter, or undefined)
+ * @param wallet - The wallet to normalize (Keypair, wallet adapter, remote signer, or undefined)
  * @returns Normalized ExtendedWalletAdapter interface with raw Keypair access
  * @throws ZeraError if wallet type is unsupported or invalid
  */
-export function normalizeWallet(wallet?: Keypair | WalletAdapter): ExtendedWalletAdapter {
+export function normalizeWallet(wallet?: Keypair | WalletAdapter | RemoteSigner): ExtendedWalletAdapter {
   // Handle undefined wallet (CLI environment)
   if (!wallet) {
   try {
@@ -55,32 +61,29 @@ export function normalizeWallet(wallet?: Keypair | WalletAdapter): ExtendedWalle
       rawKeypair: wallet, // Store the raw Keypair for stateless.js operations
       signTransaction: async <T>(tx: T): Promise<T> => {
         if (tx instanceof Transaction) {
-          tx.sign(wallet);
+          tx.partialSign(wallet);
         }
         return tx;
       },
       signAllTransactions: async <T>(txs: T[]): Promise<T[]> => {
         txs.forEach(tx => {
           if (tx instanceof Transaction) {
-            tx.sign(wallet);
+            tx.partialSign(wallet);
           }
         });
         return txs;
       },
       signMessage: async (message: Uint8Array): Promise<Uint8Array> => {
-        // Keypair doesn't have signMessage, so we'll implement it using signTransaction
-        const fakeTx = new Transaction();
-        fakeTx.add({
-          keys: [],
-          programId: new PublicKey('11111111111111111111111111111111'),
-          data: Buffer.from(message)
-        });
-        fakeTx.sign(wallet);
-        return Buffer.from(fakeTx.signature!);
+        return ed25519.sign(message, wallet.secretKey.slice(0, 32));
       }
     };
   }
 
+  // Handle remote signer (key held by a KMS or signing service)
+  if (isRemoteSigner(wallet)) {
+    return new RemoteSignerWallet(wallet);
+  }
+
   // Handle wallet adapter (browser environment)
   if (wallet && typeof wallet === 'object' && 'publicKey' in wallet) {
     // Validate that the wallet adapter has required methods
@@ -160,4 +163,3 @@ export function extractRawKeypair(wallet: ExtendedWalletAdapter): Keypair {
   
   return wallet.rawKeypair;
 }
-
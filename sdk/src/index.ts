@@ -10,16 +10,35 @@
 import { Connection, Keypair, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import {
   PrivacyConfig,
+  ApplyPendingBalanceResult,
+  ConfidentialBalance,
+  ConfidentialMint,
+  ConfidentialMintPolicy,
+  ConfidentialMintUpdate,
+  ConfidentialAccountResult,
+  ConfidentialOperationResult,
   EncryptedBalance,
   PrivateTransferResult,
   ViewingKey,
   StealthMetaAddress,
+  StealthPaymentRequest,
   StealthAddress,
   EphemeralKey,
-  StealthPayment
+  StealthPayment,
+  StealthPaymentReceipt,
+  StealthScanOptions,
+  BlockchainScanOptions,
+  StealthSweepOptions,
+  StealthSweepResult,
+  StealthTokenBalance,
+  StealthTokenPaymentReceipt,
+  StealthWatchOptions,
+  StealthWatchSubscription
 } from './privacy/types';
 import { ZeraPrivacy } from './privacy/zera-privacy';
+import { PrivacyKeys } from './privacy/key-derivation';
 import { ExtendedWalletAdapter } from './core/types';
+import { normalizeWallet } from './core/wallet';
 import { PrivacyError } from './privacy/errors';
 
 // Global SDK instance
@@ -51,8 +70,8 @@ export async function init(config: any): Promise<void> {
       config.commitment || 'confirmed'
     );
 
-    // Normalize wallet (simplified for now)
-    const wallet = config.wallet;
+    // Keypairs sign through a wallet adapter; RemoteSigners are wrapped by ZeraPrivacy
+    const wallet = config.wallet instanceof Keypair ? normalizeWallet(config.wallet) : config.wallet;
 
     privacyInstance = new ZeraPrivacy();
 
@@ -86,17 +105,36 @@ export function getAddress(): string {
 }
 
 /**
- * Create a new confidential mint (for testing/demo purposes)
+ * Create a new confidential mint
  */
-export async function createConfidentialMint(decimals: number = 9): Promise<PublicKey> {
+export async function createConfidentialMint(
+  decimals: number = 9,
+  policy: ConfidentialMintPolicy = {}
+): Promise<PublicKey> {
   _assertInitialized();
-  return await privacyInstance!.createConfidentialMint(decimals);
+  return await privacyInstance!.createConfidentialMint(decimals, policy);
+}
+
+/**
+ * Update the auto-approval flag or rotate the auditor of a confidential mint
+ */
+export async function updateConfidentialMint(mint: PublicKey, update: ConfidentialMintUpdate): Promise<string> {
+  _assertInitialized();
+  return await privacyInstance!.updateConfidentialMint(mint, update);
+}
+
+/**
+ * Read a mint and its confidential transfer configuration
+ */
+export async function getConfidentialMint(mint: PublicKey): Promise<ConfidentialMint> {
+  _assertInitialized();
+  return await privacyInstance!.getConfidentialMint(mint);
 }
 
 /**
  * Create a confidential token account
  */
-export async function createConfidentialAccount(mint: PublicKey, owner?: PublicKey): Promise<PublicKey> {
+export async function createConfidentialAccount(mint: PublicKey, owner?: PublicKey): Promise<ConfidentialAccountResult> {
   _assertInitialized();
   return await privacyInstance!.createConfidentialAccount(mint, owner);
 }
@@ -104,7 +142,11 @@ export async function createConfidentialAccount(mint: PublicKey, owner?: PublicK
 /**
  * Deposit (Shield) public tokens into confidential balance
  */
-export async function deposit(account: PublicKey, mint: PublicKey, amount: number): Promise<string> {
+export async function deposit(
+  account: PublicKey,
+  mint: PublicKey,
+  amount: number
+): Promise<ConfidentialOperationResult> {
   _assertInitialized();
   return await privacyInstance!.deposit(account, mint, amount);
 }
@@ -117,7 +159,7 @@ export async function transfer(
   mint: PublicKey,
   destinationAccount: PublicKey,
   amount: number
-): Promise<string> {
+): Promise<ConfidentialOperationResult> {
   _assertInitialized();
   return await privacyInstance!.transfer(sourceAccount, mint, destinationAccount, amount);
 }
@@ -129,21 +171,40 @@ export async function withdraw(
   account: PublicKey,
   mint: PublicKey,
   amount: number
-): Promise<string> {
+): Promise<ConfidentialOperationResult> {
   _assertInitialized();
   return await privacyInstance!.withdraw(account, mint, amount);
 }
 
 /**
- * Get confidential balance (encrypted)
+ * Move received confidential funds from the pending to the available balance
  */
-export async function getBalance(account: PublicKey): Promise<string> {
+export async function applyPendingBalance(
+  account: PublicKey,
+  mint: PublicKey
+): Promise<ApplyPendingBalanceResult> {
+  _assertInitialized();
+  return await privacyInstance!.applyPendingBalance(account, mint);
+}
+
+/**
+ * Get the decrypted balances of a confidential token account
+ */
+export async function getBalance(account: PublicKey): Promise<ConfidentialBalance> {
   _assertInitialized();
   return await privacyInstance!.getBalance(account);
 }
 
 // Stealth Address Functions
 
+/**
+ * Derive the wallet's stealth and ElGamal keys from a `signMessage` signature
+ */
+export async function derivePrivacyKeys(): Promise<PrivacyKeys> {
+  _assertInitialized();
+  return await privacyInstance!.derivePrivacyKeys();
+}
+
 export function generateStealthMetaAddress(viewKeypair?: Keypair, spendKeypair?: Keypair): StealthMetaAddress {
   _assertInitialized();
   return privacyInstance!.generateStealthMetaAddress(viewKeypair, spendKeypair);
@@ -157,13 +218,74 @@ export function generateStealthAddress(
   return privacyInstance!.generateStealthAddress(recipientMetaAddress, ephemeralKeypair);
 }
 
+export async function sendStealthPayment(
+  recipientMetaAddress: StealthMetaAddress,
+  amount: number
+): Promise<StealthPaymentReceipt> {
+  _assertInitialized();
+  return await privacyInstance!.sendStealthPayment(recipientMetaAddress, amount);
+}
+
+export async function sendStealthTokenPayment(
+  recipientMetaAddress: StealthMetaAddress,
+  mint: PublicKey,
+  amount: bigint | number
+): Promise<StealthTokenPaymentReceipt> {
+  _assertInitialized();
+  return await privacyInstance!.sendStealthTokenPayment(recipientMetaAddress, mint, amount);
+}
+
 export async function scanForPayments(
   metaAddress: StealthMetaAddress,
   viewPrivateKey: Uint8Array,
-  ephemeralKeys: EphemeralKey[]
+  ephemeralKeys: EphemeralKey[],
+  options?: StealthScanOptions
 ): Promise<StealthPayment[]> {
   _assertInitialized();
-  return await privacyInstance!.scanForPayments(metaAddress, viewPrivateKey, ephemeralKeys);
+  return await privacyInstance!.scanForPayments(metaAddress, viewPrivateKey, ephemeralKeys, options);
+}
+
+export async function fetchEphemeralKeysFromBlockchain(
+  startSlot?: number,
+  endSlot?: number,
+  cursorKey?: string
+): Promise<EphemeralKey[]> {
+  _assertInitialized();
+  return await privacyInstance!.fetchEphemeralKeysFromBlockchain(startSlot, endSlot, cursorKey);
+}
+
+export async function scanBlockchainForPayments(
+  metaAddress: StealthMetaAddress,
+  viewPrivateKey: Uint8Array,
+  options?: BlockchainScanOptions
+): Promise<StealthPayment[]> {
+  _assertInitialized();
+  return await privacyInstance!.scanBlockchainForPayments(metaAddress, viewPrivateKey, options);
+}
+
+export async function watch(
+  viewPrivateKey: Uint8Array,
+  metaAddress: StealthMetaAddress,
+  onPayment: (payment: StealthPayment) => void | Promise<void>,
+  options?: StealthWatchOptions
+): Promise<StealthWatchSubscription> {
+  _assertInitialized();
+  return await privacyInstance!.watch(viewPrivateKey, metaAddress, onPayment, options);
+}
+
+export async function getStealthTokenBalances(stealthAddress: PublicKey): Promise<StealthTokenBalance[]> {
+  _assertInitialized();
+  return await privacyInstance!.getStealthTokenBalances(stealthAddress);
+}
+
+export async function sweepStealthPayment(
+  payment: StealthPayment,
+  destination: PublicKey,
+  spendPrivateKey: Uint8Array,
+  options?: StealthSweepOptions
+): Promise<StealthSweepResult> {
+  _assertInitialized();
+  return await privacyInstance!.sweepStealthPayment(payment, destination, spendPrivateKey, options);
 }
 
 export function deriveStealthSpendingKey(payment: StealthPayment, spendPrivateKey: Uint8Array): { privateKey: Uint8Array; publicKey: PublicKey } {
@@ -191,14 +313,47 @@ function _assertInitialized(): void {
 // Export types
 export type {
   PrivacyConfig,
+  ApplyPendingBalanceResult,
+  ConfidentialBalance,
+  ConfidentialMint,
+  ConfidentialMintPolicy,
+  ConfidentialMintUpdate,
+  ConfidentialAccountResult,
+  ConfidentialOperationResult,
+  FallbackPolicy,
   EncryptedBalance,
   PrivateTransferResult,
   ViewingKey,
+  AuditedTransfer,
   StealthMetaAddress,
+  StealthPaymentRequest,
   StealthAddress,
   EphemeralKey,
-  StealthPayment
+  StealthPayment,
+  StealthPaymentReceipt,
+  StealthScanOptions,
+  BlockchainScanOptions,
+  StealthSweepOptions,
+  StealthSweepResult,
+  StealthTokenBalance,
+  StealthTokenPaymentReceipt,
+  StealthWatchOptions,
+  StealthWatchSubscription
 } from './privacy/types';
+export type { PrivacyKeys } from './privacy/key-derivation';
+export type { Relayer, SponsoringRelayer } from './core/relayer';
+export type { RemoteSigner, SigningMetadata, SignerRole, SigningRecord } from './core/remote-signer';
 
 export { ZeraPrivacy } from './privacy/zera-privacy';
-export { PrivacyError } from './privacy/errors';
+export { StealthSigner } from './privacy/stealth-signer';
+export {
+  encodeMetaAddress,
+  parseMetaAddress,
+  encodeStealthPaymentUri,
+  parseStealthPaymentUri
+} from './privacy/meta-address';
+export { TestRelayer, createTestRelayer } from './core/relayer';
+export { PrivacyError, ConfidentialTransferError } from './privacy/errors';
+export { verifyMessage } from './core/message-signing';
+export { RemoteSignerWallet, LocalSignerService, isRemoteSigner, toWalletAdapter } from './core/remote-signer';
+export { SigningError } from './core/errors';
@@ -0,0 +1,461 @@
+/**
+ * privacy/announcement-source.ts
+ *
+ * Purpose: Pluggable backends serving stealth announcements to the scanner
+ *
+ * `BlockchainScanner` reads the memos of the transactions made through an
+ * address (a stealth address, or the announcer program) from an
+ * `AnnouncementSource`:
+ *
+ * - `RpcAnnouncementSource` pages through `getSignaturesForAddress` and
+ *   fetches the transactions from a Solana RPC node (the default);
+ * - `HttpIndexerAnnouncementSource` queries an indexer service that has
+ *   already extracted the memos;
+ * - `InMemoryAnnouncementSource` serves fixed transactions, for tests and
+ *   fixtures.
+ *
+ * Sources only transport memos. Parsing `STEALTH:` announcements, view tags
+ * and scan cursors stay in the scanner, so every source behaves the same.
+ */
+
+import { Connection, ConfirmedSignatureInfo, ParsedTransactionWithMeta, PublicKey } from '@solana/web3.js';
+import { PrivacyError } from './errors';
+import { globalCacheManager } from '../core/cache';
+
+/** Maximum signatures returned by one `getSignaturesForAddress` call */
+const SIGNATURE_PAGE_LIMIT = 1000;
+
+/**
+ * Successful transaction carrying memos
+ */
+export interface AnnouncementRecord {
+  /** Transaction signature */
+  signature: string;
+  /** Slot of the transaction */
+  slot: number;
+  /** Block time in seconds since the epoch, if known */
+  blockTime: number | null;
+  /** Memos of the transaction, in instruction order */
+  memos: string[];
+  /** Fee payer of the transaction (base58), if the source knows it */
+  sender?: string;
+}
+
+/**
+ * Transactions requested from an announcement source
+ */
+export interface AnnouncementQuery {
+  /** Address whose transactions are read (a stealth address or the announcer program) */
+  address: PublicKey;
+  /** First slot of the range */
+  startSlot: number;
+  /** Last slot of the range */
+  endSlot: number;
+  /** Newest signature already processed; only newer transactions are returned */
+  until?: string;
+}
+
+/**
+ * Transactions of an address in a slot range
+ */
+export interface AnnouncementBatch {
+  /** Successful transactions in the range that carry memos, newest first */
+  records: AnnouncementRecord[];
+  /** Number of successful transactions in the range */
+  transactionsScanned: number;
+  /** Newest transaction in the range, failed or not (where the next incremental scan resumes) */
+  latest?: { signature: string; slot: number };
+}
+
+/**
+ * Backend serving stealth announcements to `BlockchainScanner`
+ */
+export interface AnnouncementSource {
+  /** Newest slot the source can answer for */
+  getSlot(): Promise<number>;
+  /** Transactions made through an address in a slot range */
+  getAnnouncements(query: AnnouncementQuery): Promise<AnnouncementBatch>;
+}
+
+/**
+ * Options of the RPC announcement source
+ */
+export interface RpcAnnouncementSourceOptions {
+  /** Maximum number of transactions fetched in one call (default: 100) */
+  batchSize?: number;
+  /** Fetch several batches at once (default: true) */
+  enableParallelProcessing?: boolean;
+  /** Maximum number of batches fetched at once (default: 3) */
+  maxParallelBatches?: number;
+  /** Enable verbose logging */
+  verbose?: boolean;
+}
+
+/**
+ * Announcement source reading transactions from a Solana RPC node
+ *
+ * Fetched transactions are cached for a minute in the global RPC cache.
+ */
+export class RpcAnnouncementSource implements AnnouncementSource {
+  private connection: Connection;
+  private options: Required<RpcAnnouncementSourceOptions>;
+
+  constructor(connection: Connection, options: RpcAnnouncementSourceOptions = {}) {
+    this.connection = connection;
+    this.options = {
+      batchSize: 100,
+      enableParallelProcessing: true,
+      maxParallelBatches: 3,
+      verbose: false,
+      ...options
+    };
+  }
+
+  async getSlot(): Promise<number> {
+    return await this.connection.getSlot('confirmed');
+  }
+
+  async getAnnouncements(query: AnnouncementQuery): Promise<AnnouncementBatch> {
+    const inRange = await this._getSignaturesForAddress(query);
+    const signatures = inRange.filter(sig => !sig.err);
+    const { batchSize, maxParallelBatches } = this.options;
+
+    const batches: ConfirmedSignatureInfo[][] = [];
+    for (let i = 0; i < signatures.length; i += batchSize) {
+      batches.push(signatures.slice(i, i + batchSize));
+    }
+
+    const records: AnnouncementRecord[] = [];
+    if (this.options.enableParallelProcessing && signatures.length > batchSize) {
+      // Parallel processing for better performance
+      for (let i = 0; i < batches.length; i += maxParallelBatches) {
+        const results = await Promise.all(
+          batches.slice(i, i + maxParallelBatches).map(batch => this._processTransactionBatch(batch))
+        );
+        results.forEach(batchRecords => records.push(...batchRecords));
+      }
+    } else {
+      // Sequential processing for smaller sets
+      for (const batch of batches) {
+        records.push(...(await this._processTransactionBatch(batch)));
+      }
+    }
+
+    return {
+      records,
+      transactionsScanned: signatures.length,
+      latest: inRange.length > 0 ? { signature: inRange[0].signature, slot: inRange[0].slot } : undefined
+    };
+  }
+
+  /**
+   * Get the transaction signatures of an address within slot range, newest first
+   *
+   * Pages backwards from the newest signature (the RPC returns at most 1000
+   * per call) until the page reaches past `startSlot`, or down to `until`
+   * (exclusive) when resuming from a cursor.
+   */
+  private async _getSignaturesForAddress(query: AnnouncementQuery): Promise<ConfirmedSignatureInfo[]> {
+    try {
+      const signatures: ConfirmedSignatureInfo[] = [];
+      let before: string | undefined;
+
+      while (true) {
+        // Note: Solana RPC doesn't support slot-based filtering directly
+        const page = await this.connection.getSignaturesForAddress(
+          query.address,
+          { limit: SIGNATURE_PAGE_LIMIT, before, until: query.until },
+          'confirmed'
+        );
+
+        // Filter by slot range
+        signatures.push(...page.filter(sig => sig.slot >= query.startSlot && sig.slot <= query.endSlot));
+
+        if (page.length < SIGNATURE_PAGE_LIMIT || page[page.length - 1].slot < query.startSlot) {
+          return signatures;
+        }
+        before = page[page.length - 1].signature;
+      }
+
+    } catch (error) {
+      throw new PrivacyError(
+        `Failed to fetch signatures for address: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Fetch a batch of transactions and keep those carrying memos
+   *
+   * Optimized with caching for individual transactions
+   */
+  private async _processTransactionBatch(signatures: ConfirmedSignatureInfo[]): Promise<AnnouncementRecord[]> {
+    const signaturesToFetch: string[] = [];
+    const signatureIndexMap: Map<string, number> = new Map();
+
+    // Check cache for each signature
+    const rpcCache = globalCacheManager.getRPCCache();
+    const signatureStrings = signatures.map(sig => sig.signature);
+    const cachedTransactions: (ParsedTransactionWithMeta | null)[] = new Array(signatureStrings.length).fill(null);
+
+    for (let i = 0; i < signatureStrings.length; i++) {
+      const sig = signatureStrings[i];
+      const cached = rpcCache.get(`tx:${sig}`);
+
+      if (cached) {
+        cachedTransactions[i] = cached;
+      } else {
+        signaturesToFetch.push(sig);
+        signatureIndexMap.set(sig, i);
+      }
+    }
+
+    // Fetch uncached transactions in batch
+    if (signaturesToFetch.length > 0) {
+      const fetchedTransactions = await this.connection.getParsedTransactions(
+        signaturesToFetch,
+        {
+          maxSupportedTransactionVersion: 0,
+          commitment: 'confirmed'
+        }
+      );
+
+      // Cache fetched transactions and insert into results
+      for (let i = 0; i < signaturesToFetch.length; i++) {
+        const sig = signaturesToFetch[i];
+        const tx = fetchedTransactions[i];
+
+        if (tx) {
+          rpcCache.set(`tx:${sig}`, tx, 60000); // Cache for 1 minute
+        }
+
+        cachedTransactions[signatureIndexMap.get(sig)!] = tx;
+      }
+    }
+
+    const records: AnnouncementRecord[] = [];
+    for (let i = 0; i < cachedTransactions.length; i++) {
+      const tx = cachedTransactions[i];
+      if (!tx) continue;
+
+      const memos = this._extractMemos(tx, signatureStrings[i]);
+      if (memos.length > 0) {
+        records.push({
+          signature: signatureStrings[i],
+          slot: tx.slot,
+          blockTime: tx.blockTime ?? null,
+          memos,
+          sender: tx.transaction.message.accountKeys[0]?.pubkey.toBase58()
+        });
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Extract the memos of a parsed transaction
+   */
+  private _extractMemos(transaction: ParsedTransactionWithMeta, signature: string): string[] {
+    const memos: string[] = [];
+
+    try {
+      for (const instruction of transaction.transaction.message.instructions) {
+        // Parsed memo instruction
+        if ('program' in instruction && instruction.program === 'spl-memo' && 'parsed' in instruction) {
+          memos.push(instruction.parsed);
+        }
+
+        // Also check raw memo data for backwards compatibility
+        if ('data' in instruction && typeof instruction.data === 'string') {
+          memos.push(Buffer.from(instruction.data, 'base64').toString('utf8'));
+        }
+      }
+    } catch (error) {
+      if (this.options.verbose) {
+        console.warn(`Failed to extract memos from transaction ${signature}:`, error);
+      }
+    }
+
+    return memos;
+  }
+}
+
+/**
+ * Configuration of the HTTP indexer announcement source
+ */
+export interface HttpIndexerConfig {
+  /** Base URL of the indexer API */
+  url: string;
+  /** API key sent in the `X-API-Key` header */
+  apiKey?: string;
+  /** Records requested per page (default: 1000) */
+  pageSize?: number;
+  /** fetch implementation (default: the global `fetch`) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Announcement source querying an indexer service over HTTP
+ *
+ * The indexer implements two JSON endpoints:
+ *
+ * - `GET <url>/slot` returns `{ "slot": <newest indexed slot> }`;
+ * - `GET <url>/announcements?address=&startSlot=&endSlot=[&until=]&limit=[&page=]`
+ *   returns `{ "records": AnnouncementRecord[], "transactionsScanned": number,
+ *   "latest"?: { "signature", "slot" }, "nextPage"?: string }` with the same
+ *   meaning as `AnnouncementBatch`. Pages are followed while `nextPage` is
+ *   set; `latest` is read from the first page.
+ */
+export class HttpIndexerAnnouncementSource implements AnnouncementSource {
+  private config: HttpIndexerConfig;
+
+  constructor(config: HttpIndexerConfig) {
+    this.config = {
+      ...config,
+      url: config.url.replace(/\/+$/, '')
+    };
+  }
+
+  async getSlot(): Promise<number> {
+    const response = await this._get('/slot', new URLSearchParams()) as { slot?: unknown };
+    if (typeof response?.slot !== 'number') {
+      throw new PrivacyError('Invalid announcement indexer response: missing slot');
+    }
+    return response.slot;
+  }
+
+  async getAnnouncements(query: AnnouncementQuery): Promise<AnnouncementBatch> {
+    const params = new URLSearchParams({
+      address: query.address.toBase58(),
+      startSlot: String(query.startSlot),
+      endSlot: String(query.endSlot),
+      limit: String(this.config.pageSize ?? 1000)
+    });
+    if (query.until) {
+      params.set('until', query.until);
+    }
+
+    const batch: AnnouncementBatch = { records: [], transactionsScanned: 0 };
+    let first = true;
+    while (true) {
+      const page = this._parsePage(await this._get('/announcements', params));
+      batch.records.push(...page.records);
+      batch.transactionsScanned += page.transactionsScanned;
+      if (first) {
+        batch.latest = page.latest;
+        first = false;
+      }
+
+      if (!page.nextPage) {
+        return batch;
+      }
+      params.set('page', page.nextPage);
+    }
+  }
+
+  private async _get(path: string, params: URLSearchParams): Promise<unknown> {
+    const fetchImpl = this.config.fetch ?? fetch;
+    const query = params.toString();
+    let response: Response;
+    try {
+      response = await fetchImpl(`${this.config.url}${path}${query ? `?${query}` : ''}`, {
+        headers: {
+          Accept: 'application/json',
+          ...(this.config.apiKey && { 'X-API-Key': this.config.apiKey })
+        }
+      });
+    } catch (error) {
+      throw new PrivacyError(
+        `Announcement indexer request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    if (!response.ok) {
+      throw new PrivacyError(`Announcement indexer returned ${response.status}`);
+    }
+    return await response.json();
+  }
+
+  private _parsePage(body: unknown): AnnouncementBatch & { nextPage?: string } {
+    const page = body as Partial<AnnouncementBatch> & { nextPage?: unknown };
+    const valid =
+      Array.isArray(page?.records) &&
+      typeof page.transactionsScanned === 'number' &&
+      page.records.every(
+        record =>
+          typeof record?.signature === 'string' &&
+          typeof record.slot === 'number' &&
+          (record.blockTime === null || typeof record.blockTime === 'number') &&
+          Array.isArray(record.memos) &&
+          record.memos.every(memo => typeof memo === 'string') &&
+          (record.sender === undefined || typeof record.sender === 'string')
+      ) &&
+      (page.latest === undefined || (typeof page.latest.signature === 'string' && typeof page.latest.slot === 'number')) &&
+      (page.nextPage === undefined || typeof page.nextPage === 'string');
+
+    if (!valid) {
+      throw new PrivacyError('Invalid announcement indexer response');
+    }
+    return page as AnnouncementBatch & { nextPage?: string };
+  }
+}
+
+/**
+ * Transaction served by `InMemoryAnnouncementSource`
+ */
+export interface AnnouncementFixture extends AnnouncementRecord {
+  /** Addresses whose history includes the transaction (e.g. the announcer program and the stealth address) */
+  addresses: PublicKey[];
+  /** The transaction failed (it counts for cursors but announces nothing) */
+  failed?: boolean;
+}
+
+/**
+ * Announcement source serving fixed transactions from memory
+ *
+ * Transactions are ordered by slot, and by insertion within a slot; the
+ * current slot is the newest slot of any transaction.
+ */
+export class InMemoryAnnouncementSource implements AnnouncementSource {
+  private fixtures: AnnouncementFixture[] = [];
+
+  constructor(fixtures: AnnouncementFixture[] = []) {
+    fixtures.forEach(fixture => this.add(fixture));
+  }
+
+  /**
+   * Add a transaction
+   */
+  add(fixture: AnnouncementFixture): void {
+    this.fixtures.push(fixture);
+  }
+
+  async getSlot(): Promise<number> {
+    return this.fixtures.reduce((slot, fixture) => Math.max(slot, fixture.slot), 0);
+  }
+
+  async getAnnouncements(query: AnnouncementQuery): Promise<AnnouncementBatch> {
+    // Newest first; the later of two transactions in a slot was added last
+    const history = this.fixtures
+      .map((fixture, index) => ({ fixture, index }))
+      .filter(({ fixture }) => fixture.addresses.some(address => address.equals(query.address)))
+      .sort((a, b) => b.fixture.slot - a.fixture.slot || b.index - a.index)
+      .map(({ fixture }) => fixture);
+
+    const until = query.until ? history.findIndex(fixture => fixture.signature === query.until) : -1;
+    const inRange = (until >= 0 ? history.slice(0, until) : history).filter(
+      fixture => fixture.slot >= query.startSlot && fixture.slot <= query.endSlot
+    );
+    const succeeded = inRange.filter(fixture => !fixture.failed);
+
+    return {
+      records: succeeded
+        .filter(fixture => fixture.memos.length > 0)
+        .map(({ signature, slot, blockTime, memos, sender }) => ({ signature, slot, blockTime, memos, sender })),
+      transactionsScanned: succeeded.length,
+      latest: inRange.length > 0 ? { signature: inRange[0].signature, slot: inRange[0].slot } : undefined
+    };
+  }
+}
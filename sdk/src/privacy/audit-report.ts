@@ -0,0 +1,388 @@
+/**
+ * privacy/audit-report.ts
+ *
+ * Purpose: Batch audit reports of an account's confidential history
+ *
+ * `AuditReportBuilder` walks the signatures of a token account over a slot
+ * range, decodes every confidential Deposit, Withdraw and Transfer touching
+ * the account and decrypts transfer amounts with an auditor viewing key. The
+ * result lists one row per movement, oldest first, with the running total
+ * confidential balance (pending + available) after each row.
+ *
+ * Reports are deterministic: the same chain history, key and range always
+ * produce byte-identical JSON and CSV. The report body is hashed with SHA-256
+ * and the digest is signed with the builder's wallet, so a report can be
+ * checked for tampering with `AuditReportBuilder.verify`.
+ *
+ * Movements the key may not see, or cannot decrypt, are not guessed at: their
+ * transaction signatures are listed in `skippedSignatures` and the running
+ * balance is computed without them.
+ */
+
+import { ConfirmedSignatureInfo, Connection, PublicKey } from '@solana/web3.js';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+import { ViewingKey } from './types';
+import { PrivacyError, ViewingKeyError } from './errors';
+import { ExtendedWalletAdapter } from '../core/types';
+import { signWalletMessage, verifyMessage } from '../core/message-signing';
+import { ViewingKeyManager } from './viewing-keys';
+import { RevocationRegistry } from './revocation-registry';
+import { decodeConfidentialActivity } from './confidential-activity';
+
+/**
+ * Kind of balance movement in an audit report
+ */
+export type AuditEntryType = 'deposit' | 'withdraw' | 'transfer-in' | 'transfer-out';
+
+/**
+ * One balance movement of the audited account
+ */
+export interface AuditReportEntry {
+  /** Transaction signature */
+  signature: string;
+  /** Slot the transaction landed in */
+  slot: number;
+  /** Block time in seconds (null if unknown) */
+  blockTime: number | null;
+  /** Index of the instruction in the transaction */
+  instructionIndex: number;
+  /** Kind of movement */
+  type: AuditEntryType;
+  /** Mint of the account */
+  mint: PublicKey;
+  /** Other token account of a transfer (null for deposits and withdrawals) */
+  counterparty: PublicKey | null;
+  /** Amount in base units */
+  amount: bigint;
+  /** Confidential balance after this movement */
+  balance: bigint;
+}
+
+/**
+ * Signed audit report of one account
+ */
+export interface AuditReport {
+  /** Audited token account */
+  account: PublicKey;
+  /** Public key of the viewing key used for decryption */
+  viewingKey: PublicKey;
+  /** First slot included (null for the start of history) */
+  fromSlot: number | null;
+  /** Last slot included (null for the latest slot) */
+  toSlot: number | null;
+  /** Confidential balance before the first entry */
+  openingBalance: bigint;
+  /** Confidential balance after the last entry */
+  closingBalance: bigint;
+  /** Balance movements, oldest first */
+  entries: AuditReportEntry[];
+  /** Transactions with movements that could not be included */
+  skippedSignatures: string[];
+  /** SHA-256 digest of the report body */
+  digest: Uint8Array;
+  /** Wallet that signed the digest */
+  signer: PublicKey;
+  /** Ed25519 signature of the digest */
+  signature: Uint8Array;
+}
+
+/**
+ * Options for building an audit report
+ */
+export interface AuditReportOptions {
+  /** First slot to include (default: start of history) */
+  fromSlot?: number;
+  /** Last slot to include (default: latest) */
+  toSlot?: number;
+  /** Confidential balance at the start of the range (default: 0) */
+  openingBalance?: bigint;
+  /** Signatures requested per RPC page (default: 1000) */
+  pageSize?: number;
+}
+
+const CSV_COLUMNS = [
+  'signature',
+  'slot',
+  'block_time',
+  'instruction_index',
+  'type',
+  'mint',
+  'counterparty',
+  'amount',
+  'balance'
+];
+
+/**
+ * AuditReportBuilder reconciles the confidential history of an account
+ *
+ * The viewing key must hold the mint's auditor ElGamal secret key (see
+ * `ViewingKeyManager.decryptTransactionAmount`), since transfer amounts are
+ * only encrypted for the source, the destination and the auditor.
+ */
+export class AuditReportBuilder {
+  private connection: Connection;
+  private wallet: ExtendedWalletAdapter;
+  private viewingKeyManager: ViewingKeyManager;
+
+  /**
+   * @param connection - Connection used to walk signatures and fetch transactions
+   * @param wallet - Wallet that signs report digests
+   * @param revocationRegistry - Registry of revoked viewing keys
+   */
+  constructor(
+    connection: Connection,
+    wallet: ExtendedWalletAdapter,
+    revocationRegistry?: RevocationRegistry
+  ) {
+    this.connection = connection;
+    this.wallet = wallet;
+    this.viewingKeyManager = new ViewingKeyManager(wallet, connection, revocationRegistry);
+  }
+
+  /**
+   * Build a signed audit report for an account
+   *
+   * @param viewingKey - Auditor viewing key with permission to view amounts
+   * @param account - Token account to audit
+   * @param options - Slot range and opening balance
+   * @returns Signed report
+   */
+  async build(
+    viewingKey: ViewingKey,
+    account: PublicKey,
+    options: AuditReportOptions = {}
+  ): Promise<AuditReport> {
+    if (!this.viewingKeyManager.isViewingKeyValid(viewingKey)) {
+      throw new ViewingKeyError('Viewing key is expired or invalid');
+    }
+    if (!viewingKey.permissions.canViewAmounts) {
+      throw new ViewingKeyError('Viewing key does not have permission to view transaction amounts');
+    }
+    if (await this.viewingKeyManager.isViewingKeyRevoked(viewingKey)) {
+      throw new ViewingKeyError('Viewing key has been revoked');
+    }
+    if (
+      options.fromSlot !== undefined &&
+      options.toSlot !== undefined &&
+      options.fromSlot > options.toSlot
+    ) {
+      throw new PrivacyError(`Invalid slot range: ${options.fromSlot} > ${options.toSlot}`);
+    }
+
+    try {
+      const openingBalance = options.openingBalance ?? 0n;
+      const entries: AuditReportEntry[] = [];
+      const skippedSignatures: string[] = [];
+      let balance = openingBalance;
+
+      const signatures = await this._getSignatures(account, options);
+      for (const { signature } of signatures) {
+        const transaction = await this.connection.getTransaction(signature, {
+          commitment: 'confirmed',
+          maxSupportedTransactionVersion: 0
+        });
+        if (!transaction) {
+          skippedSignatures.push(signature);
+          continue;
+        }
+
+        let skipped = false;
+        for (const activity of decodeConfidentialActivity(transaction)) {
+          const base = {
+            signature,
+            slot: transaction.slot,
+            blockTime: transaction.blockTime ?? null,
+            instructionIndex: activity.instructionIndex,
+            mint: activity.mint
+          };
+
+          if (activity.type !== 'transfer') {
+            if (!activity.account.equals(account)) continue;
+            if (!this._canAccess(viewingKey, [account, activity.mint])) {
+              skipped = true;
+              continue;
+            }
+            balance += activity.type === 'deposit' ? activity.amount : -activity.amount;
+            entries.push({ ...base, type: activity.type, counterparty: null, amount: activity.amount, balance });
+            continue;
+          }
+
+          const outgoing = activity.source.equals(account);
+          const incoming = activity.destination.equals(account);
+          if (!outgoing && !incoming) continue;
+
+          let amount: bigint;
+          try {
+            amount = await this.viewingKeyManager.decryptTransferAmount(activity, viewingKey);
+          } catch {
+            skipped = true;
+            continue;
+          }
+          if (outgoing) {
+            balance -= amount;
+            entries.push({ ...base, type: 'transfer-out', counterparty: activity.destination, amount, balance });
+          }
+          if (incoming) {
+            balance += amount;
+            entries.push({ ...base, type: 'transfer-in', counterparty: activity.source, amount, balance });
+          }
+        }
+        if (skipped) {
+          skippedSignatures.push(signature);
+        }
+      }
+
+      const body = {
+        account,
+        viewingKey: viewingKey.publicKey,
+        fromSlot: options.fromSlot ?? null,
+        toSlot: options.toSlot ?? null,
+        openingBalance,
+        closingBalance: balance,
+        entries,
+        skippedSignatures
+      };
+      const digest = sha256(new TextEncoder().encode(AuditReportBuilder._serializeBody(body)));
+
+      return {
+        ...body,
+        digest,
+        signer: this.wallet.publicKey,
+        signature: await signWalletMessage(this.wallet, digest)
+      };
+
+    } catch (error) {
+      throw new PrivacyError(
+        `Failed to build audit report: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Render a report as JSON
+   *
+   * Amounts are decimal strings, keys base58 and digest and signature hex.
+   */
+  static toJSON(report: AuditReport): string {
+    return JSON.stringify({
+      ...JSON.parse(AuditReportBuilder._serializeBody(report)),
+      digest: bytesToHex(report.digest),
+      signer: report.signer.toBase58(),
+      signature: bytesToHex(report.signature)
+    }, null, 2);
+  }
+
+  /**
+   * Render a report as CSV
+   *
+   * Report metadata, including the digest and its signature, precedes the
+   * rows as `# key: value` comment lines.
+   */
+  static toCSV(report: AuditReport): string {
+    const metadata: [string, string][] = [
+      ['account', report.account.toBase58()],
+      ['viewing_key', report.viewingKey.toBase58()],
+      ['from_slot', report.fromSlot?.toString() ?? ''],
+      ['to_slot', report.toSlot?.toString() ?? ''],
+      ['opening_balance', report.openingBalance.toString()],
+      ['closing_balance', report.closingBalance.toString()],
+      ['skipped_signatures', report.skippedSignatures.join(' ')],
+      ['digest', bytesToHex(report.digest)],
+      ['signer', report.signer.toBase58()],
+      ['signature', bytesToHex(report.signature)]
+    ];
+    const rows = report.entries.map(entry => [
+      entry.signature,
+      entry.slot.toString(),
+      entry.blockTime?.toString() ?? '',
+      entry.instructionIndex.toString(),
+      entry.type,
+      entry.mint.toBase58(),
+      entry.counterparty?.toBase58() ?? '',
+      entry.amount.toString(),
+      entry.balance.toString()
+    ].join(','));
+
+    return [
+      ...metadata.map(([key, value]) => `# ${key}: ${value}`),
+      CSV_COLUMNS.join(','),
+      ...rows
+    ].join('\n') + '\n';
+  }
+
+  /**
+   * Check that a report's digest matches its body and is signed by its signer
+   */
+  static verify(report: AuditReport): boolean {
+    try {
+      const digest = sha256(new TextEncoder().encode(AuditReportBuilder._serializeBody(report)));
+      return bytesToHex(digest) === bytesToHex(report.digest) &&
+        verifyMessage(report.digest, report.signature, report.signer);
+    } catch {
+      return false;
+    }
+  }
+
+  // Private helper methods
+
+  /**
+   * Walk the account's successful signatures in the slot range, oldest first
+   */
+  private async _getSignatures(
+    account: PublicKey,
+    options: AuditReportOptions
+  ): Promise<ConfirmedSignatureInfo[]> {
+    const pageSize = options.pageSize ?? 1000;
+    const signatures: ConfirmedSignatureInfo[] = [];
+    let before: string | undefined;
+
+    // Signatures come newest first, so stop at the first one below the range
+    while (true) {
+      const page = await this.connection.getSignaturesForAddress(account, { before, limit: pageSize }, 'confirmed');
+      for (const info of page) {
+        if (options.fromSlot !== undefined && info.slot < options.fromSlot) {
+          return signatures.reverse();
+        }
+        if ((options.toSlot === undefined || info.slot <= options.toSlot) && !info.err) {
+          signatures.push(info);
+        }
+      }
+      if (page.length < pageSize) {
+        return signatures.reverse();
+      }
+      before = page[page.length - 1].signature;
+    }
+  }
+
+  private _canAccess(viewingKey: ViewingKey, accounts: PublicKey[]): boolean {
+    return accounts.some(account => this.viewingKeyManager.canAccessAccount(viewingKey, account));
+  }
+
+  /**
+   * Canonical JSON of the signed part of a report
+   */
+  private static _serializeBody(report: Omit<AuditReport, 'digest' | 'signer' | 'signature'>): string {
+    return JSON.stringify({
+      account: report.account.toBase58(),
+      viewingKey: report.viewingKey.toBase58(),
+      fromSlot: report.fromSlot,
+      toSlot: report.toSlot,
+      openingBalance: report.openingBalance.toString(),
+      closingBalance: report.closingBalance.toString(),
+      entries: report.entries.map(entry => ({
+        signature: entry.signature,
+        slot: entry.slot,
+        blockTime: entry.blockTime,
+        instructionIndex: entry.instructionIndex,
+        type: entry.type,
+        mint: entry.mint.toBase58(),
+        counterparty: entry.counterparty?.toBase58() ?? null,
+        amount: entry.amount.toString(),
+        balance: entry.balance.toString()
+      })),
+      skippedSignatures: report.skippedSignatures
+    });
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * privacy/authenticated-encryption.ts
+ *
+ * Purpose: Authenticated encryption of balances for Token 2022 confidential accounts
+ *
+ * ElGamal decryption needs a discrete log and only works for small values,
+ * so confidential accounts also store their available balance as an AES-128-GCM-SIV
+ * ciphertext ("decryptable balance") that the owner can decrypt instantly.
+ * This module matches `solana-zk-sdk`'s `AeKey` / `AeCiphertext`:
+ *
+ * - Key: 16 bytes, derived from a wallet signature over `"AeKey" || publicSeed`
+ * - Ciphertext: nonce (12) || AES-128-GCM-SIV(amount as u64 LE) with tag (24) = 36 bytes
+ */
+
+import { gcmsiv } from '@noble/ciphers/aes';
+import { sha3_512 } from '@noble/hashes/sha3';
+import { concatBytes, randomBytes } from '@noble/hashes/utils';
+import { EncryptionError } from './errors';
+
+/** Length of an AE key */
+export const AE_KEY_LENGTH = 16;
+/** Length of an AE nonce */
+export const AE_NONCE_LENGTH = 12;
+/** Length of an encoded AE ciphertext */
+export const AE_CIPHERTEXT_LENGTH = 36;
+
+/**
+ * Generate a random AE key
+ */
+export function generateAeKey(): Uint8Array {
+  return randomBytes(AE_KEY_LENGTH);
+}
+
+/**
+ * Derive an AE key from a seed (`AeKey::from_seed`)
+ *
+ * @param seed - At least 16 bytes of secret seed material
+ */
+export function aeKeyFromSeed(seed: Uint8Array): Uint8Array {
+  if (seed.length < AE_KEY_LENGTH || seed.length > 65535) {
+    throw new EncryptionError(`Invalid AE key seed length: ${seed.length}`);
+  }
+  return sha3_512(seed).slice(0, AE_KEY_LENGTH);
+}
+
+/**
+ * Derive an AE key from a wallet signature
+ *
+ * The signature must be over `"AeKey" || publicSeed`, exactly as
+ * `AeKey::new_from_signer` signs it. Use `deriveAeKey` to have a wallet
+ * produce the signature.
+ *
+ * @param signature - 64-byte ed25519 signature
+ */
+export function aeKeyFromSignature(signature: Uint8Array): Uint8Array {
+  if (signature.length !== 64) {
+    throw new EncryptionError(`Invalid signature length: expected 64 bytes, got ${signature.length}`);
+  }
+  if (signature.every(byte => byte === 0)) {
+    throw new EncryptionError('Rejecting default signature for key derivation');
+  }
+  return aeKeyFromSeed(sha3_512(signature));
+}
+
+/**
+ * Encrypt an amount under an AE key
+ *
+ * @param key - 16-byte AE key
+ * @param amount - Amount to encrypt (u64)
+ * @returns Encoded ciphertext (36 bytes)
+ */
+export function aeEncrypt(key: Uint8Array, amount: bigint): Uint8Array {
+  assertKey(key);
+  if (amount < 0n || amount > 0xffffffffffffffffn) {
+    throw new EncryptionError(`Amount ${amount} does not fit in a u64`);
+  }
+
+  const plaintext = Buffer.alloc(8);
+  plaintext.writeBigUInt64LE(amount);
+
+  const nonce = randomBytes(AE_NONCE_LENGTH);
+  return concatBytes(nonce, gcmsiv(key, nonce).encrypt(plaintext));
+}
+
+/**
+ * Decrypt an AE ciphertext
+ *
+ * @param key - 16-byte AE key
+ * @param ciphertext - Encoded ciphertext (36 bytes)
+ * @returns The decrypted amount
+ * @throws EncryptionError if the key is wrong or the ciphertext was tampered with
+ */
+export function aeDecrypt(key: Uint8Array, ciphertext: Uint8Array): bigint {
+  assertKey(key);
+  if (ciphertext.length !== AE_CIPHERTEXT_LENGTH) {
+    throw new EncryptionError(
+      `Invalid AE ciphertext length: expected ${AE_CIPHERTEXT_LENGTH} bytes, got ${ciphertext.length}`
+    );
+  }
+
+  const nonce = ciphertext.slice(0, AE_NONCE_LENGTH);
+  let plaintext: Uint8Array;
+  try {
+    plaintext = gcmsiv(key, nonce).decrypt(ciphertext.slice(AE_NONCE_LENGTH));
+  } catch (error) {
+    throw new EncryptionError('AE ciphertext authentication failed', error instanceof Error ? error : undefined);
+  }
+
+  return Buffer.from(plaintext).readBigUInt64LE(0);
+}
+
+function assertKey(key: Uint8Array): void {
+  if (key.length !== AE_KEY_LENGTH) {
+    throw new EncryptionError(`Invalid AE key length: expected ${AE_KEY_LENGTH} bytes, got ${key.length}`);
+  }
+}
@@ -9,25 +9,110 @@
  * 
  * Ephemeral Key Storage Format (in transaction memo):
  * ```
- * STEALTH:<base58_ephemeral_public_key>:<optional_metadata>
+ * STEALTH:<base58_ephemeral_public_key>:<optional_metadata>           (v1)
+ * STEALTH:<base58_ephemeral_public_key>:v2:<view_tag>                 (v2)
+ * STEALTH:<base58_ephemeral_public_key>:v3:<view_tag>:<commitment>    (v3)
  * ```
  * 
  * Example:
  * ```
  * STEALTH:9WzDXwBbmkg8ZTXIdHqEyqndFNEbEkFqBGrpGHYqw8Ga:v1
+ * STEALTH:9WzDXwBbmkg8ZTXIdHqEyqndFNEbEkFqBGrpGHYqw8Ga:v2:3f
+ * STEALTH:9WzDXwBbmkg8ZTXIdHqEyqndFNEbEkFqBGrpGHYqw8Ga:v3:3f:8c1d0f5e2b7a94c6d3e1f0a9b8c7d6e5
  * ```
  * 
+ * The v2 view tag is one byte of the sender/recipient shared secret (two hex
+ * digits). A recipient compares it after the ECDH step and skips the stealth
+ * address derivation and on-chain checks for the ~255/256 announcements that
+ * are not theirs. v1 memos carry no tag and are always fully checked.
+ * 
+ * The v3 commitment (16 bytes, hex) binds the announcement to the transfer:
+ * it hashes the shared secret with the stealth address, mint and amount, so
+ * the recipient can check after ECDH that the announcing transaction really
+ * paid that amount to that address. Anyone can post a `STEALTH:` memo with a
+ * random key; a spoofed announcement fails the check and is dropped.
+ * 
+ * Announcements can also be filtered before they are checked (`spamFilter`):
+ * by fee payer, by count per slot, and by requiring a commitment.
+ * 
+ * Without a stealth address, the scanner pages through the signatures of the
+ * announcer program (the Memo program by default) over the slot range, which
+ * is how a recipient who does not know their stealth addresses yet finds
+ * every announcement and tries it against their view key.
+ * 
+ * With a `ScanCursorStore`, scans are incremental: each scan resumes after
+ * the newest transaction the previous scan of the same address processed.
+ * 
+ * Transactions are read through an `AnnouncementSource`: the Solana RPC by
+ * default, or an indexer service (see `announcement-source.ts`).
+ * 
  * Future Enhancements:
  * - On-chain program for efficient ephemeral key storage
- * - Dedicated indexer service with RPC API
- * - WebSocket support for real-time scanning
  * - Parallel scanning across multiple RPC nodes
  */
 
-import { Connection, PublicKey, ParsedTransactionWithMeta, ConfirmedSignatureInfo } from '@solana/web3.js';
+import {
+  Connection,
+  Logs,
+  PublicKey,
+  TransactionInstruction
+} from '@solana/web3.js';
 import { EphemeralKey } from './types';
 import { PrivacyError } from './errors';
 import { globalCacheManager, ScanCache } from '../core/cache';
+import { ScanCursor, ScanCursorStore } from './scan-cursor';
+import { AnnouncementRecord, AnnouncementSource, RpcAnnouncementSource } from './announcement-source';
+
+/** SPL Memo program (v2) used to publish ephemeral keys */
+export const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+const VIEW_TAG_PATTERN = /^[0-9a-f]{2}$/;
+
+/** Length in bytes of the v3 announcement commitment */
+export const ANNOUNCEMENT_COMMITMENT_LENGTH = 16;
+
+const COMMITMENT_PATTERN = new RegExp(`^[0-9a-f]{${ANNOUNCEMENT_COMMITMENT_LENGTH * 2}}$`);
+
+/** Log line of the Memo program: `Program log: Memo (len <n>): "<memo>"` */
+const MEMO_LOG_PATTERN = /^Program log: Memo \(len \d+\): "(.*)"$/;
+const PROGRAM_LOG_PREFIX = 'Program log: ';
+
+/**
+ * Stealth announcement parsed from a `STEALTH:` memo
+ */
+export interface StealthAnnouncement {
+  /** Ephemeral public key of the payment */
+  ephemeralPublicKey: PublicKey;
+  /** Memo format version */
+  version: 1 | 2 | 3;
+  /** View tag (v2 and v3 memos) */
+  viewTag?: number;
+  /** Commitment to the stealth address, mint and amount (v3 memos only) */
+  commitment?: Uint8Array;
+}
+
+/**
+ * Spam filters applied to stealth announcements
+ */
+export interface AnnouncementFilter {
+  /** Ignore announcements without a commitment (v1 and v2 memos) */
+  requireCommitment?: boolean;
+  /**
+   * Announcements kept per slot, oldest first; the rest of a flooded slot is
+   * dropped before any ECDH
+   */
+  maxAnnouncementsPerSlot?: number;
+  /**
+   * Ignore transactions paid for by these fee payers (applies when the
+   * announcement source reports the fee payer)
+   */
+  senderDenylist?: PublicKey[];
+  /**
+   * Minimum lamports a payment without tokens must deliver; checked when
+   * payments are verified on-chain
+   */
+  minLamports?: number;
+}
 
 /**
  * Configuration for blockchain scanning
@@ -45,6 +130,45 @@ export interface ScannerConfig {
   enableParallelProcessing?: boolean;
   /** Maximum number of parallel batches */
   maxParallelBatches?: number;
+  /**
+   * Program whose signatures are scanned when no stealth address is given
+   * (default: the Memo program). Announcements are read from the memos of
+   * its transactions.
+   */
+  announcerProgramId?: PublicKey;
+  /**
+   * Store of scan cursors. When set, a scan resumes after the newest
+   * transaction processed by the previous scan with the same cursor key
+   * (`startSlot` only applies to the first scan) and results are not cached.
+   */
+  cursorStore?: ScanCursorStore;
+  /**
+   * Backend the transactions are read from (default: the RPC of the
+   * connection passed to each scan). `batchSize` and the parallel processing
+   * options only apply to the default, and scans of a configured source are
+   * not cached.
+   */
+  announcementSource?: AnnouncementSource;
+  /** Spam filters applied to the announcements found (default: none) */
+  spamFilter?: AnnouncementFilter;
+}
+
+type ScannerOptions = Required<Omit<ScannerConfig, 'cursorStore' | 'announcementSource' | 'spamFilter'>>;
+
+/**
+ * Cursor options of an incremental scan
+ */
+export interface IncrementalScanOptions {
+  /**
+   * Qualifies the cursor of the scanned address (e.g. a view key), so several
+   * recipients can scan the same announcer program independently
+   */
+  cursorKey?: string;
+  /**
+   * Save the cursor when the scan completes (default: true). Pass false to
+   * save `ScanResult.cursor` with `saveCursor` only once the keys are processed.
+   */
+  saveCursor?: boolean;
 }
 
 /**
@@ -59,6 +183,16 @@ interface CachedScan {
   lastSlot: number;
 }
 
+/**
+ * Scan of a slot range kept in the global scan cache, before spam filtering
+ */
+interface CachedAnnouncements {
+  /** Announcement transactions found, newest first */
+  records: AnnouncementRecord[];
+  /** Number of transactions scanned */
+  transactionsScanned: number;
+}
+
 /**
  * Transaction scan result
  */
@@ -73,6 +207,8 @@ export interface ScanResult {
   endSlot: number;
   /** Scan duration in milliseconds */
   duration: number;
+  /** Cursor reached by the scan (with a cursor store) */
+  cursor?: ScanCursor;
 }
 
 /**
@@ -82,133 +218,158 @@ export interface ScanResult {
  * by scanning transaction memos on the Solana blockchain.
  */
 export class BlockchainScanner {
-  private config: Required<ScannerConfig>;
+  private config: ScannerOptions;
+  private cursorStore?: ScanCursorStore;
+  private announcementSource?: AnnouncementSource;
+  private filter: AnnouncementFilter;
   private cache: Map<string, CachedScan>;
   
   /**
    * Default configuration values
    */
-  private static readonly DEFAULT_CONFIG: Required<ScannerConfig> = {
+  private static readonly DEFAULT_CONFIG: ScannerOptions = {
     batchSize: 100,
     cacheExpirationMs: 60000, // 1 minute
     maxScanDepth: 10000, // ~10000 slots = ~1 hour of history
     verbose: false,
     enableParallelProcessing: true,
-    maxParallelBatches: 3
+    maxParallelBatches: 3,
+    announcerProgramId: MEMO_PROGRAM_ID
   };
 
   constructor(config?: ScannerConfig) {
+    const { cursorStore, announcementSource, spamFilter, ...options } = config ?? {};
     this.config = {
       ...BlockchainScanner.DEFAULT_CONFIG,
-      ...config
+      ...options
     };
+    this.cursorStore = cursorStore;
+    this.announcementSource = announcementSource;
+    this.filter = spamFilter ?? {};
     this.cache = new Map();
   }
 
+  /**
+   * Program whose transactions are scanned when no stealth address is given
+   */
+  get announcerProgramId(): PublicKey {
+    return this.config.announcerProgramId;
+  }
+
+  /**
+   * Spam filters of the scanner (`minLamports` is applied by the payment check)
+   */
+  get spamFilter(): AnnouncementFilter {
+    return this.filter;
+  }
+
   /**
    * Scan blockchain for ephemeral keys in a slot range
    * 
-   * @param connection - Solana connection
-   * @param stealthAddress - Stealth address to scan for (optional, scans all if not provided)
+   * Without a stealth address, every announcement made through the announcer
+   * program in the range is returned. Failed transactions are skipped.
+   * 
+   * With a cursor store, only transactions newer than the saved cursor are
+   * scanned, and the cursor then moves to the newest transaction in the range.
+   * 
+   * The `spamFilter` applies to the announcements returned; filtered
+   * transactions still count as scanned and still move the cursor.
+   * 
+   * @param connection - Solana connection (unused with a configured `announcementSource`)
+   * @param stealthAddress - Stealth address to scan for (optional, scans all announcements if not provided)
    * @param startSlot - Starting slot for scan
-   * @param endSlot - Ending slot for scan (defaults to current slot)
+   * @param endSlot - Ending slot for scan (defaults to the source's current slot)
+   * @param options - Cursor key and saving of incremental scans
    * @returns Scan result with found ephemeral keys
    */
   async scanForEphemeralKeys(
     connection: Connection,
     stealthAddress?: PublicKey,
     startSlot?: number,
-    endSlot?: number
+    endSlot?: number,
+    options: IncrementalScanOptions = {}
   ): Promise<ScanResult> {
     const startTime = Date.now();
     
     try {
+      const scannedAddress = stealthAddress ?? this.config.announcerProgramId;
+      const cursorId = BlockchainScanner.makeCursorKey(scannedAddress, options.cursorKey);
+      const cursor = this.cursorStore ? await this.cursorStore.get(cursorId) : null;
+      const source = this.announcementSource ?? new RpcAnnouncementSource(connection, {
+        batchSize: this.config.batchSize,
+        enableParallelProcessing: this.config.enableParallelProcessing,
+        maxParallelBatches: this.config.maxParallelBatches,
+        verbose: this.config.verbose
+      });
+
       // Get current slot if endSlot not provided
-      const currentSlot = await connection.getSlot('confirmed');
-      const scanEndSlot = endSlot || currentSlot;
-      const scanStartSlot = startSlot || Math.max(0, scanEndSlot - this.config.maxScanDepth);
+      const scanEndSlot = endSlot || await source.getSlot();
+      const scanStartSlot = cursor
+        ? cursor.slot
+        : startSlot || Math.max(0, scanEndSlot - this.config.maxScanDepth);
 
       if (this.config.verbose) {
         console.log(`🔍 Scanning slots ${scanStartSlot} to ${scanEndSlot} for ephemeral keys`);
       }
 
-      // Check cache first using global cache manager
-      const cacheKey = ScanCache.makeKey(stealthAddress, scanStartSlot, scanEndSlot);
+      // Check cache first using global cache manager. Incremental scans and
+      // configured sources are not cached: the key only identifies the RPC
+      // history of an address. The cache holds the unfiltered transactions,
+      // since scanners sharing it may use different spam filters.
+      const useCache = !this.cursorStore && !this.announcementSource;
+      const cacheKey = ScanCache.makeKey(scannedAddress, scanStartSlot, scanEndSlot);
       const scanCache = globalCacheManager.getScanCache();
-      const cached = scanCache.get(cacheKey);
+      const cached: CachedAnnouncements | undefined = useCache ? scanCache.get(cacheKey) : undefined;
       
       if (cached) {
+        const ephemeralKeys = this._applySpamFilter(cached.records);
         if (this.config.verbose) {
-          console.log(`✓ Using cached scan results (${cached.ephemeralKeys.length} keys)`);
+          console.log(`✓ Using cached scan results (${ephemeralKeys.length} keys)`);
         }
         return {
-          ...cached,
+          ephemeralKeys,
+          transactionsScanned: cached.transactionsScanned,
+          startSlot: scanStartSlot,
+          endSlot: scanEndSlot,
           duration: Date.now() - startTime
         };
       }
 
-      // Scan transactions
-      const ephemeralKeys: EphemeralKey[] = [];
-      let transactionsScanned = 0;
-
-      if (stealthAddress) {
-        // Scan transactions for specific stealth address
-        const signatures = await this._getSignaturesForAddress(
-          connection,
-          stealthAddress,
-          scanStartSlot,
-          scanEndSlot
-        );
-
-        transactionsScanned = signatures.length;
+      // Scan transactions of the stealth address, or of the announcer program
+      const batch = await source.getAnnouncements({
+        address: scannedAddress,
+        startSlot: scanStartSlot,
+        endSlot: scanEndSlot,
+        until: cursor?.signature
+      });
+      const ephemeralKeys = this._applySpamFilter(batch.records);
+      const transactionsScanned = batch.transactionsScanned;
 
-        if (this.config.verbose) {
-          console.log(`Found ${signatures.length} transactions for address ${stealthAddress.toBase58()}`);
-        }
+      if (this.config.verbose) {
+        console.log(`Found ${transactionsScanned} transactions for address ${scannedAddress.toBase58()}`);
+      }
 
-        // Process transactions in batches with optional parallelization
-        if (this.config.enableParallelProcessing && signatures.length > this.config.batchSize) {
-          // Parallel processing for better performance
-          const batches: ConfirmedSignatureInfo[][] = [];
-          for (let i = 0; i < signatures.length; i += this.config.batchSize) {
-            batches.push(signatures.slice(i, i + this.config.batchSize));
-          }
-
-          // Process batches in parallel with concurrency limit
-          for (let i = 0; i < batches.length; i += this.config.maxParallelBatches) {
-            const parallelBatches = batches.slice(i, i + this.config.maxParallelBatches);
-            const results = await Promise.all(
-              parallelBatches.map(batch => this._processTransactionBatch(connection, batch))
-            );
-            results.forEach(batchKeys => ephemeralKeys.push(...batchKeys));
-          }
-        } else {
-          // Sequential processing for smaller sets
-          for (let i = 0; i < signatures.length; i += this.config.batchSize) {
-            const batch = signatures.slice(i, i + this.config.batchSize);
-            const batchKeys = await this._processTransactionBatch(connection, batch);
-            ephemeralKeys.push(...batchKeys);
-          }
-        }
-      } else {
-        // Without a specific address, we can't efficiently scan all transactions
-        // This would require an indexer service in production
-        if (this.config.verbose) {
-          console.warn('⚠️  Scanning without specific address is not supported in MVP');
-          console.warn('    Consider using an indexer service for full blockchain scanning');
+      // Advance the cursor only once every transaction has been processed
+      let nextCursor = cursor ?? undefined;
+      if (this.cursorStore && batch.latest) {
+        nextCursor = {
+          key: cursorId,
+          signature: batch.latest.signature,
+          slot: batch.latest.slot,
+          updatedAt: Date.now()
+        };
+        if (options.saveCursor ?? true) {
+          await this.cursorStore.put(nextCursor);
         }
+      } else if (useCache) {
+        // Cache results using global cache manager
+        const resultToCache: CachedAnnouncements = {
+          records: batch.records,
+          transactionsScanned
+        };
+        scanCache.set(cacheKey, resultToCache, this.config.cacheExpirationMs);
       }
 
-      // Cache results using global cache manager
-      const resultToCache = {
-        ephemeralKeys,
-        transactionsScanned,
-        startSlot: scanStartSlot,
-        endSlot: scanEndSlot,
-        duration: Date.now() - startTime
-      };
-      scanCache.set(cacheKey, resultToCache, this.config.cacheExpirationMs);
-
       const duration = Date.now() - startTime;
 
       if (this.config.verbose) {
@@ -220,7 +381,8 @@ export class BlockchainScanner {
         transactionsScanned,
         startSlot: scanStartSlot,
         endSlot: scanEndSlot,
-        duration
+        duration,
+        cursor: nextCursor
       };
 
     } catch (error) {
@@ -240,32 +402,77 @@ export class BlockchainScanner {
    * @param stealthAddress - Stealth address to scan for (optional)
    * @param startSlot - Starting slot for scan
    * @param endSlot - Ending slot for scan
+   * @param options - Cursor key and saving of incremental scans
    * @returns Array of ephemeral keys found
    */
   async fetchEphemeralKeys(
     connection: Connection,
     stealthAddress?: PublicKey,
     startSlot?: number,
-    endSlot?: number
+    endSlot?: number,
+    options?: IncrementalScanOptions
   ): Promise<EphemeralKey[]> {
     const result = await this.scanForEphemeralKeys(
       connection,
       stealthAddress,
       startSlot,
-      endSlot
+      endSlot,
+      options
     );
     return result.ephemeralKeys;
   }
 
+  /**
+   * Save the cursor of a scan run with `saveCursor: false`
+   */
+  async saveCursor(cursor: ScanCursor): Promise<void> {
+    await this.cursorStore?.put(cursor);
+  }
+
+  /**
+   * Forget the scan cursor of an address, so the next scan starts over
+   * 
+   * @param stealthAddress - Scanned stealth address (the announcer program if not provided)
+   * @param cursorKey - Cursor key qualifier used when scanning
+   */
+  async resetCursor(stealthAddress?: PublicKey, cursorKey?: string): Promise<void> {
+    if (!this.cursorStore) return;
+    const scannedAddress = stealthAddress ?? this.config.announcerProgramId;
+    await this.cursorStore.delete(BlockchainScanner.makeCursorKey(scannedAddress, cursorKey));
+  }
+
+  /**
+   * Key of the scan cursor of an address (`<address>` or `<address>:<qualifier>`)
+   */
+  static makeCursorKey(address: PublicKey, qualifier?: string): string {
+    return qualifier ? `${address.toBase58()}:${qualifier}` : address.toBase58();
+  }
+
   /**
    * Parse ephemeral key from transaction memo
    * 
-   * Expected format: STEALTH:<base58_public_key>:<optional_metadata>
+   * Expected format: STEALTH:<base58_public_key>:<optional_metadata>,
+   * STEALTH:<base58_public_key>:v2:<view_tag>, or
+   * STEALTH:<base58_public_key>:v3:<view_tag>:<commitment>
    * 
    * @param memo - Transaction memo string
    * @returns Ephemeral public key or null if not found
    */
   parseEphemeralKeyFromMemo(memo: string): PublicKey | null {
+    return this.parseStealthAnnouncement(memo)?.ephemeralPublicKey ?? null;
+  }
+
+  /**
+   * Parse a stealth announcement memo, including the view tag and commitment
+   * 
+   * A memo marked `v2` or `v3` without a valid view tag (and commitment) is
+   * rejected rather than read as v1, so a malformed tag never disables the
+   * filter silently.
+   * 
+   * @param memo - Transaction memo string
+   * @returns Parsed announcement or null if the memo is not a valid announcement
+   */
+  parseStealthAnnouncement(memo: string): StealthAnnouncement | null {
     try {
       // Check for stealth address marker
       if (!memo.startsWith('STEALTH:')) {
@@ -289,7 +496,27 @@ export class BlockchainScanner {
         return null;
       }
 
-      return publicKey;
+      if (parts[2] === 'v3') {
+        if (parts.length !== 5 || !VIEW_TAG_PATTERN.test(parts[3]) || !COMMITMENT_PATTERN.test(parts[4])) {
+          return null;
+        }
+        return {
+          ephemeralPublicKey: publicKey,
+          version: 3,
+          viewTag: parseInt(parts[3], 16),
+          commitment: Uint8Array.from(Buffer.from(parts[4], 'hex'))
+        };
+      }
+
+      if (parts[2] !== 'v2') {
+        return { ephemeralPublicKey: publicKey, version: 1 };
+      }
+
+      if (parts.length !== 4 || !VIEW_TAG_PATTERN.test(parts[3])) {
+        return null;
+      }
+
+      return { ephemeralPublicKey: publicKey, version: 2, viewTag: parseInt(parts[3], 16) };
 
     } catch (error) {
       // Invalid public key format
@@ -300,6 +527,36 @@ export class BlockchainScanner {
     }
   }
 
+  /**
+   * Extract the ephemeral keys announced in a transaction's logs
+   * 
+   * Reads the memos logged by the Memo program, and `STEALTH:` lines logged
+   * directly by an announcer program, as delivered by `onLogs`
+   * subscriptions. Failed transactions announce nothing. Of the spam
+   * filters, only `requireCommitment` applies: logs carry neither the fee
+   * payer nor the rest of the slot.
+   * 
+   * @param logs - Logs notification of a transaction
+   * @returns Ephemeral keys announced in the transaction
+   */
+  extractEphemeralKeysFromLogs(logs: Logs): EphemeralKey[] {
+    if (logs.err) {
+      return [];
+    }
+
+    const ephemeralKeys: EphemeralKey[] = [];
+    for (const line of logs.logs) {
+      const memo = MEMO_LOG_PATTERN.exec(line)?.[1] ??
+        (line.startsWith(PROGRAM_LOG_PREFIX) ? line.slice(PROGRAM_LOG_PREFIX.length) : null);
+      const announcement = memo ? this.parseStealthAnnouncement(memo) : null;
+
+      if (announcement && (announcement.commitment || !this.filter.requireCommitment)) {
+        ephemeralKeys.push(this._toEphemeralKey(announcement, logs.signature, Date.now()));
+      }
+    }
+    return ephemeralKeys;
+  }
+
   /**
    * Create memo string for ephemeral key
    * 
@@ -344,203 +601,71 @@ export class BlockchainScanner {
   // Private helper methods
 
   /**
-   * Get transaction signatures for an address within slot range
+   * Extract the ephemeral keys of transactions, applying the spam filters
    */
-  private async _getSignaturesForAddress(
-    connection: Connection,
-    address: PublicKey,
-    startSlot: number,
-    endSlot: number
-  ): Promise<ConfirmedSignatureInfo[]> {
-    try {
-      const signatures = await connection.getSignaturesForAddress(
-        address,
-        {
-          limit: 1000,
-          // Note: Solana RPC doesn't support slot-based filtering directly
-          // This is a limitation of the MVP approach
-        },
-        'confirmed'
-      );
-
-      // Filter by slot range
-      return signatures.filter(sig => {
-        const slot = sig.slot;
-        return slot >= startSlot && slot <= endSlot;
-      });
-
-    } catch (error) {
-      throw new PrivacyError(
-        `Failed to fetch signatures for address: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        error instanceof Error ? error : undefined
-      );
-    }
-  }
-
-  /**
-   * Process a batch of transactions to extract ephemeral keys
-   * 
-   * Optimized with caching for individual transaction parsing
-   */
-  private async _processTransactionBatch(
-    connection: Connection,
-    signatures: ConfirmedSignatureInfo[]
-  ): Promise<EphemeralKey[]> {
-    const ephemeralKeys: EphemeralKey[] = [];
-    const signaturesToFetch: string[] = [];
-    const signatureIndexMap: Map<string, number> = new Map();
-
-    // Check cache for each signature
-    const rpcCache = globalCacheManager.getRPCCache();
-    const signatureStrings = signatures.map(sig => sig.signature);
-    const cachedTransactions: (ParsedTransactionWithMeta | null)[] = new Array(signatureStrings.length).fill(null);
-
-    for (let i = 0; i < signatureStrings.length; i++) {
-      const sig = signatureStrings[i];
-      const cacheKey = `tx:${sig}`;
-      const cached = rpcCache.get(cacheKey);
-      
-      if (cached) {
-        cachedTransactions[i] = cached;
-      } else {
-        signaturesToFetch.push(sig);
-        signatureIndexMap.set(sig, i);
+  private _applySpamFilter(records: AnnouncementRecord[]): EphemeralKey[] {
+    const { requireCommitment, maxAnnouncementsPerSlot, senderDenylist } = this.filter;
+    const denied = new Set((senderDenylist ?? []).map(sender => sender.toBase58()));
+    const keptPerSlot = new Map<number, number>();
+    const kept: EphemeralKey[][] = [];
+
+    // Oldest first, so a per-slot cap keeps the first announcements of the slot
+    for (let i = records.length - 1; i >= 0; i--) {
+      const record = records[i];
+      if (record.sender && denied.has(record.sender)) continue;
+
+      let keys = this._extractEphemeralKeysFromRecord(record);
+      if (requireCommitment) {
+        keys = keys.filter(key => key.commitment);
       }
-    }
-
-    // Fetch uncached transactions in batch
-    if (signaturesToFetch.length > 0) {
-      const fetchedTransactions = await connection.getParsedTransactions(
-        signaturesToFetch,
-        {
-          maxSupportedTransactionVersion: 0,
-          commitment: 'confirmed'
-        }
-      );
-
-      // Cache fetched transactions and insert into results
-      for (let i = 0; i < signaturesToFetch.length; i++) {
-        const sig = signaturesToFetch[i];
-        const tx = fetchedTransactions[i];
-        const originalIndex = signatureIndexMap.get(sig)!;
-        
-        if (tx) {
-          const cacheKey = `tx:${sig}`;
-          rpcCache.set(cacheKey, tx, 60000); // Cache for 1 minute
-        }
-        
-        cachedTransactions[originalIndex] = tx;
+      if (maxAnnouncementsPerSlot !== undefined) {
+        const count = keptPerSlot.get(record.slot) ?? 0;
+        keys = keys.slice(0, Math.max(0, maxAnnouncementsPerSlot - count));
+        keptPerSlot.set(record.slot, count + keys.length);
       }
+      kept.push(keys);
     }
 
-    // Process all transactions
-    for (let i = 0; i < cachedTransactions.length; i++) {
-      const tx = cachedTransactions[i];
-      const signature = signatureStrings[i];
-
-      if (!tx) continue;
-
-      // Extract ephemeral keys from transaction memos
-      const keys = this._extractEphemeralKeysFromTransaction(tx, signature);
-      ephemeralKeys.push(...keys);
-    }
-
-    return ephemeralKeys;
+    return kept.reverse().flat();
   }
 
   /**
-   * Extract ephemeral keys from a parsed transaction
+   * Extract the ephemeral keys announced in the memos of a transaction
    */
-  private _extractEphemeralKeysFromTransaction(
-    transaction: ParsedTransactionWithMeta,
-    signature: string
-  ): EphemeralKey[] {
+  private _extractEphemeralKeysFromRecord(record: AnnouncementRecord): EphemeralKey[] {
+    const blockTimeMs = record.blockTime ? record.blockTime * 1000 : Date.now();
     const ephemeralKeys: EphemeralKey[] = [];
 
-    try {
-      // Check transaction memos
-      const message = transaction.transaction.message;
-      const instructions = message.instructions;
-
-      for (const instruction of instructions) {
-        // Check if this is a memo instruction
-        if ('program' in instruction && instruction.program === 'spl-memo') {
-          // Parsed memo instruction
-          if ('parsed' in instruction) {
-            const memo = instruction.parsed;
-            const publicKey = this.parseEphemeralKeyFromMemo(memo);
-            
-            if (publicKey) {
-              ephemeralKeys.push({
-                publicKey,
-                encryptedPrivateKey: new Uint8Array(0), // Not available when scanning
-                transactionSignature: signature,
-                createdAt: transaction.blockTime ? transaction.blockTime * 1000 : Date.now()
-              });
-            }
-          }
-        }
-        
-        // Also check raw memo data for backwards compatibility
-        if ('data' in instruction && typeof instruction.data === 'string') {
-          try {
-            // Try to decode as base58
-            const decoded = Buffer.from(instruction.data, 'base64').toString('utf8');
-            const publicKey = this.parseEphemeralKeyFromMemo(decoded);
-            
-            if (publicKey) {
-              ephemeralKeys.push({
-                publicKey,
-                encryptedPrivateKey: new Uint8Array(0),
-                transactionSignature: signature,
-                createdAt: transaction.blockTime ? transaction.blockTime * 1000 : Date.now()
-              });
-            }
-          } catch {
-            // Not a valid memo
-          }
-        }
-      }
-
-    } catch (error) {
-      if (this.config.verbose) {
-        console.warn(`Failed to extract ephemeral keys from transaction ${signature}:`, error);
+    for (const memo of record.memos) {
+      const announcement = this.parseStealthAnnouncement(memo);
+      if (announcement) {
+        ephemeralKeys.push(this._toEphemeralKey(announcement, record.signature, blockTimeMs));
       }
     }
-
     return ephemeralKeys;
   }
 
   /**
-   * Optimize signature fetching with batching and filtering
-   * 
-   * This reduces the number of RPC calls by using efficient filtering
+   * Build the ephemeral key of an announcement found in a transaction
    */
-  private async _getSignaturesOptimized(
-    connection: Connection,
-    address: PublicKey,
-    startSlot: number,
-    endSlot: number
-  ): Promise<ConfirmedSignatureInfo[]> {
-    const cacheKey = `sigs:${address.toBase58()}:${startSlot}:${endSlot}`;
-    const rpcCache = globalCacheManager.getRPCCache();
-    
-    // Check cache first
-    const cached = rpcCache.get(cacheKey);
-    if (cached) {
-      if (this.config.verbose) {
-        console.log(`✓ Using cached signatures (${cached.length} signatures)`);
-      }
-      return cached;
+  private _toEphemeralKey(
+    announcement: StealthAnnouncement,
+    signature: string,
+    createdAt: number
+  ): EphemeralKey {
+    const ephemeralKey: EphemeralKey = {
+      publicKey: announcement.ephemeralPublicKey,
+      encryptedPrivateKey: new Uint8Array(0), // Not available when scanning
+      transactionSignature: signature,
+      createdAt
+    };
+    if (announcement.viewTag !== undefined) {
+      ephemeralKey.viewTag = announcement.viewTag;
     }
-
-    // Fetch signatures
-    const signatures = await this._getSignaturesForAddress(connection, address, startSlot, endSlot);
-    
-    // Cache results
-    rpcCache.set(cacheKey, signatures, 30000); // Cache for 30 seconds
-    
-    return signatures;
+    if (announcement.commitment) {
+      ephemeralKey.commitment = announcement.commitment;
+    }
+    return ephemeralKey;
   }
 }
 
@@ -571,3 +696,56 @@ export function parseStealthAddressMemo(memo: string): PublicKey | null {
   const scanner = new BlockchainScanner();
   return scanner.parseEphemeralKeyFromMemo(memo);
 }
+
+/**
+ * Memo metadata announcing a view tag (`v2:<view_tag>`)
+ * 
+ * @param viewTag - View tag byte (0-255)
+ * @returns Metadata for `createStealthAddressMemo` / `createStealthAnnouncementInstruction`
+ */
+export function createViewTagMetadata(viewTag: number): string {
+  if (!Number.isInteger(viewTag) || viewTag < 0 || viewTag > 0xff) {
+    throw new PrivacyError(`Invalid view tag: ${viewTag} (must be a byte)`);
+  }
+  return `v2:${viewTag.toString(16).padStart(2, '0')}`;
+}
+
+/**
+ * Memo metadata announcing a view tag and a transfer commitment (`v3:<view_tag>:<commitment>`)
+ * 
+ * @param viewTag - View tag byte (0-255)
+ * @param commitment - Commitment from `StealthAddressManager.computeAnnouncementCommitment`
+ * @returns Metadata for `createStealthAddressMemo` / `createStealthAnnouncementInstruction`
+ */
+export function createAuthenticatedAnnouncementMetadata(viewTag: number, commitment: Uint8Array): string {
+  if (commitment.length !== ANNOUNCEMENT_COMMITMENT_LENGTH) {
+    throw new PrivacyError(
+      `Invalid announcement commitment: ${commitment.length} bytes (must be ${ANNOUNCEMENT_COMMITMENT_LENGTH})`
+    );
+  }
+  const tag = createViewTagMetadata(viewTag).slice('v2:'.length);
+  return `v3:${tag}:${Buffer.from(commitment).toString('hex')}`;
+}
+
+/**
+ * Create a Memo program instruction announcing a stealth payment
+ * 
+ * The memo carries `STEALTH:<ephemeral_public_key>[:<metadata>]`, which is
+ * what the scanner looks for in parsed `spl-memo` instructions. Pass
+ * `createViewTagMetadata(viewTag)` as metadata for a v2 announcement, or
+ * `createAuthenticatedAnnouncementMetadata(viewTag, commitment)` for v3.
+ * 
+ * @param ephemeralPublicKey - Ephemeral public key of the payment
+ * @param metadata - Optional metadata
+ * @returns Memo instruction (no signers required)
+ */
+export function createStealthAnnouncementInstruction(
+  ephemeralPublicKey: PublicKey,
+  metadata?: string
+): TransactionInstruction {
+  return new TransactionInstruction({
+    keys: [],
+    programId: MEMO_PROGRAM_ID,
+    data: Buffer.from(createStealthAddressMemo(ephemeralPublicKey, metadata), 'utf8')
+  });
+}
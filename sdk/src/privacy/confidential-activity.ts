@@ -0,0 +1,141 @@
+/**
+ * privacy/confidential-activity.ts
+ *
+ * Purpose: Decode confidential transfer activity from fetched transactions
+ *
+ * Auditing works from transactions rather than account state: deposits and
+ * withdrawals carry their amounts in the clear, and every Transfer carries the
+ * amount encrypted under the mint's auditor ElGamal key. This module finds the
+ * Token 2022 ConfidentialTransfer instructions of a transaction and decodes
+ * the fields an auditor needs (see `confidential-instructions` for the
+ * encoders that produce them).
+ */
+
+import { PublicKey, VersionedTransactionResponse } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TokenInstruction } from '@solana/spl-token';
+import { ConfidentialTransferError } from './errors';
+import {
+  ConfidentialTransferInstruction,
+  DECRYPTABLE_BALANCE_LEN,
+  ELGAMAL_CIPHERTEXT_LEN
+} from './confidential-instructions';
+
+/**
+ * Public amount moved into (deposit) or out of (withdraw) a confidential balance
+ */
+export interface ConfidentialBalanceActivity {
+  type: 'deposit' | 'withdraw';
+  /** Index of the instruction in the transaction */
+  instructionIndex: number;
+  /** Token account */
+  account: PublicKey;
+  /** Mint of the token account */
+  mint: PublicKey;
+  /** Amount in base units */
+  amount: bigint;
+  /** Mint decimals */
+  decimals: number;
+}
+
+/**
+ * Confidential transfer between two token accounts
+ */
+export interface ConfidentialTransferActivity {
+  type: 'transfer';
+  /** Index of the instruction in the transaction */
+  instructionIndex: number;
+  /** Source token account */
+  source: PublicKey;
+  /** Mint of both token accounts */
+  mint: PublicKey;
+  /** Destination token account */
+  destination: PublicKey;
+  /** Auditor ciphertext of the low 16 bits of the amount */
+  auditorCiphertextLo: Uint8Array;
+  /** Auditor ciphertext of the high 32 bits of the amount */
+  auditorCiphertextHi: Uint8Array;
+}
+
+export type ConfidentialActivity = ConfidentialBalanceActivity | ConfidentialTransferActivity;
+
+/**
+ * Decode the Deposit, Withdraw and Transfer instructions of a transaction
+ *
+ * Only top-level instructions are decoded.
+ *
+ * @param transaction - Transaction fetched with `getTransaction`
+ * @param programId - Token program id
+ * @returns Activity in instruction order
+ */
+export function decodeConfidentialActivity(
+  transaction: VersionedTransactionResponse,
+  programId: PublicKey = TOKEN_2022_PROGRAM_ID
+): ConfidentialActivity[] {
+  const message = transaction.transaction.message;
+  const accountKeys = message.getAccountKeys({
+    accountKeysFromLookups: transaction.meta?.loadedAddresses
+  });
+
+  const activity: ConfidentialActivity[] = [];
+  message.compiledInstructions.forEach((instruction, instructionIndex) => {
+    const data = instruction.data;
+    if (
+      !accountKeys.get(instruction.programIdIndex)?.equals(programId) ||
+      data[0] !== TokenInstruction.ConfidentialTransferExtension
+    ) {
+      return;
+    }
+    const accounts = instruction.accountKeyIndexes.map(index => {
+      const key = accountKeys.get(index);
+      if (!key) {
+        throw new ConfidentialTransferError(`Instruction ${instructionIndex} references a missing account`);
+      }
+      return key;
+    });
+
+    switch (data[1]) {
+      case ConfidentialTransferInstruction.Deposit:
+      case ConfidentialTransferInstruction.Withdraw: {
+        expectLayout(instructionIndex, data, accounts, 2 + 8 + 1, 2);
+        activity.push({
+          type: data[1] === ConfidentialTransferInstruction.Deposit ? 'deposit' : 'withdraw',
+          instructionIndex,
+          account: accounts[0],
+          mint: accounts[1],
+          amount: Buffer.from(data).readBigUInt64LE(2),
+          decimals: data[10]
+        });
+        break;
+      }
+      case ConfidentialTransferInstruction.Transfer: {
+        const loOffset = 2 + DECRYPTABLE_BALANCE_LEN;
+        const hiOffset = loOffset + ELGAMAL_CIPHERTEXT_LEN;
+        expectLayout(instructionIndex, data, accounts, hiOffset + ELGAMAL_CIPHERTEXT_LEN, 3);
+        activity.push({
+          type: 'transfer',
+          instructionIndex,
+          source: accounts[0],
+          mint: accounts[1],
+          destination: accounts[2],
+          auditorCiphertextLo: data.slice(loOffset, hiOffset),
+          auditorCiphertextHi: data.slice(hiOffset, hiOffset + ELGAMAL_CIPHERTEXT_LEN)
+        });
+        break;
+      }
+    }
+  });
+
+  return activity;
+}
+
+function expectLayout(
+  instructionIndex: number,
+  data: Uint8Array,
+  accounts: PublicKey[],
+  minDataLength: number,
+  minAccounts: number
+): void {
+  if (data.length < minDataLength || accounts.length < minAccounts) {
+    throw new ConfidentialTransferError(`Malformed confidential transfer instruction at index ${instructionIndex}`);
+  }
+}
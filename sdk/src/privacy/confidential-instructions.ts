@@ -0,0 +1,510 @@
+/**
+ * privacy/confidential-instructions.ts
+ *
+ * Purpose: Instruction encoders for the SPL Token 2022 ConfidentialTransfer extension
+ *
+ * @solana/spl-token does not ship builders for the confidential transfer
+ * instruction family, so this module encodes them by hand. Every encoder
+ * produces the exact byte layout of the on-chain program:
+ *
+ * ```
+ * [27 (ConfidentialTransferExtension)] [sub-instruction] [Pod instruction data]
+ * ```
+ *
+ * All multi-byte integers are little-endian, booleans are a single byte and
+ * optional keys are encoded as 32 zero bytes when absent, matching the
+ * `OptionalNonZeroPubkey` / `OptionalNonZeroElGamalPubkey` Pod types.
+ *
+ * Proofs are never part of these instructions. Each instruction that needs a
+ * proof either points at a ZK ElGamal Proof program instruction elsewhere in
+ * the same transaction (an `i8` offset relative to the token instruction) or
+ * at a pre-verified proof context state account.
+ */
+
+import {
+  AccountMeta,
+  PublicKey,
+  Signer,
+  SYSVAR_INSTRUCTIONS_PUBKEY,
+  TransactionInstruction
+} from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TokenInstruction } from '@solana/spl-token';
+import { ConfidentialTransferError } from './errors';
+
+/**
+ * Sub-instructions of the ConfidentialTransfer extension
+ */
+export enum ConfidentialTransferInstruction {
+  InitializeMint = 0,
+  UpdateMint = 1,
+  ConfigureAccount = 2,
+  ApproveAccount = 3,
+  EmptyAccount = 4,
+  Deposit = 5,
+  Withdraw = 6,
+  Transfer = 7,
+  ApplyPendingBalance = 8,
+  EnableConfidentialCredits = 9,
+  DisableConfidentialCredits = 10,
+  EnableNonConfidentialCredits = 11,
+  DisableNonConfidentialCredits = 12,
+  TransferWithFee = 13,
+  ConfigureAccountWithRegistry = 14
+}
+
+/** Length of an encoded ElGamal public key */
+export const ELGAMAL_PUBKEY_LEN = 32;
+/** Length of an encoded ElGamal ciphertext (commitment || decrypt handle) */
+export const ELGAMAL_CIPHERTEXT_LEN = 64;
+/** Length of an AES-GCM-SIV decryptable balance (nonce || ciphertext || tag) */
+export const DECRYPTABLE_BALANCE_LEN = 36;
+/** Default maximum number of pending credits before ApplyPendingBalance is required */
+export const DEFAULT_MAXIMUM_PENDING_BALANCE_CREDIT_COUNTER = 65536n;
+
+/**
+ * Where the proof required by a confidential instruction can be found
+ *
+ * - `instruction`: a proof verification instruction in the same transaction,
+ *   located `offset` instructions after (or before, if negative) the token
+ *   instruction
+ * - `contextState`: a context state account that already holds a verified proof
+ */
+export type ProofLocation =
+  | { type: 'instruction'; offset: number }
+  | { type: 'contextState'; account: PublicKey };
+
+/**
+ * Create an InitializeMint instruction for the ConfidentialTransferMint extension
+ *
+ * Must be placed before the base `InitializeMint` instruction.
+ *
+ * Accounts:
+ * 0. `[writable]` The mint
+ *
+ * @param mint - Mint account (must have space for the extension)
+ * @param authority - Confidential transfer authority (null for none)
+ * @param autoApproveNewAccounts - Whether new accounts are approved automatically
+ * @param auditorElGamalPubkey - Auditor ElGamal public key (null for none)
+ * @param programId - Token program id
+ */
+export function createInitializeConfidentialTransferMintInstruction(
+  mint: PublicKey,
+  authority: PublicKey | null,
+  autoApproveNewAccounts: boolean,
+  auditorElGamalPubkey: Uint8Array | null,
+  programId: PublicKey = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  const data = _encode(ConfidentialTransferInstruction.InitializeMint, [
+    _optionalKey(authority ? authority.toBytes() : null, 'authority'),
+    _bool(autoApproveNewAccounts),
+    _optionalKey(auditorElGamalPubkey, 'auditor ElGamal public key')
+  ]);
+
+  return new TransactionInstruction({
+    keys: [{ pubkey: mint, isSigner: false, isWritable: true }],
+    programId,
+    data
+  });
+}
+
+/**
+ * Create an UpdateMint instruction for the ConfidentialTransferMint extension
+ *
+ * Replaces the auto-approve flag and the auditor ElGamal public key. The
+ * confidential transfer authority itself is changed with `SetAuthority`.
+ *
+ * Accounts:
+ * 0. `[writable]` The mint
+ * 1. `[signer]` The confidential transfer authority (or multisig, followed by its signers)
+ *
+ * @param mint - Mint account
+ * @param authority - Confidential transfer authority of the mint
+ * @param autoApproveNewAccounts - Whether new accounts are approved automatically
+ * @param auditorElGamalPubkey - New auditor ElGamal public key (null for none)
+ * @param multiSigners - Signing accounts if `authority` is a multisig
+ * @param programId - Token program id
+ */
+export function createUpdateConfidentialTransferMintInstruction(
+  mint: PublicKey,
+  authority: PublicKey,
+  autoApproveNewAccounts: boolean,
+  auditorElGamalPubkey: Uint8Array | null,
+  multiSigners: (Signer | PublicKey)[] = [],
+  programId: PublicKey = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  const keys: AccountMeta[] = [
+    { pubkey: mint, isSigner: false, isWritable: true }
+  ];
+  _pushSigners(keys, authority, multiSigners);
+
+  const data = _encode(ConfidentialTransferInstruction.UpdateMint, [
+    _bool(autoApproveNewAccounts),
+    _optionalKey(auditorElGamalPubkey, 'auditor ElGamal public key')
+  ]);
+
+  return new TransactionInstruction({ keys, programId, data });
+}
+
+/**
+ * Create a ConfigureAccount instruction
+ *
+ * The token account must already have space for the ConfidentialTransferAccount
+ * extension (see `createReallocateInstruction`). Requires a `PubkeyValidity` proof.
+ *
+ * Accounts:
+ * 0. `[writable]` The token account
+ * 1. `[]` The mint
+ * 2. `[]` Instructions sysvar or proof context state account
+ * 3. `[signer]` The account owner (or multisig, followed by its signers)
+ *
+ * @param account - Token account to configure
+ * @param mint - Mint of the token account
+ * @param decryptableZeroBalance - AE encryption of 0 under the owner's AE key (36 bytes)
+ * @param maximumPendingBalanceCreditCounter - Credits allowed before applying pending balance
+ * @param owner - Owner of the token account
+ * @param proofLocation - Location of the PubkeyValidity proof
+ * @param multiSigners - Signing accounts if `owner` is a multisig
+ * @param programId - Token program id
+ */
+export function createConfigureConfidentialTransferAccountInstruction(
+  account: PublicKey,
+  mint: PublicKey,
+  decryptableZeroBalance: Uint8Array,
+  maximumPendingBalanceCreditCounter: bigint,
+  owner: PublicKey,
+  proofLocation: ProofLocation,
+  multiSigners: (Signer | PublicKey)[] = [],
+  programId: PublicKey = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  const keys: AccountMeta[] = [
+    { pubkey: account, isSigner: false, isWritable: true },
+    { pubkey: mint, isSigner: false, isWritable: false }
+  ];
+  const offset = _pushSingleProofAccount(keys, proofLocation);
+  _pushSigners(keys, owner, multiSigners);
+
+  const data = _encode(ConfidentialTransferInstruction.ConfigureAccount, [
+    _fixed(decryptableZeroBalance, DECRYPTABLE_BALANCE_LEN, 'decryptable zero balance'),
+    _u64(maximumPendingBalanceCreditCounter),
+    _i8(offset)
+  ]);
+
+  return new TransactionInstruction({ keys, programId, data });
+}
+
+/**
+ * Create an EmptyAccount instruction
+ *
+ * Requires a `ZeroCiphertext` proof showing the available balance encrypts 0.
+ *
+ * Accounts:
+ * 0. `[writable]` The token account
+ * 1. `[]` Instructions sysvar or proof context state account
+ * 2. `[signer]` The account owner (or multisig, followed by its signers)
+ *
+ * @param account - Token account to empty
+ * @param owner - Owner of the token account
+ * @param proofLocation - Location of the ZeroCiphertext proof
+ * @param multiSigners - Signing accounts if `owner` is a multisig
+ * @param programId - Token program id
+ */
+export function createEmptyConfidentialTransferAccountInstruction(
+  account: PublicKey,
+  owner: PublicKey,
+  proofLocation: ProofLocation,
+  multiSigners: (Signer | PublicKey)[] = [],
+  programId: PublicKey = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  const keys: AccountMeta[] = [
+    { pubkey: account, isSigner: false, isWritable: true }
+  ];
+  const offset = _pushSingleProofAccount(keys, proofLocation);
+  _pushSigners(keys, owner, multiSigners);
+
+  const data = _encode(ConfidentialTransferInstruction.EmptyAccount, [_i8(offset)]);
+
+  return new TransactionInstruction({ keys, programId, data });
+}
+
+/**
+ * Create a Deposit instruction (public balance -> pending confidential balance)
+ *
+ * Accounts:
+ * 0. `[writable]` The token account
+ * 1. `[]` The mint
+ * 2. `[signer]` The account owner (or multisig, followed by its signers)
+ *
+ * @param account - Token account to deposit into
+ * @param mint - Mint of the token account
+ * @param owner - Owner of the token account
+ * @param amount - Amount in base units
+ * @param decimals - Mint decimals
+ * @param multiSigners - Signing accounts if `owner` is a multisig
+ * @param programId - Token program id
+ */
+export function createConfidentialDepositInstruction(
+  account: PublicKey,
+  mint: PublicKey,
+  owner: PublicKey,
+  amount: bigint,
+  decimals: number,
+  multiSigners: (Signer | PublicKey)[] = [],
+  programId: PublicKey = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  const keys: AccountMeta[] = [
+    { pubkey: account, isSigner: false, isWritable: true },
+    { pubkey: mint, isSigner: false, isWritable: false }
+  ];
+  _pushSigners(keys, owner, multiSigners);
+
+  const data = _encode(ConfidentialTransferInstruction.Deposit, [
+    _u64(amount),
+    _u8(decimals)
+  ]);
+
+  return new TransactionInstruction({ keys, programId, data });
+}
+
+/**
+ * Create an ApplyPendingBalance instruction
+ *
+ * Accounts:
+ * 0. `[writable]` The token account
+ * 1. `[signer]` The account owner (or multisig, followed by its signers)
+ *
+ * @param account - Token account
+ * @param owner - Owner of the token account
+ * @param expectedPendingBalanceCreditCounter - Credit counter the new balance accounts for
+ * @param newDecryptableAvailableBalance - AE encryption of the new available balance (36 bytes)
+ * @param multiSigners - Signing accounts if `owner` is a multisig
+ * @param programId - Token program id
+ */
+export function createApplyPendingBalanceInstruction(
+  account: PublicKey,
+  owner: PublicKey,
+  expectedPendingBalanceCreditCounter: bigint,
+  newDecryptableAvailableBalance: Uint8Array,
+  multiSigners: (Signer | PublicKey)[] = [],
+  programId: PublicKey = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  const keys: AccountMeta[] = [
+    { pubkey: account, isSigner: false, isWritable: true }
+  ];
+  _pushSigners(keys, owner, multiSigners);
+
+  const data = _encode(ConfidentialTransferInstruction.ApplyPendingBalance, [
+    _u64(expectedPendingBalanceCreditCounter),
+    _fixed(newDecryptableAvailableBalance, DECRYPTABLE_BALANCE_LEN, 'new decryptable available balance')
+  ]);
+
+  return new TransactionInstruction({ keys, programId, data });
+}
+
+/**
+ * Create a confidential Transfer instruction
+ *
+ * Requires a `CiphertextCommitmentEquality` proof, a
+ * `BatchedGroupedCiphertext3HandlesValidity` proof and a `BatchedRangeProofU128`.
+ *
+ * Accounts:
+ * 0. `[writable]` The source token account
+ * 1. `[]` The mint
+ * 2. `[writable]` The destination token account
+ * 3. `[]` (Optional) Instructions sysvar, if any proof is in the same transaction
+ * 4. `[]` (Optional) Equality proof context state account
+ * 5. `[]` (Optional) Ciphertext validity proof context state account
+ * 6. `[]` (Optional) Range proof context state account
+ * 7. `[signer]` The source account owner (or multisig, followed by its signers)
+ *
+ * @param source - Source token account
+ * @param mint - Mint of both token accounts
+ * @param destination - Destination token account
+ * @param newSourceDecryptableAvailableBalance - AE encryption of the source's remaining balance
+ * @param transferAmountAuditorCiphertextLo - Auditor ciphertext of the low 16 bits of the amount
+ * @param transferAmountAuditorCiphertextHi - Auditor ciphertext of the high 32 bits of the amount
+ * @param owner - Owner of the source account
+ * @param equalityProof - Location of the equality proof
+ * @param ciphertextValidityProof - Location of the ciphertext validity proof
+ * @param rangeProof - Location of the range proof
+ * @param multiSigners - Signing accounts if `owner` is a multisig
+ * @param programId - Token program id
+ */
+export function createConfidentialTransferInstruction(
+  source: PublicKey,
+  mint: PublicKey,
+  destination: PublicKey,
+  newSourceDecryptableAvailableBalance: Uint8Array,
+  transferAmountAuditorCiphertextLo: Uint8Array,
+  transferAmountAuditorCiphertextHi: Uint8Array,
+  owner: PublicKey,
+  equalityProof: ProofLocation,
+  ciphertextValidityProof: ProofLocation,
+  rangeProof: ProofLocation,
+  multiSigners: (Signer | PublicKey)[] = [],
+  programId: PublicKey = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  const keys: AccountMeta[] = [
+    { pubkey: source, isSigner: false, isWritable: true },
+    { pubkey: mint, isSigner: false, isWritable: false },
+    { pubkey: destination, isSigner: false, isWritable: true }
+  ];
+  const [equalityOffset, validityOffset, rangeOffset] = _pushProofAccounts(keys, [
+    equalityProof,
+    ciphertextValidityProof,
+    rangeProof
+  ]);
+  _pushSigners(keys, owner, multiSigners);
+
+  const data = _encode(ConfidentialTransferInstruction.Transfer, [
+    _fixed(newSourceDecryptableAvailableBalance, DECRYPTABLE_BALANCE_LEN, 'new source decryptable available balance'),
+    _fixed(transferAmountAuditorCiphertextLo, ELGAMAL_CIPHERTEXT_LEN, 'auditor ciphertext (lo)'),
+    _fixed(transferAmountAuditorCiphertextHi, ELGAMAL_CIPHERTEXT_LEN, 'auditor ciphertext (hi)'),
+    _i8(equalityOffset),
+    _i8(validityOffset),
+    _i8(rangeOffset)
+  ]);
+
+  return new TransactionInstruction({ keys, programId, data });
+}
+
+/**
+ * Create a confidential Withdraw instruction (available balance -> public balance)
+ *
+ * Requires a `CiphertextCommitmentEquality` proof and a `BatchedRangeProofU64`.
+ *
+ * Accounts:
+ * 0. `[writable]` The token account
+ * 1. `[]` The mint
+ * 2. `[]` (Optional) Instructions sysvar, if any proof is in the same transaction
+ * 3. `[]` (Optional) Equality proof context state account
+ * 4. `[]` (Optional) Range proof context state account
+ * 5. `[signer]` The account owner (or multisig, followed by its signers)
+ *
+ * @param account - Token account to withdraw from
+ * @param mint - Mint of the token account
+ * @param owner - Owner of the token account
+ * @param amount - Amount in base units
+ * @param decimals - Mint decimals
+ * @param newDecryptableAvailableBalance - AE encryption of the remaining balance (36 bytes)
+ * @param equalityProof - Location of the equality proof
+ * @param rangeProof - Location of the range proof
+ * @param multiSigners - Signing accounts if `owner` is a multisig
+ * @param programId - Token program id
+ */
+export function createConfidentialWithdrawInstruction(
+  account: PublicKey,
+  mint: PublicKey,
+  owner: PublicKey,
+  amount: bigint,
+  decimals: number,
+  newDecryptableAvailableBalance: Uint8Array,
+  equalityProof: ProofLocation,
+  rangeProof: ProofLocation,
+  multiSigners: (Signer | PublicKey)[] = [],
+  programId: PublicKey = TOKEN_2022_PROGRAM_ID
+): TransactionInstruction {
+  const keys: AccountMeta[] = [
+    { pubkey: account, isSigner: false, isWritable: true },
+    { pubkey: mint, isSigner: false, isWritable: false }
+  ];
+  const [equalityOffset, rangeOffset] = _pushProofAccounts(keys, [equalityProof, rangeProof]);
+  _pushSigners(keys, owner, multiSigners);
+
+  const data = _encode(ConfidentialTransferInstruction.Withdraw, [
+    _u64(amount),
+    _u8(decimals),
+    _fixed(newDecryptableAvailableBalance, DECRYPTABLE_BALANCE_LEN, 'new decryptable available balance'),
+    _i8(equalityOffset),
+    _i8(rangeOffset)
+  ]);
+
+  return new TransactionInstruction({ keys, programId, data });
+}
+
+// Private encoding helpers
+
+function _encode(instruction: ConfidentialTransferInstruction, fields: Uint8Array[]): Buffer {
+  return Buffer.concat([
+    Buffer.from([TokenInstruction.ConfidentialTransferExtension, instruction]),
+    ...fields.map(field => Buffer.from(field))
+  ]);
+}
+
+function _u8(value: number): Uint8Array {
+  if (!Number.isInteger(value) || value < 0 || value > 0xff) {
+    throw new ConfidentialTransferError(`Value ${value} does not fit in a u8`);
+  }
+  return Uint8Array.of(value);
+}
+
+function _i8(value: number): Uint8Array {
+  if (!Number.isInteger(value) || value < -128 || value > 127) {
+    throw new ConfidentialTransferError(`Proof instruction offset ${value} does not fit in an i8`);
+  }
+  const out = Buffer.alloc(1);
+  out.writeInt8(value);
+  return out;
+}
+
+function _u64(value: bigint): Uint8Array {
+  if (value < 0n || value > 0xffffffffffffffffn) {
+    throw new ConfidentialTransferError(`Value ${value} does not fit in a u64`);
+  }
+  const out = Buffer.alloc(8);
+  out.writeBigUInt64LE(value);
+  return out;
+}
+
+function _bool(value: boolean): Uint8Array {
+  return Uint8Array.of(value ? 1 : 0);
+}
+
+function _fixed(bytes: Uint8Array, length: number, name: string): Uint8Array {
+  if (bytes.length !== length) {
+    throw new ConfidentialTransferError(`Invalid ${name} length: expected ${length} bytes, got ${bytes.length}`);
+  }
+  return bytes;
+}
+
+function _optionalKey(bytes: Uint8Array | null, name: string): Uint8Array {
+  return bytes ? _fixed(bytes, 32, name) : new Uint8Array(32);
+}
+
+function _pushSingleProofAccount(keys: AccountMeta[], location: ProofLocation): number {
+  if (location.type === 'instruction') {
+    keys.push({ pubkey: SYSVAR_INSTRUCTIONS_PUBKEY, isSigner: false, isWritable: false });
+    return location.offset;
+  }
+  keys.push({ pubkey: location.account, isSigner: false, isWritable: false });
+  return 0;
+}
+
+function _pushProofAccounts(keys: AccountMeta[], locations: ProofLocation[]): number[] {
+  // The instructions sysvar is shared by every proof that lives in the same transaction
+  if (locations.some(location => location.type === 'instruction')) {
+    keys.push({ pubkey: SYSVAR_INSTRUCTIONS_PUBKEY, isSigner: false, isWritable: false });
+  }
+
+  return locations.map(location => {
+    if (location.type === 'instruction') {
+      return location.offset;
+    }
+    keys.push({ pubkey: location.account, isSigner: false, isWritable: false });
+    return 0;
+  });
+}
+
+function _pushSigners(
+  keys: AccountMeta[],
+  owner: PublicKey,
+  multiSigners: (Signer | PublicKey)[]
+): void {
+  keys.push({ pubkey: owner, isSigner: multiSigners.length === 0, isWritable: false });
+  for (const signer of multiSigners) {
+    keys.push({
+      pubkey: signer instanceof PublicKey ? signer : signer.publicKey,
+      isSigner: true,
+      isWritable: false
+    });
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * privacy/confidential-proofs.ts
+ *
+ * Purpose: Proof bundles for Token 2022 confidential instructions
+ *
+ * Builds the exact set of proofs each confidential instruction is checked
+ * against, mirroring `spl-token-confidential-transfer-proof-generation`:
+ *
+ * - ConfigureAccount: PubkeyValidity
+ * - EmptyAccount: ZeroCiphertext
+ * - Withdraw: CiphertextCommitmentEquality + BatchedRangeProofU64
+ * - Transfer: CiphertextCommitmentEquality + BatchedGroupedCiphertext3HandlesValidity
+ *   + BatchedRangeProofU128
+ *
+ * All proofs are `ZKProof`s and can be checked locally with `verifyZKProof`
+ * before anything is sent to a cluster.
+ */
+
+import { ProofGenerationError } from './errors';
+import { ZKProof, ZkElGamalProofType } from './types';
+import {
+  AMOUNT_HI_BITS,
+  AMOUNT_LO_BITS,
+  ElGamalKeypair,
+  combineLoHiCiphertexts,
+  createPedersenCommitment,
+  encryptGroupedElGamal,
+  generatePedersenOpening,
+  groupedCiphertextToCiphertext,
+  splitAmountLoHi,
+  subtractAmountFromCiphertext,
+  subtractElGamalCiphertexts
+} from './elgamal';
+import {
+  generateBatchedGroupedCiphertext3HandlesValidityProof,
+  generateCiphertextCommitmentEqualityProof,
+  verifyBatchedGroupedCiphertext3HandlesValidityProof,
+  verifyCiphertextCommitmentEqualityProof,
+  verifyGroupedCiphertext3HandlesValidityProof,
+  verifyPubkeyValidityProof,
+  verifyZeroCiphertextProof
+} from './sigma-proofs';
+import { generateBatchedRangeProof, verifyBatchedRangeProof } from './range-proof';
+
+/** Bit length of a remaining balance in range proofs */
+export const REMAINING_BALANCE_BIT_LENGTH = 64;
+/** Bit length of the zero padding commitment in transfer range proofs */
+export const RANGE_PROOF_PADDING_BIT_LENGTH = 16;
+
+/**
+ * Proofs for a Withdraw instruction
+ */
+export interface WithdrawProofs {
+  /** Remaining balance ciphertext equals the range-proven commitment */
+  equalityProof: ZKProof;
+  /** Remaining balance is a u64 */
+  rangeProof: ZKProof;
+  /** Available balance after the withdrawal */
+  remainingBalance: bigint;
+}
+
+/**
+ * Proofs and ciphertexts for a Transfer instruction
+ */
+export interface TransferProofs {
+  /** Remaining balance ciphertext equals the range-proven commitment */
+  equalityProof: ZKProof;
+  /** The amount ciphertexts decrypt to the same value for source, destination and auditor */
+  ciphertextValidityProof: ZKProof;
+  /** Remaining balance, amount lo and amount hi are in range */
+  rangeProof: ZKProof;
+  /** Auditor ciphertext of the low 16 bits of the amount */
+  auditorCiphertextLo: Uint8Array;
+  /** Auditor ciphertext of the high 32 bits of the amount */
+  auditorCiphertextHi: Uint8Array;
+  /** Available balance after the transfer */
+  remainingBalance: bigint;
+}
+
+/**
+ * Generate the proofs for withdrawing from the available balance
+ *
+ * @param keypair - ElGamal keypair of the account
+ * @param currentAvailableBalance - Available balance ciphertext read from the account (64 bytes)
+ * @param currentBalance - Decrypted available balance
+ * @param amount - Amount to withdraw
+ */
+export function generateWithdrawProofs(
+  keypair: ElGamalKeypair,
+  currentAvailableBalance: Uint8Array,
+  currentBalance: bigint,
+  amount: bigint
+): WithdrawProofs {
+  const remainingBalance = remainingAfter(currentBalance, amount);
+
+  const opening = generatePedersenOpening();
+  const commitment = createPedersenCommitment(remainingBalance, opening);
+  const remainingCiphertext = subtractAmountFromCiphertext(currentAvailableBalance, amount);
+
+  return {
+    equalityProof: generateCiphertextCommitmentEqualityProof(
+      keypair,
+      remainingCiphertext,
+      commitment,
+      opening,
+      remainingBalance
+    ),
+    rangeProof: generateBatchedRangeProof(
+      [commitment],
+      [remainingBalance],
+      [REMAINING_BALANCE_BIT_LENGTH],
+      [opening]
+    ),
+    remainingBalance
+  };
+}
+
+/**
+ * Generate the proofs and auditor ciphertexts for a confidential transfer
+ *
+ * @param sourceKeypair - ElGamal keypair of the source account
+ * @param currentAvailableBalance - Available balance ciphertext of the source (64 bytes)
+ * @param currentBalance - Decrypted available balance of the source
+ * @param amount - Amount to transfer (at most 48 bits)
+ * @param destinationPublicKey - ElGamal public key of the destination account
+ * @param auditorPublicKey - Auditor ElGamal public key of the mint (null if none)
+ */
+export function generateTransferProofs(
+  sourceKeypair: ElGamalKeypair,
+  currentAvailableBalance: Uint8Array,
+  currentBalance: bigint,
+  amount: bigint,
+  destinationPublicKey: Uint8Array,
+  auditorPublicKey: Uint8Array | null
+): TransferProofs {
+  const remainingBalance = remainingAfter(currentBalance, amount);
+  const { lo, hi } = splitAmountLoHi(amount);
+
+  // A mint without an auditor uses the identity point as the auditor key
+  const publicKeys: [Uint8Array, Uint8Array, Uint8Array] = [
+    sourceKeypair.publicKey,
+    destinationPublicKey,
+    auditorPublicKey ?? new Uint8Array(32)
+  ];
+  const groupedLo = encryptGroupedElGamal(publicKeys, lo);
+  const groupedHi = encryptGroupedElGamal(publicKeys, hi);
+
+  // new available balance = current - (source lo + source hi * 2^16)
+  const transferredBySource = combineLoHiCiphertexts(
+    groupedCiphertextToCiphertext(groupedLo.ciphertext, 0),
+    groupedCiphertextToCiphertext(groupedHi.ciphertext, 0)
+  );
+  const remainingCiphertext = subtractElGamalCiphertexts(currentAvailableBalance, transferredBySource);
+
+  const opening = generatePedersenOpening();
+  const commitment = createPedersenCommitment(remainingBalance, opening);
+  const paddingOpening = generatePedersenOpening();
+  const paddingCommitment = createPedersenCommitment(0n, paddingOpening);
+
+  return {
+    equalityProof: generateCiphertextCommitmentEqualityProof(
+      sourceKeypair,
+      remainingCiphertext,
+      commitment,
+      opening,
+      remainingBalance
+    ),
+    ciphertextValidityProof: generateBatchedGroupedCiphertext3HandlesValidityProof(
+      publicKeys,
+      groupedLo.ciphertext,
+      groupedHi.ciphertext,
+      lo,
+      hi,
+      groupedLo.opening,
+      groupedHi.opening
+    ),
+    rangeProof: generateBatchedRangeProof(
+      [commitment, groupedLo.ciphertext.slice(0, 32), groupedHi.ciphertext.slice(0, 32), paddingCommitment],
+      [remainingBalance, lo, hi, 0n],
+      [REMAINING_BALANCE_BIT_LENGTH, AMOUNT_LO_BITS, AMOUNT_HI_BITS, RANGE_PROOF_PADDING_BIT_LENGTH],
+      [opening, groupedLo.opening, groupedHi.opening, paddingOpening]
+    ),
+    auditorCiphertextLo: groupedCiphertextToCiphertext(groupedLo.ciphertext, 2),
+    auditorCiphertextHi: groupedCiphertextToCiphertext(groupedHi.ciphertext, 2),
+    remainingBalance
+  };
+}
+
+/**
+ * Verify any proof produced by this SDK for the ZK ElGamal Proof program
+ *
+ * @returns Whether the proof is valid for its public inputs
+ */
+export function verifyZKProof(proof: ZKProof): boolean {
+  switch (proof.circuitHash as ZkElGamalProofType) {
+    case 'ZeroCiphertext':
+      return verifyZeroCiphertextProof(proof);
+    case 'CiphertextCommitmentEquality':
+      return verifyCiphertextCommitmentEqualityProof(proof);
+    case 'PubkeyValidity':
+      return verifyPubkeyValidityProof(proof);
+    case 'GroupedCiphertext3HandlesValidity':
+      return verifyGroupedCiphertext3HandlesValidityProof(proof);
+    case 'BatchedGroupedCiphertext3HandlesValidity':
+      return verifyBatchedGroupedCiphertext3HandlesValidityProof(proof);
+    case 'BatchedRangeProofU64':
+    case 'BatchedRangeProofU128':
+    case 'BatchedRangeProofU256':
+      return verifyBatchedRangeProof(proof);
+    default:
+      return false;
+  }
+}
+
+function remainingAfter(currentBalance: bigint, amount: bigint): bigint {
+  if (amount <= 0n) {
+    throw new ProofGenerationError(`Amount must be positive, got ${amount}`);
+  }
+  if (amount > currentBalance) {
+    throw new ProofGenerationError(
+      `Insufficient confidential balance: available ${currentBalance}, requested ${amount}`
+    );
+  }
+  return currentBalance - amount;
+}
@@ -0,0 +1,223 @@
+/**
+ * privacy/confidential-state.ts
+ *
+ * Purpose: Decode Token 2022 confidential transfer extension state
+ *
+ * Proofs are generated against the ciphertexts currently stored on-chain, so
+ * the manager reads them from the ConfidentialTransferAccount and
+ * ConfidentialTransferMint extensions before building any proof-backed
+ * instruction.
+ *
+ * ConfidentialTransferAccount layout (295 bytes):
+ * ```
+ * approved (1) | elgamal_pubkey (32) | pending_balance_lo (64) | pending_balance_hi (64)
+ * | available_balance (64) | decryptable_available_balance (36)
+ * | allow_confidential_credits (1) | allow_non_confidential_credits (1)
+ * | pending_balance_credit_counter (8) | maximum_pending_balance_credit_counter (8)
+ * | expected_pending_balance_credit_counter (8) | actual_pending_balance_credit_counter (8)
+ * ```
+ *
+ * ConfidentialTransferMint layout (65 bytes):
+ * ```
+ * authority (32) | auto_approve_new_accounts (1) | auditor_elgamal_pubkey (32)
+ * ```
+ * An all-zero authority or auditor key means "none".
+ */
+
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
+import {
+  Account,
+  ExtensionType,
+  Mint,
+  TOKEN_2022_PROGRAM_ID,
+  getExtensionData,
+  unpackAccount,
+  unpackMint
+} from '@solana/spl-token';
+import { ConfidentialAccountError, ConfidentialUnsupportedError } from './errors';
+import { ELGAMAL_CIPHERTEXT_LENGTH } from './elgamal';
+import { AE_CIPHERTEXT_LENGTH } from './authenticated-encryption';
+
+/** Size of the ConfidentialTransferAccount extension */
+export const CONFIDENTIAL_TRANSFER_ACCOUNT_LEN = 295;
+/** Size of the ConfidentialTransferMint extension */
+export const CONFIDENTIAL_TRANSFER_MINT_LEN = 65;
+
+/**
+ * ConfidentialTransferAccount extension state of a token account
+ */
+export interface ConfidentialTransferAccountState {
+  /** Whether the mint authority approved the account */
+  approved: boolean;
+  /** ElGamal public key of the account */
+  elgamalPubkey: Uint8Array;
+  /** Pending balance, low 16 bits (ElGamal ciphertext) */
+  pendingBalanceLo: Uint8Array;
+  /** Pending balance, high 48 bits (ElGamal ciphertext) */
+  pendingBalanceHi: Uint8Array;
+  /** Available balance (ElGamal ciphertext) */
+  availableBalance: Uint8Array;
+  /** Available balance encrypted under the owner's AE key */
+  decryptableAvailableBalance: Uint8Array;
+  /** Whether incoming confidential transfers are accepted */
+  allowConfidentialCredits: boolean;
+  /** Whether incoming public transfers are accepted */
+  allowNonConfidentialCredits: boolean;
+  /** Credits to the pending balance since the last ApplyPendingBalance */
+  pendingBalanceCreditCounter: bigint;
+  /** Maximum credits before ApplyPendingBalance is required */
+  maximumPendingBalanceCreditCounter: bigint;
+  /** Counter the owner expects at the next ApplyPendingBalance */
+  expectedPendingBalanceCreditCounter: bigint;
+  /** Counter applied by the last ApplyPendingBalance */
+  actualPendingBalanceCreditCounter: bigint;
+}
+
+/**
+ * ConfidentialTransferMint extension state of a mint
+ */
+export interface ConfidentialTransferMintState {
+  /** Authority allowed to update the extension (null if none) */
+  authority: PublicKey | null;
+  /** Whether new accounts are approved without the authority */
+  autoApproveNewAccounts: boolean;
+  /** Auditor ElGamal public key (null if none) */
+  auditorElGamalPubkey: Uint8Array | null;
+}
+
+/**
+ * Decode the ConfidentialTransferAccount extension
+ *
+ * @param data - Extension data (295 bytes)
+ */
+export function decodeConfidentialTransferAccountState(data: Uint8Array): ConfidentialTransferAccountState {
+  if (data.length !== CONFIDENTIAL_TRANSFER_ACCOUNT_LEN) {
+    throw new ConfidentialAccountError(
+      `ConfidentialTransferAccount extension must be ${CONFIDENTIAL_TRANSFER_ACCOUNT_LEN} bytes, got ${data.length}`
+    );
+  }
+
+  let offset = 0;
+  const take = (length: number): Uint8Array => {
+    const field = data.slice(offset, offset + length);
+    offset += length;
+    return field;
+  };
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const takeU64 = (): bigint => {
+    const value = view.getBigUint64(offset, true);
+    offset += 8;
+    return value;
+  };
+
+  return {
+    approved: take(1)[0] !== 0,
+    elgamalPubkey: take(32),
+    pendingBalanceLo: take(ELGAMAL_CIPHERTEXT_LENGTH),
+    pendingBalanceHi: take(ELGAMAL_CIPHERTEXT_LENGTH),
+    availableBalance: take(ELGAMAL_CIPHERTEXT_LENGTH),
+    decryptableAvailableBalance: take(AE_CIPHERTEXT_LENGTH),
+    allowConfidentialCredits: take(1)[0] !== 0,
+    allowNonConfidentialCredits: take(1)[0] !== 0,
+    pendingBalanceCreditCounter: takeU64(),
+    maximumPendingBalanceCreditCounter: takeU64(),
+    expectedPendingBalanceCreditCounter: takeU64(),
+    actualPendingBalanceCreditCounter: takeU64()
+  };
+}
+
+/**
+ * Decode the ConfidentialTransferMint extension
+ *
+ * @param data - Extension data (65 bytes)
+ */
+export function decodeConfidentialTransferMintState(data: Uint8Array): ConfidentialTransferMintState {
+  if (data.length !== CONFIDENTIAL_TRANSFER_MINT_LEN) {
+    throw new ConfidentialAccountError(
+      `ConfidentialTransferMint extension must be ${CONFIDENTIAL_TRANSFER_MINT_LEN} bytes, got ${data.length}`
+    );
+  }
+
+  const authority = data.slice(0, 32);
+  const auditor = data.slice(33, 65);
+
+  return {
+    authority: isZero(authority) ? null : new PublicKey(authority),
+    autoApproveNewAccounts: data[32] !== 0,
+    auditorElGamalPubkey: isZero(auditor) ? null : auditor
+  };
+}
+
+/**
+ * Get the ConfidentialTransferAccount state of an unpacked token account
+ *
+ * @returns The extension state, or null if the account is not configured
+ */
+export function getConfidentialTransferAccount(account: Account): ConfidentialTransferAccountState | null {
+  const data = getExtensionData(ExtensionType.ConfidentialTransferAccount, account.tlvData);
+  return data ? decodeConfidentialTransferAccountState(data) : null;
+}
+
+/**
+ * Get the ConfidentialTransferMint state of an unpacked mint
+ *
+ * @returns The extension state, or null if the mint has no confidential transfer extension
+ */
+export function getConfidentialTransferMint(mint: Mint): ConfidentialTransferMintState | null {
+  const data = getExtensionData(ExtensionType.ConfidentialTransferMint, mint.tlvData);
+  return data ? decodeConfidentialTransferMintState(data) : null;
+}
+
+/**
+ * Read the ConfidentialTransferAccount state of a token account
+ *
+ * @throws ConfidentialAccountError if the account does not exist
+ * @throws ConfidentialUnsupportedError if the account is not configured for confidential transfers
+ */
+export async function getConfidentialTransferAccountState(
+  connection: Connection,
+  account: PublicKey,
+  programId: PublicKey = TOKEN_2022_PROGRAM_ID
+): Promise<ConfidentialTransferAccountState> {
+  const info = await getAccountInfoOrThrow(connection, account);
+  const state = getConfidentialTransferAccount(unpackAccount(account, info, programId));
+  if (!state) {
+    throw new ConfidentialUnsupportedError(
+      `Account ${account.toBase58()} is not configured for confidential transfers`
+    );
+  }
+  return state;
+}
+
+/**
+ * Read the ConfidentialTransferMint state of a mint
+ *
+ * @throws ConfidentialAccountError if the mint does not exist
+ * @throws ConfidentialUnsupportedError if the mint has no confidential transfer extension
+ */
+export async function getConfidentialTransferMintState(
+  connection: Connection,
+  mint: PublicKey,
+  programId: PublicKey = TOKEN_2022_PROGRAM_ID
+): Promise<ConfidentialTransferMintState> {
+  const info = await getAccountInfoOrThrow(connection, mint);
+  const state = getConfidentialTransferMint(unpackMint(mint, info, programId));
+  if (!state) {
+    throw new ConfidentialUnsupportedError(
+      `Mint ${mint.toBase58()} does not have the confidential transfer extension`
+    );
+  }
+  return state;
+}
+
+async function getAccountInfoOrThrow(connection: Connection, address: PublicKey): Promise<AccountInfo<Buffer>> {
+  const info = await connection.getAccountInfo(address);
+  if (!info) {
+    throw new ConfidentialAccountError(`Account ${address.toBase58()} does not exist`);
+  }
+  return info;
+}
+
+function isZero(bytes: Uint8Array): boolean {
+  return bytes.every((byte) => byte === 0);
+}
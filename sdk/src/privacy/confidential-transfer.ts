@@ -12,117 +12,171 @@ import {
     PublicKey,
     Keypair,
     Transaction,
-    sendAndConfirmTransaction,
-    SystemProgram,
-    TransactionInstruction
+    TransactionInstruction,
+    SystemProgram
 } from '@solana/web3.js';
 import {
     TOKEN_2022_PROGRAM_ID,
     ExtensionType,
     createInitializeMintInstruction,
+    createMintToInstruction,
     getMintLen,
-    createInitializeAccountInstruction,
-    getAccountLen,
     createAssociatedTokenAccountInstruction,
+    createReallocateInstruction,
+    createTransferCheckedInstruction,
+    createBurnCheckedInstruction,
     getAssociatedTokenAddressSync,
-    amountToUiAmount,
-    uiAmountToAmount,
-    createInitializeConfidentialTransferMintInstruction,
-    createInitializeConfidentialTransferAccountInstruction,
-    createDepositInstruction,
-    createTransferInstruction,
-    createWithdrawInstruction
+    getAccount,
+    getMint,
+    Account
 } from '@solana/spl-token';
-import { ExtendedWalletAdapter } from '../core/types';
-import { PrivacyError } from './errors';
-
-// We need to define the instruction creators manually if they are not exported 
-// or if we want to be explicit. 
-// Note: In a full implementation we would import these from @solana/spl-token
-// assuming the version supports them. For now, we will implement the structure
-// and use placeholders for the specific instruction data construction if the 
-// library doesn't expose them directly in the installed version.
-
-// However, @solana/spl-token v0.4.0+ SHOULD support these.
-// We will attempt to use them. If not found, we'd need to construct raw instructions.
-
-// Stub functions for missing SPL Token instructions
-// In a real environment, these would be imported from a newer version of @solana/spl-token
-// or constructed manually with the correct discriminators.
-
-function createInitializeConfidentialTransferMintInstruction(
-    mint: PublicKey,
-    authority: PublicKey,
-    autoApproveNewAccounts: boolean,
-    auditorElGamalPubkey: PublicKey,
-    programId: PublicKey
-): TransactionInstruction {
-    // Placeholder: In a real implementation, this would construct the instruction.
-    // For now, we throw to trigger the fallback mechanism in the manager.
-    throw new Error("ConfidentialTransferMint instruction not supported in this environment.");
-}
+import { ExtendedWalletAdapter, WalletAdapter } from '../core/types';
+import { ConfidentialAccountError, ConfidentialTransferError, ConfidentialUnsupportedError } from './errors';
+import {
+    ApplyPendingBalanceResult,
+    ConfidentialBalance,
+    ConfidentialMint,
+    ConfidentialMintPolicy,
+    ConfidentialMintUpdate,
+    ConfidentialAccountResult,
+    ConfidentialOperationResult,
+    FallbackPolicy,
+    ZKProof
+} from './types';
+import {
+    DEFAULT_MAXIMUM_PENDING_BALANCE_CREDIT_COUNTER,
+    ProofLocation,
+    createInitializeConfidentialTransferMintInstruction,
+    createUpdateConfidentialTransferMintInstruction,
+    createConfigureConfidentialTransferAccountInstruction,
+    createConfidentialDepositInstruction,
+    createApplyPendingBalanceInstruction,
+    createConfidentialTransferInstruction,
+    createConfidentialWithdrawInstruction
+} from './confidential-instructions';
+import { aeDecrypt, aeEncrypt } from './authenticated-encryption';
+import { ConfidentialAccountKeys, deriveConfidentialAccountKeys } from './key-derivation';
+import {
+    ConfidentialTransferAccountState,
+    getConfidentialTransferAccount,
+    getConfidentialTransferMint,
+    getConfidentialTransferAccountState,
+    getConfidentialTransferMintState
+} from './confidential-state';
+import { addElGamalCiphertexts, combineLoHiCiphertexts, decodePoint, decryptElGamalLoHi } from './elgamal';
+import { generateTransferProofs, generateWithdrawProofs } from './confidential-proofs';
+import { generatePubkeyValidityProof } from './sigma-proofs';
+import {
+    ProofContextStateInfo,
+    createCloseContextStateInstruction,
+    createVerifyProofInstruction,
+    getProofContextStateSize,
+    ZK_ELGAMAL_PROOF_PROGRAM_ID
+} from './proof-instructions';
 
-function createInitializeConfidentialTransferAccountInstruction(
-    account: PublicKey,
-    mint: PublicKey,
-    programId: PublicKey
-): TransactionInstruction {
-    throw new Error("ConfidentialTransferAccount instruction not supported in this environment.");
+/**
+ * A confidential token account owned by the wallet, with its keys
+ */
+interface OwnedConfidentialAccount {
+    tokenAccount: Account;
+    state: ConfidentialTransferAccountState;
+    keys: ConfidentialAccountKeys;
 }
 
-function createDepositInstruction(
-    account: PublicKey,
-    mint: PublicKey,
-    authority: PublicKey,
-    amount: bigint,
-    decimals: number,
-    programId: PublicKey
-): TransactionInstruction {
-    throw new Error("Deposit instruction not supported in this environment.");
+/**
+ * Available balance a Transfer or Withdraw proves against
+ */
+interface SpendableBalance {
+    keys: ConfidentialAccountKeys;
+    /** Available balance ciphertext as the token program will see it */
+    ciphertext: Uint8Array;
+    /** Decrypted available balance */
+    amount: bigint;
 }
 
-function createTransferInstruction(
-    source: PublicKey,
-    mint: PublicKey,
-    destination: PublicKey,
-    amount: bigint,
-    authority: PublicKey,
-    proofData: Uint8Array,
-    programId: PublicKey
-): TransactionInstruction {
-    throw new Error("Transfer instruction not supported in this environment.");
+/**
+ * Whether a confidential operation failed because the mint, the account or
+ * the cluster does not support it
+ *
+ * Only these failures may fall back to a public operation; insufficient
+ * balances, proof failures and the like must surface to the caller.
+ */
+function isUnsupportedError(error: unknown): boolean {
+    if (error instanceof ConfidentialUnsupportedError) {
+        return true;
+    }
+    if (!(error instanceof Error)) {
+        return false;
+    }
+    const logs = (error as Error & { logs?: string[] }).logs ?? [];
+    return [error.message, ...logs].some(line =>
+        /invalid instruction data|instruction not supported|unsupported program id|program that does not exist/i.test(line)
+    );
 }
 
-function createWithdrawInstruction(
-    account: PublicKey,
-    mint: PublicKey,
-    destination: PublicKey,
-    authority: PublicKey,
-    amount: bigint,
-    decimals: number,
-    proofData: Uint8Array,
-    programId: PublicKey
-): TransactionInstruction {
-    throw new Error("Withdraw instruction not supported in this environment.");
+/**
+ * Convert a token amount to base units of a mint with `decimals` decimals
+ *
+ * Goes through the decimal string of the amount, so a fractional amount whose
+ * float product is not an integer (1.1 tokens with 9 decimals) still converts
+ * to the expected base units.
+ *
+ * @throws ConfidentialTransferError if the amount is negative, not finite or too large
+ */
+function toBaseUnits(amount: number, decimals: number): bigint {
+    if (!Number.isFinite(amount) || amount < 0 || amount >= 1e21) {
+        throw new ConfidentialTransferError(`Invalid token amount: ${amount}`);
+    }
+    const [whole, fraction = ''] = amount.toFixed(decimals).split('.');
+    return BigInt(whole + fraction);
 }
 
 export class ConfidentialTransferManager {
     private connection: Connection;
     private wallet: ExtendedWalletAdapter;
+    private fallbackPolicy: FallbackPolicy;
+    private autoApplyPendingBalance: boolean;
+    private feePayer?: WalletAdapter;
+    private mintAuthority?: WalletAdapter;
 
-    constructor(connection: Connection, wallet: ExtendedWalletAdapter) {
+    /**
+     * @param signers - Fee payer and mint authority, when they are not the wallet
+     */
+    constructor(
+        connection: Connection,
+        wallet: ExtendedWalletAdapter,
+        fallbackPolicy: FallbackPolicy = 'warn',
+        autoApplyPendingBalance: boolean = false,
+        signers: { feePayer?: WalletAdapter; mintAuthority?: WalletAdapter } = {}
+    ) {
         this.connection = connection;
         this.wallet = wallet;
+        this.fallbackPolicy = fallbackPolicy;
+        this.autoApplyPendingBalance = autoApplyPendingBalance;
+        this.feePayer = signers.feePayer;
+        this.mintAuthority = signers.mintAuthority;
     }
 
     /**
      * Create a confidential mint with ConfidentialTransfer extension
+     *
+     * @param mintKeypair - Keypair of the new mint
+     * @param decimals - Decimals of the mint
+     * @param authority - Mint and freeze authority
+     * @param policy - Confidential transfer authority, auto-approval and auditor of the mint
      */
     async createConfidentialMint(
         mintKeypair: Keypair,
         decimals: number = 9,
-        authority: PublicKey
-    ): Promise<string> {
+        authority: PublicKey,
+        policy: ConfidentialMintPolicy = {}
+    ): Promise<ConfidentialOperationResult> {
+        // An invalid auditor key is a caller error, not a reason to fall back
+        const auditorElGamalPubkey = this._validateAuditorKey(policy.auditorElGamalPubkey ?? null);
+        const confidentialTransferAuthority = policy.confidentialTransferAuthority === undefined
+            ? authority
+            : policy.confidentialTransferAuthority;
+
         try {
             const mintLen = getMintLen([ExtensionType.ConfidentialTransferMint]);
             const lamports = await this.connection.getMinimumBalanceForRentExemption(mintLen);
@@ -136,14 +190,13 @@ export class ConfidentialTransferManager {
                     programId: TOKEN_2022_PROGRAM_ID,
                 }),
                 // Initialize Confidential Transfer Mint Extension
-                // Note: In a real deployment, we would configure the authority to approve transfers
-                // and potentially set up an auditor.
-                // For this demo, we set the authority to the wallet.
+                // With an auditor, every transfer amount is also encrypted to the
+                // auditor key so the auditor can decrypt it.
                 createInitializeConfidentialTransferMintInstruction(
                     mintKeypair.publicKey,
-                    authority,
-                    true, // autoApproveNewAccounts
-                    authority, // auditorElGamalPubkey (using authority as placeholder if no separate auditor)
+                    confidentialTransferAuthority,
+                    policy.autoApproveNewAccounts ?? true,
+                    auditorElGamalPubkey,
                     TOKEN_2022_PROGRAM_ID
                 ),
                 createInitializeMintInstruction(
@@ -155,11 +208,16 @@ export class ConfidentialTransferManager {
                 )
             );
 
-            return await this._sendTransaction(transaction, [mintKeypair]);
+            const signature = await this._sendTransaction(transaction, [mintKeypair]);
+            return { signature, path: 'confidential' };
 
         } catch (error) {
             // Fallback for demo: Create a standard Token 2022 mint if confidential fails
-            console.warn("Failed to create Confidential Mint (likely due to missing extension support). Creating standard Token 2022 mint.");
+            const fallbackReason = this._applyFallbackPolicy(
+                'createConfidentialMint',
+                error,
+                "Failed to create Confidential Mint (likely due to missing extension support). Creating standard Token 2022 mint."
+            );
 
             const mintLen = getMintLen([]);
             const lamports = await this.connection.getMinimumBalanceForRentExemption(mintLen);
@@ -181,17 +239,77 @@ export class ConfidentialTransferManager {
                 )
             );
 
-            return await this._sendTransaction(transaction, [mintKeypair]);
+            const signature = await this._sendTransaction(transaction, [mintKeypair]);
+            return { signature, path: 'public-fallback', fallbackReason };
         }
     }
 
+    /**
+     * Update the auto-approval flag or rotate the auditor of a confidential mint
+     *
+     * Must be signed by the confidential transfer authority of the mint, which
+     * has to be the mint authority signer (the wallet unless configured).
+     * Omitted fields keep their on-chain value.
+     */
+    async updateConfidentialMint(mint: PublicKey, update: ConfidentialMintUpdate): Promise<string> {
+        const authority = this.mintAuthority ?? this.wallet;
+        const current = await this.getConfidentialMint(mint);
+        if (!current.confidentialTransferEnabled) {
+            throw new ConfidentialTransferError(`Mint ${mint.toBase58()} does not have the confidential transfer extension`);
+        }
+        if (!current.confidentialTransferAuthority?.equals(authority.publicKey)) {
+            throw new ConfidentialTransferError(
+                `Mint ${mint.toBase58()} can only be updated by its confidential transfer authority`
+            );
+        }
+
+        const auditorElGamalPubkey = update.auditorElGamalPubkey === undefined
+            ? current.auditorElGamalPubkey
+            : this._validateAuditorKey(update.auditorElGamalPubkey);
+
+        const transaction = new Transaction().add(
+            createUpdateConfidentialTransferMintInstruction(
+                mint,
+                authority.publicKey,
+                update.autoApproveNewAccounts ?? current.autoApproveNewAccounts,
+                auditorElGamalPubkey,
+                [],
+                TOKEN_2022_PROGRAM_ID
+            )
+        );
+
+        return await this._sendTransaction(transaction, [], [authority]);
+    }
+
+    /**
+     * Read a mint and its confidential transfer configuration
+     */
+    async getConfidentialMint(mint: PublicKey): Promise<ConfidentialMint> {
+        const mintAccount = await getMint(this.connection, mint, undefined, TOKEN_2022_PROGRAM_ID);
+        const state = getConfidentialTransferMint(mintAccount);
+
+        return {
+            address: mint,
+            authority: mintAccount.mintAuthority,
+            decimals: mintAccount.decimals,
+            supply: mintAccount.supply,
+            confidentialTransferEnabled: state !== null,
+            confidentialTransferAuthority: state?.authority ?? null,
+            autoApproveNewAccounts: state?.autoApproveNewAccounts ?? false,
+            auditorElGamalPubkey: state?.auditorElGamalPubkey ?? null
+        };
+    }
+
     /**
      * Create a confidential token account
+     *
+     * @returns The account and whether it was configured for confidential
+     * transfers or fell back to a plain associated token account
      */
     async createConfidentialAccount(
         mint: PublicKey,
         owner: PublicKey
-    ): Promise<PublicKey> {
+    ): Promise<ConfidentialAccountResult> {
         try {
             const ata = getAssociatedTokenAddressSync(
                 mint,
@@ -200,6 +318,19 @@ export class ConfidentialTransferManager {
                 TOKEN_2022_PROGRAM_ID
             );
 
+            await getConfidentialTransferMintState(this.connection, mint);
+            if (!owner.equals(this.wallet.publicKey)) {
+                throw new ConfidentialUnsupportedError(
+                    `Only the owner can configure ${ata.toBase58()} for confidential transfers`
+                );
+            }
+
+            // ConfigureAccount needs the owner's AE encryption of a zero balance
+            // and a proof that the owner holds the ElGamal secret key.
+            const { elGamal, aeKey } = await this._deriveAccountKeys(ata, owner);
+            const decryptableZeroBalance = aeEncrypt(aeKey, 0n);
+            const pubkeyValidityProof = generatePubkeyValidityProof(elGamal);
+
             const transaction = new Transaction().add(
                 createAssociatedTokenAccountInstruction(
                     this.wallet.publicKey,
@@ -208,20 +339,40 @@ export class ConfidentialTransferManager {
                     mint,
                     TOKEN_2022_PROGRAM_ID
                 ),
-                // Initialize Confidential Transfer Account Extension
+                // Grow the account so it can hold the ConfidentialTransferAccount extension
+                createReallocateInstruction(
+                    ata,
+                    this.wallet.publicKey,
+                    [ExtensionType.ConfidentialTransferAccount],
+                    owner,
+                    [],
+                    TOKEN_2022_PROGRAM_ID
+                ),
+                // Configure Confidential Transfer Account Extension
                 // This is required to enable confidential transfers for this account.
-                createInitializeConfidentialTransferAccountInstruction(
+                createConfigureConfidentialTransferAccountInstruction(
                     ata,
                     mint,
+                    decryptableZeroBalance,
+                    DEFAULT_MAXIMUM_PENDING_BALANCE_CREDIT_COUNTER,
+                    owner,
+                    { type: 'instruction', offset: 1 },
+                    [],
                     TOKEN_2022_PROGRAM_ID
-                )
+                ),
+                // The pubkey validity proof is small enough to verify in place
+                createVerifyProofInstruction(pubkeyValidityProof)
             );
 
-            await this._sendTransaction(transaction);
-            return ata;
+            const signature = await this._sendTransaction(transaction);
+            return { account: ata, signature, path: 'confidential' };
         } catch (error) {
             // Fallback: Just create the ATA
-            console.warn("Failed to initialize Confidential Account extension. Creating standard ATA.");
+            const fallbackReason = this._applyFallbackPolicy(
+                'createConfidentialAccount',
+                error,
+                "Failed to initialize Confidential Account extension. Creating standard ATA."
+            );
             const ata = getAssociatedTokenAddressSync(
                 mint,
                 owner,
@@ -241,11 +392,9 @@ export class ConfidentialTransferManager {
 
             // Check if it already exists to avoid error
             const info = await this.connection.getAccountInfo(ata);
-            if (!info) {
-                await this._sendTransaction(transaction);
-            }
+            const signature = info ? undefined : await this._sendTransaction(transaction);
 
-            return ata;
+            return { account: ata, signature, path: 'public-fallback', fallbackReason };
         }
     }
 
@@ -257,43 +406,51 @@ export class ConfidentialTransferManager {
         mint: PublicKey,
         amount: number,
         decimals: number = 9
-    ): Promise<string> {
+    ): Promise<ConfidentialOperationResult> {
         try {
             console.log(`[Confidential] Depositing ${amount} to ${account.toBase58()}`);
-            const amountBigInt = BigInt(amount * (10 ** decimals));
+            const amountBigInt = toBaseUnits(amount, decimals);
+            await getConfidentialTransferAccountState(this.connection, account);
 
             // Create Deposit Instruction
             // This instruction moves public tokens into the confidential balance.
             // It requires no proof, just the amount.
             const transaction = new Transaction().add(
-                createDepositInstruction(
+                createConfidentialDepositInstruction(
                     account,
                     mint,
                     this.wallet.publicKey, // authority
                     amountBigInt,
                     decimals,
+                    [],
                     TOKEN_2022_PROGRAM_ID
                 )
             );
 
-            return await this._sendTransaction(transaction);
+            const signature = await this._sendTransaction(transaction);
+            return { signature, path: 'confidential' };
 
         } catch (error) {
             // Fallback: Mint to account (Simulation of deposit)
-            console.warn("Deposit failed (missing instruction support). Simulating via MintTo.");
-            const { mintTo } = await import('@solana/spl-token');
-            const amountBigInt = BigInt(amount * (10 ** decimals));
-            return await mintTo(
-                this.connection,
-                this.wallet as any,
-                mint,
-                account,
-                this.wallet.publicKey,
-                amountBigInt,
-                [],
-                undefined,
-                TOKEN_2022_PROGRAM_ID
+            const fallbackReason = this._applyFallbackPolicy(
+                'deposit',
+                error,
+                "Deposit failed (missing instruction support). Simulating via MintTo."
             );
+            const authority = this.mintAuthority ?? this.wallet;
+            const amountBigInt = toBaseUnits(amount, decimals);
+            const transaction = new Transaction().add(
+                createMintToInstruction(
+                    mint,
+                    account,
+                    authority.publicKey,
+                    amountBigInt,
+                    [],
+                    TOKEN_2022_PROGRAM_ID
+                )
+            );
+            const signature = await this._sendTransaction(transaction, [], [authority]);
+            return { signature, path: 'public-fallback', fallbackReason };
         }
     }
 
@@ -306,55 +463,64 @@ export class ConfidentialTransferManager {
         destinationAccount: PublicKey,
         amount: number,
         decimals: number = 9
-    ): Promise<string> {
+    ): Promise<ConfidentialOperationResult> {
         try {
             console.log(`[Confidential] Transferring ${amount} from ${sourceAccount.toBase58()} to ${destinationAccount.toBase58()}`);
-            const amountBigInt = BigInt(amount * (10 ** decimals));
-
-            // NOTE: Real Confidential Transfer requires generating a ZK Proof (Twisted ElGamal).
-            // Generating this proof in JS is computationally heavy and requires WASM.
-            // For this SDK implementation, we construct the CORRECT instruction structure.
-            // However, without the valid proof data, this transaction will fail on-chain verification.
-
-            // To make this "work" for a demo without the WASM prover, we would need to use a 
-            // centralized proof server or a mock verifier (which we can't deploy to mainnet).
-
-            // We will use the `createTransferInstruction` but acknowledge the missing proof data.
-            // This demonstrates the correct ARCHITECTURE even if the client-side prover is missing.
-
-            // Placeholder for proof data (would come from WASM prover)
-            const mockProofData = new Uint8Array(64).fill(0);
+            const amountBigInt = toBaseUnits(amount, decimals);
+
+            // The amount never appears in the instruction: it is split into lo/hi
+            // ElGamal ciphertexts and backed by equality, validity and range proofs.
+            const { keys, ciphertext, amount: available } = await this._getSpendableBalance(sourceAccount, amountBigInt);
+            const destination = await getConfidentialTransferAccountState(this.connection, destinationAccount);
+            const mintState = await getConfidentialTransferMintState(this.connection, mint);
+
+            const proofs = generateTransferProofs(
+                keys.elGamal,
+                ciphertext,
+                available,
+                amountBigInt,
+                destination.elgamalPubkey,
+                mintState.auditorElGamalPubkey
+            );
 
-            const transaction = new Transaction().add(
-                createTransferInstruction(
+            const signature = await this._sendWithProofContexts(
+                [proofs.equalityProof, proofs.ciphertextValidityProof, proofs.rangeProof],
+                ([equalityProof, ciphertextValidityProof, rangeProof]) => createConfidentialTransferInstruction(
                     sourceAccount,
                     mint,
                     destinationAccount,
-                    amountBigInt, // This amount is actually encrypted in the real instruction
+                    aeEncrypt(keys.aeKey, proofs.remainingBalance),
+                    proofs.auditorCiphertextLo,
+                    proofs.auditorCiphertextHi,
                     this.wallet.publicKey, // authority
-                    mockProofData, // proof data
+                    equalityProof,
+                    ciphertextValidityProof,
+                    rangeProof,
+                    [],
                     TOKEN_2022_PROGRAM_ID
                 )
             );
-
-            return await this._sendTransaction(transaction);
+            return { signature, path: 'confidential' };
         } catch (error) {
-            console.warn("Confidential Transfer failed. Falling back to standard transfer.");
-            const { transferChecked } = await import('@solana/spl-token');
-            const amountBigInt = BigInt(amount * (10 ** decimals));
-            return await transferChecked(
-                this.connection,
-                this.wallet as any,
-                sourceAccount,
-                mint,
-                destinationAccount,
-                this.wallet.publicKey,
-                amountBigInt,
-                decimals,
-                [],
-                undefined,
-                TOKEN_2022_PROGRAM_ID
+            const fallbackReason = this._applyFallbackPolicy(
+                'transfer',
+                error,
+                "Confidential Transfer failed. Falling back to standard transfer."
             );
+            const amountBigInt = toBaseUnits(amount, decimals);
+            const signature = await this._sendTransaction(new Transaction().add(
+                createTransferCheckedInstruction(
+                    sourceAccount,
+                    mint,
+                    destinationAccount,
+                    this.wallet.publicKey,
+                    amountBigInt,
+                    decimals,
+                    [],
+                    TOKEN_2022_PROGRAM_ID
+                )
+            ));
+            return { signature, path: 'public-fallback', fallbackReason };
         }
     }
 
@@ -366,69 +532,375 @@ export class ConfidentialTransferManager {
         mint: PublicKey,
         amount: number,
         decimals: number = 9
-    ): Promise<string> {
+    ): Promise<ConfidentialOperationResult> {
         try {
             console.log(`[Confidential] Withdrawing ${amount} from ${account.toBase58()}`);
-            const amountBigInt = BigInt(amount * (10 ** decimals));
+            const amountBigInt = toBaseUnits(amount, decimals);
 
-            // Create Withdraw Instruction
-            // Requires proof that we own the confidential balance.
-            const transaction = new Transaction().add(
-                createWithdrawInstruction(
+            // Prove that the remaining balance is what the account will hold
+            // afterwards and that it did not underflow.
+            const { keys, ciphertext, amount: available } = await this._getSpendableBalance(account, amountBigInt);
+
+            const proofs = generateWithdrawProofs(keys.elGamal, ciphertext, available, amountBigInt);
+
+            const signature = await this._sendWithProofContexts(
+                [proofs.equalityProof, proofs.rangeProof],
+                ([equalityProof, rangeProof]) => createConfidentialWithdrawInstruction(
                     account,
                     mint,
-                    this.wallet.publicKey, // destination (public)
                     this.wallet.publicKey, // authority
                     amountBigInt,
                     decimals,
-                    new Uint8Array(64).fill(0), // proof data placeholder
+                    aeEncrypt(keys.aeKey, proofs.remainingBalance),
+                    equalityProof,
+                    rangeProof,
+                    [],
                     TOKEN_2022_PROGRAM_ID
                 )
             );
+            return { signature, path: 'confidential' };
+        } catch (error) {
+            const fallbackReason = this._applyFallbackPolicy(
+                'withdraw',
+                error,
+                "Withdraw failed. Falling back to burn."
+            );
+            const amountBigInt = toBaseUnits(amount, decimals);
+            const signature = await this._sendTransaction(new Transaction().add(
+                createBurnCheckedInstruction(
+                    account,
+                    mint,
+                    this.wallet.publicKey,
+                    amountBigInt,
+                    decimals,
+                    [],
+                    TOKEN_2022_PROGRAM_ID
+                )
+            ));
+            return { signature, path: 'public-fallback', fallbackReason };
+        }
+    }
 
-            return await this._sendTransaction(transaction);
+    /**
+     * Read and decrypt the balances of a confidential token account
+     *
+     * The available balance is decrypted from its AE ciphertext; the pending
+     * balance needs a discrete log on each of its lo/hi ElGamal ciphertexts.
+     * Only the account owner can derive the keys, so `account` must belong to
+     * the wallet.
+     */
+    async getBalance(account: PublicKey): Promise<ConfidentialBalance> {
+        const { tokenAccount, state, keys } = await this._getOwnedAccount(account);
+        const mint = await getMint(this.connection, tokenAccount.mint, undefined, TOKEN_2022_PROGRAM_ID);
+
+        return {
+            ciphertext: state.availableBalance,
+            commitment: state.availableBalance.slice(0, 32),
+            lastUpdated: Date.now(),
+            exists: true,
+            available: aeDecrypt(keys.aeKey, state.decryptableAvailableBalance),
+            pending: this._decryptPendingBalance(account, state, keys),
+            public: tokenAccount.amount,
+            decimals: mint.decimals
+        };
+    }
+
+    /**
+     * Move the pending balance into the available balance
+     *
+     * Incoming confidential transfers and deposits are credited to the pending
+     * balance and cannot be spent until they are applied. The instruction
+     * carries the pending credit counter the new decryptable balance accounts
+     * for, so credits that land while it is in flight stay pending instead of
+     * corrupting the decryptable balance.
+     *
+     * @param account - Confidential token account owned by the wallet
+     * @param mint - Mint of the account
+     */
+    async applyPendingBalance(account: PublicKey, mint: PublicKey): Promise<ApplyPendingBalanceResult> {
+        const owned = await this._getOwnedAccount(account);
+        if (!owned.tokenAccount.mint.equals(mint)) {
+            throw new ConfidentialAccountError(
+                `Account ${account.toBase58()} does not belong to mint ${mint.toBase58()}`
+            );
+        }
+        if (owned.state.pendingBalanceCreditCounter === 0n) {
+            throw new ConfidentialAccountError(`Account ${account.toBase58()} has no pending balance to apply`);
+        }
+
+        return await this._applyPendingBalance(account, owned);
+    }
+
+    /**
+     * Apply the fallback policy after a confidential operation failed
+     *
+     * Rethrows failures other than missing confidential transfer support,
+     * throws when the policy is 'never', warns when it is 'warn'.
+     *
+     * @returns Reason the confidential path failed, reported in the result
+     */
+    private _applyFallbackPolicy(operation: string, error: unknown, warning: string): string {
+        if (!isUnsupportedError(error)) {
+            throw error;
+        }
+
+        const reason = error instanceof Error ? error.message : String(error);
+
+        if (this.fallbackPolicy === 'never') {
+            throw new ConfidentialTransferError(
+                `${operation} refused to fall back to a public operation (fallbackPolicy: 'never'): ${reason}`,
+                error instanceof Error ? error : undefined
+            );
+        }
+
+        if (this.fallbackPolicy === 'warn') {
+            console.warn(warning);
+        }
+
+        return reason;
+    }
+
+    /**
+     * Check that an auditor key is a valid ElGamal public key
+     */
+    private _validateAuditorKey(auditorElGamalPubkey: Uint8Array | null): Uint8Array | null {
+        if (auditorElGamalPubkey === null) {
+            return null;
+        }
+        try {
+            decodePoint(auditorElGamalPubkey, 'auditor ElGamal public key');
         } catch (error) {
-            console.warn("Withdraw failed. Falling back to burn.");
-            const { burnChecked } = await import('@solana/spl-token');
-            const amountBigInt = BigInt(amount * (10 ** decimals));
-            return await burnChecked(
-                this.connection,
-                this.wallet as any,
+            throw new ConfidentialTransferError(
+                `Invalid auditor ElGamal public key: ${error instanceof Error ? error.message : String(error)}`,
+                error instanceof Error ? error : undefined
+            );
+        }
+        return auditorElGamalPubkey;
+    }
+
+    /**
+     * Read a confidential token account and derive its keys
+     *
+     * @throws ConfidentialUnsupportedError if the account is not configured for confidential transfers
+     */
+    private async _getOwnedAccount(account: PublicKey): Promise<OwnedConfidentialAccount> {
+        const tokenAccount = await getAccount(this.connection, account, undefined, TOKEN_2022_PROGRAM_ID);
+        const state = getConfidentialTransferAccount(tokenAccount);
+        if (!state) {
+            throw new ConfidentialUnsupportedError(
+                `Account ${account.toBase58()} is not configured for confidential transfers`
+            );
+        }
+        const keys = await this._deriveAccountKeys(account, tokenAccount.owner);
+        return { tokenAccount, state, keys };
+    }
+
+    /**
+     * Decrypt the pending balance (lo + hi * 2^16)
+     */
+    private _decryptPendingBalance(
+        account: PublicKey,
+        state: ConfidentialTransferAccountState,
+        keys: ConfidentialAccountKeys
+    ): bigint {
+        const pending = decryptElGamalLoHi(keys.elGamal.secretKey, state.pendingBalanceLo, state.pendingBalanceHi);
+        if (pending === null) {
+            throw new ConfidentialAccountError(
+                `Pending balance of ${account.toBase58()} could not be decrypted`
+            );
+        }
+        return pending;
+    }
+
+    /**
+     * Send ApplyPendingBalance for an account that has pending credits
+     */
+    private async _applyPendingBalance(
+        account: PublicKey,
+        { state, keys }: OwnedConfidentialAccount
+    ): Promise<ApplyPendingBalanceResult> {
+        const appliedAmount = this._decryptPendingBalance(account, state, keys);
+        const availableBalance = aeDecrypt(keys.aeKey, state.decryptableAvailableBalance) + appliedAmount;
+
+        const transaction = new Transaction().add(
+            createApplyPendingBalanceInstruction(
                 account,
-                mint,
                 this.wallet.publicKey,
-                amountBigInt,
-                decimals,
+                state.pendingBalanceCreditCounter,
+                aeEncrypt(keys.aeKey, availableBalance),
                 [],
-                undefined,
                 TOKEN_2022_PROGRAM_ID
+            )
+        );
+
+        const signature = await this._sendTransaction(transaction);
+        return {
+            signature,
+            appliedAmount,
+            availableBalance,
+            expectedPendingBalanceCreditCounter: state.pendingBalanceCreditCounter
+        };
+    }
+
+    /**
+     * Read the available balance a Transfer or Withdraw of `amount` proves against
+     *
+     * With auto-apply enabled, a pending balance is applied first when the
+     * available balance alone cannot cover the amount. The new available
+     * ciphertext is computed the way the token program computes it
+     * (available + pending_lo + pending_hi * 2^16), so no second read is needed.
+     */
+    private async _getSpendableBalance(account: PublicKey, amount: bigint): Promise<SpendableBalance> {
+        const owned = await this._getOwnedAccount(account);
+        const { state, keys } = owned;
+        const available = aeDecrypt(keys.aeKey, state.decryptableAvailableBalance);
+
+        if (available >= amount || !this.autoApplyPendingBalance || state.pendingBalanceCreditCounter === 0n) {
+            return { keys, ciphertext: state.availableBalance, amount: available };
+        }
+
+        const { availableBalance } = await this._applyPendingBalance(account, owned);
+        return {
+            keys,
+            ciphertext: addElGamalCiphertexts(
+                state.availableBalance,
+                combineLoHiCiphertexts(state.pendingBalanceLo, state.pendingBalanceHi)
+            ),
+            amount: availableBalance
+        };
+    }
+
+    /**
+     * Derive the ElGamal keypair and AE key of a token account owned by the wallet
+     */
+    private async _deriveAccountKeys(account: PublicKey, owner: PublicKey): Promise<ConfidentialAccountKeys> {
+        if (!owner.equals(this.wallet.publicKey)) {
+            throw new ConfidentialTransferError(
+                `Account keys can only be derived by the owner (${owner.toBase58()})`
             );
         }
+        return await deriveConfidentialAccountKeys(this.wallet, account);
     }
 
-    private async _sendTransaction(
-        transaction: Transaction,
-        signers: Keypair[] = []
+    /**
+     * Verify proofs into context state accounts, then send a token instruction that uses them
+     *
+     * Proofs for Transfer and Withdraw do not fit in one transaction with the
+     * token instruction, so each one is verified ahead of time:
+     *
+     * 1. Allocate one context state account per proof (owned by the proof program)
+     * 2. Verify each proof into its account, one transaction per proof
+     * 3. Send the token instruction and close the context accounts in the same
+     *    transaction, returning their rent to the wallet
+     *
+     * If a verification or the token transaction fails, the context accounts
+     * are closed before the error is rethrown, so their rent is not stranded.
+     *
+     * @returns Signature of the transaction holding the token instruction
+     */
+    private async _sendWithProofContexts(
+        proofs: ZKProof[],
+        buildInstruction: (locations: ProofLocation[]) => TransactionInstruction
     ): Promise<string> {
-        if ('signTransaction' in this.wallet) {
-            transaction.feePayer = this.wallet.publicKey;
-            const { blockhash } = await this.connection.getLatestBlockhash();
-            transaction.recentBlockhash = blockhash;
+        const contextAccounts = proofs.map(() => Keypair.generate());
+        const contextStates: ProofContextStateInfo[] = contextAccounts.map(keypair => ({
+            account: keypair.publicKey,
+            authority: this.wallet.publicKey
+        }));
+
+        const allocate = new Transaction();
+        for (let i = 0; i < proofs.length; i++) {
+            const space = getProofContextStateSize(proofs[i]);
+            allocate.add(
+                SystemProgram.createAccount({
+                    fromPubkey: this.wallet.publicKey,
+                    newAccountPubkey: contextAccounts[i].publicKey,
+                    space,
+                    lamports: await this.connection.getMinimumBalanceForRentExemption(space),
+                    programId: ZK_ELGAMAL_PROOF_PROGRAM_ID,
+                })
+            );
+        }
+        await this._sendTransaction(allocate, contextAccounts);
 
-            if (signers.length > 0) {
-                transaction.partialSign(...signers);
+        try {
+            for (let i = 0; i < proofs.length; i++) {
+                await this._sendTransaction(
+                    new Transaction().add(createVerifyProofInstruction(proofs[i], contextStates[i]))
+                );
             }
 
-            const signed = await this.wallet.signTransaction(transaction);
-            const sig = await this.connection.sendRawTransaction(signed.serialize());
-            await this.connection.confirmTransaction(sig);
-            return sig;
-        } else {
-            return await sendAndConfirmTransaction(
-                this.connection,
-                transaction,
-                [this.wallet as any, ...signers]
+            const transaction = new Transaction().add(
+                buildInstruction(contextStates.map(({ account }) => ({ type: 'contextState', account })))
             );
+            for (const contextState of contextStates) {
+                transaction.add(createCloseContextStateInstruction(contextState, this.wallet.publicKey));
+            }
+            return await this._sendTransaction(transaction);
+        } catch (error) {
+            await this._closeContextStates(contextStates);
+            throw error;
+        }
+    }
+
+    /**
+     * Close context state accounts left by a failed proof verification
+     *
+     * Each account is closed in its own transaction, so one that cannot be
+     * closed does not keep the others open. Failures are only logged: the
+     * error that interrupted the operation is the one the caller needs.
+     */
+    private async _closeContextStates(contextStates: ProofContextStateInfo[]): Promise<void> {
+        for (const contextState of contextStates) {
+            try {
+                await this._sendTransaction(
+                    new Transaction().add(createCloseContextStateInstruction(contextState, this.wallet.publicKey))
+                );
+            } catch (error) {
+                console.warn(
+                    `[Confidential] Could not close proof context account ${contextState.account.toBase58()}: ` +
+                    `${error instanceof Error ? error.message : String(error)}`
+                );
+            }
+        }
+    }
+
+    /**
+     * Sign and send a transaction
+     *
+     * The fee payer (the wallet unless configured) pays; the wallet, the fee
+     * payer and any cosigners sign when the transaction requires them to.
+     *
+     * @param signers - Keypairs of new accounts
+     * @param cosigners - Other wallets that may have to sign, such as the mint authority
+     */
+    private async _sendTransaction(
+        transaction: Transaction,
+        signers: Keypair[] = [],
+        cosigners: WalletAdapter[] = []
+    ): Promise<string> {
+        const feePayer = this.feePayer ?? this.wallet;
+        transaction.feePayer = feePayer.publicKey;
+        const { blockhash } = await this.connection.getLatestBlockhash();
+        transaction.recentBlockhash = blockhash;
+
+        if (signers.length > 0) {
+            transaction.partialSign(...signers);
+        }
+
+        const message = transaction.compileMessage();
+        const required = message.accountKeys.slice(0, message.header.numRequiredSignatures);
+        const wallets = [this.wallet, feePayer, ...cosigners].filter((wallet, index, all) =>
+            all.findIndex(other => other.publicKey.equals(wallet.publicKey)) === index &&
+            required.some(key => key.equals(wallet.publicKey))
+        );
+
+        let signed = transaction;
+        for (const wallet of wallets) {
+            signed = await wallet.signTransaction(signed);
         }
+        const sig = await this.connection.sendRawTransaction(signed.serialize());
+        await this.connection.confirmTransaction(sig);
+        return sig;
     }
 }
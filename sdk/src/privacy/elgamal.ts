@@ -0,0 +1,543 @@
+/**
+ * privacy/elgamal.ts
+ *
+ * Purpose: Twisted ElGamal encryption over ristretto255, compatible with the
+ * Solana ZK ElGamal Proof program and SPL Token 2022 confidential transfers
+ *
+ * Construction (matches `solana-zk-sdk`):
+ * - G is the ristretto255 basepoint, H = hash_to_ristretto(SHA3-512(G))
+ * - Secret key s is a scalar, public key P = s^-1 * H
+ * - Encrypt(x, r) = (C, D) with C = x*G + r*H (a Pedersen commitment) and D = r*P
+ * - Decrypt: x*G = C - s*D, then x is recovered with a discrete log
+ *
+ * Discrete log recovery is limited to 32-bit values. Token 2022 amounts are
+ * up to 48 bits and are therefore always encrypted as a 16-bit low part and
+ * a 32-bit high part (see `splitAmountLoHi` / `combineLoHiCiphertexts`).
+ *
+ * Encodings:
+ * - Public keys, commitments and decrypt handles: 32-byte compressed ristretto points
+ * - Ciphertexts: 64 bytes (commitment || decrypt handle)
+ * - Scalars: 32-byte little-endian, canonical (< group order)
+ */
+
+import { ed25519, ristretto255 } from '@noble/curves/ed25519';
+import { sha3_512 } from '@noble/hashes/sha3';
+import { concatBytes, randomBytes } from '@noble/hashes/utils';
+import { EncryptionError } from './errors';
+
+type RistrettoPoint = InstanceType<typeof ristretto255.Point>;
+type EdwardsPoint = InstanceType<typeof ed25519.ExtendedPoint>;
+
+/** Order of the ristretto255 group */
+export const GROUP_ORDER = ed25519.CURVE.n;
+
+/** Length of an encoded ElGamal ciphertext */
+export const ELGAMAL_CIPHERTEXT_LENGTH = 64;
+
+/** Bit length of the low part of a split amount */
+export const AMOUNT_LO_BITS = 16;
+/** Bit length of the high part of a split amount */
+export const AMOUNT_HI_BITS = 32;
+
+/** Largest bit length `decryptElGamal` can recover */
+export const MAX_DECRYPTABLE_BITS = 32;
+
+/** Pedersen base for the committed value */
+export const G: RistrettoPoint = ristretto255.Point.BASE;
+
+/** Pedersen base for the blinding factor */
+export const H: RistrettoPoint = ristretto255.Point.hashToCurve(sha3_512(G.toRawBytes()));
+
+/**
+ * Twisted ElGamal keypair
+ */
+export interface ElGamalKeypair {
+  /** Encoded public key (32 bytes) */
+  publicKey: Uint8Array;
+  /** Secret scalar */
+  secretKey: bigint;
+}
+
+/**
+ * Twisted ElGamal ciphertext together with the opening used to create it
+ */
+export interface ElGamalEncryption {
+  /** Encoded ciphertext (64 bytes) */
+  ciphertext: Uint8Array;
+  /** Pedersen opening (randomness) */
+  opening: bigint;
+}
+
+// Key management
+
+/**
+ * Generate a random ElGamal keypair
+ */
+export function generateElGamalKeypair(): ElGamalKeypair {
+  return elGamalKeypairFromSecretKey(randomScalar());
+}
+
+/**
+ * Rebuild an ElGamal keypair from its secret key
+ *
+ * @param secretKey - Secret scalar or its 32-byte little-endian encoding
+ */
+export function elGamalKeypairFromSecretKey(secretKey: bigint | Uint8Array): ElGamalKeypair {
+  const scalar = typeof secretKey === 'bigint' ? secretKey : scalarFromBytes(secretKey);
+  if (scalar <= 0n || scalar >= GROUP_ORDER) {
+    throw new EncryptionError('ElGamal secret key must be a non-zero canonical scalar');
+  }
+
+  const publicKey = H.multiply(invertScalar(scalar)).toRawBytes();
+  return { publicKey, secretKey: scalar };
+}
+
+/**
+ * Derive an ElGamal secret key from a seed (`ElGamalSecretKey::from_seed`)
+ *
+ * @param seed - At least 32 bytes of secret seed material
+ */
+export function elGamalSecretKeyFromSeed(seed: Uint8Array): bigint {
+  if (seed.length < 32 || seed.length > 65535) {
+    throw new EncryptionError(`Invalid ElGamal seed length: ${seed.length}`);
+  }
+  return reduceWide(sha3_512(seed));
+}
+
+/**
+ * Derive an ElGamal secret key from a wallet signature
+ *
+ * The signature must be over `"ElGamalSecretKey" || publicSeed`, exactly as
+ * `ElGamalSecretKey::new_from_signer` signs it. Use `deriveElGamalKeypair`
+ * to have a wallet produce the signature.
+ *
+ * @param signature - 64-byte ed25519 signature
+ */
+export function elGamalSecretKeyFromSignature(signature: Uint8Array): bigint {
+  assertUsableSignature(signature);
+  return elGamalSecretKeyFromSeed(sha3_512(signature));
+}
+
+// Pedersen commitments
+
+/**
+ * Generate a random Pedersen opening
+ */
+export function generatePedersenOpening(): bigint {
+  return randomScalar();
+}
+
+/**
+ * Create a Pedersen commitment `amount*G + opening*H`
+ *
+ * @returns Encoded commitment (32 bytes)
+ */
+export function createPedersenCommitment(amount: bigint, opening: bigint): Uint8Array {
+  return commitmentPoint(amount, opening).toRawBytes();
+}
+
+/**
+ * Create a decrypt handle `opening*P` for an ElGamal public key
+ *
+ * @returns Encoded decrypt handle (32 bytes)
+ */
+export function createDecryptHandle(publicKey: Uint8Array, opening: bigint): Uint8Array {
+  return multiply(decodePoint(publicKey, 'ElGamal public key'), opening).toRawBytes();
+}
+
+// Encryption
+
+/**
+ * Encrypt an amount under an ElGamal public key
+ *
+ * @param publicKey - Encoded ElGamal public key
+ * @param amount - Amount to encrypt (u64)
+ * @param opening - Pedersen opening (random if omitted)
+ */
+export function encryptElGamal(
+  publicKey: Uint8Array,
+  amount: bigint,
+  opening: bigint = generatePedersenOpening()
+): ElGamalEncryption {
+  assertU64(amount);
+  const ciphertext = concatBytes(
+    createPedersenCommitment(amount, opening),
+    createDecryptHandle(publicKey, opening)
+  );
+  return { ciphertext, opening };
+}
+
+/**
+ * Encrypt an amount under several ElGamal public keys with one opening
+ *
+ * A grouped ciphertext shares the Pedersen commitment between all recipients:
+ * `commitment || handle_0 || handle_1 || ...`. Token 2022 transfers encrypt the
+ * amount this way for the source, destination and auditor.
+ *
+ * @param publicKeys - Encoded ElGamal public keys, in handle order
+ * @param amount - Amount to encrypt (u64)
+ * @param opening - Pedersen opening (random if omitted)
+ */
+export function encryptGroupedElGamal(
+  publicKeys: Uint8Array[],
+  amount: bigint,
+  opening: bigint = generatePedersenOpening()
+): ElGamalEncryption {
+  assertU64(amount);
+  const ciphertext = concatBytes(
+    createPedersenCommitment(amount, opening),
+    ...publicKeys.map(publicKey => createDecryptHandle(publicKey, opening))
+  );
+  return { ciphertext, opening };
+}
+
+/**
+ * Extract the ciphertext for one recipient of a grouped ciphertext
+ *
+ * @param groupedCiphertext - Encoded grouped ciphertext
+ * @param index - Handle index of the recipient
+ */
+export function groupedCiphertextToCiphertext(groupedCiphertext: Uint8Array, index: number): Uint8Array {
+  const handles = (groupedCiphertext.length - 32) / 32;
+  if (!Number.isInteger(handles) || handles < 1) {
+    throw new EncryptionError(`Invalid grouped ciphertext length: ${groupedCiphertext.length} bytes`);
+  }
+  if (!Number.isInteger(index) || index < 0 || index >= handles) {
+    throw new EncryptionError(`Grouped ciphertext has no handle ${index}`);
+  }
+  const offset = 32 + 32 * index;
+  return concatBytes(groupedCiphertext.slice(0, 32), groupedCiphertext.slice(offset, offset + 32));
+}
+
+/**
+ * Decrypt an ElGamal ciphertext
+ *
+ * @param secretKey - ElGamal secret scalar
+ * @param ciphertext - Encoded ciphertext (64 bytes)
+ * @param maxBits - Upper bound on the bit length of the plaintext (at most 32)
+ * @returns The plaintext, or null if it is not below 2^maxBits
+ */
+export function decryptElGamal(
+  secretKey: bigint,
+  ciphertext: Uint8Array,
+  maxBits: number = MAX_DECRYPTABLE_BITS
+): bigint | null {
+  const { commitment, handle } = splitCiphertext(ciphertext);
+  const point = commitment.subtract(multiply(handle, secretKey));
+  return discreteLog(point, maxBits);
+}
+
+/**
+ * Decrypt an amount split into low and high ciphertexts
+ *
+ * Each part is recovered independently (up to 32 bits), so this also works
+ * for pending balances whose low part has grown past 16 bits.
+ *
+ * @returns lo + hi * 2^16, or null if either part is out of range
+ */
+export function decryptElGamalLoHi(
+  secretKey: bigint,
+  ciphertextLo: Uint8Array,
+  ciphertextHi: Uint8Array
+): bigint | null {
+  const lo = decryptElGamal(secretKey, ciphertextLo);
+  if (lo === null) return null;
+  const hi = decryptElGamal(secretKey, ciphertextHi);
+  if (hi === null) return null;
+  return combineLoHiAmounts(lo, hi);
+}
+
+// Homomorphic operations
+
+/**
+ * Add two ciphertexts encrypted under the same public key
+ */
+export function addElGamalCiphertexts(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const left = splitCiphertext(a);
+  const right = splitCiphertext(b);
+  return encodeCiphertext(left.commitment.add(right.commitment), left.handle.add(right.handle));
+}
+
+/**
+ * Subtract ciphertext `b` from ciphertext `a` (same public key)
+ */
+export function subtractElGamalCiphertexts(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const left = splitCiphertext(a);
+  const right = splitCiphertext(b);
+  return encodeCiphertext(left.commitment.subtract(right.commitment), left.handle.subtract(right.handle));
+}
+
+/**
+ * Add a public amount to a ciphertext
+ */
+export function addAmountToCiphertext(ciphertext: Uint8Array, amount: bigint): Uint8Array {
+  const { commitment, handle } = splitCiphertext(ciphertext);
+  return encodeCiphertext(commitment.add(multiply(G, amount)), handle);
+}
+
+/**
+ * Subtract a public amount from a ciphertext
+ */
+export function subtractAmountFromCiphertext(ciphertext: Uint8Array, amount: bigint): Uint8Array {
+  const { commitment, handle } = splitCiphertext(ciphertext);
+  return encodeCiphertext(commitment.subtract(multiply(G, amount)), handle);
+}
+
+/**
+ * Combine low and high ciphertexts into one: lo + hi * 2^16
+ */
+export function combineLoHiCiphertexts(ciphertextLo: Uint8Array, ciphertextHi: Uint8Array): Uint8Array {
+  const lo = splitCiphertext(ciphertextLo);
+  const hi = splitCiphertext(ciphertextHi);
+  const shift = 1n << BigInt(AMOUNT_LO_BITS);
+  return encodeCiphertext(
+    lo.commitment.add(hi.commitment.multiply(shift)),
+    lo.handle.add(hi.handle.multiply(shift))
+  );
+}
+
+// Amount splitting
+
+/**
+ * Split a 48-bit amount into its low 16 bits and high 32 bits
+ */
+export function splitAmountLoHi(amount: bigint): { lo: bigint; hi: bigint } {
+  if (amount < 0n || amount >= 1n << BigInt(AMOUNT_LO_BITS + AMOUNT_HI_BITS)) {
+    throw new EncryptionError(`Amount ${amount} does not fit in ${AMOUNT_LO_BITS + AMOUNT_HI_BITS} bits`);
+  }
+  const loMask = (1n << BigInt(AMOUNT_LO_BITS)) - 1n;
+  return { lo: amount & loMask, hi: amount >> BigInt(AMOUNT_LO_BITS) };
+}
+
+/**
+ * Combine low and high amounts: lo + hi * 2^16
+ */
+export function combineLoHiAmounts(lo: bigint, hi: bigint): bigint {
+  return lo + (hi << BigInt(AMOUNT_LO_BITS));
+}
+
+// Discrete log
+
+const BABY_STEP_BITS = 16;
+const BATCH_SIZE = 256;
+
+let babyStepTable: Map<bigint, number> | null = null;
+
+/**
+ * Recover x from x*G for x < 2^maxBits (baby-step giant-step)
+ *
+ * Ristretto points are compared through their Edwards representatives
+ * multiplied by 4, which removes the torsion component that differs between
+ * representatives of the same ristretto point. Affine coordinates are computed
+ * with batched inversions so each step costs a few field multiplications.
+ *
+ * @returns x, or null if no x < 2^maxBits exists
+ */
+export function discreteLog(point: RistrettoPoint, maxBits: number = MAX_DECRYPTABLE_BITS): bigint | null {
+  if (!Number.isInteger(maxBits) || maxBits < 1 || maxBits > MAX_DECRYPTABLE_BITS) {
+    throw new EncryptionError(`Discrete log is supported for 1 to ${MAX_DECRYPTABLE_BITS} bits, got ${maxBits}`);
+  }
+
+  const table = getBabyStepTable();
+  const babySteps = 1 << BABY_STEP_BITS;
+  const giantSteps = maxBits > BABY_STEP_BITS ? 2 ** (maxBits - BABY_STEP_BITS) : 1;
+  const limit = 1n << BigInt(maxBits);
+
+  // Giant step: subtract 2^16 * 4G each iteration
+  const giant = ed25519.ExtendedPoint.BASE.multiply(BigInt(babySteps)).double().double().negate();
+  let current = toEdwards(point).double().double();
+
+  for (let start = 0; start < giantSteps; start += BATCH_SIZE) {
+    const batch: EdwardsPoint[] = [];
+    for (let i = start; i < Math.min(start + BATCH_SIZE, giantSteps); i++) {
+      batch.push(current);
+      current = current.add(giant);
+    }
+
+    const xs = affineXs(batch);
+    for (let i = 0; i < xs.length; i++) {
+      const j = table.get(xs[i]);
+      if (j !== undefined) {
+        const x = BigInt(start + i) * BigInt(babySteps) + BigInt(j);
+        return x < limit ? x : null;
+      }
+    }
+  }
+
+  return null;
+}
+
+function getBabyStepTable(): Map<bigint, number> {
+  if (babyStepTable) return babyStepTable;
+
+  // table[x(j * 4G)] = j for j < 2^16
+  const step = ed25519.ExtendedPoint.BASE.double().double();
+  const points: EdwardsPoint[] = [];
+  let current = ed25519.ExtendedPoint.ZERO;
+  for (let j = 0; j < 1 << BABY_STEP_BITS; j++) {
+    points.push(current);
+    current = current.add(step);
+  }
+
+  const table = new Map<bigint, number>();
+  for (let start = 0; start < points.length; start += BATCH_SIZE) {
+    const xs = affineXs(points.slice(start, start + BATCH_SIZE));
+    xs.forEach((x, i) => table.set(x, start + i));
+  }
+
+  babyStepTable = table;
+  return table;
+}
+
+function affineXs(points: EdwardsPoint[]): bigint[] {
+  const Fp = ed25519.CURVE.Fp;
+  const inverses = Fp.invertBatch(points.map(p => p.Z));
+  return points.map((p, i) => Fp.mul(p.X, inverses[i]));
+}
+
+function toEdwards(point: RistrettoPoint): EdwardsPoint {
+  return ed25519.ExtendedPoint.fromAffine(point.toAffine());
+}
+
+// Encoding helpers
+
+/**
+ * Split an encoded ciphertext into its commitment and decrypt handle points
+ */
+export function splitCiphertext(ciphertext: Uint8Array): { commitment: RistrettoPoint; handle: RistrettoPoint } {
+  if (ciphertext.length !== ELGAMAL_CIPHERTEXT_LENGTH) {
+    throw new EncryptionError(
+      `Invalid ElGamal ciphertext length: expected ${ELGAMAL_CIPHERTEXT_LENGTH} bytes, got ${ciphertext.length}`
+    );
+  }
+  return {
+    commitment: decodePoint(ciphertext.slice(0, 32), 'ciphertext commitment'),
+    handle: decodePoint(ciphertext.slice(32, 64), 'ciphertext decrypt handle')
+  };
+}
+
+/**
+ * Decode a compressed ristretto point, rejecting invalid encodings
+ */
+export function decodePoint(bytes: Uint8Array, name: string = 'point'): RistrettoPoint {
+  if (bytes.length !== 32) {
+    throw new EncryptionError(`Invalid ${name} length: expected 32 bytes, got ${bytes.length}`);
+  }
+  try {
+    return ristretto255.Point.fromHex(bytes);
+  } catch (error) {
+    throw new EncryptionError(`Invalid ${name} encoding`, error instanceof Error ? error : undefined);
+  }
+}
+
+/**
+ * Multiply a point by a scalar, allowing zero
+ */
+export function multiply(point: RistrettoPoint, scalar: bigint): RistrettoPoint {
+  const reduced = mod(scalar);
+  return reduced === 0n ? ristretto255.Point.ZERO : point.multiply(reduced);
+}
+
+/**
+ * Encode a scalar as 32 bytes little-endian
+ */
+export function scalarToBytes(scalar: bigint): Uint8Array {
+  const bytes = new Uint8Array(32);
+  let s = mod(scalar);
+  for (let i = 0; i < 32; i++) {
+    bytes[i] = Number(s & 0xffn);
+    s >>= 8n;
+  }
+  return bytes;
+}
+
+/**
+ * Decode a canonical 32-byte little-endian scalar
+ */
+export function scalarFromBytes(bytes: Uint8Array): bigint {
+  if (bytes.length !== 32) {
+    throw new EncryptionError(`Invalid scalar length: expected 32 bytes, got ${bytes.length}`);
+  }
+  const scalar = bytesToNumberLE(bytes);
+  if (scalar >= GROUP_ORDER) {
+    throw new EncryptionError('Scalar is not canonical');
+  }
+  return scalar;
+}
+
+/**
+ * Reduce 64 little-endian bytes modulo the group order (`Scalar::from_bytes_mod_order_wide`)
+ */
+export function reduceWide(bytes: Uint8Array): bigint {
+  return mod(bytesToNumberLE(bytes));
+}
+
+/**
+ * Uniformly random non-zero scalar
+ */
+export function randomScalar(): bigint {
+  let scalar = 0n;
+  while (scalar === 0n) {
+    scalar = reduceWide(randomBytes(64));
+  }
+  return scalar;
+}
+
+/**
+ * Reduce a scalar modulo the group order
+ */
+export function mod(scalar: bigint): bigint {
+  const r = scalar % GROUP_ORDER;
+  return r < 0n ? r + GROUP_ORDER : r;
+}
+
+/**
+ * Invert a non-zero scalar modulo the group order
+ */
+export function invertScalar(scalar: bigint): bigint {
+  return modPow(scalar, GROUP_ORDER - 2n);
+}
+
+function commitmentPoint(amount: bigint, opening: bigint): RistrettoPoint {
+  return multiply(G, amount).add(multiply(H, opening));
+}
+
+function encodeCiphertext(commitment: RistrettoPoint, handle: RistrettoPoint): Uint8Array {
+  return concatBytes(commitment.toRawBytes(), handle.toRawBytes());
+}
+
+function modPow(base: bigint, exponent: bigint): bigint {
+  let result = 1n;
+  let b = mod(base);
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % GROUP_ORDER;
+    b = (b * b) % GROUP_ORDER;
+    e >>= 1n;
+  }
+  return result;
+}
+
+function bytesToNumberLE(bytes: Uint8Array): bigint {
+  let x = 0n;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    x = (x << 8n) + BigInt(bytes[i]);
+  }
+  return x;
+}
+
+function assertU64(amount: bigint): void {
+  if (amount < 0n || amount > 0xffffffffffffffffn) {
+    throw new EncryptionError(`Amount ${amount} does not fit in a u64`);
+  }
+}
+
+function assertUsableSignature(signature: Uint8Array): void {
+  if (signature.length !== 64) {
+    throw new EncryptionError(`Invalid signature length: expected 64 bytes, got ${signature.length}`);
+  }
+  // Some signers return the all-zero default signature, which is not key material
+  if (signature.every(byte => byte === 0)) {
+    throw new EncryptionError('Rejecting default signature for key derivation');
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * privacy/encryption.ts
+ *
+ * Purpose: High-level amount encryption utilities built on twisted ElGamal
+ *
+ * Amounts are encrypted the way Token 2022 encrypts transfer amounts: split
+ * into a 16-bit low part and a 32-bit high part, each encrypted separately,
+ * so any 48-bit amount can be decrypted with a 32-bit discrete log.
+ *
+ * Layout of an `EncryptedAmount` produced here:
+ * - ciphertext: ciphertext_lo (64) || ciphertext_hi (64)
+ * - commitment: commitment_lo (32) || commitment_hi (32)
+ * - randomness: opening_lo (32) || opening_hi (32)
+ */
+
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { concatBytes } from '@noble/hashes/utils';
+import { EncryptedAmount, ZKProof } from './types';
+import { EncryptionError, ProofGenerationError } from './errors';
+import { generateBatchedRangeProof } from './range-proof';
+import {
+  AMOUNT_LO_BITS,
+  ElGamalKeypair,
+  ELGAMAL_CIPHERTEXT_LENGTH,
+  decodePoint,
+  decryptElGamal,
+  decryptElGamalLoHi,
+  encryptElGamal,
+  scalarFromBytes,
+  scalarToBytes,
+  splitAmountLoHi,
+  splitCiphertext
+} from './elgamal';
+
+/**
+ * Amount encryption helpers for confidential balances and transfers
+ */
+export class EncryptionUtils {
+  /**
+   * Encrypt an amount (up to 48 bits) under an ElGamal public key
+   *
+   * @param amount - Amount in base units
+   * @param elGamalPublicKey - Recipient's encoded ElGamal public key
+   * @returns Encrypted amount (range proof is left empty)
+   */
+  async encryptAmount(amount: bigint, elGamalPublicKey: Uint8Array): Promise<EncryptedAmount> {
+    try {
+      const { lo, hi } = splitAmountLoHi(amount);
+      const encryptedLo = encryptElGamal(elGamalPublicKey, lo);
+      const encryptedHi = encryptElGamal(elGamalPublicKey, hi);
+
+      return {
+        ciphertext: concatBytes(encryptedLo.ciphertext, encryptedHi.ciphertext),
+        commitment: concatBytes(encryptedLo.ciphertext.slice(0, 32), encryptedHi.ciphertext.slice(0, 32)),
+        rangeProof: new Uint8Array(0),
+        randomness: concatBytes(scalarToBytes(encryptedLo.opening), scalarToBytes(encryptedHi.opening))
+      };
+    } catch (error) {
+      throw new EncryptionError(
+        `Failed to encrypt amount: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Decrypt an amount
+   *
+   * Accepts a split ciphertext (128 bytes, as produced by `encryptAmount`)
+   * or a single ElGamal ciphertext (64 bytes) holding a value below 2^32.
+   *
+   * @param ciphertext - Encrypted amount ciphertext
+   * @param keypair - ElGamal keypair (or secret key) the amount was encrypted for
+   * @returns Decrypted amount
+   */
+  async decryptAmount(ciphertext: Uint8Array, keypair: ElGamalKeypair | bigint): Promise<bigint> {
+    const secretKey = typeof keypair === 'bigint' ? keypair : keypair.secretKey;
+
+    let amount: bigint | null;
+    if (ciphertext.length === 2 * ELGAMAL_CIPHERTEXT_LENGTH) {
+      amount = decryptElGamalLoHi(
+        secretKey,
+        ciphertext.slice(0, ELGAMAL_CIPHERTEXT_LENGTH),
+        ciphertext.slice(ELGAMAL_CIPHERTEXT_LENGTH)
+      );
+    } else if (ciphertext.length === ELGAMAL_CIPHERTEXT_LENGTH) {
+      amount = decryptElGamal(secretKey, ciphertext);
+    } else {
+      throw new EncryptionError(`Invalid encrypted amount length: ${ciphertext.length} bytes`);
+    }
+
+    if (amount === null) {
+      throw new EncryptionError('Amount could not be decrypted (wrong key or value out of range)');
+    }
+    return amount;
+  }
+
+  /**
+   * Check that an encrypted amount is well-formed
+   *
+   * Every ciphertext component and commitment must be a valid ristretto point
+   * and the commitments must match the ciphertexts.
+   */
+  async verifyEncryptedAmount(encrypted: EncryptedAmount): Promise<boolean> {
+    try {
+      if (encrypted.ciphertext.length !== 2 * ELGAMAL_CIPHERTEXT_LENGTH || encrypted.commitment.length !== 64) {
+        return false;
+      }
+
+      splitCiphertext(encrypted.ciphertext.slice(0, ELGAMAL_CIPHERTEXT_LENGTH));
+      splitCiphertext(encrypted.ciphertext.slice(ELGAMAL_CIPHERTEXT_LENGTH));
+      decodePoint(encrypted.commitment.slice(0, 32));
+      decodePoint(encrypted.commitment.slice(32));
+
+      return bytesEqual(encrypted.commitment.slice(0, 32), encrypted.ciphertext.slice(0, 32)) &&
+        bytesEqual(encrypted.commitment.slice(32), encrypted.ciphertext.slice(64, 96));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Prove that an encrypted amount is a valid non-negative u64
+   *
+   * Produces a BatchedRangeProofU64 over the lo (16-bit) and hi (48-bit)
+   * commitments of an amount from `encryptAmount`, which must still carry its
+   * randomness. Check it with `verifyZKProof`.
+   *
+   * @param amount - The encrypted amount in base units
+   * @param encrypted - Encrypted amount with randomness
+   * @param operation - Operation the proof is for (used in error messages)
+   */
+  async generateAmountProof(amount: bigint, encrypted: EncryptedAmount, operation: string): Promise<ZKProof> {
+    if (!encrypted.randomness || encrypted.randomness.length !== 64) {
+      throw new ProofGenerationError(`Cannot prove the ${operation} amount without its encryption randomness`);
+    }
+
+    try {
+      const { lo, hi } = splitAmountLoHi(amount);
+      return generateBatchedRangeProof(
+        [encrypted.commitment.slice(0, 32), encrypted.commitment.slice(32)],
+        [lo, hi],
+        [AMOUNT_LO_BITS, 64 - AMOUNT_LO_BITS],
+        [scalarFromBytes(encrypted.randomness.slice(0, 32)), scalarFromBytes(encrypted.randomness.slice(32))]
+      );
+    } catch (error) {
+      throw new ProofGenerationError(
+        `Failed to generate ${operation} amount proof: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Convert lamports to SOL
+   */
+  static lamportsToSOL(lamports: bigint): number {
+    return Number(lamports) / LAMPORTS_PER_SOL;
+  }
+
+  /**
+   * Convert SOL to lamports
+   */
+  static solToLamports(sol: number): bigint {
+    return BigInt(Math.round(sol * LAMPORTS_PER_SOL));
+  }
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
@@ -93,6 +93,19 @@ export class ConfidentialAccountError extends PrivacyError {
   }
 }
 
+/**
+ * Error thrown when a mint or account lacks the confidential transfer extension
+ *
+ * Together with instructions the cluster rejects as unsupported, the only
+ * failure a confidential operation may fall back to a public one for.
+ */
+export class ConfidentialUnsupportedError extends ConfidentialAccountError {
+  constructor(message: string, cause?: Error) {
+    super(message, cause);
+    this.name = 'ConfidentialUnsupportedError';
+  }
+}
+
 /**
  * Error thrown when compliance/auditing features fail
  */
@@ -0,0 +1,86 @@
+/**
+ * privacy/file-store.ts
+ *
+ * Purpose: Safe updates of the JSON files behind the file-backed stores
+ *
+ * `FileRevocationStore` and `FileScanCursorStore` update their file with a
+ * read-modify-write. Running it under `withFileLock` lets writers in this and
+ * other processes take turns, and `writeFileAtomically` gives every write its
+ * own temporary file, so a reader never sees a half-written file.
+ *
+ * Node.js only.
+ */
+
+/** How long a writer waits for the lock file */
+const FILE_LOCK_TIMEOUT_MS = 5_000;
+/** Age after which a lock file is assumed to be left by a crashed process */
+const FILE_LOCK_STALE_MS = 30_000;
+
+/** Makes temporary file names unique across writes of this process */
+let temporaryFileCounter = 0;
+
+/**
+ * Run `fn` while holding the lock file of `path`
+ *
+ * The lock is taken by creating `<path>.lock` exclusively. A lock older than
+ * `FILE_LOCK_STALE_MS` is removed.
+ *
+ * @param path - File the lock protects
+ * @param fn - Read-modify-write to run under the lock
+ * @param timeoutError - Builds the error thrown if the lock cannot be taken within `FILE_LOCK_TIMEOUT_MS`
+ */
+export async function withFileLock<T>(
+  path: string,
+  fn: () => Promise<T>,
+  timeoutError: (message: string) => Error
+): Promise<T> {
+  const { open, stat, unlink } = await import('fs/promises');
+  const lockPath = `${path}.lock`;
+  const deadline = Date.now() + FILE_LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      await (await open(lockPath, 'wx')).close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    const lock = await stat(lockPath).catch(() => null);
+    if (lock && Date.now() - lock.mtimeMs > FILE_LOCK_STALE_MS) {
+      await unlink(lockPath).catch(() => undefined);
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw timeoutError(`Timed out waiting for the lock on ${path}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 5 + Math.random() * 20));
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await unlink(lockPath).catch(() => undefined);
+  }
+}
+
+/**
+ * Replace a file's contents by writing a uniquely named temporary file and
+ * renaming it into place
+ *
+ * @param path - File to replace
+ * @param contents - New contents
+ */
+export async function writeFileAtomically(path: string, contents: string): Promise<void> {
+  const { writeFile, rename, unlink } = await import('fs/promises');
+  const temporaryPath = `${path}.${process.pid}.${++temporaryFileCounter}.tmp`;
+  try {
+    await writeFile(temporaryPath, contents);
+    await rename(temporaryPath, path);
+  } catch (error) {
+    await unlink(temporaryPath).catch(() => undefined);
+    throw error;
+  }
+}
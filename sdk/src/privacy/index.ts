@@ -16,30 +16,209 @@
 
 export { ZeraPrivacy } from './zera-privacy';
 export { ConfidentialTransferManager } from './confidential-transfer';
+export {
+  ConfidentialTransferInstruction,
+  createInitializeConfidentialTransferMintInstruction,
+  createUpdateConfidentialTransferMintInstruction,
+  createConfigureConfidentialTransferAccountInstruction,
+  createEmptyConfidentialTransferAccountInstruction,
+  createConfidentialDepositInstruction,
+  createApplyPendingBalanceInstruction,
+  createConfidentialTransferInstruction,
+  createConfidentialWithdrawInstruction
+} from './confidential-instructions';
+export type { ProofLocation } from './confidential-instructions';
 export { EncryptionUtils } from './encryption';
+export {
+  ELGAMAL_CIPHERTEXT_LENGTH,
+  generateElGamalKeypair,
+  elGamalKeypairFromSecretKey,
+  elGamalSecretKeyFromSignature,
+  generatePedersenOpening,
+  createPedersenCommitment,
+  encryptElGamal,
+  encryptGroupedElGamal,
+  groupedCiphertextToCiphertext,
+  decryptElGamal,
+  decryptElGamalLoHi,
+  addElGamalCiphertexts,
+  subtractElGamalCiphertexts,
+  addAmountToCiphertext,
+  subtractAmountFromCiphertext,
+  combineLoHiCiphertexts,
+  splitAmountLoHi,
+  combineLoHiAmounts
+} from './elgamal';
+export type { ElGamalKeypair, ElGamalEncryption } from './elgamal';
+export {
+  AE_CIPHERTEXT_LENGTH,
+  generateAeKey,
+  aeKeyFromSignature,
+  aeEncrypt,
+  aeDecrypt
+} from './authenticated-encryption';
+export {
+  deriveElGamalKeypair,
+  deriveAeKey,
+  deriveConfidentialAccountKeys,
+  derivePrivacyKeys,
+  privacyKeysFromSignature,
+  PRIVACY_KEYS_MESSAGE
+} from './key-derivation';
+export type { ConfidentialAccountKeys, PrivacyKeys } from './key-derivation';
+export {
+  CONFIDENTIAL_TRANSFER_ACCOUNT_LEN,
+  CONFIDENTIAL_TRANSFER_MINT_LEN,
+  decodeConfidentialTransferAccountState,
+  decodeConfidentialTransferMintState,
+  getConfidentialTransferAccount,
+  getConfidentialTransferMint,
+  getConfidentialTransferAccountState,
+  getConfidentialTransferMintState
+} from './confidential-state';
+export type {
+  ConfidentialTransferAccountState,
+  ConfidentialTransferMintState
+} from './confidential-state';
+export { ProofTranscript } from './transcript';
+export {
+  generateZeroCiphertextProof,
+  verifyZeroCiphertextProof,
+  generateCiphertextCommitmentEqualityProof,
+  verifyCiphertextCommitmentEqualityProof,
+  generatePubkeyValidityProof,
+  verifyPubkeyValidityProof,
+  generateGroupedCiphertext3HandlesValidityProof,
+  verifyGroupedCiphertext3HandlesValidityProof,
+  generateBatchedGroupedCiphertext3HandlesValidityProof,
+  verifyBatchedGroupedCiphertext3HandlesValidityProof
+} from './sigma-proofs';
+export {
+  MAX_RANGE_PROOF_COMMITMENTS,
+  generateBatchedRangeProof,
+  verifyBatchedRangeProof
+} from './range-proof';
+export {
+  generateWithdrawProofs,
+  generateTransferProofs,
+  verifyZKProof
+} from './confidential-proofs';
+export type { WithdrawProofs, TransferProofs } from './confidential-proofs';
+export {
+  ZK_ELGAMAL_PROOF_PROGRAM_ID,
+  ProofInstruction,
+  encodeProofData,
+  getProofContextStateSize,
+  createVerifyProofInstruction,
+  createCloseContextStateInstruction
+} from './proof-instructions';
+export type { ProofContextStateInfo } from './proof-instructions';
 export { ViewingKeyManager, ViewingKeyConfig } from './viewing-keys';
+export { decodeConfidentialActivity } from './confidential-activity';
+export type {
+  ConfidentialActivity,
+  ConfidentialBalanceActivity,
+  ConfidentialTransferActivity
+} from './confidential-activity';
+export {
+  RevocationRegistry,
+  InMemoryRevocationStore,
+  FileRevocationStore,
+  serializeRevocationEntry,
+  deserializeRevocationEntry
+} from './revocation-registry';
+export type {
+  RevocationEntry,
+  RevocationStore,
+  SerializedRevocationEntry
+} from './revocation-registry';
+export { InMemoryScanCursorStore, FileScanCursorStore } from './scan-cursor';
+export type { ScanCursor, ScanCursorStore } from './scan-cursor';
+export { StealthPaymentWatcher } from './stealth-watcher';
+export { AuditReportBuilder } from './audit-report';
+export type {
+  AuditEntryType,
+  AuditReport,
+  AuditReportEntry,
+  AuditReportOptions
+} from './audit-report';
 export { StealthAddressManager } from './stealth-address';
+export {
+  encodeMetaAddress,
+  parseMetaAddress,
+  encodeStealthPaymentUri,
+  parseStealthPaymentUri,
+  META_ADDRESS_PREFIX,
+  META_ADDRESS_MAX_LENGTH,
+  STEALTH_PAYMENT_URI_SCHEME
+} from './meta-address';
+export { StealthSigner } from './stealth-signer';
 export { 
   BlockchainScanner,
   createStealthAddressMemo,
-  parseStealthAddressMemo
+  parseStealthAddressMemo,
+  createStealthAnnouncementInstruction,
+  createViewTagMetadata,
+  createAuthenticatedAnnouncementMetadata,
+  ANNOUNCEMENT_COMMITMENT_LENGTH,
+  MEMO_PROGRAM_ID
 } from './blockchain-scanner';
-export type { ScannerConfig, ScanResult } from './blockchain-scanner';
+export type {
+  AnnouncementFilter,
+  IncrementalScanOptions,
+  ScannerConfig,
+  ScanResult,
+  StealthAnnouncement
+} from './blockchain-scanner';
+export {
+  RpcAnnouncementSource,
+  HttpIndexerAnnouncementSource,
+  InMemoryAnnouncementSource
+} from './announcement-source';
+export type {
+  AnnouncementSource,
+  AnnouncementQuery,
+  AnnouncementBatch,
+  AnnouncementRecord,
+  AnnouncementFixture,
+  HttpIndexerConfig,
+  RpcAnnouncementSourceOptions
+} from './announcement-source';
 
 // Type exports
 export type {
   PrivacyConfig,
+  FallbackPolicy,
+  ApplyPendingBalanceResult,
+  ConfidentialBalance,
+  ConfidentialExecutionPath,
+  ConfidentialAccountResult,
+  ConfidentialOperationResult,
   EncryptedBalance,
   EncryptedAmount,
   ViewingKey,
+  AuditedTransfer,
   PrivacyMode,
   ZKProof,
+  ZkElGamalProofType,
   ConfidentialMint,
+  ConfidentialMintPolicy,
+  ConfidentialMintUpdate,
   ConfidentialAccount,
   StealthMetaAddress,
+  StealthPaymentRequest,
   StealthAddress,
   EphemeralKey,
-  StealthPayment
+  StealthPayment,
+  StealthPaymentReceipt,
+  StealthScanOptions,
+  BlockchainScanOptions,
+  StealthSweepOptions,
+  StealthSweepResult,
+  StealthTokenBalance,
+  StealthTokenPaymentReceipt,
+  StealthWatchOptions,
+  StealthWatchSubscription
 } from './types';
 
 // Error exports  
@@ -47,6 +226,9 @@ export {
   PrivacyError,
   EncryptionError,
   ProofGenerationError,
+  ProofVerificationError,
   ViewingKeyError,
+  ConfidentialTransferError,
+  ConfidentialUnsupportedError,
   StealthAddressError
 } from './errors';
@@ -0,0 +1,199 @@
+/**
+ * privacy/key-derivation.ts
+ *
+ * Purpose: Derive confidential account keys from a wallet, the way Token 2022 does
+ *
+ * The ElGamal keypair and AE key of a confidential token account are derived
+ * from wallet signatures over fixed messages, so they never need to be stored:
+ *
+ * - ElGamal: sign `"ElGamalSecretKey" || publicSeed`
+ * - AE:      sign `"AeKey" || publicSeed`
+ *
+ * The public seed is the token account address, matching the `spl-token` CLI.
+ * Ed25519 signatures are deterministic, so the same wallet and account always
+ * produce the same keys.
+ *
+ * The wallet's own privacy keys (stealth view and spend keys, and an ElGamal
+ * keypair to audit mints with) come from one signature over the fixed
+ * `PRIVACY_KEYS_MESSAGE`, so a browser wallet that only offers `signMessage`
+ * recovers the same keys on any device with a single prompt.
+ */
+
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { sha512 } from '@noble/hashes/sha512';
+import { concatBytes } from '@noble/hashes/utils';
+import { ExtendedWalletAdapter } from '../core/types';
+import { signWalletMessage, verifyMessage } from '../core/message-signing';
+import { EncryptionError } from './errors';
+import {
+  ElGamalKeypair,
+  elGamalKeypairFromSecretKey,
+  elGamalSecretKeyFromSeed,
+  elGamalSecretKeyFromSignature
+} from './elgamal';
+import { aeKeyFromSignature } from './authenticated-encryption';
+import { StealthMetaAddress } from './types';
+import { StealthAddressManager } from './stealth-address';
+
+const ELGAMAL_MESSAGE_PREFIX = new TextEncoder().encode('ElGamalSecretKey');
+const AE_MESSAGE_PREFIX = new TextEncoder().encode('AeKey');
+
+/**
+ * Message a wallet signs to derive its privacy keys
+ *
+ * Changing it changes every derived key, so it is versioned and never edited.
+ */
+export const PRIVACY_KEYS_MESSAGE = new TextEncoder().encode(
+  'Zera privacy keys v1\n\n' +
+  'Sign to unlock your stealth and viewing keys. This is not a transaction and costs nothing.\n\n' +
+  'Only sign this message in apps you trust: the signature reveals your private payments.'
+);
+
+const VIEW_KEY_DOMAIN = new TextEncoder().encode('zera/keys/stealth-view/v1');
+const SPEND_KEY_DOMAIN = new TextEncoder().encode('zera/keys/stealth-spend/v1');
+const ELGAMAL_KEY_DOMAIN = new TextEncoder().encode('zera/keys/elgamal/v1');
+
+/**
+ * Keys that control a confidential token account
+ */
+export interface ConfidentialAccountKeys {
+  /** ElGamal keypair the account's balances are encrypted under */
+  elGamal: ElGamalKeypair;
+  /** AE key for the decryptable available balance */
+  aeKey: Uint8Array;
+}
+
+/**
+ * Privacy keys of a wallet, derived from its signature over `PRIVACY_KEYS_MESSAGE`
+ */
+export interface PrivacyKeys {
+  /** Stealth view keypair (scans for payments) */
+  viewKeypair: Keypair;
+  /** Stealth spend keypair (spends and sweeps payments) */
+  spendKeypair: Keypair;
+  /** Stealth meta-address of the view and spend keys */
+  metaAddress: StealthMetaAddress;
+  /** ElGamal keypair of the wallet, e.g. to be named auditor of a confidential mint */
+  elGamal: ElGamalKeypair;
+}
+
+/**
+ * Derive the ElGamal keypair for a public seed (`ElGamalKeypair::new_from_signer`)
+ *
+ * @param wallet - Wallet that signs the derivation message
+ * @param publicSeed - Public seed, normally the token account address
+ */
+export async function deriveElGamalKeypair(
+  wallet: ExtendedWalletAdapter,
+  publicSeed: Uint8Array
+): Promise<ElGamalKeypair> {
+  const signature = await signKeyDerivationMessage(wallet, ELGAMAL_MESSAGE_PREFIX, publicSeed);
+  return elGamalKeypairFromSecretKey(elGamalSecretKeyFromSignature(signature));
+}
+
+/**
+ * Derive the AE key for a public seed (`AeKey::new_from_signer`)
+ *
+ * @param wallet - Wallet that signs the derivation message
+ * @param publicSeed - Public seed, normally the token account address
+ */
+export async function deriveAeKey(
+  wallet: ExtendedWalletAdapter,
+  publicSeed: Uint8Array
+): Promise<Uint8Array> {
+  const signature = await signKeyDerivationMessage(wallet, AE_MESSAGE_PREFIX, publicSeed);
+  return aeKeyFromSignature(signature);
+}
+
+/**
+ * Derive both keys for a confidential token account
+ *
+ * @param wallet - Owner wallet of the token account
+ * @param account - Token account address (used as the public seed)
+ */
+export async function deriveConfidentialAccountKeys(
+  wallet: ExtendedWalletAdapter,
+  account: PublicKey
+): Promise<ConfidentialAccountKeys> {
+  const seed = account.toBytes();
+  return {
+    elGamal: await deriveElGamalKeypair(wallet, seed),
+    aeKey: await deriveAeKey(wallet, seed)
+  };
+}
+
+/**
+ * Derive the privacy keys of a wallet
+ *
+ * The wallet signs `PRIVACY_KEYS_MESSAGE` once; the signature is checked
+ * against the wallet's public key, since a signature over other bytes (as
+ * some hardware wallets produce) would not derive the same keys elsewhere.
+ *
+ * @param wallet - Wallet that signs the derivation message
+ * @throws EncryptionError if the wallet cannot sign messages or returns an invalid signature
+ */
+export async function derivePrivacyKeys(wallet: ExtendedWalletAdapter): Promise<PrivacyKeys> {
+  const signature = await signWithWallet(wallet, PRIVACY_KEYS_MESSAGE, 'privacy keys');
+  if (!verifyMessage(PRIVACY_KEYS_MESSAGE, signature, wallet.publicKey)) {
+    throw new EncryptionError('Wallet returned a signature that does not verify, so privacy keys cannot be derived');
+  }
+  return privacyKeysFromSignature(signature);
+}
+
+/**
+ * Derive privacy keys from a signature over `PRIVACY_KEYS_MESSAGE`
+ *
+ * Each key is hashed out of the signature under its own domain, so one key
+ * reveals nothing about the others. Use `derivePrivacyKeys` to have a wallet
+ * produce the signature.
+ *
+ * @param signature - 64-byte ed25519 signature
+ */
+export function privacyKeysFromSignature(signature: Uint8Array): PrivacyKeys {
+  if (signature.length !== 64) {
+    throw new EncryptionError(`Invalid signature length: expected 64 bytes, got ${signature.length}`);
+  }
+  if (signature.every(byte => byte === 0)) {
+    throw new EncryptionError('Rejecting default signature for key derivation');
+  }
+
+  const viewKeypair = Keypair.fromSeed(sha512(concatBytes(VIEW_KEY_DOMAIN, signature)).slice(0, 32));
+  const spendKeypair = Keypair.fromSeed(sha512(concatBytes(SPEND_KEY_DOMAIN, signature)).slice(0, 32));
+  const elGamal = elGamalKeypairFromSecretKey(
+    elGamalSecretKeyFromSeed(sha512(concatBytes(ELGAMAL_KEY_DOMAIN, signature)))
+  );
+
+  return {
+    viewKeypair,
+    spendKeypair,
+    metaAddress: new StealthAddressManager().generateStealthMetaAddress(viewKeypair, spendKeypair),
+    elGamal
+  };
+}
+
+async function signKeyDerivationMessage(
+  wallet: ExtendedWalletAdapter,
+  prefix: Uint8Array,
+  publicSeed: Uint8Array
+): Promise<Uint8Array> {
+  const message = new Uint8Array(prefix.length + publicSeed.length);
+  message.set(prefix, 0);
+  message.set(publicSeed, prefix.length);
+  return await signWithWallet(wallet, message, 'confidential account keys');
+}
+
+async function signWithWallet(
+  wallet: ExtendedWalletAdapter,
+  message: Uint8Array,
+  purpose: string
+): Promise<Uint8Array> {
+  try {
+    return await signWalletMessage(wallet, message);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new EncryptionError(
+      `Cannot derive ${purpose}: ${reason}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
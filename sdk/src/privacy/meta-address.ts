@@ -0,0 +1,297 @@
+/**
+ * privacy/meta-address.ts
+ *
+ * Purpose: Text encoding of stealth meta-addresses and payment request URIs
+ *
+ * A meta-address is shared as a bech32m string (BIP 350 checksum and
+ * character set) with the `zst` prefix:
+ *
+ *   zst1<data><checksum>
+ *
+ * The data carries the protocol version (1 byte), the view public key and the
+ * spend public key (32 bytes each), so the string is 114 characters long.
+ * Derivation path and creation time are local details and are not encoded.
+ *
+ * This deliberately exceeds the 90-character limit of BIP 173/350, so
+ * standard bech32m decoders reject meta-addresses unless their length limit
+ * is raised. Past 89 characters the checksum no longer guarantees detecting
+ * every error of up to 4 characters, but still catches a random error with
+ * probability 1 - 2^-30. `parseMetaAddress` enforces its own limit,
+ * `META_ADDRESS_MAX_LENGTH`, so the format stays pinned.
+ *
+ * The uppercase form of the string is accepted too; it fits the alphanumeric
+ * mode of a QR code, which is denser than byte mode.
+ *
+ * Payment requests follow Solana Pay's URI layout with the meta-address as
+ * recipient:
+ *
+ *   zera:<meta-address>?amount=<decimal>&spl-token=<mint>&label=<text>&message=<text>
+ *
+ * Like Solana Pay, `amount` is in SOL (or in token units with `spl-token`),
+ * not in base units.
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import { ed25519 } from '@noble/curves/ed25519';
+import { StealthMetaAddress, StealthPaymentRequest } from './types';
+import { StealthAddressError } from './errors';
+
+/** Human-readable prefix of encoded meta-addresses */
+export const META_ADDRESS_PREFIX = 'zst';
+
+/** Maximum length of an encoded meta-address (the length of a version 1 meta-address) */
+export const META_ADDRESS_MAX_LENGTH = 114;
+
+/** Scheme of stealth payment request URIs */
+export const STEALTH_PAYMENT_URI_SCHEME = 'zera';
+
+/** Meta-address versions that can be encoded and parsed */
+const SUPPORTED_VERSIONS = [1];
+
+const DEFAULT_DERIVATION_PATH = "m/44'/501'/0'/0'";
+const PAYLOAD_LENGTH = 65;
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32M_CONST = 0x2bc830a3;
+const CHECKSUM_LENGTH = 6;
+const AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+
+/**
+ * Encode a stealth meta-address as a `zst1...` string
+ *
+ * @throws StealthAddressError if the version is unsupported or a key is not an Ed25519 point
+ */
+export function encodeMetaAddress(metaAddress: StealthMetaAddress): string {
+  if (!SUPPORTED_VERSIONS.includes(metaAddress.version)) {
+    throw new StealthAddressError(`Unsupported meta-address version ${metaAddress.version}`);
+  }
+  const viewKey = metaAddress.viewPublicKey.toBytes();
+  const spendKey = metaAddress.spendPublicKey.toBytes();
+  assertPoint(viewKey, 'view');
+  assertPoint(spendKey, 'spend');
+
+  const payload = new Uint8Array(PAYLOAD_LENGTH);
+  payload[0] = metaAddress.version;
+  payload.set(viewKey, 1);
+  payload.set(spendKey, 33);
+
+  const data = convertBits(payload, 8, 5, true)!;
+  const checksum = createChecksum(META_ADDRESS_PREFIX, data);
+  return `${META_ADDRESS_PREFIX}1${[...data, ...checksum].map(value => CHARSET[value]).join('')}`;
+}
+
+/**
+ * Parse a `zst1...` string into a stealth meta-address
+ *
+ * The derivation path is set to the default one and `createdAt` to the time
+ * of parsing, since neither is encoded.
+ *
+ * @throws StealthAddressError if the string is not a valid encoded meta-address
+ */
+export function parseMetaAddress(encoded: string): StealthMetaAddress {
+  if (typeof encoded !== 'string') {
+    throw new StealthAddressError('Invalid meta-address: not a string');
+  }
+  if (encoded.length > META_ADDRESS_MAX_LENGTH) {
+    throw new StealthAddressError(
+      `Invalid meta-address: ${encoded.length} characters (at most ${META_ADDRESS_MAX_LENGTH})`
+    );
+  }
+  if (encoded !== encoded.toLowerCase() && encoded !== encoded.toUpperCase()) {
+    throw new StealthAddressError('Invalid meta-address: mixed case');
+  }
+  const text = encoded.toLowerCase();
+
+  const separator = text.lastIndexOf('1');
+  if (separator < 1) {
+    throw new StealthAddressError('Invalid meta-address: missing separator');
+  }
+  const prefix = text.slice(0, separator);
+  if (prefix !== META_ADDRESS_PREFIX) {
+    throw new StealthAddressError(`Invalid meta-address prefix '${prefix}' (expected '${META_ADDRESS_PREFIX}')`);
+  }
+
+  const values: number[] = [];
+  for (const char of text.slice(separator + 1)) {
+    const value = CHARSET.indexOf(char);
+    if (value === -1) {
+      throw new StealthAddressError(`Invalid meta-address character '${char}'`);
+    }
+    values.push(value);
+  }
+  if (values.length <= CHECKSUM_LENGTH || polymod([...expandPrefix(prefix), ...values]) !== BECH32M_CONST) {
+    throw new StealthAddressError('Invalid meta-address checksum');
+  }
+
+  const bytes = convertBits(values.slice(0, -CHECKSUM_LENGTH), 5, 8, false);
+  if (!bytes || bytes.length !== PAYLOAD_LENGTH) {
+    throw new StealthAddressError(
+      `Invalid meta-address length: expected ${PAYLOAD_LENGTH} bytes, got ${bytes ? bytes.length : 'a partial byte'}`
+    );
+  }
+  const payload = Uint8Array.from(bytes);
+
+  const version = payload[0];
+  if (!SUPPORTED_VERSIONS.includes(version)) {
+    throw new StealthAddressError(`Unsupported meta-address version ${version}`);
+  }
+  const viewKey = payload.slice(1, 33);
+  const spendKey = payload.slice(33, 65);
+  assertPoint(viewKey, 'view');
+  assertPoint(spendKey, 'spend');
+
+  return {
+    viewPublicKey: new PublicKey(viewKey),
+    spendPublicKey: new PublicKey(spendKey),
+    derivationPath: DEFAULT_DERIVATION_PATH,
+    version,
+    createdAt: Date.now()
+  };
+}
+
+/**
+ * Encode a stealth payment request as a `zera:` URI
+ *
+ * @throws StealthAddressError if the meta-address or the amount is invalid
+ */
+export function encodeStealthPaymentUri(request: StealthPaymentRequest): string {
+  if (request.amount !== undefined && !AMOUNT_PATTERN.test(request.amount)) {
+    throw new StealthAddressError(`Invalid payment request amount: ${request.amount}`);
+  }
+
+  const params: string[] = [];
+  if (request.amount !== undefined) params.push(`amount=${request.amount}`);
+  if (request.splToken) params.push(`spl-token=${request.splToken.toBase58()}`);
+  if (request.label !== undefined) params.push(`label=${encodeURIComponent(request.label)}`);
+  if (request.message !== undefined) params.push(`message=${encodeURIComponent(request.message)}`);
+
+  const uri = `${STEALTH_PAYMENT_URI_SCHEME}:${encodeMetaAddress(request.metaAddress)}`;
+  return params.length > 0 ? `${uri}?${params.join('&')}` : uri;
+}
+
+/**
+ * Parse a `zera:` payment request URI
+ *
+ * Unknown parameters are ignored, as in Solana Pay.
+ *
+ * @throws StealthAddressError if the URI, the meta-address or a parameter is invalid
+ */
+export function parseStealthPaymentUri(uri: string): StealthPaymentRequest {
+  const schemePrefix = `${STEALTH_PAYMENT_URI_SCHEME}:`;
+  if (typeof uri !== 'string' || !uri.toLowerCase().startsWith(schemePrefix)) {
+    throw new StealthAddressError(`Invalid payment request URI: expected the '${schemePrefix}' scheme`);
+  }
+
+  const rest = uri.slice(schemePrefix.length);
+  const queryStart = rest.indexOf('?');
+  const recipient = queryStart === -1 ? rest : rest.slice(0, queryStart);
+  const query = queryStart === -1 ? '' : rest.slice(queryStart + 1);
+
+  const request: StealthPaymentRequest = { metaAddress: parseMetaAddress(recipient) };
+  const seen = new Set<string>();
+
+  for (const pair of query.split('&')) {
+    if (pair === '') continue;
+    const equals = pair.indexOf('=');
+    const name = equals === -1 ? pair : pair.slice(0, equals);
+    let value: string;
+    try {
+      value = decodeURIComponent(equals === -1 ? '' : pair.slice(equals + 1));
+    } catch (error) {
+      throw new StealthAddressError(`Invalid payment request parameter '${name}': malformed encoding`);
+    }
+
+    if (seen.has(name)) {
+      throw new StealthAddressError(`Invalid payment request URI: duplicate parameter '${name}'`);
+    }
+    seen.add(name);
+
+    switch (name) {
+      case 'amount':
+        if (!AMOUNT_PATTERN.test(value)) {
+          throw new StealthAddressError(`Invalid payment request amount: ${value}`);
+        }
+        request.amount = value;
+        break;
+      case 'spl-token':
+        try {
+          request.splToken = new PublicKey(value);
+        } catch (error) {
+          throw new StealthAddressError(`Invalid payment request token mint: ${value}`);
+        }
+        break;
+      case 'label':
+        request.label = value;
+        break;
+      case 'message':
+        request.message = value;
+        break;
+    }
+  }
+
+  return request;
+}
+
+function assertPoint(key: Uint8Array, name: string): void {
+  try {
+    ed25519.ExtendedPoint.fromHex(key);
+  } catch (error) {
+    throw new StealthAddressError(`Invalid meta-address: ${name} key is not an Ed25519 point`);
+  }
+}
+
+function polymod(values: number[]): number {
+  const generator = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) checksum ^= generator[i];
+    }
+  }
+  return checksum >>> 0;
+}
+
+function expandPrefix(prefix: string): number[] {
+  const high = [...prefix].map(char => char.charCodeAt(0) >>> 5);
+  const low = [...prefix].map(char => char.charCodeAt(0) & 31);
+  return [...high, 0, ...low];
+}
+
+function createChecksum(prefix: string, data: number[]): number[] {
+  const value = polymod([...expandPrefix(prefix), ...data, 0, 0, 0, 0, 0, 0]) ^ BECH32M_CONST;
+  const checksum: number[] = [];
+  for (let i = 0; i < CHECKSUM_LENGTH; i++) {
+    checksum.push((value >>> (5 * (CHECKSUM_LENGTH - 1 - i))) & 31);
+  }
+  return checksum;
+}
+
+/**
+ * Regroup bits between 8-bit bytes and 5-bit bech32 values
+ *
+ * Returns null when unpadded input leaves non-zero or whole-group leftover bits.
+ */
+function convertBits(data: ArrayLike<number>, from: number, to: number, pad: boolean): number[] | null {
+  let accumulator = 0;
+  let bits = 0;
+  const result: number[] = [];
+  const mask = (1 << to) - 1;
+
+  for (let i = 0; i < data.length; i++) {
+    accumulator = (accumulator << from) | data[i];
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      result.push((accumulator >>> bits) & mask);
+    }
+    accumulator &= (1 << bits) - 1;
+  }
+
+  if (pad) {
+    if (bits > 0) result.push((accumulator << (to - bits)) & mask);
+  } else if (bits >= from || accumulator !== 0) {
+    return null;
+  }
+  return result;
+}
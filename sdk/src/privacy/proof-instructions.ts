@@ -0,0 +1,151 @@
+/**
+ * privacy/proof-instructions.ts
+ *
+ * Purpose: Instruction encoders for the ZK ElGamal Proof program
+ *
+ * Confidential transfer instructions do not carry their proofs. The proofs are
+ * verified by the ZK ElGamal Proof program, either in the same transaction or
+ * ahead of time into a context state account that the token instruction then
+ * references (see `ProofLocation`).
+ *
+ * Verify instructions are encoded as:
+ *
+ * ```
+ * [discriminator] [proof context] [proof]
+ * ```
+ *
+ * A context state account stores `authority (32) || proof type (1) || context`,
+ * so it needs `33 + context length` bytes.
+ */
+
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { concatBytes } from '@noble/hashes/utils';
+import { ProofGenerationError } from './errors';
+import { ZKProof, ZkElGamalProofType } from './types';
+
+/** Address of the ZK ElGamal Proof program */
+export const ZK_ELGAMAL_PROOF_PROGRAM_ID = new PublicKey('ZkE1Gama1Proof11111111111111111111111111111');
+
+/** Size of the context state account header (authority || proof type) */
+export const PROOF_CONTEXT_STATE_META_LEN = 33;
+
+/**
+ * Instructions of the ZK ElGamal Proof program
+ */
+export enum ProofInstruction {
+  CloseContextState = 0,
+  VerifyZeroCiphertext = 1,
+  VerifyCiphertextCiphertextEquality = 2,
+  VerifyCiphertextCommitmentEquality = 3,
+  VerifyPubkeyValidity = 4,
+  VerifyPercentageWithCap = 5,
+  VerifyBatchedRangeProofU64 = 6,
+  VerifyBatchedRangeProofU128 = 7,
+  VerifyBatchedRangeProofU256 = 8,
+  VerifyGroupedCiphertext2HandlesValidity = 9,
+  VerifyBatchedGroupedCiphertext2HandlesValidity = 10,
+  VerifyGroupedCiphertext3HandlesValidity = 11,
+  VerifyBatchedGroupedCiphertext3HandlesValidity = 12
+}
+
+const VERIFY_INSTRUCTIONS: Record<ZkElGamalProofType, ProofInstruction> = {
+  ZeroCiphertext: ProofInstruction.VerifyZeroCiphertext,
+  CiphertextCommitmentEquality: ProofInstruction.VerifyCiphertextCommitmentEquality,
+  PubkeyValidity: ProofInstruction.VerifyPubkeyValidity,
+  BatchedRangeProofU64: ProofInstruction.VerifyBatchedRangeProofU64,
+  BatchedRangeProofU128: ProofInstruction.VerifyBatchedRangeProofU128,
+  BatchedRangeProofU256: ProofInstruction.VerifyBatchedRangeProofU256,
+  GroupedCiphertext3HandlesValidity: ProofInstruction.VerifyGroupedCiphertext3HandlesValidity,
+  BatchedGroupedCiphertext3HandlesValidity: ProofInstruction.VerifyBatchedGroupedCiphertext3HandlesValidity
+};
+
+/**
+ * Context state account a proof is verified into
+ */
+export interface ProofContextStateInfo {
+  /** Context state account (must already be allocated and owned by the proof program) */
+  account: PublicKey;
+  /** Authority allowed to close the account */
+  authority: PublicKey;
+}
+
+/**
+ * Encode a proof as the proof program expects it: context || proof
+ */
+export function encodeProofData(proof: ZKProof): Uint8Array {
+  return concatBytes(...proof.publicInputs, proof.proof);
+}
+
+/**
+ * Size of the context state account needed to hold a proof's context
+ */
+export function getProofContextStateSize(proof: ZKProof): number {
+  return PROOF_CONTEXT_STATE_META_LEN + proof.publicInputs.reduce((sum, input) => sum + input.length, 0);
+}
+
+/**
+ * Create a Verify instruction for a proof
+ *
+ * Without `contextState` the proof is only checked, which is enough when the
+ * token instruction sits in the same transaction. With `contextState` the
+ * verified context is stored for later instructions.
+ *
+ * Accounts (with a context state):
+ * 0. `[writable]` The context state account
+ * 1. `[]` The context state authority
+ *
+ * @param proof - Proof to verify
+ * @param contextState - Context state account to store the verified context in
+ * @param programId - Proof program id
+ */
+export function createVerifyProofInstruction(
+  proof: ZKProof,
+  contextState?: ProofContextStateInfo,
+  programId: PublicKey = ZK_ELGAMAL_PROOF_PROGRAM_ID
+): TransactionInstruction {
+  const instruction = VERIFY_INSTRUCTIONS[proof.circuitHash as ZkElGamalProofType];
+  if (instruction === undefined) {
+    throw new ProofGenerationError(`The ZK ElGamal Proof program cannot verify ${proof.circuitHash} proofs`);
+  }
+
+  const keys = contextState
+    ? [
+        { pubkey: contextState.account, isSigner: false, isWritable: true },
+        { pubkey: contextState.authority, isSigner: false, isWritable: false }
+      ]
+    : [];
+
+  return new TransactionInstruction({
+    keys,
+    programId,
+    data: Buffer.concat([Buffer.from([instruction]), Buffer.from(encodeProofData(proof))])
+  });
+}
+
+/**
+ * Create a CloseContextState instruction, returning the account's lamports
+ *
+ * Accounts:
+ * 0. `[writable]` The context state account
+ * 1. `[writable]` The destination for the lamports
+ * 2. `[signer]` The context state authority
+ *
+ * @param contextState - Context state account and its authority
+ * @param destination - Account that receives the lamports
+ * @param programId - Proof program id
+ */
+export function createCloseContextStateInstruction(
+  contextState: ProofContextStateInfo,
+  destination: PublicKey,
+  programId: PublicKey = ZK_ELGAMAL_PROOF_PROGRAM_ID
+): TransactionInstruction {
+  return new TransactionInstruction({
+    keys: [
+      { pubkey: contextState.account, isSigner: false, isWritable: true },
+      { pubkey: destination, isSigner: false, isWritable: true },
+      { pubkey: contextState.authority, isSigner: true, isWritable: false }
+    ],
+    programId,
+    data: Buffer.from([ProofInstruction.CloseContextState])
+  });
+}
@@ -0,0 +1,451 @@
+/**
+ * privacy/range-proof.ts
+ *
+ * Purpose: Batched Bulletproofs range proofs for Pedersen commitments
+ *
+ * Port of the `solana-zk-sdk` range proof, an aggregated Bulletproof over up
+ * to 8 commitments whose bit lengths add up to 64, 128 or 256. Token 2022 uses
+ * them to show balances and transfer amounts are non-negative:
+ *
+ * - Withdraw: the remaining balance (64 bits) as a `BatchedRangeProofU64`
+ * - Transfer: remaining balance (64), amount lo (16), amount hi (32) and a
+ *   zero padding commitment (16) as a `BatchedRangeProofU128`
+ *
+ * Proof layout: A, S, T_1, T_2 (4 x 32) || t_x, t_x_blinding, e_blinding (3 x 32)
+ * || inner product proof (L_0, R_0, ..., L_k, R_k, a, b).
+ */
+
+import { ristretto255 } from '@noble/curves/ed25519';
+import { shake256 } from '@noble/hashes/sha3';
+import { concatBytes } from '@noble/hashes/utils';
+import { ProofGenerationError } from './errors';
+import { ZKProof, ZkElGamalProofType } from './types';
+import { ProofTranscript } from './transcript';
+import { expectContext, splitProof, verifySafely } from './sigma-proofs';
+import {
+  G,
+  H,
+  decodePoint,
+  invertScalar,
+  mod,
+  multiply,
+  randomScalar,
+  scalarFromBytes,
+  scalarToBytes
+} from './elgamal';
+
+type RistrettoPoint = InstanceType<typeof ristretto255.Point>;
+
+/** Maximum number of commitments in one batched range proof */
+export const MAX_RANGE_PROOF_COMMITMENTS = 8;
+
+const RANGE_PROOF_TYPES: Record<number, ZkElGamalProofType> = {
+  64: 'BatchedRangeProofU64',
+  128: 'BatchedRangeProofU128',
+  256: 'BatchedRangeProofU256'
+};
+
+/**
+ * Prove that each commitment opens to a value of the given bit length
+ *
+ * @param commitments - Encoded Pedersen commitments (32 bytes each)
+ * @param amounts - Committed amounts
+ * @param bitLengths - Bit length each amount must fit in (sum must be 64, 128 or 256)
+ * @param openings - Openings of the commitments
+ */
+export function generateBatchedRangeProof(
+  commitments: Uint8Array[],
+  amounts: bigint[],
+  bitLengths: number[],
+  openings: bigint[]
+): ZKProof {
+  const m = commitments.length;
+  if (m === 0 || m > MAX_RANGE_PROOF_COMMITMENTS) {
+    throw new ProofGenerationError(`A range proof covers 1 to ${MAX_RANGE_PROOF_COMMITMENTS} commitments, got ${m}`);
+  }
+  if (amounts.length !== m || bitLengths.length !== m || openings.length !== m) {
+    throw new ProofGenerationError('Range proof inputs must have one amount, bit length and opening per commitment');
+  }
+  bitLengths.forEach((bits, i) => {
+    if (!Number.isInteger(bits) || bits < 1 || bits > 64) {
+      throw new ProofGenerationError(`Invalid range proof bit length: ${bits}`);
+    }
+    if (amounts[i] < 0n || amounts[i] >= 1n << BigInt(bits)) {
+      throw new ProofGenerationError(`Amount ${amounts[i]} does not fit in ${bits} bits`);
+    }
+  });
+
+  const nm = bitLengths.reduce((sum, bits) => sum + bits, 0);
+  const type = rangeProofType(nm);
+  const context = encodeContext(commitments, bitLengths);
+  const { G: G_vec, H: H_vec } = bulletproofGens(nm);
+
+  const transcript = rangeProofTranscript(context);
+  transcript.appendMessage('dom-sep', 'range-proof');
+  transcript.appendU64('n', nm);
+
+  // Bit-decompose the amounts: a_L in {0, 1}, a_R = a_L - 1
+  const aL: bigint[] = [];
+  for (let j = 0; j < m; j++) {
+    for (let k = 0; k < bitLengths[j]; k++) {
+      aL.push((amounts[j] >> BigInt(k)) & 1n);
+    }
+  }
+
+  const aBlinding = randomScalar();
+  const A = msm(
+    [H, ...G_vec, ...H_vec],
+    [aBlinding, ...aL, ...aL.map(bit => mod(bit - 1n))]
+  ).toRawBytes();
+
+  const sL = aL.map(() => randomScalar());
+  const sR = aL.map(() => randomScalar());
+  const sBlinding = randomScalar();
+  const S = msm([H, ...G_vec, ...H_vec], [sBlinding, ...sL, ...sR]).toRawBytes();
+
+  transcript.appendPoint('A', A);
+  transcript.appendPoint('S', S);
+  const y = transcript.challengeScalar('y');
+  const z = transcript.challengeScalar('z');
+
+  // l(X) = l0 + l1*X, r(X) = r0 + r1*X
+  const l0: bigint[] = [];
+  const l1: bigint[] = [];
+  const r0: bigint[] = [];
+  const r1: bigint[] = [];
+  let i = 0;
+  let expZ = mod(z * z);
+  let expY = 1n;
+  for (let j = 0; j < m; j++) {
+    let exp2 = 1n;
+    for (let k = 0; k < bitLengths[j]; k++) {
+      const aLi = aL[i];
+      const aRi = aLi - 1n;
+      l0.push(mod(aLi - z));
+      l1.push(sL[i]);
+      r0.push(mod(expY * (aRi + z) + expZ * exp2));
+      r1.push(mod(expY * sR[i]));
+      expY = mod(expY * y);
+      exp2 = exp2 * 2n;
+      i++;
+    }
+    expZ = mod(expZ * z);
+  }
+
+  // t(X) = <l(X), r(X)> = t0 + t1*X + t2*X^2
+  const t1 = mod(innerProduct(l0, r1) + innerProduct(l1, r0));
+  const t2 = innerProduct(l1, r1);
+
+  const t1Blinding = randomScalar();
+  const t2Blinding = randomScalar();
+  const T_1 = multiply(G, t1).add(multiply(H, t1Blinding)).toRawBytes();
+  const T_2 = multiply(G, t2).add(multiply(H, t2Blinding)).toRawBytes();
+
+  transcript.appendPoint('T_1', T_1);
+  transcript.appendPoint('T_2', T_2);
+  const x = transcript.challengeScalar('x');
+
+  let aggOpening = 0n;
+  expZ = z;
+  for (const opening of openings) {
+    expZ = mod(expZ * z);
+    aggOpening = mod(aggOpening + expZ * opening);
+  }
+
+  const lVec = l0.map((value, k) => mod(value + l1[k] * x));
+  const rVec = r0.map((value, k) => mod(value + r1[k] * x));
+  const tX = innerProduct(lVec, rVec);
+  const tXBlinding = mod(aggOpening + t1Blinding * x + t2Blinding * x * x);
+  const eBlinding = mod(aBlinding + sBlinding * x);
+
+  transcript.appendScalar('t_x', tX);
+  transcript.appendScalar('t_x_blinding', tXBlinding);
+  transcript.appendScalar('e_blinding', eBlinding);
+
+  const w = transcript.challengeScalar('w');
+  const Q = multiply(G, w);
+
+  // Kept for transcript compatibility with the verifier's batching challenge
+  transcript.challengeScalar('c');
+
+  const yInv = invertScalar(y);
+  const hFactors = powers(yInv, nm);
+  const ipp = proveInnerProduct(Q, hFactors, G_vec, H_vec, lVec, rVec, transcript);
+
+  return {
+    proof: concatBytes(
+      A, S, T_1, T_2,
+      scalarToBytes(tX), scalarToBytes(tXBlinding), scalarToBytes(eBlinding),
+      ipp
+    ),
+    publicInputs: context,
+    proofSystem: 'bulletproofs',
+    circuitHash: type
+  };
+}
+
+/**
+ * Verify a batched range proof (U64, U128 or U256)
+ */
+export function verifyBatchedRangeProof(proof: ZKProof): boolean {
+  return verifySafely(() => {
+    const type = proof.circuitHash as ZkElGamalProofType;
+    const nm = Number(Object.keys(RANGE_PROOF_TYPES).find(bits => RANGE_PROOF_TYPES[Number(bits)] === type));
+    if (!nm) return false;
+
+    const [commitmentBytes, bitLengthBytes] = expectContext(proof, type, [32 * MAX_RANGE_PROOF_COMMITMENTS, MAX_RANGE_PROOF_COMMITMENTS]);
+    const { commitments, bitLengths } = decodeContext(commitmentBytes, bitLengthBytes);
+    if (bitLengths.reduce((sum, bits) => sum + bits, 0) !== nm) return false;
+
+    const lgN = Math.log2(nm);
+    const parts = splitProof(proof.proof, new Array(7 + 2 * lgN + 2).fill(32));
+    const [A, S, T_1, T_2] = parts.slice(0, 4);
+    const [tX, tXBlinding, eBlinding] = parts.slice(4, 7).map(scalarFromBytes);
+    const L: Uint8Array[] = [];
+    const R: Uint8Array[] = [];
+    for (let k = 0; k < lgN; k++) {
+      L.push(parts[7 + 2 * k]);
+      R.push(parts[8 + 2 * k]);
+    }
+    const a = scalarFromBytes(parts[7 + 2 * lgN]);
+    const b = scalarFromBytes(parts[8 + 2 * lgN]);
+
+    const transcript = rangeProofTranscript(proof.publicInputs);
+    transcript.appendMessage('dom-sep', 'range-proof');
+    transcript.appendU64('n', nm);
+    transcript.validateAndAppendPoint('A', A);
+    transcript.validateAndAppendPoint('S', S);
+    const y = transcript.challengeScalar('y');
+    const z = transcript.challengeScalar('z');
+    transcript.validateAndAppendPoint('T_1', T_1);
+    transcript.validateAndAppendPoint('T_2', T_2);
+    const x = transcript.challengeScalar('x');
+    transcript.appendScalar('t_x', tX);
+    transcript.appendScalar('t_x_blinding', tXBlinding);
+    transcript.appendScalar('e_blinding', eBlinding);
+    const w = transcript.challengeScalar('w');
+    const c = transcript.challengeScalar('c');
+
+    // Inner product verification scalars
+    transcript.appendMessage('dom-sep', 'inner-product');
+    transcript.appendU64('n', nm);
+    const u: bigint[] = [];
+    for (let k = 0; k < lgN; k++) {
+      transcript.validateAndAppendPoint('L', L[k]);
+      transcript.validateAndAppendPoint('R', R[k]);
+      u.push(transcript.challengeScalar('u'));
+    }
+    const uInv = u.map(invertScalar);
+    const uSq = u.map(value => mod(value * value));
+    const uInvSq = uInv.map(value => mod(value * value));
+    const s: bigint[] = [uInv.reduce((acc, value) => mod(acc * value), 1n)];
+    for (let i = 1; i < nm; i++) {
+      const lgI = 31 - Math.clz32(i);
+      s.push(mod(s[i - (1 << lgI)] * uSq[lgN - 1 - lgI]));
+    }
+
+    const zz = mod(z * z);
+    const zAnd2: bigint[] = [];
+    let expZ = 1n;
+    for (const bits of bitLengths) {
+      let exp2 = 1n;
+      for (let k = 0; k < bits; k++) {
+        zAnd2.push(mod(expZ * exp2));
+        exp2 *= 2n;
+      }
+      expZ = mod(expZ * z);
+    }
+
+    const yInvPowers = powers(invertScalar(y), nm);
+    const gScalars = s.map(sI => mod(-z - a * sI));
+    // s is symmetric: 1/s_i = s_{n-1-i}
+    const hScalars = s.map((_, i) => mod(z + yInvPowers[i] * (zz * zAnd2[i] - b * s[nm - 1 - i])));
+    const commitmentScalars = powers(z, commitments.length).map(zExp => mod(c * zz * zExp));
+    const basepointScalar = mod(w * (tX - a * b) + c * (delta(bitLengths, y, z) - tX));
+
+    const { G: G_vec, H: H_vec } = bulletproofGens(nm);
+    const check = msm(
+      [
+        decodePoint(A), decodePoint(S), decodePoint(T_1), decodePoint(T_2), H, G,
+        ...L.map(point => decodePoint(point)), ...R.map(point => decodePoint(point)),
+        ...G_vec, ...H_vec, ...commitments
+      ],
+      [
+        1n, x, mod(c * x), mod(c * x * x), mod(-eBlinding - c * tXBlinding), basepointScalar,
+        ...uSq, ...uInvSq, ...gScalars, ...hScalars, ...commitmentScalars
+      ]
+    );
+    return check.equals(ristretto255.Point.ZERO);
+  });
+}
+
+// Inner product argument
+
+function proveInnerProduct(
+  Q: RistrettoPoint,
+  hFactors: bigint[],
+  gVec: RistrettoPoint[],
+  hVec: RistrettoPoint[],
+  aVec: bigint[],
+  bVec: bigint[],
+  transcript: ProofTranscript
+): Uint8Array {
+  let n = gVec.length;
+  let G_ = gVec.slice();
+  let H_ = hVec.slice();
+  let a = aVec.slice();
+  let b = bVec.slice();
+
+  transcript.appendMessage('dom-sep', 'inner-product');
+  transcript.appendU64('n', n);
+
+  const out: Uint8Array[] = [];
+  let first = true;
+  while (n !== 1) {
+    n /= 2;
+    const aL = a.slice(0, n), aR = a.slice(n);
+    const bL = b.slice(0, n), bR = b.slice(n);
+    const GL = G_.slice(0, n), GR = G_.slice(n);
+    const HL = H_.slice(0, n), HR = H_.slice(n);
+
+    // The first round folds H' = H * y^-i into the scalars
+    const hLFactors = first ? hFactors.slice(0, n) : new Array(n).fill(1n);
+    const hRFactors = first ? hFactors.slice(n, 2 * n) : new Array(n).fill(1n);
+
+    const cL = innerProduct(aL, bR);
+    const cR = innerProduct(aR, bL);
+    const L = msm([...GR, ...HL, Q], [...aL, ...bR.map((value, i) => mod(value * hLFactors[i])), cL]).toRawBytes();
+    const R = msm([...GL, ...HR, Q], [...aR, ...bL.map((value, i) => mod(value * hRFactors[i])), cR]).toRawBytes();
+    out.push(L, R);
+
+    transcript.appendPoint('L', L);
+    transcript.appendPoint('R', R);
+    const u = transcript.challengeScalar('u');
+    const uInv = invertScalar(u);
+
+    a = aL.map((value, i) => mod(value * u + uInv * aR[i]));
+    b = bL.map((value, i) => mod(value * uInv + u * bR[i]));
+    G_ = GL.map((point, i) => msm([point, GR[i]], [uInv, u]));
+    H_ = HL.map((point, i) => msm([point, HR[i]], [mod(u * hLFactors[i]), mod(uInv * hRFactors[i])]));
+    first = false;
+  }
+
+  out.push(scalarToBytes(a[0]), scalarToBytes(b[0]));
+  return concatBytes(...out);
+}
+
+// Generators
+
+let generatorCache: { G: RistrettoPoint[]; H: RistrettoPoint[] } = { G: [], H: [] };
+
+/**
+ * Bulletproof generators (`BulletproofGens`): SHAKE256("GeneratorsChain" || label)
+ * read 64 bytes at a time and mapped to ristretto points
+ */
+function bulletproofGens(n: number): { G: RistrettoPoint[]; H: RistrettoPoint[] } {
+  if (generatorCache.G.length < n) {
+    generatorCache = { G: generatorsChain('G', n), H: generatorsChain('H', n) };
+  }
+  return { G: generatorCache.G.slice(0, n), H: generatorCache.H.slice(0, n) };
+}
+
+function generatorsChain(label: string, n: number): RistrettoPoint[] {
+  const reader = shake256.create({});
+  reader.update(new TextEncoder().encode('GeneratorsChain'));
+  reader.update(new TextEncoder().encode(label));
+  const points: RistrettoPoint[] = [];
+  for (let i = 0; i < n; i++) {
+    points.push(ristretto255.Point.hashToCurve(reader.xof(64)));
+  }
+  return points;
+}
+
+// Helpers
+
+function rangeProofType(nm: number): ZkElGamalProofType {
+  const type = RANGE_PROOF_TYPES[nm];
+  if (!type) {
+    throw new ProofGenerationError(`Range proof bit lengths must add up to 64, 128 or 256, got ${nm}`);
+  }
+  return type;
+}
+
+function rangeProofTranscript(context: Uint8Array[]): ProofTranscript {
+  const transcript = new ProofTranscript('batched-range-proof-instruction');
+  transcript.appendMessage('commitments', context[0]);
+  transcript.appendMessage('bit-lengths', context[1]);
+  return transcript;
+}
+
+function encodeContext(commitments: Uint8Array[], bitLengths: number[]): Uint8Array[] {
+  const commitmentBytes = new Uint8Array(32 * MAX_RANGE_PROOF_COMMITMENTS);
+  const bitLengthBytes = new Uint8Array(MAX_RANGE_PROOF_COMMITMENTS);
+  commitments.forEach((commitment, i) => {
+    if (commitment.length !== 32) {
+      throw new ProofGenerationError(`Invalid commitment length: expected 32 bytes, got ${commitment.length}`);
+    }
+    commitmentBytes.set(commitment, 32 * i);
+    bitLengthBytes[i] = bitLengths[i];
+  });
+  return [commitmentBytes, bitLengthBytes];
+}
+
+function decodeContext(
+  commitmentBytes: Uint8Array,
+  bitLengthBytes: Uint8Array
+): { commitments: RistrettoPoint[]; bitLengths: number[] } {
+  // Unused slots are zeroed; the first zeroed commitment ends the list
+  const commitments: RistrettoPoint[] = [];
+  const bitLengths: number[] = [];
+  for (let i = 0; i < MAX_RANGE_PROOF_COMMITMENTS; i++) {
+    const commitment = commitmentBytes.slice(32 * i, 32 * (i + 1));
+    if (commitment.every(byte => byte === 0)) break;
+    commitments.push(decodePoint(commitment));
+    bitLengths.push(bitLengthBytes[i]);
+  }
+  return { commitments, bitLengths };
+}
+
+function delta(bitLengths: number[], y: bigint, z: bigint): bigint {
+  const nm = bitLengths.reduce((sum, bits) => sum + bits, 0);
+  const sumY = powers(y, nm).reduce((acc, value) => mod(acc + value), 0n);
+  let result = mod((z - z * z) * sumY);
+  let expZ = mod(z * z * z);
+  for (const bits of bitLengths) {
+    result = mod(result - expZ * ((1n << BigInt(bits)) - 1n));
+    expZ = mod(expZ * z);
+  }
+  return result;
+}
+
+function powers(base: bigint, n: number): bigint[] {
+  const out: bigint[] = [];
+  let value = 1n;
+  for (let i = 0; i < n; i++) {
+    out.push(value);
+    value = mod(value * base);
+  }
+  return out;
+}
+
+function innerProduct(a: bigint[], b: bigint[]): bigint {
+  let sum = 0n;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return mod(sum);
+}
+
+function msm(points: RistrettoPoint[], scalars: bigint[]): RistrettoPoint {
+  // noble's msm rejects zero scalars, which are legitimate here
+  const usedPoints: RistrettoPoint[] = [];
+  const usedScalars: bigint[] = [];
+  scalars.forEach((scalar, i) => {
+    const reduced = mod(scalar);
+    if (reduced !== 0n) {
+      usedPoints.push(points[i]);
+      usedScalars.push(reduced);
+    }
+  });
+  return usedPoints.length === 0 ? ristretto255.Point.ZERO : ristretto255.Point.msm(usedPoints, usedScalars);
+}
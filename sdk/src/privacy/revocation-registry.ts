@@ -0,0 +1,366 @@
+/**
+ * privacy/revocation-registry.ts
+ *
+ * Purpose: Persistent, signed revocation of viewing keys
+ *
+ * A viewing key is a secret that may have been copied anywhere, so setting
+ * `expiresAt` on one copy does not stop the others from working. The
+ * revocation registry records revocations by the viewing key's public key;
+ * `ViewingKeyManager` consults it before every decryption.
+ *
+ * Each revocation is signed by the wallet that revoked the key, over:
+ *
+ * ```
+ * "zera/viewing-key/revocation/v1" || viewing_key (32) || revoked_by (32)
+ * || revoked_at_ms (u64 LE) || reason (UTF-8)
+ * ```
+ *
+ * so the entry proves who ended access and when. A registry is created with
+ * the wallets allowed to revoke its keys (normally the wallets that issued
+ * them) and ignores entries that are not signed by one of them, so a shared
+ * or remote store cannot forge revocations. Stores keep one entry per viewing
+ * key and revoker, so an entry written first by anyone else cannot block a
+ * genuine revocation either.
+ *
+ * Revocation is keyed by public key and viewing keys are derived
+ * deterministically, so it also covers keys later re-derived for the same
+ * account.
+ *
+ * Storage is pluggable through `RevocationStore`: `InMemoryRevocationStore`
+ * for a single process, `FileRevocationStore` for Node.js, or any remote
+ * store implementing the interface.
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { ViewingKey } from './types';
+import { ViewingKeyError } from './errors';
+import { ExtendedWalletAdapter } from '../core/types';
+import { signWalletMessage, verifyMessage } from '../core/message-signing';
+import { withFileLock, writeFileAtomically } from './file-store';
+
+const REVOCATION_DOMAIN = new TextEncoder().encode('zera/viewing-key/revocation/v1');
+
+/**
+ * Signed record that a viewing key was revoked
+ */
+export interface RevocationEntry {
+  /** Public key of the revoked viewing key */
+  viewingKey: PublicKey;
+  /** Revocation time in milliseconds since the epoch */
+  revokedAt: number;
+  /** Wallet that revoked the key */
+  revokedBy: PublicKey;
+  /** Free-form reason (may be empty) */
+  reason: string;
+  /** Ed25519 signature of `revokedBy` over the revocation message */
+  signature: Uint8Array;
+}
+
+/**
+ * JSON-safe form of a revocation entry, for stores that serialize
+ */
+export interface SerializedRevocationEntry {
+  viewingKey: string;
+  revokedAt: number;
+  revokedBy: string;
+  reason: string;
+  signature: string;
+}
+
+/**
+ * Storage backend of a revocation registry
+ *
+ * Implement this to keep revocations in a remote store. Entries are verified
+ * by the registry, so a store does not need to be trusted.
+ */
+export interface RevocationStore {
+  /** Get the revocations of a viewing key, at most one per revoker */
+  get(viewingKey: PublicKey): Promise<RevocationEntry[]>;
+  /** Record a revocation (the first revocation of a key by each revoker is kept) */
+  put(entry: RevocationEntry): Promise<void>;
+  /** List all recorded revocations */
+  list(): Promise<RevocationEntry[]>;
+}
+
+/**
+ * Encode a revocation entry for JSON storage (keys base58, signature hex)
+ */
+export function serializeRevocationEntry(entry: RevocationEntry): SerializedRevocationEntry {
+  return {
+    viewingKey: entry.viewingKey.toBase58(),
+    revokedAt: entry.revokedAt,
+    revokedBy: entry.revokedBy.toBase58(),
+    reason: entry.reason,
+    signature: bytesToHex(entry.signature)
+  };
+}
+
+/**
+ * Decode a revocation entry produced by `serializeRevocationEntry`
+ */
+export function deserializeRevocationEntry(entry: SerializedRevocationEntry): RevocationEntry {
+  return {
+    viewingKey: new PublicKey(entry.viewingKey),
+    revokedAt: entry.revokedAt,
+    revokedBy: new PublicKey(entry.revokedBy),
+    reason: entry.reason,
+    signature: hexToBytes(entry.signature)
+  };
+}
+
+/**
+ * Whether two entries revoke the same viewing key by the same revoker
+ */
+function isSameRevocation(a: RevocationEntry, b: RevocationEntry): boolean {
+  return a.viewingKey.equals(b.viewingKey) && a.revokedBy.equals(b.revokedBy);
+}
+
+/**
+ * Revocation store kept in memory for the lifetime of the process
+ */
+export class InMemoryRevocationStore implements RevocationStore {
+  private entries: RevocationEntry[] = [];
+
+  async get(viewingKey: PublicKey): Promise<RevocationEntry[]> {
+    return this.entries.filter(entry => entry.viewingKey.equals(viewingKey));
+  }
+
+  async put(entry: RevocationEntry): Promise<void> {
+    if (!this.entries.some(existing => isSameRevocation(existing, entry))) {
+      this.entries.push(entry);
+    }
+  }
+
+  async list(): Promise<RevocationEntry[]> {
+    return [...this.entries];
+  }
+}
+
+/**
+ * Revocation store persisted as a JSON file (Node.js only)
+ *
+ * Writes hold an exclusive lock file (`<path>.lock`) while they re-read the
+ * file, merge the new entry and rewrite it atomically (write to a temporary
+ * file, then rename), and lookups re-read the file, so several processes can
+ * share it without losing revocations.
+ */
+export class FileRevocationStore implements RevocationStore {
+  private path: string;
+
+  /**
+   * @param path - JSON file holding the revocations (created on first write)
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async get(viewingKey: PublicKey): Promise<RevocationEntry[]> {
+    return (await this.list()).filter(entry => entry.viewingKey.equals(viewingKey));
+  }
+
+  async put(entry: RevocationEntry): Promise<void> {
+    await withFileLock(this.path, async () => {
+      const entries = await this.list();
+      if (entries.some(existing => isSameRevocation(existing, entry))) {
+        return;
+      }
+      entries.push(entry);
+
+      const contents = { version: 1, entries: entries.map(serializeRevocationEntry) };
+      await writeFileAtomically(this.path, JSON.stringify(contents, null, 2));
+    }, message => new ViewingKeyError(message));
+  }
+
+  async list(): Promise<RevocationEntry[]> {
+    const { readFile } = await import('fs/promises');
+    let contents: string;
+    try {
+      contents = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(contents) as { version: number; entries: SerializedRevocationEntry[] };
+    if (parsed.version !== 1 || !Array.isArray(parsed.entries)) {
+      throw new ViewingKeyError(`Unsupported revocation file format in ${this.path}`);
+    }
+    return parsed.entries.map(deserializeRevocationEntry);
+  }
+}
+
+/**
+ * RevocationRegistry records and checks viewing key revocations
+ *
+ * Only revocations signed by one of the registry's authorized revokers count.
+ * Verified revocations are cached, so `isKnownRevoked` can answer
+ * synchronously for keys revoked through this registry or already looked up.
+ * Call `load` to prime the cache from the store.
+ */
+export class RevocationRegistry {
+  private authorizedRevokers: PublicKey[];
+  private store: RevocationStore;
+  private revoked: Map<string, RevocationEntry> = new Map();
+
+  /**
+   * @param authorizedRevokers - Wallets whose revocations are honored (normally the issuers of the viewing keys)
+   * @param store - Storage backend (default: in memory)
+   */
+  constructor(
+    authorizedRevokers: PublicKey | PublicKey[],
+    store: RevocationStore = new InMemoryRevocationStore()
+  ) {
+    this.authorizedRevokers = Array.isArray(authorizedRevokers) ? [...authorizedRevokers] : [authorizedRevokers];
+    this.store = store;
+  }
+
+  /**
+   * Revoke a viewing key
+   *
+   * Revoking an already revoked key returns the existing entry.
+   *
+   * @param viewingKey - Viewing key (or its public key) to revoke
+   * @param wallet - Wallet that signs the revocation (an authorized revoker)
+   * @param reason - Optional reason recorded in the entry
+   * @returns The signed revocation entry
+   * @throws ViewingKeyError if the wallet is not an authorized revoker
+   */
+  async revoke(
+    viewingKey: ViewingKey | PublicKey,
+    wallet: ExtendedWalletAdapter,
+    reason: string = ''
+  ): Promise<RevocationEntry> {
+    const publicKey = viewingKey instanceof PublicKey ? viewingKey : viewingKey.publicKey;
+    if (!this.isAuthorizedRevoker(wallet.publicKey)) {
+      throw new ViewingKeyError(`${wallet.publicKey.toBase58()} is not authorized to revoke viewing keys in this registry`);
+    }
+
+    const existing = await this.getRevocation(publicKey);
+    if (existing) {
+      return existing;
+    }
+
+    const revokedAt = Date.now();
+    const signature = await signWalletMessage(
+      wallet,
+      encodeRevocationMessage(publicKey, wallet.publicKey, revokedAt, reason)
+    );
+    const entry: RevocationEntry = {
+      viewingKey: publicKey,
+      revokedAt,
+      revokedBy: wallet.publicKey,
+      reason,
+      signature
+    };
+
+    await this.store.put(entry);
+    this.revoked.set(publicKey.toBase58(), entry);
+    return entry;
+  }
+
+  /**
+   * Get the verified revocation of a viewing key
+   *
+   * @returns The revocation entry, or null if the key is not revoked
+   */
+  async getRevocation(viewingKey: PublicKey): Promise<RevocationEntry | null> {
+    const cached = this.revoked.get(viewingKey.toBase58());
+    if (cached) {
+      return cached;
+    }
+
+    const entry = (await this.store.get(viewingKey))
+      .find(candidate => candidate.viewingKey.equals(viewingKey) && this.isAuthorizedEntry(candidate));
+    if (!entry) {
+      return null;
+    }
+    this.revoked.set(viewingKey.toBase58(), entry);
+    return entry;
+  }
+
+  /**
+   * Check the store for a revocation of a viewing key
+   */
+  async isRevoked(viewingKey: PublicKey): Promise<boolean> {
+    return (await this.getRevocation(viewingKey)) !== null;
+  }
+
+  /**
+   * Check the cache for a revocation of a viewing key, without hitting the store
+   */
+  isKnownRevoked(viewingKey: PublicKey): boolean {
+    return this.revoked.has(viewingKey.toBase58());
+  }
+
+  /**
+   * Load every authorized revocation from the store into the cache
+   *
+   * @returns Number of revoked viewing keys loaded
+   */
+  async load(): Promise<number> {
+    const loaded = new Set<string>();
+    for (const entry of await this.store.list()) {
+      const key = entry.viewingKey.toBase58();
+      if (!loaded.has(key) && this.isAuthorizedEntry(entry)) {
+        if (!this.revoked.has(key)) {
+          this.revoked.set(key, entry);
+        }
+        loaded.add(key);
+      }
+    }
+    return loaded.size;
+  }
+
+  /**
+   * Check whether a wallet may revoke viewing keys in this registry
+   */
+  isAuthorizedRevoker(wallet: PublicKey): boolean {
+    return this.authorizedRevokers.some(revoker => revoker.equals(wallet));
+  }
+
+  /**
+   * Check that a revocation entry is signed by an authorized revoker
+   */
+  isAuthorizedEntry(entry: RevocationEntry): boolean {
+    return this.isAuthorizedRevoker(entry.revokedBy) && RevocationRegistry.verifyEntry(entry);
+  }
+
+  /**
+   * Check that a revocation entry is signed by the wallet it names
+   *
+   * This alone does not make the entry authoritative: anyone can sign a
+   * revocation with their own key. Use `isAuthorizedEntry` to also check the
+   * revoker.
+   */
+  static verifyEntry(entry: RevocationEntry): boolean {
+    return verifyMessage(
+      encodeRevocationMessage(entry.viewingKey, entry.revokedBy, entry.revokedAt, entry.reason),
+      entry.signature,
+      entry.revokedBy
+    );
+  }
+}
+
+function encodeRevocationMessage(
+  viewingKey: PublicKey,
+  revokedBy: PublicKey,
+  revokedAt: number,
+  reason: string
+): Uint8Array {
+  const reasonBytes = new TextEncoder().encode(reason);
+  const message = new Uint8Array(REVOCATION_DOMAIN.length + 32 + 32 + 8 + reasonBytes.length);
+  let offset = 0;
+  message.set(REVOCATION_DOMAIN, offset);
+  offset += REVOCATION_DOMAIN.length;
+  message.set(viewingKey.toBytes(), offset);
+  offset += 32;
+  message.set(revokedBy.toBytes(), offset);
+  offset += 32;
+  new DataView(message.buffer).setBigUint64(offset, BigInt(revokedAt), true);
+  offset += 8;
+  message.set(reasonBytes, offset);
+  return message;
+}
@@ -0,0 +1,129 @@
+/**
+ * privacy/scan-cursor.ts
+ *
+ * Purpose: Persistent cursors for incremental blockchain scanning
+ *
+ * A scan cursor records the newest transaction a scan has processed for an
+ * address (a stealth address, or the announcer program for a given view key).
+ * `BlockchainScanner` resumes from it (`until` of the announcement query, i.e.
+ * `getSignaturesForAddress(until)` over RPC), so a rescan only fetches what
+ * was published since, and saves the new cursor once the scan has completed.
+ *
+ * Storage is pluggable through `ScanCursorStore`: `InMemoryScanCursorStore`
+ * for a single process, `FileScanCursorStore` for Node.js, or any remote
+ * store implementing the interface.
+ */
+
+import { PrivacyError } from './errors';
+import { withFileLock, writeFileAtomically } from './file-store';
+
+/**
+ * Where an incremental scan stopped
+ */
+export interface ScanCursor {
+  /** Cursor key (scanned address, optionally qualified by the caller) */
+  key: string;
+  /** Newest transaction signature processed */
+  signature: string;
+  /** Slot of that transaction */
+  slot: number;
+  /** When the cursor was saved, in milliseconds since the epoch */
+  updatedAt: number;
+}
+
+/**
+ * Storage backend of scan cursors
+ */
+export interface ScanCursorStore {
+  /** Get the cursor saved under a key, if any */
+  get(key: string): Promise<ScanCursor | null>;
+  /** Save a cursor, replacing the previous one for its key */
+  put(cursor: ScanCursor): Promise<void>;
+  /** Forget the cursor of a key, so the next scan starts over */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Scan cursor store kept in memory for the lifetime of the process
+ */
+export class InMemoryScanCursorStore implements ScanCursorStore {
+  private cursors: Map<string, ScanCursor> = new Map();
+
+  async get(key: string): Promise<ScanCursor | null> {
+    return this.cursors.get(key) ?? null;
+  }
+
+  async put(cursor: ScanCursor): Promise<void> {
+    this.cursors.set(cursor.key, cursor);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.cursors.delete(key);
+  }
+}
+
+/**
+ * Scan cursor store persisted as a JSON file (Node.js only)
+ *
+ * Updates hold an exclusive lock file (`<path>.lock`) while they re-read the
+ * file, change it and rewrite it atomically (write to a temporary file, then
+ * rename), and lookups re-read the file, so scanners in several processes can
+ * share it without losing cursor updates.
+ */
+export class FileScanCursorStore implements ScanCursorStore {
+  private path: string;
+
+  /**
+   * @param path - JSON file holding the cursors (created on first write)
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async get(key: string): Promise<ScanCursor | null> {
+    return (await this.read()).find(cursor => cursor.key === key) ?? null;
+  }
+
+  async put(cursor: ScanCursor): Promise<void> {
+    await this.update(cursors => [...cursors.filter(existing => existing.key !== cursor.key), cursor]);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.update(cursors => cursors.filter(cursor => cursor.key !== key));
+  }
+
+  private async read(): Promise<ScanCursor[]> {
+    const { readFile } = await import('fs/promises');
+    let contents: string;
+    try {
+      contents = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(contents) as { version: number; cursors: ScanCursor[] };
+    if (parsed.version !== 1 || !Array.isArray(parsed.cursors)) {
+      throw new PrivacyError(`Unsupported scan cursor file format in ${this.path}`);
+    }
+    return parsed.cursors;
+  }
+
+  /**
+   * Re-read, change and rewrite the file under its lock
+   *
+   * @param change - Returns the new cursor list; the file is left alone if nothing changed
+   */
+  private async update(change: (cursors: ScanCursor[]) => ScanCursor[]): Promise<void> {
+    await withFileLock(this.path, async () => {
+      const cursors = await this.read();
+      const updated = change(cursors);
+      if (updated.length === cursors.length && updated.every((cursor, index) => cursor === cursors[index])) {
+        return;
+      }
+      await writeFileAtomically(this.path, JSON.stringify({ version: 1, cursors: updated }, null, 2));
+    }, message => new PrivacyError(message));
+  }
+}
@@ -4,16 +4,44 @@
  * Purpose: Stealth address protocol implementation using standard Ed25519 curves
  */
 
-import { PublicKey, Keypair } from '@solana/web3.js';
+import {
+  Connection,
+  PublicKey,
+  Keypair,
+  ParsedTransactionWithMeta,
+  SystemProgram,
+  Transaction
+} from '@solana/web3.js';
+import {
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createCloseAccountInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync
+} from '@solana/spl-token';
 import { ed25519 } from '@noble/curves/ed25519';
 import { sha512 } from '@noble/hashes/sha512';
 import { sha256 } from '@noble/hashes/sha256';
+import { concatBytes } from '@noble/hashes/utils';
 import {
   StealthMetaAddress,
   StealthAddress,
   StealthPayment,
+  StealthTokenBalance,
   EphemeralKey
 } from './types';
+import {
+  ANNOUNCEMENT_COMMITMENT_LENGTH,
+  AnnouncementFilter,
+  createAuthenticatedAnnouncementMetadata,
+  createStealthAddressMemo,
+  createStealthAnnouncementInstruction,
+  createViewTagMetadata
+} from './blockchain-scanner';
+
+const VIEW_TAG_DOMAIN = new TextEncoder().encode('zera/stealth/view-tag/v1');
+const COMMITMENT_DOMAIN = new TextEncoder().encode('zera/stealth/announcement-commitment/v1');
 
 /**
  * StealthAddressManager
@@ -48,6 +76,17 @@ export class StealthAddressManager {
     recipientMetaAddress: StealthMetaAddress,
     ephemeralKeypair?: Keypair
   ): { stealthAddress: StealthAddress; ephemeralKey: EphemeralKey } {
+    const { stealthAddress, ephemeralKey } = this.deriveStealthAddress(recipientMetaAddress, ephemeralKeypair);
+    return { stealthAddress, ephemeralKey };
+  }
+
+  /**
+   * Generate a stealth address, keeping the shared secret for the announcement commitment
+   */
+  private deriveStealthAddress(
+    recipientMetaAddress: StealthMetaAddress,
+    ephemeralKeypair?: Keypair
+  ): { stealthAddress: StealthAddress; ephemeralKey: EphemeralKey; sharedSecret: Uint8Array } {
     // 1. Generate ephemeral keypair
     const ephemeralKey = ephemeralKeypair || Keypair.generate();
 
@@ -89,21 +128,256 @@ export class StealthAddressManager {
       publicKey: ephemeralKey.publicKey,
       encryptedPrivateKey: new Uint8Array(0), // Placeholder
       transactionSignature: "",
-      createdAt: Date.now()
+      createdAt: Date.now(),
+      viewTag: this.computeViewTag(sharedSecret)
+    };
+
+    return { stealthAddress, ephemeralKey: ephemeralKeyObj, sharedSecret };
+  }
+
+  /**
+   * Build a stealth payment transaction
+   * 
+   * The transaction transfers lamports to a fresh stealth address and carries
+   * a v3 `STEALTH:` memo publishing the ephemeral public key, view tag and a
+   * commitment to the transfer, so the recipient can find the payment by
+   * scanning and tell it from a spoofed announcement. Fee payer and blockhash
+   * are left to the caller.
+   */
+  buildStealthPaymentTransaction(
+    payer: PublicKey,
+    recipientMetaAddress: StealthMetaAddress,
+    lamports: number,
+    ephemeralKeypair?: Keypair
+  ): { transaction: Transaction; stealthAddress: StealthAddress; ephemeralKey: EphemeralKey; memo: string } {
+    const { stealthAddress, ephemeralKey, sharedSecret } = this.deriveStealthAddress(recipientMetaAddress, ephemeralKeypair);
+    ephemeralKey.commitment = this.computeAnnouncementCommitment(sharedSecret, stealthAddress.address, BigInt(lamports));
+
+    const transaction = new Transaction().add(
+      SystemProgram.transfer({
+        fromPubkey: payer,
+        toPubkey: stealthAddress.address,
+        lamports
+      }),
+      createStealthAnnouncementInstruction(ephemeralKey.publicKey, this.announcementMetadata(ephemeralKey))
+    );
+
+    return {
+      transaction,
+      stealthAddress,
+      ephemeralKey,
+      memo: createStealthAddressMemo(ephemeralKey.publicKey, this.announcementMetadata(ephemeralKey))
+    };
+  }
+
+  /**
+   * Build a stealth token payment transaction
+   * 
+   * Creates the stealth address's associated token account (idempotently,
+   * paid by the payer), transfers the tokens from the payer's associated
+   * token account and publishes the ephemeral key in a v3 `STEALTH:` memo
+   * committing to the mint and amount. Works for SPL Token and Token 2022
+   * mints.
+   * 
+   * @param amount - Amount in base units
+   * @param decimals - Decimals of the mint (checked on-chain)
+   * @param programId - Token program of the mint
+   */
+  buildStealthTokenPaymentTransaction(
+    payer: PublicKey,
+    recipientMetaAddress: StealthMetaAddress,
+    mint: PublicKey,
+    amount: bigint,
+    decimals: number,
+    programId: PublicKey = TOKEN_PROGRAM_ID,
+    ephemeralKeypair?: Keypair
+  ): {
+    transaction: Transaction;
+    stealthAddress: StealthAddress;
+    ephemeralKey: EphemeralKey;
+    tokenAccount: PublicKey;
+    memo: string;
+  } {
+    const { stealthAddress, ephemeralKey, sharedSecret } = this.deriveStealthAddress(recipientMetaAddress, ephemeralKeypair);
+    ephemeralKey.commitment = this.computeAnnouncementCommitment(sharedSecret, stealthAddress.address, amount, mint);
+
+    const sourceAccount = getAssociatedTokenAddressSync(mint, payer, false, programId);
+    const tokenAccount = getAssociatedTokenAddressSync(mint, stealthAddress.address, false, programId);
+
+    const transaction = new Transaction().add(
+      createAssociatedTokenAccountIdempotentInstruction(
+        payer,
+        tokenAccount,
+        stealthAddress.address,
+        mint,
+        programId
+      ),
+      createTransferCheckedInstruction(
+        sourceAccount,
+        mint,
+        tokenAccount,
+        payer,
+        amount,
+        decimals,
+        [],
+        programId
+      ),
+      createStealthAnnouncementInstruction(ephemeralKey.publicKey, this.announcementMetadata(ephemeralKey))
+    );
+
+    return {
+      transaction,
+      stealthAddress,
+      ephemeralKey,
+      tokenAccount,
+      memo: createStealthAddressMemo(ephemeralKey.publicKey, this.announcementMetadata(ephemeralKey))
     };
+  }
+
+  /**
+   * Build a transaction sweeping a stealth address into a destination wallet
+   * 
+   * Every token balance is moved to the destination's associated token account
+   * (created idempotently, paid by the stealth address) and the emptied token
+   * account is closed with its rent going to the destination. `lamports` of
+   * SOL are then transferred. The stealth address is the fee payer and the
+   * only signer.
+   * 
+   * With a sponsor, the relayer pays for the destination token accounts, the
+   * closed accounts' rent is credited to the stealth address instead, and
+   * `reimbursement` lamports go to the relayer before the destination is paid,
+   * so a stealth address holding only tokens can be swept. The relayer must
+   * be set as fee payer.
+   */
+  buildStealthSweepTransaction(
+    stealthAddress: PublicKey,
+    destination: PublicKey,
+    lamports: number,
+    tokenBalances: StealthTokenBalance[] = [],
+    sponsor?: { relayer: PublicKey; reimbursement: number }
+  ): Transaction {
+    const transaction = new Transaction();
+    const accountPayer = sponsor ? sponsor.relayer : stealthAddress;
+    const rentRecipient = sponsor ? stealthAddress : destination;
+
+    for (const balance of tokenBalances) {
+      if (balance.amount > 0n) {
+        const destinationAccount = getAssociatedTokenAddressSync(
+          balance.mint,
+          destination,
+          true,
+          balance.programId
+        );
+        transaction.add(
+          createAssociatedTokenAccountIdempotentInstruction(
+            accountPayer,
+            destinationAccount,
+            destination,
+            balance.mint,
+            balance.programId
+          ),
+          createTransferCheckedInstruction(
+            balance.tokenAccount,
+            balance.mint,
+            destinationAccount,
+            stealthAddress,
+            balance.amount,
+            balance.decimals,
+            [],
+            balance.programId
+          )
+        );
+      }
+      transaction.add(
+        createCloseAccountInstruction(balance.tokenAccount, rentRecipient, stealthAddress, [], balance.programId)
+      );
+    }
+
+    if (sponsor && sponsor.reimbursement > 0) {
+      transaction.add(
+        SystemProgram.transfer({
+          fromPubkey: stealthAddress,
+          toPubkey: sponsor.relayer,
+          lamports: sponsor.reimbursement
+        })
+      );
+    }
 
-    return { stealthAddress, ephemeralKey: ephemeralKeyObj };
+    if (lamports > 0) {
+      transaction.add(
+        SystemProgram.transfer({
+          fromPubkey: stealthAddress,
+          toPubkey: destination,
+          lamports
+        })
+      );
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Get the token balances held by a stealth address
+   * 
+   * Looks up the token accounts owned by the address under both SPL Token and
+   * Token 2022, one entry per token account.
+   */
+  async getStealthTokenBalances(
+    connection: Connection,
+    stealthAddress: PublicKey
+  ): Promise<StealthTokenBalance[]> {
+    const balances: StealthTokenBalance[] = [];
+
+    for (const programId of [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]) {
+      const { value } = await connection.getParsedTokenAccountsByOwner(stealthAddress, { programId });
+
+      for (const { pubkey, account } of value) {
+        const info = account.data.parsed?.info;
+        if (!info) continue;
+
+        balances.push({
+          mint: new PublicKey(info.mint),
+          tokenAccount: pubkey,
+          programId,
+          amount: BigInt(info.tokenAmount.amount),
+          decimals: info.tokenAmount.decimals
+        });
+      }
+    }
+
+    return balances;
   }
 
   /**
    * Scan for payments sent to user's stealth address
+   * 
+   * Without a connection, a payment is derived for every ephemeral key
+   * (amounts unknown). With a connection, each key's announcing transaction is
+   * fetched and the payment is kept only if the derived stealth address
+   * received lamports or tokens in it; the received amounts are filled in and
+   * `spent` is set when a later transaction was signed by the stealth address.
+   * Keys that do not belong to the recipient are dropped.
+   * 
+   * Keys carrying a view tag are dropped right after the ECDH step when the
+   * tag does not match, before the address derivation and any RPC call.
+   * 
+   * Keys carrying a commitment (v3) are checked against the transfer when
+   * verified on-chain: a payment is kept only if the lamports, or one of the
+   * token amounts, received by the stealth address match the commitment, and
+   * is then marked `authenticated`.
+   * 
+   * @param filter - Spam filters: `requireCommitment` drops keys without a
+   * commitment, `minLamports` drops verified payments of fewer lamports and no tokens
    */
   async scanForPayments(
     metaAddress: StealthMetaAddress,
     viewPrivateKey: Uint8Array,
-    ephemeralKeys: EphemeralKey[]
+    ephemeralKeys: EphemeralKey[],
+    connection?: Connection,
+    filter: AnnouncementFilter = {}
   ): Promise<StealthPayment[]> {
     const payments: StealthPayment[] = [];
+    const commitments = new Map<StealthPayment, Uint8Array>();
 
     // viewPrivateKey is likely the full 64-byte secret key from Keypair
     // We need the first 32 bytes (seed) for scalar derivation
@@ -111,6 +385,10 @@ export class StealthAddressManager {
     const viewScalar = this.getScalarFromSeed(viewPrivBytes);
 
     for (const eKey of ephemeralKeys) {
+      if (filter.requireCommitment && !eKey.commitment) {
+        continue;
+      }
+
       try {
         // 1. Compute shared secret using viewing key
         const ephemeralPubBytes = eKey.publicKey.toBytes();
@@ -120,7 +398,12 @@ export class StealthAddressManager {
         const sharedPoint = ephemeralPoint.multiply(viewScalar);
         const sharedSecret = sha256(sharedPoint.toRawBytes());
 
-        // 2. Derive expected stealth address
+        // 2. Skip announcements whose view tag is not ours (v1 keys have none)
+        if (eKey.viewTag !== undefined && eKey.viewTag !== this.computeViewTag(sharedSecret)) {
+          continue;
+        }
+
+        // 3. Derive expected stealth address
         const offsetScalar = this.hashToScalar(sharedSecret);
         const offsetPoint = ed25519.ExtendedPoint.BASE.multiply(offsetScalar);
 
@@ -130,7 +413,7 @@ export class StealthAddressManager {
         const expectedStealthPoint = spendingPoint.add(offsetPoint);
         const expectedStealthAddress = new PublicKey(expectedStealthPoint.toRawBytes());
 
-        payments.push({
+        const payment: StealthPayment = {
           stealthAddress: expectedStealthAddress,
           ephemeralPublicKey: eKey.publicKey,
           sharedSecret: Buffer.from(sharedSecret),
@@ -138,7 +421,11 @@ export class StealthAddressManager {
           amount: 0,
           detectedAt: Date.now(),
           spent: false
-        });
+        };
+        payments.push(payment);
+        if (eKey.commitment) {
+          commitments.set(payment, eKey.commitment);
+        }
 
       } catch (error) {
         // Skip invalid keys
@@ -146,7 +433,24 @@ export class StealthAddressManager {
       }
     }
 
-    return payments;
+    if (!connection) {
+      return payments;
+    }
+
+    const received: StealthPayment[] = [];
+    for (const payment of payments) {
+      if (!(await this.checkReceivedPayment(connection, payment))) continue;
+
+      const commitment = commitments.get(payment);
+      if (commitment && !this.matchesCommitment(payment, commitment)) continue;
+      payment.authenticated = commitment !== undefined;
+
+      if (payment.receivedTokens?.length === 0 && payment.amount < (filter.minLamports ?? 0)) continue;
+
+      payment.spent = await this.isStealthAddressSpent(connection, payment.stealthAddress, payment.transactionSignature);
+      received.push(payment);
+    }
+    return received;
   }
 
   /**
@@ -230,6 +534,151 @@ export class StealthAddressManager {
     }
   }
 
+  /**
+   * Compute the view tag of a shared secret
+   * 
+   * One byte of a domain-separated hash of the shared secret, so it reveals
+   * nothing about the stealth address offset `H(shared_secret)`.
+   */
+  computeViewTag(sharedSecret: Uint8Array): number {
+    return sha256(concatBytes(VIEW_TAG_DOMAIN, sharedSecret))[0];
+  }
+
+  /**
+   * Compute the commitment binding an announcement to its transfer
+   * 
+   * `SHA-256(domain || shared_secret || stealth_address || mint || amount)`
+   * truncated to 16 bytes, with the amount as a little-endian u64 and the
+   * default public key as the mint of SOL payments. Only the sender and the
+   * recipient know the shared secret, so nobody else can tie the commitment
+   * to the payment.
+   * 
+   * @param amount - Lamports, or token base units
+   * @param mint - Token mint (omitted for SOL)
+   */
+  computeAnnouncementCommitment(
+    sharedSecret: Uint8Array,
+    stealthAddress: PublicKey,
+    amount: bigint,
+    mint: PublicKey = PublicKey.default
+  ): Uint8Array {
+    const amountBytes = new Uint8Array(8);
+    new DataView(amountBytes.buffer).setBigUint64(0, amount, true);
+    return sha256(
+      concatBytes(COMMITMENT_DOMAIN, sharedSecret, stealthAddress.toBytes(), mint.toBytes(), amountBytes)
+    ).slice(0, ANNOUNCEMENT_COMMITMENT_LENGTH);
+  }
+
+  /**
+   * Memo metadata announcing an ephemeral key (v3 with a commitment, v2 with only a view tag)
+   */
+  private announcementMetadata(ephemeralKey: EphemeralKey): string | undefined {
+    if (ephemeralKey.viewTag === undefined) {
+      return undefined;
+    }
+    return ephemeralKey.commitment
+      ? createAuthenticatedAnnouncementMetadata(ephemeralKey.viewTag, ephemeralKey.commitment)
+      : createViewTagMetadata(ephemeralKey.viewTag);
+  }
+
+  /**
+   * Check a verified payment's received lamports or tokens against its announcement commitment
+   */
+  private matchesCommitment(payment: StealthPayment, commitment: Uint8Array): boolean {
+    const sharedSecret = new Uint8Array(payment.sharedSecret);
+    const transfers: { amount: bigint; mint?: PublicKey }[] = [
+      { amount: BigInt(payment.amount) },
+      ...(payment.receivedTokens ?? []).map(token => ({ amount: token.amount, mint: token.mint }))
+    ];
+
+    return transfers.some(({ amount, mint }) => {
+      const expected = this.computeAnnouncementCommitment(sharedSecret, payment.stealthAddress, amount, mint);
+      return Buffer.from(expected).equals(Buffer.from(commitment));
+    });
+  }
+
+  /**
+   * Fill in what the stealth address received in the payment's transaction
+   * 
+   * @returns False if the transaction is missing, failed or paid nothing to the address
+   */
+  private async checkReceivedPayment(connection: Connection, payment: StealthPayment): Promise<boolean> {
+    if (!payment.transactionSignature) {
+      return false;
+    }
+
+    const transaction = await connection.getParsedTransaction(payment.transactionSignature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0
+    });
+    if (!transaction?.meta || transaction.meta.err) {
+      return false;
+    }
+
+    const { meta } = transaction;
+    const accountKeys = transaction.transaction.message.accountKeys;
+    const index = accountKeys.findIndex(key => key.pubkey.equals(payment.stealthAddress));
+    const lamports = index >= 0 ? meta.postBalances[index] - meta.preBalances[index] : 0;
+
+    const receivedTokens: StealthTokenBalance[] = [];
+    for (const post of meta.postTokenBalances ?? []) {
+      if (post.owner !== payment.stealthAddress.toBase58()) continue;
+
+      const pre = (meta.preTokenBalances ?? []).find(balance => balance.accountIndex === post.accountIndex);
+      const amount = BigInt(post.uiTokenAmount.amount) - BigInt(pre?.uiTokenAmount.amount ?? '0');
+      if (amount > 0n) {
+        receivedTokens.push({
+          mint: new PublicKey(post.mint),
+          tokenAccount: accountKeys[post.accountIndex].pubkey,
+          programId: post.programId ? new PublicKey(post.programId) : TOKEN_PROGRAM_ID,
+          amount,
+          decimals: post.uiTokenAmount.decimals
+        });
+      }
+    }
+
+    if (lamports <= 0 && receivedTokens.length === 0) {
+      return false;
+    }
+
+    payment.amount = Math.max(lamports, 0);
+    payment.receivedTokens = receivedTokens;
+    if (transaction.blockTime) {
+      payment.detectedAt = transaction.blockTime * 1000;
+    }
+    return true;
+  }
+
+  /**
+   * Check whether a stealth address signed any transaction after a payment
+   * 
+   * Only the stealth spending key can move funds out of the address, so a
+   * later transaction it signed means the payment was spent.
+   */
+  private async isStealthAddressSpent(
+    connection: Connection,
+    stealthAddress: PublicKey,
+    paymentSignature: string
+  ): Promise<boolean> {
+    const later = await connection.getSignaturesForAddress(stealthAddress, { until: paymentSignature });
+
+    for (const info of later) {
+      if (info.signature === paymentSignature || info.err) continue;
+
+      const transaction: ParsedTransactionWithMeta | null = await connection.getParsedTransaction(info.signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0
+      });
+      const signedByStealthAddress = transaction?.transaction.message.accountKeys.some(
+        key => key.signer && key.pubkey.equals(stealthAddress)
+      );
+      if (signedByStealthAddress) {
+        return true;
+      }
+    }
+    return false;
+  }
+
   private getScalarFromSeed(seed: Uint8Array): bigint {
     const hash = sha512(seed);
     const s = hash.slice(0, 32);
@@ -0,0 +1,141 @@
+/**
+ * privacy/stealth-signer.ts
+ *
+ * Purpose: Sign as a stealth address from its derived private scalar
+ *
+ * The spending key of a stealth address is `a = spend_scalar + H(shared_secret)`,
+ * a raw Ed25519 scalar rather than a 32-byte seed, so it cannot be turned
+ * into a `Keypair` (a seed is hashed and clamped before use). `StealthSigner`
+ * implements Ed25519 signing directly from the scalar:
+ *
+ * ```
+ * prefix = SHA-512("zera/stealth-signer/nonce/v1" || a)[32..64]
+ * r      = SHA-512(prefix || message) mod L
+ * R      = r * B
+ * k      = SHA-512(R || A || message) mod L
+ * S      = (r + k * a) mod L
+ * ```
+ *
+ * The nonce is derived deterministically from a secret prefix and the message,
+ * as in RFC 8032, so it never repeats across messages and never depends on a
+ * random source. Signatures verify as ordinary Ed25519 signatures for `A = a * B`.
+ */
+
+import { PublicKey, Transaction, VersionedTransaction } from '@solana/web3.js';
+import { ed25519 } from '@noble/curves/ed25519';
+import { sha512 } from '@noble/hashes/sha512';
+import { concatBytes } from '@noble/hashes/utils';
+import { mod, reduceWide, scalarFromBytes, scalarToBytes } from './elgamal';
+import { StealthAddressManager } from './stealth-address';
+import { StealthPayment } from './types';
+import { StealthAddressError } from './errors';
+import { WalletAdapter } from '../core/types';
+
+const NONCE_DOMAIN = new TextEncoder().encode('zera/stealth-signer/nonce/v1');
+
+/**
+ * StealthSigner signs transactions and messages as a stealth address
+ *
+ * It is a `WalletAdapter`, so it can be passed wherever the SDK expects a
+ * wallet that signs (it has no raw `Keypair`).
+ */
+export class StealthSigner implements WalletAdapter {
+  /** Stealth address the signer signs as */
+  readonly publicKey: PublicKey;
+
+  private scalar: bigint;
+  private noncePrefix: Uint8Array;
+
+  /**
+   * @param privateKey - 32-byte little-endian spending scalar, as returned by
+   * `StealthAddressManager.deriveStealthSpendingKeyWithPrivate`
+   */
+  constructor(privateKey: Uint8Array) {
+    let scalar: bigint;
+    try {
+      scalar = scalarFromBytes(privateKey);
+    } catch (error) {
+      throw new StealthAddressError(
+        `Invalid stealth spending key: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+    if (scalar === 0n) {
+      throw new StealthAddressError('Invalid stealth spending key: scalar is zero');
+    }
+
+    this.scalar = scalar;
+    this.noncePrefix = sha512(concatBytes(NONCE_DOMAIN, privateKey)).slice(32);
+    this.publicKey = new PublicKey(ed25519.ExtendedPoint.BASE.multiply(scalar).toRawBytes());
+  }
+
+  /**
+   * Create the signer of a detected stealth payment
+   *
+   * @param payment - Payment found by scanning (must carry its shared secret)
+   * @param spendPrivateKey - Recipient's spend private key
+   * @throws StealthAddressError if the derived key does not control the payment's stealth address
+   */
+  static fromStealthPayment(payment: StealthPayment, spendPrivateKey: Uint8Array): StealthSigner {
+    if (!payment.sharedSecret) {
+      throw new StealthAddressError('Stealth payment has no shared secret');
+    }
+
+    const { privateKey } = new StealthAddressManager().deriveStealthSpendingKeyWithPrivate(
+      payment.sharedSecret,
+      spendPrivateKey
+    );
+    const signer = new StealthSigner(privateKey);
+    if (!signer.publicKey.equals(payment.stealthAddress)) {
+      throw new StealthAddressError(
+        `Spend key does not control stealth address ${payment.stealthAddress.toBase58()}`
+      );
+    }
+    return signer;
+  }
+
+  /**
+   * Produce a 64-byte Ed25519 signature of a message
+   */
+  sign(message: Uint8Array): Uint8Array {
+    const r = reduceWide(sha512(concatBytes(this.noncePrefix, message)));
+    const R = ed25519.ExtendedPoint.BASE.multiply(r).toRawBytes();
+    const k = reduceWide(sha512(concatBytes(R, this.publicKey.toBytes(), message)));
+    const S = mod(r + k * this.scalar);
+    return concatBytes(R, scalarToBytes(S));
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    return this.sign(message);
+  }
+
+  /**
+   * Add the stealth address's signature to a legacy or versioned transaction
+   *
+   * @throws StealthAddressError if the stealth address is not a required signer
+   */
+  async signTransaction<T>(tx: T): Promise<T> {
+    try {
+      if (tx instanceof VersionedTransaction) {
+        tx.addSignature(this.publicKey, this.sign(tx.message.serialize()));
+      } else if (tx instanceof Transaction) {
+        tx.addSignature(this.publicKey, Buffer.from(this.sign(tx.serializeMessage())));
+      } else {
+        throw new Error('Unsupported transaction type');
+      }
+    } catch (error) {
+      throw new StealthAddressError(
+        `Failed to sign as ${this.publicKey.toBase58()}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+    return tx;
+  }
+
+  async signAllTransactions<T>(txs: T[]): Promise<T[]> {
+    for (const tx of txs) {
+      await this.signTransaction(tx);
+    }
+    return txs;
+  }
+}
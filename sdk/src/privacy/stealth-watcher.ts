@@ -0,0 +1,254 @@
+/**
+ * privacy/stealth-watcher.ts
+ *
+ * Purpose: Real-time detection of incoming stealth payments
+ *
+ * `StealthPaymentWatcher` subscribes to the logs of the announcer program
+ * (the Memo program by default) and checks every `STEALTH:` announcement
+ * against the recipient's view key as it arrives, so a wallet can show a
+ * payment within seconds of confirmation.
+ *
+ * Log subscriptions drop whatever is published while the WebSocket is down,
+ * so the watcher also:
+ *
+ * - backfills with the checkpointed `BlockchainScanner` when it starts, so
+ *   payments made while it was not running are reported;
+ * - follows slot notifications as a heartbeat, and when none arrives for
+ *   `staleAfterMs`, re-subscribes and backfills the gap (retried on the next
+ *   slot notification if the RPC is still unreachable).
+ *
+ * Payments are delivered at least once: a payment seen both live and by a
+ * backfill is reported once per watcher, but a restarted watcher may report
+ * payments again from its last saved cursor.
+ */
+
+import { Connection, Context, Logs } from '@solana/web3.js';
+import { BlockchainScanner } from './blockchain-scanner';
+import { StealthAddressManager } from './stealth-address';
+import { EphemeralKey, StealthMetaAddress, StealthPayment, StealthWatchOptions } from './types';
+import { StealthAddressError } from './errors';
+
+const DEFAULT_STALE_AFTER_MS = 30000;
+
+/**
+ * StealthPaymentWatcher reports the payments to a stealth meta-address live
+ */
+export class StealthPaymentWatcher {
+  private connection: Connection;
+  private scanner: BlockchainScanner;
+  private manager: StealthAddressManager;
+  private metaAddress: StealthMetaAddress;
+  private viewPrivateKey: Uint8Array;
+  private onPayment: (payment: StealthPayment) => void | Promise<void>;
+  private options: StealthWatchOptions;
+
+  private logsSubscription: number | null = null;
+  private slotSubscription: number | null = null;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private lastNotificationAt = 0;
+  private lastSlot: number | null = null;
+  private gapStartSlot: number | null = null;
+  private backfilling: Promise<void> | null = null;
+  private delivered: Set<string> = new Set();
+  private running = false;
+
+  /**
+   * @param scanner - Scanner used to backfill; its announcer program is the one subscribed to
+   */
+  constructor(
+    connection: Connection,
+    scanner: BlockchainScanner,
+    manager: StealthAddressManager,
+    metaAddress: StealthMetaAddress,
+    viewPrivateKey: Uint8Array,
+    onPayment: (payment: StealthPayment) => void | Promise<void>,
+    options: StealthWatchOptions = {}
+  ) {
+    this.connection = connection;
+    this.scanner = scanner;
+    this.manager = manager;
+    this.metaAddress = metaAddress;
+    this.viewPrivateKey = viewPrivateKey;
+    this.onPayment = onPayment;
+    this.options = options;
+  }
+
+  /**
+   * Subscribe to announcements and backfill what was published before
+   *
+   * Subscribing first means nothing falls between the backfill and the
+   * live stream; overlapping payments are reported once.
+   *
+   * @throws StealthAddressError if the initial backfill fails (the watcher is stopped)
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    this._subscribe();
+    this.heartbeat = setInterval(() => this._checkHeartbeat(), this.options.staleAfterMs ?? DEFAULT_STALE_AFTER_MS);
+
+    try {
+      await this._backfill(this.options.startSlot);
+    } catch (error) {
+      await this.stop();
+      throw new StealthAddressError(
+        `Failed to backfill stealth payments: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Remove the subscriptions and stop the heartbeat
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    await this._unsubscribe();
+  }
+
+  private _subscribe(): void {
+    this.lastNotificationAt = Date.now();
+    this.logsSubscription = this.connection.onLogs(
+      this.scanner.announcerProgramId,
+      (logs, context) => {
+        this._onLogs(logs, context);
+      },
+      'confirmed'
+    );
+    this.slotSubscription = this.connection.onSlotChange(slotInfo => this._onSlot(slotInfo.slot));
+  }
+
+  private async _unsubscribe(): Promise<void> {
+    const logsSubscription = this.logsSubscription;
+    const slotSubscription = this.slotSubscription;
+    this.logsSubscription = null;
+    this.slotSubscription = null;
+
+    try {
+      if (logsSubscription !== null) {
+        await this.connection.removeOnLogsListener(logsSubscription);
+      }
+      if (slotSubscription !== null) {
+        await this.connection.removeSlotChangeListener(slotSubscription);
+      }
+    } catch (error) {
+      // The socket may already be gone; the subscriptions die with it
+      this._reportError(error);
+    }
+  }
+
+  private _onSlot(slot: number): void {
+    this.lastNotificationAt = Date.now();
+    this.lastSlot = slot;
+    if (this.gapStartSlot !== null) {
+      this._backfillGap();
+    }
+  }
+
+  private async _onLogs(logs: Logs, context: Context): Promise<void> {
+    this.lastNotificationAt = Date.now();
+    const ephemeralKeys = this.scanner.extractEphemeralKeysFromLogs(logs);
+    if (ephemeralKeys.length === 0) return;
+
+    try {
+      await this._check(ephemeralKeys);
+    } catch (error) {
+      // Caught up by the next backfill
+      this._markGap(context.slot);
+      this._reportError(error);
+    }
+  }
+
+  /**
+   * Re-subscribe when the heartbeat has gone quiet, then backfill the gap
+   */
+  private async _checkHeartbeat(): Promise<void> {
+    if (!this.running) return;
+    if (Date.now() - this.lastNotificationAt < (this.options.staleAfterMs ?? DEFAULT_STALE_AFTER_MS)) return;
+
+    this._markGap(this.lastSlot ?? this.options.startSlot ?? 0);
+    await this._unsubscribe();
+    if (!this.running) return;
+
+    try {
+      this._subscribe();
+    } catch (error) {
+      // Retried on the next heartbeat
+      this._reportError(error);
+      return;
+    }
+    this._backfillGap();
+  }
+
+  /**
+   * Remember that announcements from `slot` on may have been missed
+   */
+  private _markGap(slot: number): void {
+    this.gapStartSlot = this.gapStartSlot === null ? slot : Math.min(this.gapStartSlot, slot);
+  }
+
+  private _backfillGap(): void {
+    if (this.backfilling || this.gapStartSlot === null) return;
+    const startSlot = this.gapStartSlot;
+    this.gapStartSlot = null;
+
+    this.backfilling = this._backfill(startSlot)
+      .catch(error => {
+        this._markGap(startSlot);
+        this._reportError(error);
+      })
+      .finally(() => {
+        this.backfilling = null;
+      });
+  }
+
+  /**
+   * Scan announcements since the saved cursor (or `startSlot`) and save the
+   * cursor once the payments were reported
+   */
+  private async _backfill(startSlot?: number): Promise<void> {
+    const scan = await this.scanner.scanForEphemeralKeys(this.connection, undefined, startSlot, undefined, {
+      cursorKey: this.metaAddress.viewPublicKey.toBase58(),
+      saveCursor: false
+    });
+    await this._check(scan.ephemeralKeys);
+    if (scan.cursor && this.running) {
+      await this.scanner.saveCursor(scan.cursor);
+    }
+  }
+
+  private async _check(ephemeralKeys: EphemeralKey[]): Promise<void> {
+    const payments = await this.manager.scanForPayments(
+      this.metaAddress,
+      this.viewPrivateKey,
+      ephemeralKeys,
+      this.connection,
+      this.scanner.spamFilter
+    );
+
+    for (const payment of payments) {
+      const key = payment.stealthAddress.toBase58();
+      if (!this.running || this.delivered.has(key)) continue;
+      this.delivered.add(key);
+
+      try {
+        await this.onPayment(payment);
+      } catch (error) {
+        this._reportError(error);
+      }
+    }
+  }
+
+  private _reportError(error: unknown): void {
+    if (this.options.onError) {
+      this.options.onError(error instanceof Error ? error : new Error(String(error)));
+    } else {
+      console.warn('Stealth payment watcher error:', error);
+    }
+  }
+}
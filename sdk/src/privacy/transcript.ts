@@ -0,0 +1,205 @@
+/**
+ * privacy/transcript.ts
+ *
+ * Purpose: Merlin transcripts for the ZK ElGamal Proof program's proofs
+ *
+ * Every proof the ZK ElGamal Proof program verifies is made non-interactive
+ * with a Merlin transcript (STROBE-128 over Keccak-f[1600]). Challenges are
+ * only accepted on-chain if the prover fed the transcript exactly the same
+ * bytes, in the same order, as `solana-zk-sdk` does, so this is a direct port
+ * of `merlin::Transcript` and of the zk-sdk transcript helpers.
+ */
+
+import { keccakP } from '@noble/hashes/sha3';
+import { ristretto255 } from '@noble/curves/ed25519';
+import { ProofGenerationError } from './errors';
+import { reduceWide, scalarToBytes } from './elgamal';
+
+type RistrettoPoint = InstanceType<typeof ristretto255.Point>;
+
+const STROBE_R = 166;
+
+const FLAG_I = 1;
+const FLAG_A = 1 << 1;
+const FLAG_C = 1 << 2;
+const FLAG_T = 1 << 3;
+const FLAG_M = 1 << 4;
+const FLAG_K = 1 << 5;
+
+const MERLIN_PROTOCOL_LABEL = new TextEncoder().encode('Merlin v1.0');
+
+/**
+ * Minimal STROBE-128 (only the operations Merlin uses)
+ */
+class Strobe128 {
+  private state = new Uint8Array(200);
+  private words = new Uint32Array(this.state.buffer);
+  private pos = 0;
+  private posBegin = 0;
+  private curFlags = 0;
+
+  constructor(protocolLabel: Uint8Array) {
+    this.state.set([1, STROBE_R + 2, 1, 0, 1, 96], 0);
+    this.state.set(new TextEncoder().encode('STROBEv1.0.2'), 6);
+    this.permute();
+    this.metaAd(protocolLabel, false);
+  }
+
+  metaAd(data: Uint8Array, more: boolean): void {
+    this.beginOp(FLAG_M | FLAG_A, more);
+    this.absorb(data);
+  }
+
+  ad(data: Uint8Array, more: boolean): void {
+    this.beginOp(FLAG_A, more);
+    this.absorb(data);
+  }
+
+  prf(length: number, more: boolean): Uint8Array {
+    this.beginOp(FLAG_I | FLAG_A | FLAG_C, more);
+    return this.squeeze(length);
+  }
+
+  private permute(): void {
+    // Keccak lanes are little-endian 64-bit words
+    keccakP(this.words);
+  }
+
+  private runF(): void {
+    this.state[this.pos] ^= this.posBegin;
+    this.state[this.pos + 1] ^= 0x04;
+    this.state[STROBE_R + 1] ^= 0x80;
+    this.permute();
+    this.pos = 0;
+    this.posBegin = 0;
+  }
+
+  private absorb(data: Uint8Array): void {
+    for (const byte of data) {
+      this.state[this.pos] ^= byte;
+      this.pos++;
+      if (this.pos === STROBE_R) {
+        this.runF();
+      }
+    }
+  }
+
+  private squeeze(length: number): Uint8Array {
+    const out = new Uint8Array(length);
+    for (let i = 0; i < length; i++) {
+      out[i] = this.state[this.pos];
+      this.state[this.pos] = 0;
+      this.pos++;
+      if (this.pos === STROBE_R) {
+        this.runF();
+      }
+    }
+    return out;
+  }
+
+  private beginOp(flags: number, more: boolean): void {
+    if (more) {
+      if (flags !== this.curFlags) {
+        throw new ProofGenerationError('STROBE operation continued with different flags');
+      }
+      return;
+    }
+    if (flags & FLAG_T) {
+      throw new ProofGenerationError('STROBE transport operations are not supported');
+    }
+
+    const oldBegin = this.posBegin;
+    this.posBegin = this.pos + 1;
+    this.curFlags = flags;
+    this.absorb(Uint8Array.of(oldBegin, flags));
+
+    const forceF = (flags & (FLAG_C | FLAG_K)) !== 0;
+    if (forceF && this.pos !== 0) {
+      this.runF();
+    }
+  }
+}
+
+/**
+ * Merlin transcript with the helpers used by `solana-zk-sdk` proofs
+ */
+export class ProofTranscript {
+  private strobe: Strobe128;
+
+  /**
+   * @param label - Application domain separator, e.g. `"zero-ciphertext-instruction"`
+   */
+  constructor(label: string | Uint8Array) {
+    this.strobe = new Strobe128(MERLIN_PROTOCOL_LABEL);
+    this.appendMessage('dom-sep', label);
+  }
+
+  /**
+   * Append a labeled message
+   */
+  appendMessage(label: string, message: string | Uint8Array): void {
+    const data = toBytes(message);
+    this.strobe.metaAd(toBytes(label), false);
+    this.strobe.metaAd(u32LE(data.length), true);
+    this.strobe.ad(data, false);
+  }
+
+  /**
+   * Append a u64 as 8 little-endian bytes
+   */
+  appendU64(label: string, value: bigint | number): void {
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setBigUint64(0, BigInt(value), true);
+    this.appendMessage(label, bytes);
+  }
+
+  /**
+   * Append a compressed ristretto point
+   */
+  appendPoint(label: string, point: RistrettoPoint | Uint8Array): void {
+    this.appendMessage(label, point instanceof Uint8Array ? point : point.toRawBytes());
+  }
+
+  /**
+   * Append a point, rejecting the identity as the zk-sdk verifiers do
+   */
+  validateAndAppendPoint(label: string, point: Uint8Array): void {
+    if (point.every(byte => byte === 0)) {
+      throw new ProofGenerationError(`Proof point ${label} is the identity`);
+    }
+    this.appendMessage(label, point);
+  }
+
+  /**
+   * Append a scalar as 32 little-endian bytes
+   */
+  appendScalar(label: string, scalar: bigint): void {
+    this.appendMessage(label, scalarToBytes(scalar));
+  }
+
+  /**
+   * Squeeze challenge bytes
+   */
+  challengeBytes(label: string, length: number): Uint8Array {
+    this.strobe.metaAd(toBytes(label), false);
+    this.strobe.metaAd(u32LE(length), true);
+    return this.strobe.prf(length, false);
+  }
+
+  /**
+   * Squeeze a uniformly distributed challenge scalar
+   */
+  challengeScalar(label: string): bigint {
+    return reduceWide(this.challengeBytes(label, 64));
+  }
+}
+
+function toBytes(value: string | Uint8Array): Uint8Array {
+  return typeof value === 'string' ? new TextEncoder().encode(value) : value;
+}
+
+function u32LE(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, true);
+  return bytes;
+}
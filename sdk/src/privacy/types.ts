@@ -8,6 +8,10 @@
  */
 
 import { PublicKey } from '@solana/web3.js';
+import type { SponsoringRelayer } from '../core/relayer';
+import type { RemoteSigner } from '../core/remote-signer';
+import type { WalletAdapter } from '../core/types';
+import type { ScannerConfig } from './blockchain-scanner';
 
 /**
  * Privacy configuration options
@@ -21,6 +25,85 @@ export interface PrivacyConfig {
   auditMode?: boolean;
   /** Custom ZK circuit parameters */
   circuitParams?: ZKCircuitParams;
+  /**
+   * What to do when a confidential operation cannot be performed (default: 'warn')
+   *
+   * Falling back performs the equivalent public operation (mint, ATA, MintTo,
+   * transferChecked, burnChecked), which reveals amounts on-chain.
+   */
+  fallbackPolicy?: FallbackPolicy;
+  /**
+   * Apply the pending balance before a transfer or withdraw when the available
+   * balance alone cannot cover it (default: false)
+   */
+  autoApplyPendingBalance?: boolean;
+  /** Blockchain scanner used to find stealth announcements, including the source it reads them from */
+  scanner?: ScannerConfig;
+  /**
+   * Pays the fees of the transactions the wallet sends (default: the wallet)
+   *
+   * Rent of new accounts is still paid by the wallet.
+   */
+  feePayer?: WalletAdapter | RemoteSigner;
+  /**
+   * Mint and confidential transfer authority of new confidential mints, which
+   * also signs mint updates and public-fallback mints (default: the wallet)
+   */
+  mintAuthority?: WalletAdapter | RemoteSigner;
+}
+
+/**
+ * Public fallback policy for confidential operations
+ *
+ * - `never`: refuse to fall back and throw a ConfidentialTransferError
+ * - `warn`: fall back and log a warning
+ * - `allow`: fall back silently
+ */
+export type FallbackPolicy = 'never' | 'warn' | 'allow';
+
+/**
+ * Execution path actually taken by a confidential operation
+ */
+export type ConfidentialExecutionPath = 'confidential' | 'public-fallback';
+
+/**
+ * Result of a confidential token operation
+ */
+export interface ConfidentialOperationResult {
+  /** Transaction signature */
+  signature: string;
+  /** Whether the operation ran confidentially or fell back to a public one */
+  path: ConfidentialExecutionPath;
+  /** Why the confidential path failed (only set for public fallbacks) */
+  fallbackReason?: string;
+}
+
+/**
+ * Result of creating a confidential token account
+ */
+export interface ConfidentialAccountResult {
+  /** The token account */
+  account: PublicKey;
+  /** Transaction signature (unset when the fallback found the account already created) */
+  signature?: string;
+  /** Whether the account was configured for confidential transfers or created as a plain account */
+  path: ConfidentialExecutionPath;
+  /** Why the confidential path failed (only set for public fallbacks) */
+  fallbackReason?: string;
+}
+
+/**
+ * Result of applying a pending balance
+ */
+export interface ApplyPendingBalanceResult {
+  /** Transaction signature */
+  signature: string;
+  /** Amount moved from the pending to the available balance (base units) */
+  appliedAmount: bigint;
+  /** Available balance after the pending balance is applied (base units) */
+  availableBalance: bigint;
+  /** Pending credit counter the new available balance accounts for */
+  expectedPendingBalanceCreditCounter: bigint;
 }
 
 /**
@@ -44,6 +127,23 @@ export interface EncryptedBalance {
   exists: boolean;
 }
 
+/**
+ * Decrypted balance of a confidential token account
+ *
+ * Extends the on-chain encrypted available balance with the amounts the owner
+ * can decrypt. All amounts are in base units.
+ */
+export interface ConfidentialBalance extends EncryptedBalance {
+  /** Confidential balance that can be spent (transferred or withdrawn) */
+  available: bigint;
+  /** Confidential credits waiting for ApplyPendingBalance */
+  pending: bigint;
+  /** Non-confidential token balance of the account */
+  public: bigint;
+  /** Decimals of the mint */
+  decimals: number;
+}
+
 /**
  * Encrypted amount for private transfers
  */
@@ -88,8 +188,30 @@ export interface ViewingKeyPermissions {
   allowedAccounts?: PublicKey[];
 }
 
+/**
+ * Confidential transfer decrypted with an auditor key
+ */
+export interface AuditedTransfer {
+  /** Transaction signature */
+  signature: string;
+  /** Decrypted transfer amount in base units */
+  amount: bigint;
+  /** Source token account */
+  source: PublicKey;
+  /** Destination token account */
+  destination: PublicKey;
+  /** Mint of both token accounts */
+  mint: PublicKey;
+  /** Slot the transaction landed in */
+  slot: number;
+}
+
 /**
  * Zero-knowledge proof structure
+ *
+ * Proofs for the ZK ElGamal Proof program use the `sigma` or `bulletproofs`
+ * proof systems. Their public inputs are the fields of the proof context, in
+ * program order, and `circuitHash` holds the proof type.
  */
 export interface ZKProof {
   /** Proof data */
@@ -97,11 +219,24 @@ export interface ZKProof {
   /** Public inputs to the circuit */
   publicInputs: Uint8Array[];
   /** Proof system identifier */
-  proofSystem: 'groth16' | 'plonk' | 'stark';
+  proofSystem: 'groth16' | 'plonk' | 'stark' | 'sigma' | 'bulletproofs';
   /** Circuit identifier/hash */
   circuitHash: string;
 }
 
+/**
+ * Proof types verified by the ZK ElGamal Proof program that the SDK can generate
+ */
+export type ZkElGamalProofType =
+  | 'ZeroCiphertext'
+  | 'CiphertextCommitmentEquality'
+  | 'PubkeyValidity'
+  | 'BatchedRangeProofU64'
+  | 'BatchedRangeProofU128'
+  | 'BatchedRangeProofU256'
+  | 'GroupedCiphertext3HandlesValidity'
+  | 'BatchedGroupedCiphertext3HandlesValidity';
+
 /**
  * ZK circuit parameters
  */
@@ -115,21 +250,46 @@ export interface ZKCircuitParams {
 }
 
 /**
- * Confidential mint account
+ * Confidential mint account, as read back from the chain
  */
 export interface ConfidentialMint {
   /** Mint public key */
   address: PublicKey;
-  /** Mint authority */
-  authority: PublicKey;
-  /** Whether confidential transfers are enabled */
+  /** Mint authority (null if the supply is fixed) */
+  authority: PublicKey | null;
+  /** Decimals of the mint */
+  decimals: number;
+  /** Current supply (base units) */
+  supply: bigint;
+  /** Whether the mint has the ConfidentialTransferMint extension */
   confidentialTransferEnabled: boolean;
-  /** Auditor authority for viewing keys */
-  auditorAuthority?: PublicKey;
-  /** Maximum supply (if limited) */
-  maxSupply?: bigint;
+  /** Authority allowed to update the confidential transfer configuration (null if none) */
+  confidentialTransferAuthority: PublicKey | null;
+  /** Whether new accounts can transfer confidentially without approval */
+  autoApproveNewAccounts: boolean;
+  /** Auditor ElGamal public key every transfer amount is also encrypted to (null if none) */
+  auditorElGamalPubkey: Uint8Array | null;
+}
+
+/**
+ * Confidential transfer configuration of a new mint
+ */
+export interface ConfidentialMintPolicy {
+  /** Confidential transfer authority (default: the mint authority; null for none) */
+  confidentialTransferAuthority?: PublicKey | null;
+  /** Whether new accounts can transfer confidentially without approval (default: true) */
+  autoApproveNewAccounts?: boolean;
+  /** Auditor ElGamal public key, 32 bytes (default: no auditor) */
+  auditorElGamalPubkey?: Uint8Array | null;
 }
 
+/**
+ * Changes to the confidential transfer configuration of an existing mint
+ *
+ * Omitted fields keep their current on-chain value.
+ */
+export type ConfidentialMintUpdate = Omit<ConfidentialMintPolicy, 'confidentialTransferAuthority'>;
+
 /**
  * Confidential token account
  */
@@ -197,6 +357,22 @@ export interface StealthMetaAddress {
   createdAt: number;
 }
 
+/**
+ * Stealth payment request carried by a `zera:` URI
+ */
+export interface StealthPaymentRequest {
+  /** Recipient's stealth meta-address */
+  metaAddress: StealthMetaAddress;
+  /** Requested amount as a decimal in SOL, or in token units with `splToken` */
+  amount?: string;
+  /** Mint of the requested token (SOL when absent) */
+  splToken?: PublicKey;
+  /** Name of the recipient, for display */
+  label?: string;
+  /** Purpose of the payment, for display */
+  message?: string;
+}
+
 /**
  * Stealth address for a specific payment
  * 
@@ -231,6 +407,10 @@ export interface EphemeralKey {
   transactionSignature: string;
   /** Creation timestamp */
   createdAt: number;
+  /** View tag published with the key (v2 and v3 announcements; absent for v1) */
+  viewTag?: number;
+  /** Commitment to the stealth address, mint and amount (v3 announcements) */
+  commitment?: Uint8Array;
 }
 
 /**
@@ -248,12 +428,150 @@ export interface StealthPayment {
   sharedSecret: Buffer;
   /** Transaction signature */
   transactionSignature: string;
-  /** Payment amount (in lamports) */
+  /** Lamports received in the payment transaction (0 until checked on-chain) */
   amount: number;
-  /** When the payment was detected */
+  /** Tokens received in the payment transaction (when checked on-chain) */
+  receivedTokens?: StealthTokenBalance[];
+  /** When the payment was detected (block time when checked on-chain) */
   detectedAt: number;
-  /** Whether the payment has been spent */
+  /** Whether the stealth address has signed a transaction since the payment */
   spent: boolean;
+  /**
+   * Whether the announcement's commitment matched the transfer (when checked
+   * on-chain; false for v1 and v2 announcements, which carry none)
+   */
+  authenticated?: boolean;
+  /** Token balances held by the stealth address (when requested while scanning) */
+  tokenBalances?: StealthTokenBalance[];
+}
+
+/**
+ * Token balance held by a stealth address
+ */
+export interface StealthTokenBalance {
+  /** Token mint */
+  mint: PublicKey;
+  /** Token account holding the balance */
+  tokenAccount: PublicKey;
+  /** Token program owning the account (SPL Token or Token 2022) */
+  programId: PublicKey;
+  /** Balance in base units */
+  amount: bigint;
+  /** Decimals of the mint */
+  decimals: number;
+}
+
+/**
+ * Options for scanning stealth payments
+ */
+export interface StealthScanOptions {
+  /** Fetch the token balances of every discovered stealth address (default: false) */
+  includeTokenBalances?: boolean;
+}
+
+/**
+ * Options for scanning the blockchain for stealth payments
+ */
+export interface BlockchainScanOptions extends StealthScanOptions {
+  /** First slot to scan (default: the scanner's `maxScanDepth` slots before `endSlot`) */
+  startSlot?: number;
+  /** Last slot to scan (default: the current slot) */
+  endSlot?: number;
+}
+
+/**
+ * Receipt of a sent stealth payment
+ * 
+ * Kept by the sender as proof of payment; the recipient finds the payment
+ * by scanning for the published ephemeral key.
+ */
+export interface StealthPaymentReceipt {
+  /** Transaction signature */
+  signature: string;
+  /** Payment amount (in lamports) */
+  amount: number;
+  /** Stealth address the payment was sent to */
+  stealthAddress: StealthAddress;
+  /** Ephemeral key published in the transaction memo */
+  ephemeralKey: EphemeralKey;
+  /** Memo published with the payment */
+  memo: string;
+  /** When the payment was sent */
+  sentAt: number;
+}
+
+/**
+ * Result of sweeping a stealth address
+ */
+export interface StealthSweepResult {
+  /** Transaction signature */
+  signature: string;
+  /** Stealth address that was swept */
+  stealthAddress: PublicKey;
+  /** Wallet that received the funds */
+  destination: PublicKey;
+  /** SOL moved to the destination (in lamports), excluding closed token account rent */
+  lamports: number;
+  /** Token balances moved to the destination's associated token accounts */
+  tokens: StealthTokenBalance[];
+  /** Paid by the stealth address (in lamports): the network fee, or the relayer reimbursement when sponsored */
+  fee: number;
+  /** Relayer that paid the network fee, for sponsored sweeps */
+  relayer?: PublicKey;
+}
+
+/**
+ * Options for watching a stealth meta-address for payments
+ */
+export interface StealthWatchOptions {
+  /** First slot to backfill when no scan cursor is saved (default: the scanner's `maxScanDepth` window) */
+  startSlot?: number;
+  /** Re-subscribe and backfill when no slot notification arrives for this long (default: 30000 ms) */
+  staleAfterMs?: number;
+  /** Receives errors of live checks, backfills and `onPayment`; the watcher keeps running */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Live payment watch started by `watch`
+ */
+export interface StealthWatchSubscription {
+  /** Remove the WebSocket subscriptions and stop backfilling */
+  unsubscribe(): Promise<void>;
+}
+
+/**
+ * Options for sweeping a stealth address
+ */
+export interface StealthSweepOptions {
+  /** Relayer paying the network fee, reimbursed out of the swept SOL (default: the stealth address pays) */
+  relayer?: SponsoringRelayer;
+}
+
+/**
+ * Receipt of a sent stealth token payment
+ */
+export interface StealthTokenPaymentReceipt {
+  /** Transaction signature */
+  signature: string;
+  /** Token mint */
+  mint: PublicKey;
+  /** Token program of the mint (SPL Token or Token 2022) */
+  programId: PublicKey;
+  /** Associated token account of the stealth address */
+  tokenAccount: PublicKey;
+  /** Payment amount (in base units) */
+  amount: bigint;
+  /** Decimals of the mint */
+  decimals: number;
+  /** Stealth address owning the token account */
+  stealthAddress: StealthAddress;
+  /** Ephemeral key published in the transaction memo */
+  ephemeralKey: EphemeralKey;
+  /** Memo published with the payment */
+  memo: string;
+  /** When the payment was sent */
+  sentAt: number;
 }
 
 /**
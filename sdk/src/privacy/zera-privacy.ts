@@ -11,23 +11,55 @@ import {
   PublicKey,
   Keypair,
   Transaction,
-  sendAndConfirmTransaction,
   SystemProgram,
   LAMPORTS_PER_SOL
 } from '@solana/web3.js';
+import {
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  ExtensionType,
+  getAccountLen,
+  getAccountTypeOfMintType,
+  getAssociatedTokenAddressSync,
+  getExtensionTypes,
+  unpackMint
+} from '@solana/spl-token';
 import {
   PrivacyConfig,
+  ApplyPendingBalanceResult,
+  BlockchainScanOptions,
+  ConfidentialBalance,
+  ConfidentialMint,
+  ConfidentialMintPolicy,
+  ConfidentialMintUpdate,
+  ConfidentialAccountResult,
+  ConfidentialOperationResult,
   StealthMetaAddress,
   StealthAddress,
   EphemeralKey,
-  StealthPayment
+  StealthPayment,
+  StealthPaymentReceipt,
+  StealthScanOptions,
+  StealthSweepOptions,
+  StealthSweepResult,
+  StealthTokenBalance,
+  StealthTokenPaymentReceipt,
+  StealthWatchOptions,
+  StealthWatchSubscription
 } from './types';
 import {
-  PrivacyError
+  PrivacyError,
+  StealthAddressError
 } from './errors';
 import { StealthAddressManager } from './stealth-address';
+import { BlockchainScanner, ScanResult } from './blockchain-scanner';
+import { StealthSigner } from './stealth-signer';
+import { StealthPaymentWatcher } from './stealth-watcher';
 import { ConfidentialTransferManager } from './confidential-transfer';
-import { ExtendedWalletAdapter } from '../core/types';
+import { PrivacyKeys, derivePrivacyKeys } from './key-derivation';
+import { ExtendedWalletAdapter, WalletAdapter } from '../core/types';
+import { RemoteSigner, toWalletAdapter } from '../core/remote-signer';
+import { SponsoringRelayer } from '../core/relayer';
 
 /**
  * Main privacy class for Zera SDK
@@ -36,27 +68,43 @@ export class ZeraPrivacy {
   private connection!: Connection;
   private wallet!: ExtendedWalletAdapter;
   private config!: PrivacyConfig;
+  private feePayer?: WalletAdapter;
+  private mintAuthority?: WalletAdapter;
 
   private stealthAddressManager!: StealthAddressManager;
+  private blockchainScanner!: BlockchainScanner;
   private confidentialManager!: ConfidentialTransferManager;
+  private privacyKeys: Promise<PrivacyKeys> | null = null;
 
   private initialized = false;
 
   /**
    * Initialize the privacy SDK
+   *
+   * @param wallet - Wallet adapter, or a RemoteSigner for keys held in a KMS or HSM
    */
   async init(
     connection: Connection,
-    wallet: ExtendedWalletAdapter,
+    wallet: ExtendedWalletAdapter | RemoteSigner,
     config: PrivacyConfig
   ): Promise<void> {
     try {
       this.connection = connection;
-      this.wallet = wallet;
+      this.wallet = toWalletAdapter(wallet);
       this.config = config;
+      this.privacyKeys = null;
+      this.feePayer = config.feePayer && toWalletAdapter(config.feePayer, 'feePayer');
+      this.mintAuthority = config.mintAuthority && toWalletAdapter(config.mintAuthority, 'mintAuthority');
 
       this.stealthAddressManager = new StealthAddressManager();
-      this.confidentialManager = new ConfidentialTransferManager(connection, wallet);
+      this.blockchainScanner = new BlockchainScanner(config.scanner);
+      this.confidentialManager = new ConfidentialTransferManager(
+        connection,
+        this.wallet,
+        config.fallbackPolicy ?? 'warn',
+        config.autoApplyPendingBalance ?? false,
+        { feePayer: this.feePayer, mintAuthority: this.mintAuthority }
+      );
 
       this.initialized = true;
 
@@ -70,8 +118,11 @@ export class ZeraPrivacy {
 
   /**
    * Create a new confidential mint
+   *
+   * @param decimals - Decimals of the mint
+   * @param policy - Confidential transfer authority, auto-approval and auditor of the mint
    */
-  async createConfidentialMint(decimals: number = 9): Promise<PublicKey> {
+  async createConfidentialMint(decimals: number = 9, policy: ConfidentialMintPolicy = {}): Promise<PublicKey> {
     this._assertInitialized();
 
     const mintKeypair = Keypair.generate();
@@ -79,16 +130,33 @@ export class ZeraPrivacy {
     await this.confidentialManager.createConfidentialMint(
       mintKeypair,
       decimals,
-      this.wallet.publicKey
+      (this.mintAuthority ?? this.wallet).publicKey,
+      policy
     );
 
     return mintKeypair.publicKey;
   }
 
+  /**
+   * Update the auto-approval flag or rotate the auditor of a confidential mint
+   */
+  async updateConfidentialMint(mint: PublicKey, update: ConfidentialMintUpdate): Promise<string> {
+    this._assertInitialized();
+    return await this.confidentialManager.updateConfidentialMint(mint, update);
+  }
+
+  /**
+   * Read a mint and its confidential transfer configuration
+   */
+  async getConfidentialMint(mint: PublicKey): Promise<ConfidentialMint> {
+    this._assertInitialized();
+    return await this.confidentialManager.getConfidentialMint(mint);
+  }
+
   /**
    * Create a confidential token account
    */
-  async createConfidentialAccount(mint: PublicKey, owner?: PublicKey): Promise<PublicKey> {
+  async createConfidentialAccount(mint: PublicKey, owner?: PublicKey): Promise<ConfidentialAccountResult> {
     this._assertInitialized();
     return await this.confidentialManager.createConfidentialAccount(
       mint,
@@ -103,7 +171,7 @@ export class ZeraPrivacy {
     account: PublicKey,
     mint: PublicKey,
     amount: number
-  ): Promise<string> {
+  ): Promise<ConfidentialOperationResult> {
     this._assertInitialized();
     return await this.confidentialManager.deposit(account, mint, amount);
   }
@@ -116,7 +184,7 @@ export class ZeraPrivacy {
     mint: PublicKey,
     destinationAccount: PublicKey,
     amount: number
-  ): Promise<string> {
+  ): Promise<ConfidentialOperationResult> {
     this._assertInitialized();
     return await this.confidentialManager.transfer(sourceAccount, mint, destinationAccount, amount);
   }
@@ -128,18 +196,56 @@ export class ZeraPrivacy {
     account: PublicKey,
     mint: PublicKey,
     amount: number
-  ): Promise<string> {
+  ): Promise<ConfidentialOperationResult> {
     this._assertInitialized();
     return await this.confidentialManager.withdraw(account, mint, amount);
   }
 
   /**
-   * Get balance
+   * Move received confidential funds from the pending to the available balance
+   */
+  async applyPendingBalance(account: PublicKey, mint: PublicKey): Promise<ApplyPendingBalanceResult> {
+    this._assertInitialized();
+    return await this.confidentialManager.applyPendingBalance(account, mint);
+  }
+
+  /**
+   * Get the decrypted balances of a confidential token account owned by the wallet
    */
-  async getBalance(account: PublicKey): Promise<string> {
+  async getBalance(account: PublicKey): Promise<ConfidentialBalance> {
     this._assertInitialized();
-    // TODO: Implement getAccount info parsing for confidential balance
-    return "Encrypted Balance (Hidden)";
+    return await this.confidentialManager.getBalance(account);
+  }
+
+  /**
+   * Derive the wallet's stealth and ElGamal keys from its signature over a fixed message
+   *
+   * Works with wallets that only offer `signMessage`, and the same wallet
+   * gets the same keys on any device. The wallet is asked to sign once per
+   * initialization; later calls return the same keys.
+   *
+   * @returns View and spend keypairs, their meta-address and the wallet's ElGamal keypair
+   */
+  async derivePrivacyKeys(): Promise<PrivacyKeys> {
+    this._assertInitialized();
+
+    if (!this.privacyKeys) {
+      const derivation = derivePrivacyKeys(this.wallet);
+      this.privacyKeys = derivation;
+      // Let a rejected prompt be retried
+      derivation.catch(() => {
+        if (this.privacyKeys === derivation) this.privacyKeys = null;
+      });
+    }
+
+    try {
+      return await this.privacyKeys;
+    } catch (error) {
+      throw new PrivacyError(
+        `Failed to derive privacy keys: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
   }
 
   // Stealth Address Proxy Methods (Unchanged)
@@ -157,13 +263,441 @@ export class ZeraPrivacy {
     return this.stealthAddressManager.generateStealthAddress(recipientMetaAddress, ephemeralKeypair);
   }
 
+  /**
+   * Send lamports to a fresh stealth address of a recipient
+   *
+   * The transfer and a `STEALTH:` memo publishing the ephemeral key are sent
+   * in one transaction, so the recipient can find the payment by scanning.
+   *
+   * @param recipientMetaAddress - Recipient's stealth meta-address
+   * @param amount - Amount in lamports (at least the rent-exempt minimum)
+   * @returns Receipt of the payment
+   */
+  async sendStealthPayment(
+    recipientMetaAddress: StealthMetaAddress,
+    amount: number
+  ): Promise<StealthPaymentReceipt> {
+    this._assertInitialized();
+
+    if (!Number.isSafeInteger(amount) || amount <= 0) {
+      throw new StealthAddressError(`Invalid stealth payment amount: ${amount}`);
+    }
+
+    try {
+      // A stealth address starts out empty, so the payment must create a rent-exempt account
+      const minimum = await this.connection.getMinimumBalanceForRentExemption(0);
+      if (amount < minimum) {
+        throw new StealthAddressError(
+          `Stealth payment of ${amount} lamports is below the rent-exempt minimum of ${minimum} lamports`
+        );
+      }
+
+      const { transaction, stealthAddress, ephemeralKey, memo } =
+        this.stealthAddressManager.buildStealthPaymentTransaction(this.wallet.publicKey, recipientMetaAddress, amount);
+
+      const signature = await this._sendTransaction(transaction);
+      ephemeralKey.transactionSignature = signature;
+
+      return {
+        signature,
+        amount,
+        stealthAddress,
+        ephemeralKey,
+        memo,
+        sentAt: Date.now()
+      };
+    } catch (error) {
+      if (error instanceof StealthAddressError) {
+        throw error;
+      }
+      throw new StealthAddressError(
+        `Failed to send stealth payment: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Send SPL Token or Token 2022 tokens to a fresh stealth address of a recipient
+   *
+   * The stealth address's associated token account is created in the same
+   * transaction as the transfer and the `STEALTH:` memo. The token program is
+   * taken from the mint's owner.
+   *
+   * @param recipientMetaAddress - Recipient's stealth meta-address
+   * @param mint - Token mint
+   * @param amount - Amount in base units
+   * @returns Receipt of the payment
+   */
+  async sendStealthTokenPayment(
+    recipientMetaAddress: StealthMetaAddress,
+    mint: PublicKey,
+    amount: bigint | number
+  ): Promise<StealthTokenPaymentReceipt> {
+    this._assertInitialized();
+
+    if (typeof amount === 'number' && !Number.isSafeInteger(amount)) {
+      throw new StealthAddressError(`Invalid stealth payment amount: ${amount}`);
+    }
+    const baseUnits = BigInt(amount);
+    if (baseUnits <= 0n || baseUnits > 0xffffffffffffffffn) {
+      throw new StealthAddressError(`Invalid stealth payment amount: ${amount}`);
+    }
+
+    try {
+      const mintInfo = await this.connection.getAccountInfo(mint);
+      if (!mintInfo) {
+        throw new StealthAddressError(`Mint ${mint.toBase58()} not found`);
+      }
+      const programId = mintInfo.owner;
+      if (!programId.equals(TOKEN_PROGRAM_ID) && !programId.equals(TOKEN_2022_PROGRAM_ID)) {
+        throw new StealthAddressError(`Account ${mint.toBase58()} is not an SPL Token or Token 2022 mint`);
+      }
+      const { decimals } = unpackMint(mint, mintInfo, programId);
+
+      const { transaction, stealthAddress, ephemeralKey, tokenAccount, memo } =
+        this.stealthAddressManager.buildStealthTokenPaymentTransaction(
+          this.wallet.publicKey,
+          recipientMetaAddress,
+          mint,
+          baseUnits,
+          decimals,
+          programId
+        );
+
+      const signature = await this._sendTransaction(transaction);
+      ephemeralKey.transactionSignature = signature;
+
+      return {
+        signature,
+        mint,
+        programId,
+        tokenAccount,
+        amount: baseUnits,
+        decimals,
+        stealthAddress,
+        ephemeralKey,
+        memo,
+        sentAt: Date.now()
+      };
+    } catch (error) {
+      if (error instanceof StealthAddressError) {
+        throw error;
+      }
+      throw new StealthAddressError(
+        `Failed to send stealth token payment: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Scan ephemeral keys for payments to a stealth meta-address
+   *
+   * Each key's announcing transaction is checked on-chain: keys whose derived
+   * stealth address received nothing, or not what their v3 commitment
+   * states, are dropped, as are those rejected by `scanner.spamFilter`; the
+   * received lamports and tokens and the spent status are filled in. With
+   * `includeTokenBalances`, the current token balances of every discovered
+   * stealth address are fetched and reported per mint.
+   */
   async scanForPayments(
     metaAddress: StealthMetaAddress,
     viewPrivateKey: Uint8Array,
-    ephemeralKeys: EphemeralKey[]
+    ephemeralKeys: EphemeralKey[],
+    options: StealthScanOptions = {}
+  ): Promise<StealthPayment[]> {
+    this._assertInitialized();
+    let payments: StealthPayment[];
+    try {
+      payments = await this.stealthAddressManager.scanForPayments(
+        metaAddress,
+        viewPrivateKey,
+        ephemeralKeys,
+        this.connection,
+        this.blockchainScanner.spamFilter
+      );
+    } catch (error) {
+      throw new StealthAddressError(
+        `Failed to scan for payments: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    if (options.includeTokenBalances) {
+      for (const payment of payments) {
+        payment.tokenBalances = await this.getStealthTokenBalances(payment.stealthAddress);
+      }
+    }
+
+    return payments;
+  }
+
+  /**
+   * Fetch the stealth announcements published in a slot range
+   *
+   * Pages through the transactions of the announcer program (the Memo
+   * program unless `scanner.announcerProgramId` is configured), read from
+   * `scanner.announcementSource` (the RPC connection by default), and returns
+   * the ephemeral key of every announcement, whoever it was sent to. With a
+   * `scanner.cursorStore`, only announcements made since the previous fetch
+   * with the same cursor key are returned.
+   *
+   * @param startSlot - First slot to scan (default: `maxScanDepth` slots before `endSlot`)
+   * @param endSlot - Last slot to scan (default: the current slot)
+   * @param cursorKey - Qualifies the scan cursor, so independent scans keep separate positions
+   */
+  async fetchEphemeralKeysFromBlockchain(
+    startSlot?: number,
+    endSlot?: number,
+    cursorKey?: string
+  ): Promise<EphemeralKey[]> {
+    this._assertInitialized();
+    try {
+      return await this.blockchainScanner.fetchEphemeralKeys(this.connection, undefined, startSlot, endSlot, {
+        cursorKey
+      });
+    } catch (error) {
+      throw new StealthAddressError(
+        `Failed to fetch ephemeral keys: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Find the payments to a stealth meta-address announced in a slot range
+   *
+   * Fetches every announcement in the range (`fetchEphemeralKeysFromBlockchain`)
+   * and scans them with the view key (`scanForPayments`), so the recipient
+   * does not need to know their stealth addresses in advance. With a
+   * `scanner.cursorStore`, the scan resumes where the previous scan for the
+   * same view key stopped and only reports newer payments; the cursor is
+   * saved only after the payments were checked, so a failed scan is retried.
+   */
+  async scanBlockchainForPayments(
+    metaAddress: StealthMetaAddress,
+    viewPrivateKey: Uint8Array,
+    options: BlockchainScanOptions = {}
   ): Promise<StealthPayment[]> {
     this._assertInitialized();
-    return await this.stealthAddressManager.scanForPayments(metaAddress, viewPrivateKey, ephemeralKeys);
+    let scan: ScanResult;
+    try {
+      scan = await this.blockchainScanner.scanForEphemeralKeys(
+        this.connection,
+        undefined,
+        options.startSlot,
+        options.endSlot,
+        { cursorKey: metaAddress.viewPublicKey.toBase58(), saveCursor: false }
+      );
+    } catch (error) {
+      throw new StealthAddressError(
+        `Failed to fetch ephemeral keys: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    const payments = await this.scanForPayments(metaAddress, viewPrivateKey, scan.ephemeralKeys, options);
+    if (scan.cursor) {
+      await this.blockchainScanner.saveCursor(scan.cursor);
+    }
+    return payments;
+  }
+
+  /**
+   * Report the payments to a stealth meta-address as they are announced
+   *
+   * Subscribes to the announcer program's logs and checks each announcement
+   * with the view key. Payments announced before the call are backfilled
+   * first (from `options.startSlot`, or the saved scan cursor of the view key
+   * with a `scanner.cursorStore`), and the gap left by a dropped WebSocket is
+   * backfilled after reconnecting, so each payment is reported at least once.
+   *
+   * @param onPayment - Called once per payment; errors it throws go to `options.onError`
+   * @returns Subscription to stop watching with
+   */
+  async watch(
+    viewPrivateKey: Uint8Array,
+    metaAddress: StealthMetaAddress,
+    onPayment: (payment: StealthPayment) => void | Promise<void>,
+    options: StealthWatchOptions = {}
+  ): Promise<StealthWatchSubscription> {
+    this._assertInitialized();
+    const watcher = new StealthPaymentWatcher(
+      this.connection,
+      this.blockchainScanner,
+      this.stealthAddressManager,
+      metaAddress,
+      viewPrivateKey,
+      onPayment,
+      options
+    );
+    await watcher.start();
+    return { unsubscribe: () => watcher.stop() };
+  }
+
+  /**
+   * Get the SPL Token and Token 2022 balances held by a stealth address
+   */
+  async getStealthTokenBalances(stealthAddress: PublicKey): Promise<StealthTokenBalance[]> {
+    this._assertInitialized();
+    try {
+      return await this.stealthAddressManager.getStealthTokenBalances(this.connection, stealthAddress);
+    } catch (error) {
+      throw new StealthAddressError(
+        `Failed to fetch stealth token balances: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Move everything held by a stealth address to a destination wallet
+   *
+   * Token balances go to the destination's associated token accounts and
+   * the emptied token accounts are closed; the remaining SOL, less the fee and
+   * the rent of any destination token account that has to be created, is
+   * transferred. The transaction is signed by the stealth address itself
+   * (see `StealthSigner`), which pays the fee.
+   *
+   * With `options.relayer`, the relayer is the fee payer and the stealth key
+   * only partially signs, so the stealth address never needs SOL of its own:
+   * the relayer's fee and the rent of the destination token accounts it pays
+   * for are reimbursed out of the swept SOL, including the rent of the closed
+   * token accounts.
+   *
+   * @param payment - Payment found by scanning
+   * @param destination - Wallet receiving the funds
+   * @param spendPrivateKey - Recipient's spend private key
+   * @param options - Sweep options
+   * @returns What was swept
+   */
+  async sweepStealthPayment(
+    payment: StealthPayment,
+    destination: PublicKey,
+    spendPrivateKey: Uint8Array,
+    options: StealthSweepOptions = {}
+  ): Promise<StealthSweepResult> {
+    this._assertInitialized();
+    const signer = StealthSigner.fromStealthPayment(payment, spendPrivateKey);
+    const stealthAddress = signer.publicKey;
+
+    const { relayer } = options;
+    if (relayer) {
+      if (!relayer.isReady()) {
+        throw new StealthAddressError('Relayer is not ready');
+      }
+      const relayerFee = relayer.getFeeAmount();
+      if (!Number.isSafeInteger(relayerFee) || relayerFee < 0) {
+        throw new StealthAddressError(`Invalid relayer fee: ${relayerFee}`);
+      }
+    }
+
+    try {
+      const tokens = await this.stealthAddressManager.getStealthTokenBalances(this.connection, stealthAddress);
+      const balance = await this.connection.getBalance(stealthAddress);
+      if (balance === 0 && tokens.length === 0) {
+        throw new StealthAddressError(`Stealth address ${stealthAddress.toBase58()} holds nothing to sweep`);
+      }
+      const rent = await this._destinationTokenAccountRent(destination, tokens);
+
+      if (relayer) {
+        return await this._sweepWithRelayer(signer, destination, tokens, balance, rent, relayer);
+      }
+
+      // The fee does not depend on the amounts, so it is taken from a draft of the final transaction
+      const draft = this.stealthAddressManager.buildStealthSweepTransaction(stealthAddress, destination, 1, tokens);
+      draft.feePayer = stealthAddress;
+      draft.recentBlockhash = (await this.connection.getLatestBlockhash()).blockhash;
+      const fee = (await this.connection.getFeeForMessage(draft.compileMessage())).value;
+      if (fee === null) {
+        throw new StealthAddressError('Could not determine the sweep transaction fee');
+      }
+
+      const lamports = balance - fee - rent;
+      if (lamports < 0) {
+        throw new StealthAddressError(
+          `Stealth address ${stealthAddress.toBase58()} holds ${balance} lamports but the sweep needs ${fee + rent} for fees and rent`
+        );
+      }
+      if (lamports === 0 && tokens.length === 0) {
+        throw new StealthAddressError(`Stealth address ${stealthAddress.toBase58()} holds nothing to sweep`);
+      }
+
+      const transaction = this.stealthAddressManager.buildStealthSweepTransaction(
+        stealthAddress,
+        destination,
+        lamports,
+        tokens
+      );
+      const signature = await this._sendTransaction(transaction, signer);
+
+      return {
+        signature,
+        stealthAddress,
+        destination,
+        lamports,
+        tokens: tokens.filter(token => token.amount > 0n),
+        fee
+      };
+    } catch (error) {
+      if (error instanceof StealthAddressError) {
+        throw error;
+      }
+      throw new StealthAddressError(
+        `Failed to sweep stealth payment: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Sweep with the relayer as fee payer, reimbursing it out of the swept SOL
+   */
+  private async _sweepWithRelayer(
+    signer: StealthSigner,
+    destination: PublicKey,
+    tokens: StealthTokenBalance[],
+    balance: number,
+    rent: number,
+    relayer: SponsoringRelayer
+  ): Promise<StealthSweepResult> {
+    const stealthAddress = signer.publicKey;
+    const relayerAddress = new PublicKey(relayer.getPublicKey());
+
+    // Closing the token accounts credits their rent to the stealth address within the transaction
+    const tokenAccounts = await this.connection.getMultipleAccountsInfo(tokens.map(token => token.tokenAccount));
+    const available = balance + tokenAccounts.reduce((sum, account) => sum + (account?.lamports ?? 0), 0);
+
+    const reimbursement = relayer.getFeeAmount() + rent;
+    const lamports = available - reimbursement;
+    if (lamports < 0) {
+      throw new StealthAddressError(
+        `Stealth address ${stealthAddress.toBase58()} holds ${available} lamports including token account rent but the relayer needs ${reimbursement}`
+      );
+    }
+
+    const transaction = this.stealthAddressManager.buildStealthSweepTransaction(
+      stealthAddress,
+      destination,
+      lamports,
+      tokens,
+      { relayer: relayerAddress, reimbursement }
+    );
+    transaction.feePayer = relayerAddress;
+    transaction.recentBlockhash = (await this.connection.getLatestBlockhash()).blockhash;
+    await signer.signTransaction(transaction);
+    const signature = await relayer.submitSponsoredTransaction(transaction);
+
+    return {
+      signature,
+      stealthAddress,
+      destination,
+      lamports,
+      tokens: tokens.filter(token => token.amount > 0n),
+      fee: reimbursement,
+      relayer: relayerAddress
+    };
   }
 
   deriveStealthSpendingKey(payment: StealthPayment, spendPrivateKey: Uint8Array): { privateKey: Uint8Array; publicKey: PublicKey } {
@@ -197,6 +731,65 @@ export class ZeraPrivacy {
 
   // Private helpers
 
+  /**
+   * Sign and send a transaction
+   *
+   * Transactions signed by the wallet are paid by the configured fee payer,
+   * if any; other signers (stealth addresses) pay their own fees.
+   */
+  private async _sendTransaction(transaction: Transaction, signer: WalletAdapter = this.wallet): Promise<string> {
+    const feePayer = signer === this.wallet && this.feePayer ? this.feePayer : signer;
+    transaction.feePayer = feePayer.publicKey;
+    const { blockhash } = await this.connection.getLatestBlockhash();
+    transaction.recentBlockhash = blockhash;
+
+    let signed = await signer.signTransaction(transaction);
+    if (!feePayer.publicKey.equals(signer.publicKey)) {
+      signed = await feePayer.signTransaction(signed);
+    }
+    const signature = await this.connection.sendRawTransaction(signed.serialize());
+    await this.connection.confirmTransaction(signature);
+    return signature;
+  }
+
+  /**
+   * Rent of the destination associated token accounts a sweep has to create
+   */
+  private async _destinationTokenAccountRent(
+    destination: PublicKey,
+    tokens: StealthTokenBalance[]
+  ): Promise<number> {
+    const swept = tokens.filter(token => token.amount > 0n);
+    if (swept.length === 0) {
+      return 0;
+    }
+
+    const accounts = await this.connection.getMultipleAccountsInfo(
+      swept.map(token => getAssociatedTokenAddressSync(token.mint, destination, true, token.programId))
+    );
+
+    let rent = 0;
+    for (let i = 0; i < swept.length; i++) {
+      if (accounts[i]) continue;
+
+      const { mint, programId } = swept[i];
+      let extensions: ExtensionType[] = [];
+      if (programId.equals(TOKEN_2022_PROGRAM_ID)) {
+        // Mirrors the account extensions Token 2022 requires when initializing an associated token account
+        const mintInfo = await this.connection.getAccountInfo(mint);
+        if (!mintInfo) {
+          throw new StealthAddressError(`Mint ${mint.toBase58()} not found`);
+        }
+        const required = getExtensionTypes(unpackMint(mint, mintInfo, programId).tlvData)
+          .map(getAccountTypeOfMintType)
+          .filter(type => type !== ExtensionType.Uninitialized && type !== ExtensionType.ConfidentialTransferAccount);
+        extensions = Array.from(new Set([...required, ExtensionType.ImmutableOwner]));
+      }
+      rent += await this.connection.getMinimumBalanceForRentExemption(getAccountLen(extensions));
+    }
+    return rent;
+  }
+
   private _assertInitialized(): void {
     if (!this.initialized) {
       throw new PrivacyError('Zera SDK not initialized');
@@ -17,6 +17,7 @@
 
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { WalletAdapter } from '../core/types';
+import type { PrivacyKeys } from '../privacy/key-derivation';
 // Use a browser-only lightweight API that avoids importing privacy crypto
 async function loadSdk() {
   return await import('./browserApi');
@@ -48,6 +49,8 @@ interface ZeraActions {
   decompress: (amount: number) => Promise<string>;
   /** Request devnet airdrop */
   fundDevnet: (amount?: number) => Promise<string>;
+  /** Derive stealth and ElGamal keys from a wallet signature */
+  derivePrivacyKeys: () => Promise<PrivacyKeys>;
   /** Refresh balance and address */
   refresh: () => Promise<void>;
 }
@@ -249,6 +252,22 @@ export function ZeraProvider({
     }
   };
 
+  /**
+   * Derive privacy keys with a wallet signature prompt
+   */
+  const handleDerivePrivacyKeys = async (): Promise<PrivacyKeys> => {
+    try {
+      const { derivePrivacyKeys } = await loadSdk();
+      return await derivePrivacyKeys();
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Privacy key derivation failed',
+      }));
+      throw error;
+    }
+  };
+
   // Context value combining state and actions
   const contextValue: ZeraContextValue = {
     ...state,
@@ -256,6 +275,7 @@ export function ZeraProvider({
     transfer: handleTransfer,
     decompress: handleDecompress,
     fundDevnet: handleFundDevnet,
+    derivePrivacyKeys: handleDerivePrivacyKeys,
     refresh,
   };
 
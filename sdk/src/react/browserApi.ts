@@ -1,5 +1,6 @@
 import { ZeraPrivacy } from '../privacy/zera-privacy';
 import type { ZeraConfig } from '../core/types';
+import type { PrivacyKeys } from '../privacy/key-derivation';
 import { Connection, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
 
 let sdk: ZeraPrivacy | null = null;
@@ -50,6 +51,12 @@ export async function getBalance(): Promise<number> {
   return await connection.getBalance(sdk.wallet.publicKey);
 }
 
+export async function derivePrivacyKeys(): Promise<PrivacyKeys> {
+  if (!sdk) throw new Error('SDK not initialized');
+  // Asks the wallet to sign a fixed message; no secret key leaves the wallet
+  return await sdk.derivePrivacyKeys();
+}
+
 export async function compress(amount: number): Promise<string> {
   if (!sdk) throw new Error('SDK not initialized');
   // Map compress to deposit (shield)
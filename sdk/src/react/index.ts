@@ -17,11 +17,13 @@ export { useZera } from './useZera';
 
 // Re-export types for convenience
 export type { WalletAdapter, ExtendedWalletAdapter, ZeraConfig, TransferResult, CompressedBalance } from '../core/types';
+export type { PrivacyKeys } from '../privacy/key-derivation';
 export { 
   ZeraError, 
   CompressionError, 
   TransferError, 
   DecompressionError,
   ValidationError,
-  RpcError 
+  RpcError,
+  SigningError
 } from '../core/errors';
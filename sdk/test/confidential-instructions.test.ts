@@ -0,0 +1,319 @@
+/**
+ * confidential-instructions.test.ts
+ *
+ * Purpose: Golden-vector tests for the ConfidentialTransfer instruction encoders
+ *
+ * Each expected buffer is written out field by field following the SPL Token
+ * 2022 `confidential_transfer::instruction` Pod layouts, so any drift in
+ * discriminators, field order, widths or account ordering fails loudly.
+ *
+ * Run with: npm run test:confidential-instructions
+ */
+
+import { PublicKey, SYSVAR_INSTRUCTIONS_PUBKEY, TransactionInstruction } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
+import {
+  ConfidentialTransferInstruction,
+  createInitializeConfidentialTransferMintInstruction,
+  createUpdateConfidentialTransferMintInstruction,
+  createConfigureConfidentialTransferAccountInstruction,
+  createEmptyConfidentialTransferAccountInstruction,
+  createConfidentialDepositInstruction,
+  createApplyPendingBalanceInstruction,
+  createConfidentialTransferInstruction,
+  createConfidentialWithdrawInstruction
+} from '../src/privacy/confidential-instructions';
+
+/**
+ * Test result tracking
+ */
+let passedTests = 0;
+let failedTests = 0;
+let totalTests = 0;
+
+function assert(condition: boolean, message: string) {
+  totalTests++;
+  if (condition) {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+  } else {
+    failedTests++;
+    console.error(`  ❌ ${message}`);
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertThrows(fn: () => unknown, message: string) {
+  totalTests++;
+  try {
+    fn();
+  } catch {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+    return;
+  }
+  failedTests++;
+  console.error(`  ❌ ${message} (expected error but succeeded)`);
+  throw new Error(`Expected error but succeeded: ${message}`);
+}
+
+// Fixed inputs so every vector is reproducible
+const key = (byte: number) => new PublicKey(new Uint8Array(32).fill(byte));
+const bytes = (byte: number, length: number) => new Uint8Array(length).fill(byte);
+const hex = (byte: number, length: number) => byte.toString(16).padStart(2, '0').repeat(length);
+
+const MINT = key(1);
+const ACCOUNT = key(2);
+const DESTINATION = key(3);
+const OWNER = key(4);
+const AUTHORITY = key(5);
+const CONTEXT_A = key(6);
+const CONTEXT_B = key(7);
+const CONTEXT_C = key(8);
+const MULTISIG_SIGNER = key(9);
+
+type Meta = [PublicKey, boolean, boolean];
+
+function assertInstruction(
+  ix: TransactionInstruction,
+  expectedData: string,
+  expectedKeys: Meta[],
+  label: string
+) {
+  assert(ix.programId.equals(TOKEN_2022_PROGRAM_ID), `${label}: targets Token 2022`);
+  assert(ix.data.toString('hex') === expectedData, `${label}: data matches golden vector`);
+  assert(
+    ix.keys.length === expectedKeys.length &&
+      ix.keys.every((meta, i) =>
+        meta.pubkey.equals(expectedKeys[i][0]) &&
+        meta.isSigner === expectedKeys[i][1] &&
+        meta.isWritable === expectedKeys[i][2]
+      ),
+    `${label}: account metas match`
+  );
+}
+
+function runConfidentialInstructionTests() {
+  console.log('🔐 Starting Confidential Instruction Encoding Tests');
+  console.log('===================================================\n');
+
+  try {
+    // Test 1: InitializeMint and UpdateMint
+    console.log('Test 1: InitializeMint and UpdateMint');
+    assertInstruction(
+      createInitializeConfidentialTransferMintInstruction(MINT, AUTHORITY, true, bytes(0xaa, 32)),
+      '1b00' + hex(5, 32) + '01' + hex(0xaa, 32),
+      [[MINT, false, true]],
+      'InitializeMint with authority and auditor'
+    );
+    assertInstruction(
+      createInitializeConfidentialTransferMintInstruction(MINT, null, false, null),
+      '1b00' + hex(0, 32) + '00' + hex(0, 32),
+      [[MINT, false, true]],
+      'InitializeMint without authority or auditor'
+    );
+    assertThrows(
+      () => createInitializeConfidentialTransferMintInstruction(MINT, AUTHORITY, true, bytes(1, 31)),
+      'Rejects a malformed auditor key'
+    );
+    assertInstruction(
+      createUpdateConfidentialTransferMintInstruction(MINT, AUTHORITY, false, bytes(0xbb, 32)),
+      '1b01' + '00' + hex(0xbb, 32),
+      [
+        [MINT, false, true],
+        [AUTHORITY, true, false]
+      ],
+      'UpdateMint rotating the auditor'
+    );
+    assertInstruction(
+      createUpdateConfidentialTransferMintInstruction(MINT, AUTHORITY, true, null, [MULTISIG_SIGNER]),
+      '1b01' + '01' + hex(0, 32),
+      [
+        [MINT, false, true],
+        [AUTHORITY, false, false],
+        [MULTISIG_SIGNER, true, false]
+      ],
+      'UpdateMint removing the auditor with a multisig authority'
+    );
+    console.log('');
+
+    // Test 2: ConfigureAccount
+    console.log('Test 2: ConfigureAccount');
+    assertInstruction(
+      createConfigureConfidentialTransferAccountInstruction(
+        ACCOUNT, MINT, bytes(0xdd, 36), 65536n, OWNER, { type: 'instruction', offset: 1 }
+      ),
+      '1b02' + hex(0xdd, 36) + '0000010000000000' + '01',
+      [
+        [ACCOUNT, false, true],
+        [MINT, false, false],
+        [SYSVAR_INSTRUCTIONS_PUBKEY, false, false],
+        [OWNER, true, false]
+      ],
+      'ConfigureAccount with proof in the next instruction'
+    );
+    assertInstruction(
+      createConfigureConfidentialTransferAccountInstruction(
+        ACCOUNT, MINT, bytes(0xdd, 36), 1n, OWNER, { type: 'contextState', account: CONTEXT_A }, [MULTISIG_SIGNER]
+      ),
+      '1b02' + hex(0xdd, 36) + '0100000000000000' + '00',
+      [
+        [ACCOUNT, false, true],
+        [MINT, false, false],
+        [CONTEXT_A, false, false],
+        [OWNER, false, false],
+        [MULTISIG_SIGNER, true, false]
+      ],
+      'ConfigureAccount with context state and multisig'
+    );
+    assertThrows(
+      () => createConfigureConfidentialTransferAccountInstruction(
+        ACCOUNT, MINT, bytes(0, 35), 1n, OWNER, { type: 'instruction', offset: 1 }
+      ),
+      'Rejects a malformed decryptable balance'
+    );
+    console.log('');
+
+    // Test 3: EmptyAccount
+    console.log('Test 3: EmptyAccount');
+    assertInstruction(
+      createEmptyConfidentialTransferAccountInstruction(ACCOUNT, OWNER, { type: 'instruction', offset: -1 }),
+      '1b04' + 'ff',
+      [
+        [ACCOUNT, false, true],
+        [SYSVAR_INSTRUCTIONS_PUBKEY, false, false],
+        [OWNER, true, false]
+      ],
+      'EmptyAccount with proof in the previous instruction'
+    );
+    console.log('');
+
+    // Test 4: Deposit
+    console.log('Test 4: Deposit');
+    assertInstruction(
+      createConfidentialDepositInstruction(ACCOUNT, MINT, OWNER, 1_000_000_000n, 9),
+      '1b05' + '00ca9a3b00000000' + '09',
+      [
+        [ACCOUNT, false, true],
+        [MINT, false, false],
+        [OWNER, true, false]
+      ],
+      'Deposit of 1 token (9 decimals)'
+    );
+    assertThrows(
+      () => createConfidentialDepositInstruction(ACCOUNT, MINT, OWNER, -1n, 9),
+      'Rejects a negative amount'
+    );
+    console.log('');
+
+    // Test 5: ApplyPendingBalance
+    console.log('Test 5: ApplyPendingBalance');
+    assertInstruction(
+      createApplyPendingBalanceInstruction(ACCOUNT, OWNER, 3n, bytes(0xee, 36)),
+      '1b08' + '0300000000000000' + hex(0xee, 36),
+      [
+        [ACCOUNT, false, true],
+        [OWNER, true, false]
+      ],
+      'ApplyPendingBalance with 3 expected credits'
+    );
+    console.log('');
+
+    // Test 6: Transfer
+    console.log('Test 6: Transfer');
+    assertInstruction(
+      createConfidentialTransferInstruction(
+        ACCOUNT, MINT, DESTINATION,
+        bytes(0x11, 36), bytes(0x22, 64), bytes(0x33, 64),
+        OWNER,
+        { type: 'contextState', account: CONTEXT_A },
+        { type: 'contextState', account: CONTEXT_B },
+        { type: 'contextState', account: CONTEXT_C }
+      ),
+      '1b07' + hex(0x11, 36) + hex(0x22, 64) + hex(0x33, 64) + '000000',
+      [
+        [ACCOUNT, false, true],
+        [MINT, false, false],
+        [DESTINATION, false, true],
+        [CONTEXT_A, false, false],
+        [CONTEXT_B, false, false],
+        [CONTEXT_C, false, false],
+        [OWNER, true, false]
+      ],
+      'Transfer with all proofs in context state accounts'
+    );
+    assertInstruction(
+      createConfidentialTransferInstruction(
+        ACCOUNT, MINT, DESTINATION,
+        bytes(0x11, 36), bytes(0x22, 64), bytes(0x33, 64),
+        OWNER,
+        { type: 'instruction', offset: 1 },
+        { type: 'instruction', offset: 2 },
+        { type: 'contextState', account: CONTEXT_C }
+      ),
+      '1b07' + hex(0x11, 36) + hex(0x22, 64) + hex(0x33, 64) + '010200',
+      [
+        [ACCOUNT, false, true],
+        [MINT, false, false],
+        [DESTINATION, false, true],
+        [SYSVAR_INSTRUCTIONS_PUBKEY, false, false],
+        [CONTEXT_C, false, false],
+        [OWNER, true, false]
+      ],
+      'Transfer mixing instruction offsets and a context state account'
+    );
+    console.log('');
+
+    // Test 7: Withdraw
+    console.log('Test 7: Withdraw');
+    assertInstruction(
+      createConfidentialWithdrawInstruction(
+        ACCOUNT, MINT, OWNER, 250n, 6, bytes(0x44, 36),
+        { type: 'contextState', account: CONTEXT_A },
+        { type: 'contextState', account: CONTEXT_B }
+      ),
+      '1b06' + 'fa00000000000000' + '06' + hex(0x44, 36) + '0000',
+      [
+        [ACCOUNT, false, true],
+        [MINT, false, false],
+        [CONTEXT_A, false, false],
+        [CONTEXT_B, false, false],
+        [OWNER, true, false]
+      ],
+      'Withdraw with proofs in context state accounts'
+    );
+    assertThrows(
+      () => createConfidentialWithdrawInstruction(
+        ACCOUNT, MINT, OWNER, 250n, 6, bytes(0x44, 36),
+        { type: 'instruction', offset: 128 },
+        { type: 'instruction', offset: 2 }
+      ),
+      'Rejects a proof offset outside the i8 range'
+    );
+    assert(ConfidentialTransferInstruction.Withdraw === 6, 'Withdraw discriminator is 6');
+    console.log('');
+
+    // Summary
+    console.log('===================================================');
+    console.log('📊 Test Summary');
+    console.log('===================================================');
+    console.log(`Total tests: ${totalTests}`);
+    console.log(`Passed: ${passedTests} ✅`);
+    console.log(`Failed: ${failedTests} ❌`);
+
+    if (failedTests === 0) {
+      console.log('\n🎉 All confidential instruction tests passed!');
+      process.exit(0);
+    } else {
+      console.log(`\n⚠️  ${failedTests} test(s) failed`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Test suite failed with error:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runConfidentialInstructionTests();
@@ -23,6 +23,7 @@ import { Connection, Keypair, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.j
 import { ZeraPrivacy } from '../src/privacy/zera-privacy';
 import { ViewingKeyManager, ViewingKeyConfig } from '../src/privacy/viewing-keys';
 import { EncryptionUtils } from '../src/privacy/encryption';
+import { deriveElGamalKeypair } from '../src/privacy/key-derivation';
 import { 
   ViewingKey,
   EncryptedBalance,
@@ -100,15 +101,20 @@ function createMockWallet(keypair: Keypair): ExtendedWalletAdapter {
 
 /**
  * Create a mock encrypted balance for testing
+ *
+ * The balance is encrypted under the account's ElGamal key, derived from the
+ * owner's wallet exactly as the viewing key is.
  */
 async function createMockEncryptedBalance(
   amount: number,
-  ownerKeypair: Keypair
+  ownerKeypair: Keypair,
+  account: PublicKey
 ): Promise<EncryptedBalance> {
   const encryptionUtils = new EncryptionUtils();
+  const elGamalKeypair = await deriveElGamalKeypair(createMockWallet(ownerKeypair), account.toBytes());
   const encrypted = await encryptionUtils.encryptAmount(
     BigInt(amount * LAMPORTS_PER_SOL),
-    ownerKeypair.publicKey
+    elGamalKeypair.publicKey
   );
   
   return {
@@ -229,7 +235,7 @@ async function runViewingKeysE2ETest() {
     });
     
     // Alice has an encrypted balance
-    const encryptedBalance = await createMockEncryptedBalance(testAmount, aliceKeypair);
+    const encryptedBalance = await createMockEncryptedBalance(testAmount, aliceKeypair, aliceAccount2);
     
     // Auditor 1 decrypts Alice's balance using viewing key
     const decryptedAmount = await auditor1ViewingKeyManager.decryptBalance(
@@ -308,7 +314,7 @@ async function runViewingKeysE2ETest() {
     });
     
     // Create encrypted balance
-    const multiAuditorBalance = await createMockEncryptedBalance(balanceAmount, aliceKeypair);
+    const multiAuditorBalance = await createMockEncryptedBalance(balanceAmount, aliceKeypair, aliceAccount4);
     
     // Both auditors can decrypt (with their respective permissions)
     const auditor1Decrypted = await auditor1ViewingKeyManager.decryptBalance(
@@ -368,7 +374,7 @@ async function runViewingKeysE2ETest() {
     });
     
     // Create encrypted balance
-    const privateBalance = await createMockEncryptedBalance(privateAmount, aliceKeypair);
+    const privateBalance = await createMockEncryptedBalance(privateAmount, aliceKeypair, aliceAccount5);
     
     // Verify that the balance is truly encrypted (ciphertext looks random)
     assert(
@@ -384,7 +390,7 @@ async function runViewingKeysE2ETest() {
     // Non-auditor without ANY viewing key cannot decrypt
     // They need Alice's viewing key to decrypt Alice's balance
     const bobAccount5 = Keypair.generate().publicKey;
-    const bobBalance5 = await createMockEncryptedBalance(200, bobKeypair);
+    const bobBalance5 = await createMockEncryptedBalance(200, bobKeypair, bobAccount5);
     
     // Alice's viewing key won't work for Bob's balance
     try {
@@ -425,7 +431,7 @@ async function runViewingKeysE2ETest() {
       'Expired viewing key is invalid'
     );
     
-    const expiredBalance = await createMockEncryptedBalance(75, aliceKeypair);
+    const expiredBalance = await createMockEncryptedBalance(75, aliceKeypair, aliceAccount6);
     await assertRejects(
       () => auditor1ViewingKeyManager.decryptBalance(expiredBalance, expiredKey),
       'Expired viewing key cannot decrypt balances'
@@ -496,7 +502,7 @@ async function runViewingKeysE2ETest() {
       }
     });
     
-    const restrictedBalance = await createMockEncryptedBalance(100, aliceKeypair);
+    const restrictedBalance = await createMockEncryptedBalance(100, aliceKeypair, aliceAccount7);
     await assertRejects(
       () => auditor1ViewingKeyManager.decryptBalance(restrictedBalance, noBalanceKey),
       'Viewing key without balance permission cannot decrypt balances'
@@ -529,7 +535,7 @@ async function runViewingKeysE2ETest() {
     );
     
     logInfo('Step 2: User has encrypted balance in confidential account');
-    const complianceBalance = await createMockEncryptedBalance(complianceAmount, aliceKeypair);
+    const complianceBalance = await createMockEncryptedBalance(complianceAmount, aliceKeypair, complianceAccount);
     
     logInfo('Step 3: Auditor uses viewing key to decrypt and verify balance');
     const auditedBalance = await auditor1ViewingKeyManager.decryptBalance(
@@ -11,6 +11,7 @@
 import { Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import { ZeraPrivacy } from '../src/privacy/zera-privacy';
 import { EncryptionUtils } from '../src/privacy/encryption';
+import { generateElGamalKeypair } from '../src/privacy/elgamal';
 
 /**
  * Test the privacy prototype implementation
@@ -72,16 +73,16 @@ async function testEncryptionUtils() {
   try {
     const encryptionUtils = new EncryptionUtils();
     const testAmount = BigInt(100 * LAMPORTS_PER_SOL); // 100 SOL
-    const testRecipient = Keypair.generate().publicKey;
+    const testRecipient = generateElGamalKeypair();
 
     console.log('   🔧 Creating encryption utilities...');
     console.log('   📊 Test amount: 100 SOL');
-    console.log(`   👤 Test recipient: ${testRecipient.toBase58().slice(0, 8)}...`);
+    console.log(`   👤 Test recipient ElGamal key: ${Buffer.from(testRecipient.publicKey).toString('hex').slice(0, 8)}...`);
 
-    // Test amount encryption (will use placeholder for now)
+    // Test amount encryption
     try {
       console.log('   🔐 Testing amount encryption...');
-      const encryptedAmount = await encryptionUtils.encryptAmount(testAmount, testRecipient);
+      const encryptedAmount = await encryptionUtils.encryptAmount(testAmount, testRecipient.publicKey);
       console.log('   ✅ Amount encryption structure created');
       console.log(`   📋 Ciphertext length: ${encryptedAmount.ciphertext.length} bytes`);
       console.log(`   📋 Commitment length: ${encryptedAmount.commitment.length} bytes`);
@@ -0,0 +1,284 @@
+/**
+ * announcement-scanning.test.ts
+ *
+ * Purpose: Tests for global stealth announcement scanning
+ *
+ * Covers `BlockchainScanner` without a stealth address: paging backwards
+ * through the announcer program's signatures (1000 per RPC call) over a slot
+ * range, skipping failed transactions, the configurable announcer program,
+ * and `ZeraPrivacy.fetchEphemeralKeysFromBlockchain` /
+ * `scanBlockchainForPayments` finding a recipient's payments from the view
+ * key alone.
+ *
+ * Run with: npm run test:announcement-scanning
+ */
+
+import { ConfirmedSignatureInfo, Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import { ZeraPrivacy } from '../../src/privacy/zera-privacy';
+import { StealthAddressManager } from '../../src/privacy/stealth-address';
+import {
+  BlockchainScanner,
+  MEMO_PROGRAM_ID,
+  createStealthAddressMemo
+} from '../../src/privacy/blockchain-scanner';
+import { StealthAddressError } from '../../src/privacy/errors';
+import { ExtendedWalletAdapter } from '../../src/core/types';
+
+let passedTests = 0;
+let failedTests = 0;
+let totalTests = 0;
+
+function assert(condition: boolean, message: string) {
+  totalTests++;
+  if (condition) {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+  } else {
+    failedTests++;
+    console.error(`  ❌ ${message}`);
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function assertRejects(fn: () => Promise<unknown>, errorClass: Function, message: string, pattern?: RegExp) {
+  totalTests++;
+  try {
+    await fn();
+  } catch (error) {
+    if (error instanceof errorClass && (!pattern || pattern.test((error as Error).message))) {
+      passedTests++;
+      console.log(`  ✅ ${message}`);
+      return;
+    }
+    failedTests++;
+    console.error(`  ❌ ${message} (unexpected error: ${error})`);
+    throw new Error(`Unexpected error: ${message}`);
+  }
+  failedTests++;
+  console.error(`  ❌ ${message} (expected error but succeeded)`);
+  throw new Error(`Expected error but succeeded: ${message}`);
+}
+
+function createMockWallet(keypair: Keypair): ExtendedWalletAdapter {
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction: async <T extends Transaction>(tx: T) => {
+      tx.partialSign(keypair);
+      return tx;
+    },
+    signAllTransactions: async <T extends Transaction>(txs: T[]) => {
+      txs.forEach(tx => tx.partialSign(keypair));
+      return txs;
+    },
+    rawKeypair: keypair
+  } as ExtendedWalletAdapter;
+}
+
+/**
+ * Parsed transaction paying `recipient` and carrying an announcement memo
+ */
+function parsedAnnouncement(memo: string, recipient: PublicKey, slot: number, lamports: number) {
+  const sender = Keypair.generate().publicKey;
+  return {
+    slot,
+    blockTime: 1_700_000_000 + slot,
+    transaction: {
+      signatures: [],
+      message: {
+        accountKeys: [
+          { pubkey: sender, signer: true, writable: true },
+          { pubkey: recipient, signer: false, writable: true }
+        ],
+        instructions: [{ program: 'spl-memo', programId: MEMO_PROGRAM_ID, parsed: memo }]
+      }
+    },
+    meta: {
+      err: null,
+      fee: 5000,
+      preBalances: [10_000_000, 0],
+      postBalances: [10_000_000 - lamports - 5000, lamports],
+      preTokenBalances: [],
+      postTokenBalances: []
+    }
+  };
+}
+
+/**
+ * Announcer program history of `count` transactions, one per slot, newest first
+ *
+ * Only the transactions given in `announcements` (keyed by slot) exist; the
+ * rest come back as null from `getParsedTransactions`. Other addresses have
+ * no history.
+ */
+function createAnnouncerLedger(
+  prefix: string,
+  count: number,
+  announcements: Map<number, unknown>,
+  failedSlots: number[] = [],
+  announcer: PublicKey = MEMO_PROGRAM_ID
+) {
+  const history: ConfirmedSignatureInfo[] = [];
+  const transactions = new Map<string, unknown>();
+  for (let slot = count; slot >= 1; slot--) {
+    const signature = `${prefix}-${slot}`;
+    const err = failedSlots.includes(slot) ? { InstructionError: [0, 'Custom'] } : null;
+    history.push({ signature, slot, err: err as ConfirmedSignatureInfo['err'], memo: null, blockTime: null });
+    if (announcements.has(slot)) {
+      transactions.set(signature, announcements.get(slot));
+    }
+  }
+
+  const pageRequests: { address: string; before?: string; limit?: number }[] = [];
+  const connection = {
+    getSlot: async () => count,
+    getSignaturesForAddress: async (address: PublicKey, options: { before?: string; limit?: number } = {}) => {
+      if (!address.equals(announcer)) return [];
+      pageRequests.push({ address: address.toBase58(), before: options.before, limit: options.limit });
+      const start = options.before ? history.findIndex(info => info.signature === options.before) + 1 : 0;
+      return history.slice(start, start + (options.limit ?? 1000));
+    },
+    getParsedTransactions: async (signatures: string[]) => signatures.map(signature => transactions.get(signature) ?? null),
+    getParsedTransaction: async (signature: string) => transactions.get(signature) ?? null
+  } as unknown as Connection;
+  return { connection, pageRequests };
+}
+
+async function runAnnouncementScanningTests() {
+  console.log('📡 Starting Global Announcement Scanning Tests');
+  console.log('=================================================\n');
+
+  try {
+    const manager = new StealthAddressManager();
+    const viewKeypair = Keypair.generate();
+    const spendKeypair = Keypair.generate();
+    const metaAddress = manager.generateStealthMetaAddress(viewKeypair, spendKeypair);
+    const otherMetaAddress = manager.generateStealthMetaAddress();
+    const payer = Keypair.generate().publicKey;
+
+    const announce = (recipient = metaAddress, slot: number, lamports: number, v1 = false) => {
+      const built = manager.buildStealthPaymentTransaction(payer, recipient, lamports);
+      const memo = v1 ? createStealthAddressMemo(built.ephemeralKey.publicKey, 'v1') : built.memo;
+      return { slot, built, transaction: parsedAnnouncement(memo, built.stealthAddress.address, slot, lamports) };
+    };
+
+    const recent = announce(metaAddress, 1990, 1_500_000);
+    const foreign = announce(otherMetaAddress, 900, 2_500_000);
+    const failed = announce(metaAddress, 500, 3_500_000);
+    const oldV1 = announce(metaAddress, 60, 4_500_000, true);
+    const tooOld = announce(metaAddress, 30, 5_500_000);
+    const tooNew = announce(metaAddress, 2050, 6_500_000);
+    const all = [recent, foreign, failed, oldV1, tooOld, tooNew];
+    const announcements = new Map<number, unknown>(all.map(entry => [entry.slot, entry.transaction]));
+
+    console.log('Test 1: Paging through the Memo program');
+    const ledger = createAnnouncerLedger('global', 2100, announcements, [failed.slot]);
+    const scanner = new BlockchainScanner();
+    const result = await scanner.scanForEphemeralKeys(ledger.connection, undefined, 50, 2000);
+    const found = (entry: (typeof all)[number]) =>
+      result.ephemeralKeys.some(key => key.publicKey.equals(entry.built.ephemeralKey.publicKey));
+
+    assert(ledger.pageRequests.length === 3, 'Pages through the Memo program until the range start is passed');
+    assert(
+      ledger.pageRequests[1].before === 'global-1101' && ledger.pageRequests[2].before === 'global-101',
+      'Each page starts before the last signature of the previous one'
+    );
+    assert(ledger.pageRequests.every(request => request.limit === 1000), 'Requests full pages');
+    assert(found(recent) && found(foreign) && found(oldV1), 'Returns every announcement in the range');
+    assert(!found(tooOld) && !found(tooNew), 'Ignores announcements outside the range');
+    assert(!found(failed), 'Skips failed transactions');
+    assert(result.ephemeralKeys.length === 3, 'Returns nothing else');
+    assert(result.transactionsScanned === 1950, 'Counts the successful transactions in the range');
+    const recentKey = result.ephemeralKeys.find(key => key.publicKey.equals(recent.built.ephemeralKey.publicKey))!;
+    assert(
+      recentKey.transactionSignature === 'global-1990' && recentKey.viewTag === recent.built.ephemeralKey.viewTag,
+      'Keys point at their announcing transaction and keep the view tag'
+    );
+
+    const shallow = createAnnouncerLedger('shallow', 2100, announcements);
+    await new BlockchainScanner().scanForEphemeralKeys(shallow.connection, undefined, 1500, 2100);
+    assert(shallow.pageRequests.length === 1, 'Stops after one page when the range is recent');
+    console.log('');
+
+    console.log('Test 2: Configurable announcer program');
+    const announcer = Keypair.generate().publicKey;
+    const custom = createAnnouncerLedger('custom', 300, new Map([[250, recent.transaction]]), [], announcer);
+    const customKeys = await new BlockchainScanner({ announcerProgramId: announcer }).fetchEphemeralKeys(
+      custom.connection,
+      undefined,
+      200,
+      300
+    );
+    assert(
+      custom.pageRequests.length === 1 && custom.pageRequests[0].address === announcer.toBase58(),
+      'Scans the configured program'
+    );
+    assert(customKeys.length === 1, 'Finds announcements made through it');
+    console.log('');
+
+    console.log('Test 3: scanBlockchainForPayments');
+    const recipientLedger = createAnnouncerLedger('recipient', 2100, announcements, [failed.slot]);
+    const privacy = new ZeraPrivacy();
+    await privacy.init(recipientLedger.connection, createMockWallet(Keypair.generate()), { mode: 'privacy' });
+
+    const keys = await privacy.fetchEphemeralKeysFromBlockchain(40, 2010);
+    assert(keys.length === 3, 'fetchEphemeralKeysFromBlockchain returns every announcement in the range');
+
+    const payments = await privacy.scanBlockchainForPayments(metaAddress, viewKeypair.secretKey, {
+      startSlot: 40,
+      endSlot: 2010
+    });
+    const paid = (entry: (typeof all)[number]) =>
+      payments.find(payment => payment.stealthAddress.equals(entry.built.stealthAddress.address));
+    assert(payments.length === 2, 'Finds the payments to the recipient');
+    assert(paid(recent)?.amount === 1_500_000, 'Fills in the v2 payment amount');
+    assert(paid(oldV1)?.amount === 4_500_000, 'Finds v1 announcements too');
+    assert(!paid(foreign), 'Ignores announcements for other recipients');
+    assert(
+      paid(recent)!.transactionSignature === 'recipient-1990' && paid(recent)!.detectedAt === (1_700_000_000 + 1990) * 1000,
+      'Reports the announcing transaction and its block time'
+    );
+    console.log('');
+
+    console.log('Test 4: Errors');
+    const broken = new ZeraPrivacy();
+    await broken.init(
+      {
+        getSlot: async () => 4000,
+        getSignaturesForAddress: async () => {
+          throw new Error('429 Too Many Requests');
+        }
+      } as unknown as Connection,
+      createMockWallet(Keypair.generate()),
+      { mode: 'privacy' }
+    );
+    await assertRejects(
+      () => broken.scanBlockchainForPayments(metaAddress, viewKeypair.secretKey, { startSlot: 3000, endSlot: 4000 }),
+      StealthAddressError,
+      'RPC failures are reported as StealthAddressError',
+      /Failed to fetch ephemeral keys.*429/
+    );
+    console.log('');
+
+    console.log('=================================================');
+    console.log('📊 Test Summary');
+    console.log('=================================================');
+    console.log(`Total tests: ${totalTests}`);
+    console.log(`Passed: ${passedTests} ✅`);
+    console.log(`Failed: ${failedTests} ❌`);
+
+    if (failedTests === 0) {
+      console.log('\n🎉 All announcement scanning tests passed!');
+      process.exit(0);
+    } else {
+      console.log(`\n⚠️  ${failedTests} test(s) failed`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Test suite failed with error:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runAnnouncementScanningTests();
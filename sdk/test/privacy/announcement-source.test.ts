@@ -0,0 +1,420 @@
+/**
+ * announcement-source.test.ts
+ *
+ * Purpose: Tests for pluggable announcement sources
+ *
+ * Covers the `AnnouncementSource` implementations (`RpcAnnouncementSource`,
+ * `HttpIndexerAnnouncementSource` against a mock fetch, and
+ * `InMemoryAnnouncementSource`), and `BlockchainScanner` /
+ * `ZeraPrivacy.scanBlockchainForPayments` reading announcements from a
+ * configured source instead of the RPC connection.
+ *
+ * Run with: npm run test:announcement-source
+ */
+
+import { ConfirmedSignatureInfo, Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import { ZeraPrivacy } from '../../src/privacy/zera-privacy';
+import { StealthAddressManager } from '../../src/privacy/stealth-address';
+import { BlockchainScanner, MEMO_PROGRAM_ID } from '../../src/privacy/blockchain-scanner';
+import {
+  AnnouncementFixture,
+  HttpIndexerAnnouncementSource,
+  InMemoryAnnouncementSource,
+  RpcAnnouncementSource
+} from '../../src/privacy/announcement-source';
+import { InMemoryScanCursorStore } from '../../src/privacy/scan-cursor';
+import { PrivacyError } from '../../src/privacy/errors';
+import { ExtendedWalletAdapter } from '../../src/core/types';
+
+let passedTests = 0;
+let failedTests = 0;
+let totalTests = 0;
+
+function assert(condition: boolean, message: string) {
+  totalTests++;
+  if (condition) {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+  } else {
+    failedTests++;
+    console.error(`  ❌ ${message}`);
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function assertRejects(fn: () => Promise<unknown>, errorClass: Function, message: string, pattern?: RegExp) {
+  totalTests++;
+  try {
+    await fn();
+  } catch (error) {
+    if (error instanceof errorClass && (!pattern || pattern.test((error as Error).message))) {
+      passedTests++;
+      console.log(`  ✅ ${message}`);
+      return;
+    }
+    failedTests++;
+    console.error(`  ❌ ${message} (unexpected error: ${error})`);
+    throw new Error(`Unexpected error: ${message}`);
+  }
+  failedTests++;
+  console.error(`  ❌ ${message} (expected error but succeeded)`);
+  throw new Error(`Expected error but succeeded: ${message}`);
+}
+
+function createMockWallet(keypair: Keypair): ExtendedWalletAdapter {
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction: async <T extends Transaction>(tx: T) => {
+      tx.partialSign(keypair);
+      return tx;
+    },
+    signAllTransactions: async <T extends Transaction>(txs: T[]) => {
+      txs.forEach(tx => tx.partialSign(keypair));
+      return txs;
+    },
+    rawKeypair: keypair
+  } as ExtendedWalletAdapter;
+}
+
+/**
+ * Connection that fails the test if the scanner reads announcements from it
+ */
+function createUnusedConnection(): Connection {
+  const fail = async () => {
+    throw new Error('the RPC connection must not be used');
+  };
+  return { getSlot: fail, getSignaturesForAddress: fail, getParsedTransactions: fail } as unknown as Connection;
+}
+
+/**
+ * Parsed transaction paying `recipient` with the given instructions
+ */
+function parsedTransaction(instructions: unknown[], recipient: PublicKey, slot: number, lamports: number) {
+  return {
+    slot,
+    blockTime: 1_700_000_000 + slot,
+    transaction: {
+      signatures: [],
+      message: {
+        accountKeys: [
+          { pubkey: Keypair.generate().publicKey, signer: true, writable: true },
+          { pubkey: recipient, signer: false, writable: true }
+        ],
+        instructions
+      }
+    },
+    meta: {
+      err: null,
+      fee: 5000,
+      preBalances: [10_000_000, 0],
+      postBalances: [10_000_000 - lamports - 5000, lamports],
+      preTokenBalances: [],
+      postTokenBalances: []
+    }
+  };
+}
+
+/**
+ * Mock fetch answering from a table of paths, recording the requests
+ */
+function createMockFetch(routes: (url: URL) => { status?: number; body?: unknown }) {
+  const requests: { url: URL; headers: Record<string, string> }[] = [];
+  const fetchImpl = (async (input: string, init?: { headers?: Record<string, string> }) => {
+    const url = new URL(input);
+    requests.push({ url, headers: init?.headers ?? {} });
+    const { status = 200, body } = routes(url);
+    return {
+      ok: status >= 200 && status < 300,
+      status,
+      json: async () => body
+    };
+  }) as unknown as typeof fetch;
+  return { fetchImpl, requests };
+}
+
+async function runAnnouncementSourceTests() {
+  console.log('🗂️  Starting Announcement Source Tests');
+  console.log('=================================================\n');
+
+  try {
+    const manager = new StealthAddressManager();
+    const viewKeypair = Keypair.generate();
+    const spendKeypair = Keypair.generate();
+    const metaAddress = manager.generateStealthMetaAddress(viewKeypair, spendKeypair);
+    const otherMetaAddress = manager.generateStealthMetaAddress();
+    const payer = Keypair.generate().publicKey;
+    const build = (recipient = metaAddress, lamports = 1_000_000) =>
+      manager.buildStealthPaymentTransaction(payer, recipient, lamports);
+
+    console.log('Test 1: In-memory source');
+    const elsewhere = Keypair.generate().publicKey;
+    const fixture = (signature: string, slot: number, memos: string[], extra: Partial<AnnouncementFixture> = {}) => ({
+      signature,
+      slot,
+      blockTime: 1_700_000_000 + slot,
+      memos,
+      addresses: [MEMO_PROGRAM_ID],
+      ...extra
+    });
+    const memory = new InMemoryAnnouncementSource([
+      fixture('mem-a', 100, ['STEALTH:a']),
+      fixture('mem-b', 200, ['STEALTH:b']),
+      fixture('mem-c', 200, ['STEALTH:c']),
+      fixture('mem-failed', 300, ['STEALTH:failed'], { failed: true }),
+      fixture('mem-plain', 250, []),
+      fixture('mem-elsewhere', 400, ['STEALTH:elsewhere'], { addresses: [elsewhere] })
+    ]);
+
+    assert((await memory.getSlot()) === 400, 'The current slot is the newest transaction');
+    const all = await memory.getAnnouncements({ address: MEMO_PROGRAM_ID, startSlot: 0, endSlot: 1000 });
+    assert(
+      all.records.map(record => record.signature).join() === 'mem-c,mem-b,mem-a',
+      'Returns the transactions with memos of the address, newest first'
+    );
+    assert(all.transactionsScanned === 4, 'Counts the successful transactions');
+    assert(all.latest?.signature === 'mem-failed', 'The latest transaction may have failed');
+    const ranged = await memory.getAnnouncements({ address: MEMO_PROGRAM_ID, startSlot: 150, endSlot: 220 });
+    assert(ranged.records.length === 2 && ranged.transactionsScanned === 2, 'Applies the slot range');
+    const resumed = await memory.getAnnouncements({ address: MEMO_PROGRAM_ID, startSlot: 0, endSlot: 1000, until: 'mem-b' });
+    assert(
+      resumed.records.map(record => record.signature).join() === 'mem-c',
+      'Only returns transactions newer than `until`'
+    );
+    console.log('');
+
+    console.log('Test 2: Scanner reading from a configured source');
+    const first = build(metaAddress, 1_100_000);
+    const foreign = build(otherMetaAddress, 1_200_000);
+    const failed = build(metaAddress, 1_300_000);
+    const source = new InMemoryAnnouncementSource([
+      fixture('scan-1', 500, [first.memo], { addresses: [MEMO_PROGRAM_ID, first.stealthAddress.address] }),
+      fixture('scan-2', 510, ['gm', foreign.memo]),
+      fixture('scan-3', 520, [failed.memo], { failed: true })
+    ]);
+    const cursorStore = new InMemoryScanCursorStore();
+    const scanner = new BlockchainScanner({ announcementSource: source, cursorStore });
+
+    const scan = await scanner.scanForEphemeralKeys(createUnusedConnection(), undefined, 400);
+    assert(scan.endSlot === 520, 'Scans up to the source slot without touching the connection');
+    assert(scan.ephemeralKeys.length === 2 && scan.transactionsScanned === 2, 'Parses the announcements of successful transactions');
+    const firstKey = scan.ephemeralKeys.find(key => key.publicKey.equals(first.ephemeralKey.publicKey));
+    assert(
+      firstKey?.transactionSignature === 'scan-1' &&
+        firstKey.viewTag === first.ephemeralKey.viewTag &&
+        firstKey.createdAt === (1_700_000_000 + 500) * 1000,
+      'Keys keep their signature, view tag and block time'
+    );
+    assert(scan.cursor?.signature === 'scan-3', 'Saves the cursor at the newest transaction');
+
+    source.add(fixture('scan-4', 530, [build().memo]));
+    const next = await scanner.scanForEphemeralKeys(createUnusedConnection(), undefined, 400);
+    assert(next.ephemeralKeys.length === 1, 'Resumes from the cursor');
+
+    const byAddress = await new BlockchainScanner({ announcementSource: source }).fetchEphemeralKeys(
+      createUnusedConnection(),
+      first.stealthAddress.address,
+      400,
+      600
+    );
+    assert(byAddress.length === 1, 'Scans the history of a stealth address');
+
+    const uncachedFirst = await new BlockchainScanner({ announcementSource: source }).scanForEphemeralKeys(
+      createUnusedConnection(),
+      undefined,
+      400,
+      600
+    );
+    const emptyRpc = {
+      getSlot: async () => 600,
+      getSignaturesForAddress: async () => [],
+      getParsedTransactions: async () => []
+    } as unknown as Connection;
+    const rpcAfter = await new BlockchainScanner().scanForEphemeralKeys(emptyRpc, undefined, 400, 600);
+    assert(
+      uncachedFirst.ephemeralKeys.length === 3 && rpcAfter.ephemeralKeys.length === 0,
+      'Results of a configured source are not served to RPC scans'
+    );
+    const sourceAfter = await new BlockchainScanner({ announcementSource: source }).scanForEphemeralKeys(
+      createUnusedConnection(),
+      undefined,
+      400,
+      600
+    );
+    assert(sourceAfter.ephemeralKeys.length === 3, 'Cached RPC results are not served to scans of a configured source');
+    console.log('');
+
+    console.log('Test 3: RPC source');
+    const rpcRecipient = Keypair.generate().publicKey;
+    const rpcHistory: ConfirmedSignatureInfo[] = [
+      { signature: 'rpc-src-4', slot: 640, err: { InstructionError: [0, 'Custom'] }, memo: null, blockTime: null },
+      { signature: 'rpc-src-3', slot: 630, err: null, memo: null, blockTime: null },
+      { signature: 'rpc-src-2', slot: 620, err: null, memo: null, blockTime: null },
+      { signature: 'rpc-src-1', slot: 610, err: null, memo: null, blockTime: null }
+    ] as ConfirmedSignatureInfo[];
+    const rpcTransactions = new Map<string, unknown>([
+      ['rpc-src-3', parsedTransaction([{ program: 'spl-memo', programId: MEMO_PROGRAM_ID, parsed: 'hello' }], rpcRecipient, 630, 1)],
+      ['rpc-src-2', parsedTransaction([{ programId: MEMO_PROGRAM_ID, accounts: [], data: Buffer.from('raw memo').toString('base64') }], rpcRecipient, 620, 1)],
+      ['rpc-src-1', parsedTransaction([], rpcRecipient, 610, 1)]
+    ]);
+    const rpc = new RpcAnnouncementSource({
+      getSlot: async () => 700,
+      getSignaturesForAddress: async () => rpcHistory,
+      getParsedTransactions: async (signatures: string[]) => signatures.map(signature => rpcTransactions.get(signature) ?? null)
+    } as unknown as Connection);
+
+    assert((await rpc.getSlot()) === 700, 'Reads the current slot from the connection');
+    const rpcBatch = await rpc.getAnnouncements({ address: MEMO_PROGRAM_ID, startSlot: 600, endSlot: 700 });
+    assert(
+      rpcBatch.records.map(record => `${record.signature}=${record.memos.join()}`).join(';') === 'rpc-src-3=hello;rpc-src-2=raw memo',
+      'Extracts parsed and raw memos, skipping transactions without any'
+    );
+    assert(rpcBatch.transactionsScanned === 3 && rpcBatch.latest?.signature === 'rpc-src-4', 'Counts successful transactions and keeps the latest one');
+    console.log('');
+
+    console.log('Test 4: HTTP indexer source');
+    const announcement = build(metaAddress, 1_400_000);
+    const pages: Record<string, unknown> = {
+      '': {
+        records: [{ signature: 'idx-2', slot: 820, blockTime: null, memos: [announcement.memo] }],
+        transactionsScanned: 5,
+        latest: { signature: 'idx-3', slot: 830 },
+        nextPage: 'p2'
+      },
+      p2: {
+        records: [{ signature: 'idx-1', slot: 810, blockTime: 1_700_000_810, memos: [build(otherMetaAddress).memo] }],
+        transactionsScanned: 2
+      }
+    };
+    const indexer = createMockFetch(url => {
+      if (url.pathname === '/v1/slot') return { body: { slot: 900 } };
+      if (url.pathname === '/v1/announcements') return { body: pages[url.searchParams.get('page') ?? ''] };
+      return { status: 404 };
+    });
+    const http = new HttpIndexerAnnouncementSource({
+      url: 'https://indexer.example/v1/',
+      apiKey: 'secret',
+      pageSize: 50,
+      fetch: indexer.fetchImpl
+    });
+
+    assert((await http.getSlot()) === 900, 'Reads the indexed slot');
+    const httpBatch = await http.getAnnouncements({ address: MEMO_PROGRAM_ID, startSlot: 800, endSlot: 900, until: 'idx-0' });
+    const query = indexer.requests[1].url.searchParams;
+    assert(
+      query.get('address') === MEMO_PROGRAM_ID.toBase58() &&
+        query.get('startSlot') === '800' &&
+        query.get('endSlot') === '900' &&
+        query.get('until') === 'idx-0' &&
+        query.get('limit') === '50',
+      'Sends the query as URL parameters'
+    );
+    assert(indexer.requests.every(request => request.headers['X-API-Key'] === 'secret'), 'Sends the API key');
+    assert(
+      indexer.requests.length === 3 && indexer.requests[2].url.searchParams.get('page') === 'p2',
+      'Follows the next page'
+    );
+    assert(
+      httpBatch.records.length === 2 && httpBatch.transactionsScanned === 7 && httpBatch.latest?.signature === 'idx-3',
+      'Merges the pages and keeps the latest transaction of the first'
+    );
+
+    const indexed = await new BlockchainScanner({ announcementSource: http }).scanForEphemeralKeys(
+      createUnusedConnection(),
+      undefined,
+      800
+    );
+    assert(indexed.ephemeralKeys.length === 2 && indexed.endSlot === 900, 'The scanner reads from the indexer');
+
+    const failing = (routes: Parameters<typeof createMockFetch>[0]) =>
+      new HttpIndexerAnnouncementSource({ url: 'https://indexer.example', fetch: createMockFetch(routes).fetchImpl });
+    await assertRejects(
+      () => failing(() => ({ status: 503 })).getSlot(),
+      PrivacyError,
+      'Rejects error statuses',
+      /Announcement indexer returned 503/
+    );
+    await assertRejects(
+      () => failing(() => ({ body: { records: [{ signature: 'x', slot: '1', memos: [] }], transactionsScanned: 1 } }))
+        .getAnnouncements({ address: MEMO_PROGRAM_ID, startSlot: 0, endSlot: 1 }),
+      PrivacyError,
+      'Rejects malformed responses',
+      /Invalid announcement indexer response/
+    );
+    const unreachable = new HttpIndexerAnnouncementSource({
+      url: 'https://indexer.example',
+      fetch: (async () => {
+        throw new Error('ECONNREFUSED');
+      }) as unknown as typeof fetch
+    });
+    await assertRejects(
+      () => unreachable.getSlot(),
+      PrivacyError,
+      'Reports network failures',
+      /request failed: ECONNREFUSED/
+    );
+    console.log('');
+
+    console.log('Test 5: ZeraPrivacy with a configured source');
+    const paid = build(metaAddress, 1_500_000);
+    const unrelated = build(otherMetaAddress, 1_600_000);
+    const paidTransaction = parsedTransaction(
+      [{ program: 'spl-memo', programId: MEMO_PROGRAM_ID, parsed: paid.memo }],
+      paid.stealthAddress.address,
+      950,
+      1_500_000
+    );
+    const rpcCalls: string[] = [];
+    const connection = {
+      getSlot: async () => {
+        rpcCalls.push('getSlot');
+        return 1000;
+      },
+      getSignaturesForAddress: async (address: PublicKey) => {
+        rpcCalls.push(address.equals(MEMO_PROGRAM_ID) ? 'announcer' : 'stealth');
+        return [];
+      },
+      getParsedTransaction: async (signature: string) => (signature === 'zera-1' ? paidTransaction : null)
+    } as unknown as Connection;
+
+    const privacy = new ZeraPrivacy();
+    await privacy.init(connection, createMockWallet(Keypair.generate()), {
+      mode: 'privacy',
+      scanner: {
+        announcementSource: new InMemoryAnnouncementSource([
+          fixture('zera-1', 950, [paid.memo]),
+          fixture('zera-2', 960, [unrelated.memo])
+        ])
+      }
+    });
+    const payments = await privacy.scanBlockchainForPayments(metaAddress, viewKeypair.secretKey, { startSlot: 900 });
+    assert(
+      payments.length === 1 && payments[0].stealthAddress.equals(paid.stealthAddress.address),
+      'Finds the payments announced through the source'
+    );
+    assert(payments[0].amount === 1_500_000, 'Still verifies the payment over RPC');
+    assert(!rpcCalls.includes('announcer') && !rpcCalls.includes('getSlot'), 'Does not scan the announcer program over RPC');
+    console.log('');
+
+    console.log('=================================================');
+    console.log('📊 Test Summary');
+    console.log('=================================================');
+    console.log(`Total tests: ${totalTests}`);
+    console.log(`Passed: ${passedTests} ✅`);
+    console.log(`Failed: ${failedTests} ❌`);
+
+    if (failedTests === 0) {
+      console.log('\n🎉 All announcement source tests passed!');
+      process.exit(0);
+    } else {
+      console.log(`\n⚠️  ${failedTests} test(s) failed`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Test suite failed with error:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runAnnouncementSourceTests();
@@ -0,0 +1,324 @@
+/**
+ * audit-report.test.ts
+ *
+ * Purpose: Tests for batch audit reports built from auditor viewing keys
+ *
+ * Serves a fixed confidential history (deposits, transfers, withdrawals and a
+ * failed transaction) from a mock connection, so no network is needed.
+ *
+ * Run with: npm run test:audit-report
+ */
+
+import {
+  ConfirmedSignatureInfo,
+  Connection,
+  Keypair,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransactionResponse
+} from '@solana/web3.js';
+import { AuditReportBuilder } from '../../src/privacy/audit-report';
+import { decodeConfidentialActivity } from '../../src/privacy/confidential-activity';
+import { ViewingKeyManager } from '../../src/privacy/viewing-keys';
+import { PrivacyError, ViewingKeyError } from '../../src/privacy/errors';
+import { encryptElGamal, splitAmountLoHi } from '../../src/privacy/elgamal';
+import {
+  createConfidentialDepositInstruction,
+  createConfidentialTransferInstruction,
+  createConfidentialWithdrawInstruction
+} from '../../src/privacy/confidential-instructions';
+import { ViewingKey } from '../../src/privacy/types';
+import { ExtendedWalletAdapter } from '../../src/core/types';
+
+let passedTests = 0;
+let failedTests = 0;
+let totalTests = 0;
+
+function assert(condition: boolean, message: string) {
+  totalTests++;
+  if (condition) {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+  } else {
+    failedTests++;
+    console.error(`  ❌ ${message}`);
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function assertRejects(fn: () => Promise<unknown>, errorClass: Function, message: string) {
+  totalTests++;
+  try {
+    await fn();
+  } catch (error) {
+    if (error instanceof errorClass) {
+      passedTests++;
+      console.log(`  ✅ ${message}`);
+      return;
+    }
+    failedTests++;
+    console.error(`  ❌ ${message} (unexpected error: ${error})`);
+    throw new Error(`Unexpected error: ${message}`);
+  }
+  failedTests++;
+  console.error(`  ❌ ${message} (expected error but succeeded)`);
+  throw new Error(`Expected error but succeeded: ${message}`);
+}
+
+function createMockWallet(keypair: Keypair): ExtendedWalletAdapter {
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction: async <T extends Transaction>(tx: T) => {
+      tx.partialSign(keypair);
+      return tx;
+    },
+    signAllTransactions: async <T extends Transaction>(txs: T[]) => {
+      txs.forEach(tx => tx.partialSign(keypair));
+      return txs;
+    },
+    rawKeypair: keypair
+  } as ExtendedWalletAdapter;
+}
+
+interface MockHistoryEntry {
+  signature: string;
+  slot: number;
+  failed?: boolean;
+  instructions: TransactionInstruction[];
+}
+
+/**
+ * Mock connection serving a transaction history, newest signature first
+ */
+function createMockConnection(payer: PublicKey, history: MockHistoryEntry[]): Connection {
+  const newestFirst = [...history].sort((a, b) => b.slot - a.slot);
+  const transactions = new Map(history.map(entry => {
+    const message = new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: new PublicKey(new Uint8Array(32).fill(7)).toBase58(),
+      instructions: entry.instructions
+    }).compileToV0Message();
+    const response = {
+      slot: entry.slot,
+      blockTime: 1_700_000_000 + entry.slot,
+      transaction: { message, signatures: [] },
+      meta: { err: entry.failed ? { InstructionError: [0, 'Custom'] } : null, loadedAddresses: { writable: [], readonly: [] } }
+    } as unknown as VersionedTransactionResponse;
+    return [entry.signature, response];
+  }));
+
+  return {
+    getSignaturesForAddress: async (
+      _address: PublicKey,
+      options: { before?: string; limit?: number }
+    ): Promise<ConfirmedSignatureInfo[]> => {
+      const start = options.before
+        ? newestFirst.findIndex(entry => entry.signature === options.before) + 1
+        : 0;
+      return newestFirst.slice(start, start + (options.limit ?? 1000)).map(entry => ({
+        signature: entry.signature,
+        slot: entry.slot,
+        err: entry.failed ? { InstructionError: [0, 'Custom'] } : null,
+        memo: null
+      }));
+    },
+    getTransaction: async (signature: string) => transactions.get(signature) ?? null
+  } as unknown as Connection;
+}
+
+async function runAuditReportTests() {
+  console.log('🔐 Starting Audit Report Tests');
+  console.log('==============================\n');
+
+  try {
+    const owner = Keypair.generate().publicKey;
+    const auditorWallet = createMockWallet(Keypair.generate());
+    const mint = Keypair.generate().publicKey;
+    const otherMint = Keypair.generate().publicKey;
+    const account = Keypair.generate().publicKey;
+    const counterparty = Keypair.generate().publicKey;
+
+    const auditorKeys = new ViewingKeyManager(auditorWallet);
+    const auditorKey = await auditorKeys.generateViewingKey(mint);
+    const otherAuditorKey = await auditorKeys.generateViewingKey(otherMint);
+
+    const proofAccount = () => ({ type: 'contextState' as const, account: Keypair.generate().publicKey });
+    const transfer = (source: PublicKey, destination: PublicKey, amount: bigint, auditor: ViewingKey = auditorKey) => {
+      const { lo, hi } = splitAmountLoHi(amount);
+      const auditorPubkey = auditor.publicKey.toBytes();
+      return createConfidentialTransferInstruction(
+        source,
+        mint,
+        destination,
+        new Uint8Array(36),
+        encryptElGamal(auditorPubkey, lo).ciphertext,
+        encryptElGamal(auditorPubkey, hi).ciphertext,
+        owner,
+        proofAccount(),
+        proofAccount(),
+        proofAccount()
+      );
+    };
+    const deposit = (target: PublicKey, amount: bigint) =>
+      createConfidentialDepositInstruction(target, mint, owner, amount, 6);
+    const withdraw = (target: PublicKey, amount: bigint) =>
+      createConfidentialWithdrawInstruction(target, mint, owner, amount, 6, new Uint8Array(36), proofAccount(), proofAccount());
+
+    const history: MockHistoryEntry[] = [
+      { signature: 'deposit-1', slot: 100, instructions: [deposit(account, 1_000_000n)] },
+      { signature: 'transfer-1', slot: 110, instructions: [transfer(account, counterparty, 300_000n)] },
+      { signature: 'transfer-2', slot: 120, instructions: [deposit(counterparty, 5n), transfer(counterparty, account, 50_000n)] },
+      { signature: 'withdraw-1', slot: 130, instructions: [withdraw(account, 200_000n)] },
+      { signature: 'foreign-auditor', slot: 140, instructions: [transfer(account, counterparty, 1n, otherAuditorKey)] },
+      { signature: 'failed', slot: 150, failed: true, instructions: [deposit(account, 999n)] },
+      { signature: 'transfer-3', slot: 160, instructions: [transfer(account, counterparty, 25n)] }
+    ];
+    const connection = createMockConnection(owner, history);
+    const builder = new AuditReportBuilder(connection, auditorWallet);
+
+    console.log('Test 1: Decode confidential activity');
+    const decoded = decodeConfidentialActivity(
+      (await connection.getTransaction('transfer-2', { maxSupportedTransactionVersion: 0 }))!
+    );
+    assert(decoded.length === 2, 'Decodes every confidential instruction of a transaction');
+    assert(
+      decoded[0].type === 'deposit' && decoded[0].amount === 5n && decoded[0].decimals === 6,
+      'Decodes deposit amount and decimals'
+    );
+    assert(
+      decoded[1].type === 'transfer' && decoded[1].source.equals(counterparty) && decoded[1].instructionIndex === 1,
+      'Decodes transfer accounts and instruction index'
+    );
+    console.log('');
+
+    console.log('Test 2: Full history');
+    const report = await builder.build(auditorKey, account);
+    assert(
+      report.entries.map(entry => entry.type).join() === 'deposit,transfer-out,transfer-in,withdraw,transfer-out',
+      'Lists movements of the account oldest first'
+    );
+    assert(
+      report.entries.map(entry => entry.amount).join() === '1000000,300000,50000,200000,25',
+      'Decrypts transfer amounts and reads public amounts'
+    );
+    assert(
+      report.entries.map(entry => entry.balance).join() === '1000000,700000,750000,550000,549975',
+      'Tracks the running balance'
+    );
+    assert(report.closingBalance === 549_975n && report.openingBalance === 0n, 'Reports opening and closing balances');
+    assert(
+      report.entries[1].counterparty!.equals(counterparty) && report.entries[0].counterparty === null,
+      'Records transfer counterparties'
+    );
+    assert(report.entries[2].instructionIndex === 1, 'Ignores movements of other accounts in the same transaction');
+    assert(report.skippedSignatures.join() === 'foreign-auditor', 'Lists transfers the key cannot decrypt as skipped');
+    assert(!report.entries.some(entry => entry.signature === 'failed'), 'Ignores failed transactions');
+    assert(report.viewingKey.equals(auditorKey.publicKey) && report.signer.equals(auditorWallet.publicKey), 'Records the viewing key and signer');
+    console.log('');
+
+    console.log('Test 3: Slot range and opening balance');
+    const ranged = await builder.build(auditorKey, account, { fromSlot: 110, toSlot: 130, openingBalance: 1_000_000n });
+    assert(
+      ranged.entries.map(entry => entry.signature).join() === 'transfer-1,transfer-2,withdraw-1',
+      'Includes only signatures in the slot range'
+    );
+    assert(ranged.closingBalance === 550_000n, 'Starts the running balance from the opening balance');
+    assert(ranged.fromSlot === 110 && ranged.toSlot === 130, 'Records the slot range');
+    console.log('');
+
+    console.log('Test 4: Deterministic output');
+    const json = AuditReportBuilder.toJSON(report);
+    const csv = AuditReportBuilder.toCSV(report);
+    const again = await builder.build(auditorKey, account);
+    assert(AuditReportBuilder.toJSON(again) === json, 'Rebuilding produces identical JSON');
+    assert(AuditReportBuilder.toCSV(again) === csv, 'Rebuilding produces identical CSV');
+    const paged = await builder.build(auditorKey, account, { pageSize: 2 });
+    assert(AuditReportBuilder.toJSON(paged) === json, 'Signature paging does not change the report');
+
+    const parsed = JSON.parse(json);
+    assert(
+      parsed.entries[1].amount === '300000' && parsed.closingBalance === '549975',
+      'JSON encodes amounts as decimal strings'
+    );
+    assert(parsed.digest === Buffer.from(report.digest).toString('hex'), 'JSON includes the hex digest');
+
+    const lines = csv.trimEnd().split('\n');
+    const header = lines.findIndex(line => !line.startsWith('#'));
+    assert(
+      lines[header] === 'signature,slot,block_time,instruction_index,type,mint,counterparty,amount,balance',
+      'CSV has a header row'
+    );
+    assert(lines.length - header - 1 === report.entries.length, 'CSV has one row per entry');
+    assert(lines.slice(header + 1)[1] === [
+      'transfer-1', '110', '1700000110', '0', 'transfer-out', mint.toBase58(), counterparty.toBase58(), '300000', '700000'
+    ].join(','), 'CSV rows carry every column');
+    assert(lines.includes(`# digest: ${parsed.digest}`), 'CSV metadata includes the digest');
+    console.log('');
+
+    console.log('Test 5: Integrity digest');
+    assert(AuditReportBuilder.verify(report), 'Verifies an untouched report');
+    const tamperedEntries = report.entries.map((entry, index) => index === 1 ? { ...entry, amount: 3n } : entry);
+    assert(!AuditReportBuilder.verify({ ...report, entries: tamperedEntries }), 'Detects a tampered entry');
+    assert(!AuditReportBuilder.verify({ ...report, skippedSignatures: [] }), 'Detects removed skipped signatures');
+    assert(
+      !AuditReportBuilder.verify({ ...report, signer: Keypair.generate().publicKey }),
+      'Rejects a signature from another signer'
+    );
+    console.log('');
+
+    console.log('Test 6: Viewing key permissions');
+    const restricted: ViewingKey = {
+      ...auditorKey,
+      permissions: { ...auditorKey.permissions, allowedAccounts: [counterparty] }
+    };
+    const restrictedReport = await builder.build(restricted, account);
+    assert(
+      restrictedReport.entries.every(entry => entry.type.startsWith('transfer')),
+      'Includes only transfers with an allowed counterparty'
+    );
+    assert(
+      restrictedReport.skippedSignatures.join() === 'deposit-1,withdraw-1,foreign-auditor',
+      'Lists movements the key may not see as skipped'
+    );
+    await assertRejects(
+      () => builder.build({ ...auditorKey, expiresAt: Date.now() - 1000 }, account),
+      ViewingKeyError,
+      'Rejects an expired key'
+    );
+    await assertRejects(
+      () => builder.build({ ...auditorKey, permissions: { ...auditorKey.permissions, canViewAmounts: false } }, account),
+      ViewingKeyError,
+      'Rejects a key without permission to view amounts'
+    );
+    await assertRejects(
+      () => builder.build(auditorKey, account, { fromSlot: 200, toSlot: 100 }),
+      PrivacyError,
+      'Rejects an inverted slot range'
+    );
+    console.log('');
+
+    console.log('==============================');
+    console.log('📊 Test Summary');
+    console.log('==============================');
+    console.log(`Total tests: ${totalTests}`);
+    console.log(`Passed: ${passedTests} ✅`);
+    console.log(`Failed: ${failedTests} ❌`);
+
+    if (failedTests === 0) {
+      console.log('\n🎉 All audit report tests passed!');
+      process.exit(0);
+    } else {
+      console.log(`\n⚠️  ${failedTests} test(s) failed`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Test suite failed with error:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runAuditReportTests();
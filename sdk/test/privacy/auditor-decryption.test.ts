@@ -0,0 +1,303 @@
+/**
+ * auditor-decryption.test.ts
+ *
+ * Purpose: Tests for auditor-side decryption of confidential transfer amounts
+ *
+ * Builds confidential Transfer transactions whose amounts are encrypted under
+ * an auditor viewing key and serves them from a mock connection, so no network
+ * is needed.
+ *
+ * Run with: npm run test:auditor-decryption
+ */
+
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransactionResponse
+} from '@solana/web3.js';
+import { ViewingKeyManager } from '../../src/privacy/viewing-keys';
+import { EncryptionError } from '../../src/privacy/errors';
+import { encryptElGamal, splitAmountLoHi } from '../../src/privacy/elgamal';
+import { createConfidentialTransferInstruction } from '../../src/privacy/confidential-instructions';
+import { ZK_ELGAMAL_PROOF_PROGRAM_ID } from '../../src/privacy/proof-instructions';
+import { ConfidentialTransferActivity, decodeConfidentialActivity } from '../../src/privacy/confidential-activity';
+import { ViewingKey } from '../../src/privacy/types';
+import { ExtendedWalletAdapter } from '../../src/core/types';
+
+let passedTests = 0;
+let failedTests = 0;
+let totalTests = 0;
+
+function assert(condition: boolean, message: string) {
+  totalTests++;
+  if (condition) {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+  } else {
+    failedTests++;
+    console.error(`  ❌ ${message}`);
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function assertRejects(fn: () => Promise<unknown>, errorClass: Function, message: string) {
+  totalTests++;
+  try {
+    await fn();
+  } catch (error) {
+    if (error instanceof errorClass) {
+      passedTests++;
+      console.log(`  ✅ ${message}`);
+      return;
+    }
+    failedTests++;
+    console.error(`  ❌ ${message} (unexpected error: ${error})`);
+    throw new Error(`Unexpected error: ${message}`);
+  }
+  failedTests++;
+  console.error(`  ❌ ${message} (expected error but succeeded)`);
+  throw new Error(`Expected error but succeeded: ${message}`);
+}
+
+function createMockWallet(keypair: Keypair): ExtendedWalletAdapter {
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction: async <T extends Transaction>(tx: T) => {
+      tx.partialSign(keypair);
+      return tx;
+    },
+    signAllTransactions: async <T extends Transaction>(txs: T[]) => {
+      txs.forEach(tx => tx.partialSign(keypair));
+      return txs;
+    },
+    rawKeypair: keypair
+  } as ExtendedWalletAdapter;
+}
+
+/**
+ * Mock connection serving fixed transactions by signature
+ */
+function createMockConnection(transactions: Map<string, VersionedTransactionResponse>): Connection {
+  return {
+    getTransaction: async (signature: string) => transactions.get(signature) ?? null
+  } as unknown as Connection;
+}
+
+/**
+ * Build a transaction response for the given instructions
+ */
+function createTransactionResponse(
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  slot: number
+): VersionedTransactionResponse {
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: new PublicKey(new Uint8Array(32).fill(7)).toBase58(),
+    instructions
+  }).compileToV0Message();
+
+  return {
+    slot,
+    blockTime: null,
+    transaction: { message, signatures: [] },
+    meta: { err: null, fee: 5000, preBalances: [], postBalances: [], loadedAddresses: { writable: [], readonly: [] } }
+  } as unknown as VersionedTransactionResponse;
+}
+
+/**
+ * Confidential Transfer instruction with the amount encrypted for the auditor
+ */
+function createAuditedTransferInstruction(
+  source: PublicKey,
+  mint: PublicKey,
+  destination: PublicKey,
+  owner: PublicKey,
+  amount: bigint,
+  auditorElGamalPubkey: Uint8Array
+): TransactionInstruction {
+  const { lo, hi } = splitAmountLoHi(amount);
+  return createConfidentialTransferInstruction(
+    source,
+    mint,
+    destination,
+    new Uint8Array(36),
+    encryptElGamal(auditorElGamalPubkey, lo).ciphertext,
+    encryptElGamal(auditorElGamalPubkey, hi).ciphertext,
+    owner,
+    { type: 'contextState', account: Keypair.generate().publicKey },
+    { type: 'contextState', account: Keypair.generate().publicKey },
+    { type: 'contextState', account: Keypair.generate().publicKey }
+  );
+}
+
+async function runAuditorDecryptionTests() {
+  console.log('🔐 Starting Auditor Transfer Decryption Tests');
+  console.log('=============================================\n');
+
+  try {
+    const owner = Keypair.generate();
+    const auditorWallet = createMockWallet(Keypair.generate());
+    const mint = Keypair.generate().publicKey;
+    const otherMint = Keypair.generate().publicKey;
+    const source = Keypair.generate().publicKey;
+    const destination = Keypair.generate().publicKey;
+
+    // The auditor derives an ElGamal key for the mint and configures its public key as the mint's auditor
+    const auditorKeys = new ViewingKeyManager(auditorWallet);
+    const auditorKey = await auditorKeys.generateViewingKey(mint);
+    const auditorElGamalPubkey = auditorKey.publicKey.toBytes();
+
+    const amount = 123_456_789n;
+    const transactions = new Map<string, VersionedTransactionResponse>([
+      ['transfer', createTransactionResponse(owner.publicKey, [
+        createAuditedTransferInstruction(source, mint, destination, owner.publicKey, amount, auditorElGamalPubkey)
+      ], 4242)],
+      ['transfer-with-proofs', createTransactionResponse(owner.publicKey, [
+        new TransactionInstruction({ keys: [], programId: ZK_ELGAMAL_PROOF_PROGRAM_ID, data: Buffer.from([6]) }),
+        createAuditedTransferInstruction(source, mint, destination, owner.publicKey, 7n, auditorElGamalPubkey)
+      ], 4243)],
+      ['other-mint-transfer', createTransactionResponse(owner.publicKey, [
+        createAuditedTransferInstruction(
+          source,
+          otherMint,
+          destination,
+          owner.publicKey,
+          amount,
+          (await auditorKeys.generateViewingKey(otherMint)).publicKey.toBytes()
+        )
+      ], 4244)],
+      ['two-transfers', createTransactionResponse(owner.publicKey, [
+        createAuditedTransferInstruction(source, mint, destination, owner.publicKey, 11n, auditorElGamalPubkey),
+        createAuditedTransferInstruction(destination, mint, source, owner.publicKey, 22n, auditorElGamalPubkey)
+      ], 4246)],
+      ['no-transfer', createTransactionResponse(owner.publicKey, [
+        new TransactionInstruction({ keys: [], programId: ZK_ELGAMAL_PROOF_PROGRAM_ID, data: Buffer.from([6]) })
+      ], 4245)]
+    ]);
+    const manager = new ViewingKeyManager(auditorWallet, createMockConnection(transactions));
+
+    console.log('Test 1: Decrypt a confidential transfer');
+    const audited = await manager.decryptTransactionAmount('transfer', auditorKey);
+    assert(audited.amount === amount, 'Decrypts the auditor ciphertext to the transferred amount');
+    assert(audited.source.equals(source), 'Returns the source account');
+    assert(audited.destination.equals(destination), 'Returns the destination account');
+    assert(audited.mint.equals(mint), 'Returns the mint');
+    assert(audited.slot === 4242, 'Returns the slot');
+    assert(audited.signature === 'transfer', 'Returns the signature');
+
+    const small = await manager.decryptTransactionAmount('transfer-with-proofs', auditorKey);
+    assert(small.amount === 7n && small.slot === 4243, 'Finds the transfer after other instructions');
+
+    let multipleError: unknown;
+    try {
+      await manager.decryptTransactionAmount('two-transfers', auditorKey);
+    } catch (error) {
+      multipleError = error;
+    }
+    assert(
+      multipleError instanceof EncryptionError && /contains 2 confidential transfers/.test(multipleError.message),
+      'Rejects a transaction with several transfers instead of dropping all but one'
+    );
+    const decoded = decodeConfidentialActivity(transactions.get('two-transfers')!)
+      .filter((activity): activity is ConfidentialTransferActivity => activity.type === 'transfer');
+    const amounts = await Promise.all(decoded.map(transfer => manager.decryptTransferAmount(transfer, auditorKey)));
+    assert(amounts.join() === '11,22', 'Each transfer of the transaction can be decrypted with decryptTransferAmount');
+    console.log('');
+
+    console.log('Test 2: Allowed accounts');
+    const restrictedTo = (accounts: PublicKey[]): ViewingKey => ({
+      ...auditorKey,
+      permissions: { ...auditorKey.permissions, allowedAccounts: accounts }
+    });
+    assert(
+      (await manager.decryptTransactionAmount('transfer', restrictedTo([source]))).amount === amount,
+      'A key restricted to the source can decrypt'
+    );
+    assert(
+      (await manager.decryptTransactionAmount('transfer', restrictedTo([destination]))).amount === amount,
+      'A key restricted to the destination can decrypt'
+    );
+    assert(
+      (await manager.decryptTransactionAmount('transfer', restrictedTo([]))).amount === amount,
+      'A key without account restrictions can decrypt'
+    );
+    await assertRejects(
+      () => manager.decryptTransactionAmount('transfer', restrictedTo([Keypair.generate().publicKey])),
+      EncryptionError,
+      'Rejects a key restricted to unrelated accounts'
+    );
+    console.log('');
+
+    console.log('Test 3: Expiry and permissions');
+    await assertRejects(
+      () => manager.decryptTransactionAmount('transfer', { ...auditorKey, expiresAt: Date.now() - 1000 }),
+      EncryptionError,
+      'Rejects an expired key'
+    );
+    const revokedKey = await manager.revokeViewingKey(auditorKey);
+    await assertRejects(
+      () => manager.decryptTransactionAmount('transfer', revokedKey),
+      EncryptionError,
+      'Rejects a revoked key'
+    );
+    await assertRejects(
+      () => manager.decryptTransactionAmount('transfer', {
+        ...auditorKey,
+        permissions: { ...auditorKey.permissions, canViewAmounts: false }
+      }),
+      EncryptionError,
+      'Rejects a key without permission to view amounts'
+    );
+    console.log('');
+
+    console.log('Test 4: Wrong key and invalid transactions');
+    await assertRejects(
+      () => manager.decryptTransactionAmount('other-mint-transfer', restrictedTo([])),
+      EncryptionError,
+      "Cannot decrypt transfers audited by another mint's key"
+    );
+    await assertRejects(
+      () => manager.decryptTransactionAmount('no-transfer', auditorKey),
+      EncryptionError,
+      'Rejects a transaction without a confidential transfer'
+    );
+    await assertRejects(
+      () => manager.decryptTransactionAmount('missing', auditorKey),
+      EncryptionError,
+      'Rejects an unknown signature'
+    );
+    await assertRejects(
+      () => auditorKeys.decryptTransactionAmount('transfer', auditorKey),
+      EncryptionError,
+      'Requires a connection'
+    );
+    console.log('');
+
+    console.log('=============================================');
+    console.log('📊 Test Summary');
+    console.log('=============================================');
+    console.log(`Total tests: ${totalTests}`);
+    console.log(`Passed: ${passedTests} ✅`);
+    console.log(`Failed: ${failedTests} ❌`);
+
+    if (failedTests === 0) {
+      console.log('\n🎉 All auditor decryption tests passed!');
+      process.exit(0);
+    } else {
+      console.log(`\n⚠️  ${failedTests} test(s) failed`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Test suite failed with error:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runAuditorDecryptionTests();
@@ -0,0 +1,436 @@
+/**
+ * authenticated-announcements.test.ts
+ *
+ * Purpose: Tests for authenticated stealth announcements and spam filters
+ *
+ * Covers the v3 memo format (`STEALTH:<key>:v3:<view_tag>:<commitment>`)
+ * written by the payment builders, `scanForPayments` checking the commitment
+ * against the verified transfer (dropping spoofed and replayed
+ * announcements), and the scanner's spam filters: sender denylist, per-slot
+ * cap, required commitments and minimum amount, also on cached scans.
+ *
+ * Run with: npm run test:authenticated-announcements
+ */
+
+import { Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { ZeraPrivacy } from '../../src/privacy/zera-privacy';
+import { StealthAddressManager } from '../../src/privacy/stealth-address';
+import {
+  BlockchainScanner,
+  MEMO_PROGRAM_ID,
+  ScannerConfig,
+  createAuthenticatedAnnouncementMetadata,
+  createStealthAddressMemo,
+  createViewTagMetadata
+} from '../../src/privacy/blockchain-scanner';
+import { AnnouncementFixture, InMemoryAnnouncementSource } from '../../src/privacy/announcement-source';
+import { InMemoryScanCursorStore } from '../../src/privacy/scan-cursor';
+import { PrivacyError } from '../../src/privacy/errors';
+import { EphemeralKey } from '../../src/privacy/types';
+import { ExtendedWalletAdapter } from '../../src/core/types';
+
+let passedTests = 0;
+let failedTests = 0;
+let totalTests = 0;
+
+function assert(condition: boolean, message: string) {
+  totalTests++;
+  if (condition) {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+  } else {
+    failedTests++;
+    console.error(`  ❌ ${message}`);
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertThrows(fn: () => unknown, errorClass: Function, message: string) {
+  totalTests++;
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof errorClass) {
+      passedTests++;
+      console.log(`  ✅ ${message}`);
+      return;
+    }
+    failedTests++;
+    console.error(`  ❌ ${message} (unexpected error: ${error})`);
+    throw new Error(`Unexpected error: ${message}`);
+  }
+  failedTests++;
+  console.error(`  ❌ ${message} (expected error but succeeded)`);
+  throw new Error(`Expected error but succeeded: ${message}`);
+}
+
+function createMockWallet(keypair: Keypair): ExtendedWalletAdapter {
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction: async <T extends Transaction>(tx: T) => {
+      tx.partialSign(keypair);
+      return tx;
+    },
+    signAllTransactions: async <T extends Transaction>(txs: T[]) => {
+      txs.forEach(tx => tx.partialSign(keypair));
+      return txs;
+    },
+    rawKeypair: keypair
+  } as ExtendedWalletAdapter;
+}
+
+/**
+ * Parsed transaction paying `lamports` (and optionally tokens) to `recipient`
+ */
+function parsedPayment(
+  recipient: PublicKey,
+  lamports: number,
+  token?: { mint: PublicKey; amount: bigint }
+) {
+  const sender = Keypair.generate().publicKey;
+  const tokenAccount = Keypair.generate().publicKey;
+  return {
+    slot: 100,
+    blockTime: 1_700_000_000,
+    transaction: {
+      signatures: [],
+      message: {
+        accountKeys: [
+          { pubkey: sender, signer: true, writable: true },
+          { pubkey: recipient, signer: false, writable: true },
+          { pubkey: tokenAccount, signer: false, writable: true }
+        ],
+        instructions: []
+      }
+    },
+    meta: {
+      err: null,
+      fee: 5000,
+      preBalances: [10_000_000, 0, 0],
+      postBalances: [10_000_000 - lamports - 5000, lamports, 0],
+      preTokenBalances: [],
+      postTokenBalances: token
+        ? [
+            {
+              accountIndex: 2,
+              mint: token.mint.toBase58(),
+              owner: recipient.toBase58(),
+              programId: TOKEN_PROGRAM_ID.toBase58(),
+              uiTokenAmount: { amount: token.amount.toString(), decimals: 6, uiAmount: null, uiAmountString: '' }
+            }
+          ]
+        : []
+    }
+  };
+}
+
+/**
+ * Connection serving parsed transactions by signature (no later history)
+ */
+function createMockConnection(transactions: Map<string, unknown>): Connection {
+  return {
+    getSlot: async () => 1000,
+    getSignaturesForAddress: async () => [],
+    getParsedTransaction: async (signature: string) => transactions.get(signature) ?? null
+  } as unknown as Connection;
+}
+
+/**
+ * Connection whose announcer program history holds one memo transaction per
+ * sender, newest first, all at `slot`
+ */
+function createAnnouncerConnection(slot: number, announcements: { signature: string; memo: string; sender: PublicKey }[]): Connection {
+  const transactions = new Map(announcements.map(({ signature, memo, sender }) => [signature, {
+    slot,
+    blockTime: null,
+    transaction: {
+      signatures: [signature],
+      message: {
+        accountKeys: [{ pubkey: sender, signer: true, writable: true }],
+        instructions: [{ program: 'spl-memo', programId: MEMO_PROGRAM_ID, parsed: memo }]
+      }
+    },
+    meta: { err: null }
+  }]));
+  return {
+    getSlot: async () => slot,
+    getSignaturesForAddress: async (address: PublicKey, options: { before?: string } = {}) =>
+      address.equals(MEMO_PROGRAM_ID) && !options.before
+        ? announcements.map(({ signature }) => ({ signature, slot, err: null, memo: null, blockTime: null }))
+        : [],
+    getParsedTransactions: async (signatures: string[]) => signatures.map(signature => transactions.get(signature) ?? null),
+    getParsedTransaction: async (signature: string) => transactions.get(signature) ?? null
+  } as unknown as Connection;
+}
+
+/**
+ * Ephemeral key as the scanner extracts it from a memo
+ */
+function scannedKey(scanner: BlockchainScanner, memo: string, signature: string): EphemeralKey {
+  const announcement = scanner.parseStealthAnnouncement(memo)!;
+  return {
+    publicKey: announcement.ephemeralPublicKey,
+    encryptedPrivateKey: new Uint8Array(0),
+    transactionSignature: signature,
+    createdAt: 0,
+    viewTag: announcement.viewTag,
+    commitment: announcement.commitment
+  };
+}
+
+async function runAuthenticatedAnnouncementTests() {
+  console.log('🛡️  Starting Authenticated Announcement Tests');
+  console.log('=================================================\n');
+
+  try {
+    const manager = new StealthAddressManager();
+    const scanner = new BlockchainScanner();
+    const viewKeypair = Keypair.generate();
+    const spendKeypair = Keypair.generate();
+    const metaAddress = manager.generateStealthMetaAddress(viewKeypair, spendKeypair);
+    const payer = Keypair.generate().publicKey;
+    const mint = Keypair.generate().publicKey;
+
+    console.log('Test 1: v3 memo format');
+    const built = manager.buildStealthPaymentTransaction(payer, metaAddress, 2_000_000);
+    const commitment = built.ephemeralKey.commitment!;
+    assert(commitment.length === 16, 'Payments carry a 16-byte commitment');
+    assert(
+      built.memo ===
+        `STEALTH:${built.ephemeralKey.publicKey.toBase58()}:` +
+          createAuthenticatedAnnouncementMetadata(built.ephemeralKey.viewTag!, commitment),
+      'The memo publishes the view tag and commitment'
+    );
+    const parsed = scanner.parseStealthAnnouncement(built.memo);
+    assert(
+      parsed?.version === 3 &&
+        parsed.viewTag === built.ephemeralKey.viewTag &&
+        Buffer.from(parsed.commitment!).equals(Buffer.from(commitment)),
+      'Parses the view tag and commitment of a v3 memo'
+    );
+
+    const key = Keypair.generate().publicKey.toBase58();
+    const hex = 'ab'.repeat(16);
+    assert(scanner.parseStealthAnnouncement(`STEALTH:${key}:v3:0f`) === null, 'Rejects v3 memos without a commitment');
+    assert(scanner.parseStealthAnnouncement(`STEALTH:${key}:v3:0f:${hex.slice(2)}`) === null, 'Rejects short commitments');
+    assert(scanner.parseStealthAnnouncement(`STEALTH:${key}:v3:0f:${'zz'.repeat(16)}`) === null, 'Rejects non-hex commitments');
+    assert(scanner.parseStealthAnnouncement(`STEALTH:${key}:v3:0f:${hex}:x`) === null, 'Rejects trailing fields');
+    assertThrows(
+      () => createAuthenticatedAnnouncementMetadata(1, new Uint8Array(8)),
+      PrivacyError,
+      'Rejects commitments of the wrong length'
+    );
+    assertThrows(
+      () => createAuthenticatedAnnouncementMetadata(300, new Uint8Array(16)),
+      PrivacyError,
+      'Rejects invalid view tags'
+    );
+
+    const { sharedSecret } = (await manager.scanForPayments(metaAddress, viewKeypair.secretKey, [built.ephemeralKey]))[0];
+    const address = built.stealthAddress.address;
+    const base = Buffer.from(manager.computeAnnouncementCommitment(sharedSecret, address, 2_000_000n));
+    assert(base.equals(Buffer.from(commitment)), 'The recipient recomputes the commitment after ECDH');
+    assert(
+      !base.equals(Buffer.from(manager.computeAnnouncementCommitment(sharedSecret, address, 2_000_001n))) &&
+        !base.equals(Buffer.from(manager.computeAnnouncementCommitment(sharedSecret, address, 2_000_000n, mint))) &&
+        !base.equals(Buffer.from(manager.computeAnnouncementCommitment(sharedSecret, payer, 2_000_000n))),
+      'The commitment binds the amount, mint and stealth address'
+    );
+    console.log('');
+
+    console.log('Test 2: Checking commitments against the transfer');
+    const tokenBuilt = manager.buildStealthTokenPaymentTransaction(payer, metaAddress, mint, 750_000n, 6);
+    const legacy = manager.generateStealthAddress(metaAddress);
+    const legacyMemo = createStealthAddressMemo(
+      legacy.ephemeralKey.publicKey,
+      createViewTagMetadata(legacy.ephemeralKey.viewTag!)
+    );
+    const forged = manager.generateStealthAddress(metaAddress);
+    const forgedMemo = createStealthAddressMemo(
+      forged.ephemeralKey.publicKey,
+      createAuthenticatedAnnouncementMetadata(forged.ephemeralKey.viewTag!, new Uint8Array(16).fill(7))
+    );
+
+    const transactions = new Map<string, unknown>([
+      ['auth-genuine', parsedPayment(address, 2_000_000)],
+      ['auth-replayed', parsedPayment(address, 1_000)],
+      ['auth-token', parsedPayment(tokenBuilt.stealthAddress.address, 0, { mint, amount: 750_000n })],
+      ['auth-legacy', parsedPayment(legacy.stealthAddress.address, 3_000)],
+      ['auth-forged', parsedPayment(forged.stealthAddress.address, 5_000_000)]
+    ]);
+    const connection = createMockConnection(transactions);
+    const keys = [
+      scannedKey(scanner, built.memo, 'auth-genuine'),
+      scannedKey(scanner, built.memo, 'auth-replayed'),
+      scannedKey(scanner, tokenBuilt.memo, 'auth-token'),
+      scannedKey(scanner, legacyMemo, 'auth-legacy'),
+      scannedKey(scanner, forgedMemo, 'auth-forged')
+    ];
+
+    const payments = await manager.scanForPayments(metaAddress, viewKeypair.secretKey, keys, connection);
+    const bySignature = (signature: string) => payments.find(payment => payment.transactionSignature === signature);
+    assert(bySignature('auth-genuine')?.authenticated === true, 'Accepts a SOL payment matching its commitment');
+    assert(bySignature('auth-token')?.authenticated === true, 'Accepts a token payment matching its commitment');
+    assert(!bySignature('auth-replayed'), 'Drops a genuine announcement replayed with a different amount');
+    assert(!bySignature('auth-forged'), 'Drops an announcement with a forged commitment');
+    assert(bySignature('auth-legacy')?.authenticated === false, 'Keeps v2 announcements, marked unauthenticated');
+    assert(payments.length === 3, 'Returns nothing else');
+
+    const strict = await manager.scanForPayments(metaAddress, viewKeypair.secretKey, keys, connection, {
+      requireCommitment: true
+    });
+    assert(strict.length === 2 && strict.every(payment => payment.authenticated), 'requireCommitment drops v1 and v2 announcements');
+
+    const minimum = await manager.scanForPayments(metaAddress, viewKeypair.secretKey, keys, connection, {
+      minLamports: 10_000
+    });
+    assert(
+      minimum.length === 2 && !minimum.some(payment => payment.transactionSignature === 'auth-legacy'),
+      'minLamports drops dust payments but not token payments'
+    );
+    console.log('');
+
+    console.log('Test 3: Scanner spam filters');
+    const spammer = Keypair.generate().publicKey;
+    const memo = () => manager.buildStealthPaymentTransaction(payer, metaAddress, 1_000).memo;
+    const fixture = (signature: string, slot: number, memos: string[], sender = payer): AnnouncementFixture => ({
+      signature,
+      slot,
+      blockTime: null,
+      memos,
+      sender: sender.toBase58(),
+      addresses: [MEMO_PROGRAM_ID]
+    });
+    const flood = [memo(), memo(), memo()];
+    const source = new InMemoryAnnouncementSource([
+      fixture('spam-1', 10, [memo()], spammer),
+      fixture('flood-1', 20, [flood[0]]),
+      fixture('flood-2', 20, [flood[1], flood[2]]),
+      fixture('legacy-1', 30, [legacyMemo]),
+      fixture('plain-1', 40, [memo()])
+    ]);
+    const scanWith = (config: ScannerConfig) =>
+      new BlockchainScanner({ ...config, announcementSource: source, cursorStore: new InMemoryScanCursorStore() })
+        .scanForEphemeralKeys(createMockConnection(new Map()), undefined, 1);
+
+    const unfiltered = await scanWith({});
+    assert(unfiltered.ephemeralKeys.length === 6, 'Returns every announcement without filters');
+
+    const denied = await scanWith({ spamFilter: { senderDenylist: [spammer] } });
+    assert(
+      denied.ephemeralKeys.length === 5 && !denied.ephemeralKeys.some(key => key.transactionSignature === 'spam-1'),
+      'Drops transactions paid for by denylisted senders'
+    );
+
+    const capped = await scanWith({ spamFilter: { maxAnnouncementsPerSlot: 2 } });
+    const flooded = capped.ephemeralKeys.filter(key => key.transactionSignature.startsWith('flood'));
+    const floodKey = (memoText: string) => scanner.parseStealthAnnouncement(memoText)!.ephemeralPublicKey;
+    assert(
+      flooded.length === 2 && flooded.some(key => key.publicKey.equals(floodKey(flood[0]))) &&
+        flooded.some(key => key.publicKey.equals(floodKey(flood[1]))) &&
+        !flooded.some(key => key.publicKey.equals(floodKey(flood[2]))),
+      'Keeps the first announcements of a flooded slot'
+    );
+    assert(capped.ephemeralKeys.length === 5, 'Leaves other slots alone');
+    assert(
+      capped.transactionsScanned === unfiltered.transactionsScanned && capped.cursor?.signature === 'plain-1',
+      'Filtered transactions still count as scanned and move the cursor'
+    );
+
+    const required = await scanWith({ spamFilter: { requireCommitment: true } });
+    assert(
+      required.ephemeralKeys.length === 5 && required.ephemeralKeys.every(key => key.commitment),
+      'requireCommitment drops announcements without a commitment'
+    );
+    const requiredScanner = new BlockchainScanner({ spamFilter: { requireCommitment: true } });
+    const logs = (memoText: string) => ({
+      signature: 'auth-logs',
+      err: null,
+      logs: [`Program log: Memo (len ${memoText.length}): "${memoText}"`]
+    });
+    assert(
+      requiredScanner.extractEphemeralKeysFromLogs(logs(legacyMemo)).length === 0 &&
+        requiredScanner.extractEphemeralKeysFromLogs(logs(built.memo)).length === 1,
+      'requireCommitment applies to live logs'
+    );
+
+    // Scanners without a cursor store share the global scan cache
+    const cachedConnection = createAnnouncerConnection(7_777, [
+      { signature: 'cached-spam', memo: memo(), sender: spammer },
+      { signature: 'cached-plain', memo: memo(), sender: payer }
+    ]);
+    const filteredFirst = await new BlockchainScanner({ spamFilter: { senderDenylist: [spammer] } })
+      .scanForEphemeralKeys(cachedConnection, undefined, 7_000);
+    const unfilteredAfter = await new BlockchainScanner().scanForEphemeralKeys(cachedConnection, undefined, 7_000);
+    const filteredAfter = await new BlockchainScanner({ spamFilter: { senderDenylist: [spammer] } })
+      .scanForEphemeralKeys(cachedConnection, undefined, 7_000);
+    assert(
+      filteredFirst.ephemeralKeys.length === 1 && unfilteredAfter.ephemeralKeys.length === 2,
+      'A cached filtered scan does not hide announcements from unfiltered scanners'
+    );
+    assert(
+      filteredAfter.ephemeralKeys.length === 1 && filteredAfter.ephemeralKeys[0].transactionSignature === 'cached-plain',
+      'Cached results still go through the spam filter'
+    );
+    console.log('');
+
+    console.log('Test 4: ZeraPrivacy with spam filters');
+    const zeraSource = new InMemoryAnnouncementSource([
+      fixture('zera-genuine', 500, [built.memo]),
+      fixture('zera-legacy', 510, [legacyMemo]),
+      fixture('zera-spam', 520, [tokenBuilt.memo], spammer)
+    ]);
+    const privacy = new ZeraPrivacy();
+    await privacy.init(
+      createMockConnection(
+        new Map<string, unknown>([
+          ['zera-genuine', parsedPayment(address, 2_000_000)],
+          ['zera-legacy', parsedPayment(legacy.stealthAddress.address, 3_000)],
+          ['zera-spam', parsedPayment(tokenBuilt.stealthAddress.address, 0, { mint, amount: 750_000n })]
+        ])
+      ),
+      createMockWallet(Keypair.generate()),
+      {
+        mode: 'privacy',
+        scanner: {
+          announcementSource: zeraSource,
+          cursorStore: new InMemoryScanCursorStore(),
+          spamFilter: { senderDenylist: [spammer], minLamports: 10_000 }
+        }
+      }
+    );
+    const found = await privacy.scanBlockchainForPayments(metaAddress, viewKeypair.secretKey, { startSlot: 400 });
+    assert(
+      found.length === 1 && found[0].transactionSignature === 'zera-genuine' && found[0].authenticated === true,
+      'Applies the configured filters to blockchain scans'
+    );
+    const direct = await privacy.scanForPayments(metaAddress, viewKeypair.secretKey, [
+      scannedKey(scanner, legacyMemo, 'zera-legacy')
+    ]);
+    assert(direct.length === 0, 'scanForPayments applies minLamports too');
+    console.log('');
+
+    console.log('=================================================');
+    console.log('📊 Test Summary');
+    console.log('=================================================');
+    console.log(`Total tests: ${totalTests}`);
+    console.log(`Passed: ${passedTests} ✅`);
+    console.log(`Failed: ${failedTests} ❌`);
+
+    if (failedTests === 0) {
+      console.log('\n🎉 All authenticated announcement tests passed!');
+      process.exit(0);
+    } else {
+      console.log(`\n⚠️  ${failedTests} test(s) failed`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Test suite failed with error:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runAuthenticatedAnnouncementTests();
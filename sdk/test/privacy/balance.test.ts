@@ -0,0 +1,440 @@
+/**
+ * balance.test.ts
+ *
+ * Purpose: Tests for reading, decrypting and applying confidential balances
+ *
+ * Serves Token 2022 account and mint data with the confidential transfer
+ * extensions from a mock connection, so no network is needed. Transactions
+ * are captured instead of sent.
+ *
+ * Run with: npm run test:balance
+ */
+
+import { AccountInfo, Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  AccountState,
+  AccountType,
+  ExtensionType,
+  MintLayout,
+  TOKEN_2022_PROGRAM_ID
+} from '@solana/spl-token';
+import { ConfidentialTransferManager } from '../../src/privacy/confidential-transfer';
+import { ConfidentialAccountError, ConfidentialTransferError, ProofGenerationError } from '../../src/privacy/errors';
+import { encryptElGamal } from '../../src/privacy/elgamal';
+import { aeDecrypt, aeEncrypt } from '../../src/privacy/authenticated-encryption';
+import { ConfidentialTransferInstruction } from '../../src/privacy/confidential-instructions';
+import { ProofInstruction, ZK_ELGAMAL_PROOF_PROGRAM_ID } from '../../src/privacy/proof-instructions';
+import { verifyZKProof } from '../../src/privacy/confidential-proofs';
+import { deriveConfidentialAccountKeys } from '../../src/privacy/key-derivation';
+import { CONFIDENTIAL_TRANSFER_ACCOUNT_LEN } from '../../src/privacy/confidential-state';
+import { ExtendedWalletAdapter } from '../../src/core/types';
+
+let passedTests = 0;
+let failedTests = 0;
+let totalTests = 0;
+
+function assert(condition: boolean, message: string) {
+  totalTests++;
+  if (condition) {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+  } else {
+    failedTests++;
+    console.error(`  ❌ ${message}`);
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function assertRejects(fn: () => Promise<unknown>, errorClass: Function, message: string) {
+  totalTests++;
+  try {
+    await fn();
+  } catch (error) {
+    if (error instanceof errorClass) {
+      passedTests++;
+      console.log(`  ✅ ${message}`);
+      return;
+    }
+    failedTests++;
+    console.error(`  ❌ ${message} (unexpected error: ${error})`);
+    throw new Error(`Unexpected error: ${message}`);
+  }
+  failedTests++;
+  console.error(`  ❌ ${message} (expected error but succeeded)`);
+  throw new Error(`Expected error but succeeded: ${message}`);
+}
+
+function createMockWallet(keypair: Keypair): ExtendedWalletAdapter {
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction: async <T extends Transaction>(tx: T) => {
+      tx.partialSign(keypair);
+      return tx;
+    },
+    signAllTransactions: async <T extends Transaction>(txs: T[]) => {
+      txs.forEach(tx => tx.partialSign(keypair));
+      return txs;
+    },
+    rawKeypair: keypair
+  } as ExtendedWalletAdapter;
+}
+
+/**
+ * Mock connection serving fixed account data and capturing sent transactions
+ */
+function createMockConnection(accounts: Map<string, Buffer>, sent: Transaction[] = []): Connection {
+  return {
+    getAccountInfo: async (address: PublicKey): Promise<AccountInfo<Buffer> | null> => {
+      const data = accounts.get(address.toBase58());
+      return data
+        ? { data, owner: TOKEN_2022_PROGRAM_ID, lamports: 1, executable: false, rentEpoch: 0 }
+        : null;
+    },
+    getMinimumBalanceForRentExemption: async () => 1_000_000,
+    getLatestBlockhash: async () => ({
+      blockhash: new PublicKey(new Uint8Array(32).fill(7)).toBase58(),
+      lastValidBlockHeight: 100
+    }),
+    sendRawTransaction: async (raw: Buffer) => {
+      sent.push(Transaction.from(raw));
+      return `signature-${sent.length}`;
+    },
+    confirmTransaction: async () => ({ context: { slot: 1 }, value: { err: null } })
+  } as unknown as Connection;
+}
+
+/**
+ * Encode a single TLV extension entry
+ */
+function tlv(type: ExtensionType, data: Uint8Array): Buffer {
+  const entry = Buffer.alloc(4 + data.length);
+  entry.writeUInt16LE(type, 0);
+  entry.writeUInt16LE(data.length, 2);
+  entry.set(data, 4);
+  return entry;
+}
+
+/**
+ * Token 2022 account data: base account || account type || extensions
+ */
+function encodeTokenAccount(mint: PublicKey, owner: PublicKey, amount: bigint, extensions: Buffer[]): Buffer {
+  const base = Buffer.alloc(ACCOUNT_SIZE);
+  AccountLayout.encode({
+    mint,
+    owner,
+    amount,
+    delegateOption: 0,
+    delegate: PublicKey.default,
+    state: AccountState.Initialized,
+    isNativeOption: 0,
+    isNative: 0n,
+    delegatedAmount: 0n,
+    closeAuthorityOption: 0,
+    closeAuthority: PublicKey.default
+  }, base);
+  return Buffer.concat([base, Buffer.from([AccountType.Account]), ...extensions]);
+}
+
+/**
+ * Token 2022 mint data: base mint || padding to account size || account type
+ */
+function encodeMint(decimals: number): Buffer {
+  const base = Buffer.alloc(ACCOUNT_SIZE);
+  MintLayout.encode({
+    mintAuthorityOption: 0,
+    mintAuthority: PublicKey.default,
+    supply: 0n,
+    decimals,
+    isInitialized: true,
+    freezeAuthorityOption: 0,
+    freezeAuthority: PublicKey.default
+  }, base);
+  return Buffer.concat([base, Buffer.from([AccountType.Mint])]);
+}
+
+/**
+ * ConfidentialTransferAccount extension data
+ */
+function encodeConfidentialTransferAccount(
+  elgamalPubkey: Uint8Array,
+  pendingLo: Uint8Array,
+  pendingHi: Uint8Array,
+  available: Uint8Array,
+  decryptableAvailable: Uint8Array,
+  pendingCreditCounter: bigint = 0n
+): Uint8Array {
+  const data = new Uint8Array(CONFIDENTIAL_TRANSFER_ACCOUNT_LEN);
+  data[0] = 1;
+  data.set(elgamalPubkey, 1);
+  data.set(pendingLo, 33);
+  data.set(pendingHi, 97);
+  data.set(available, 161);
+  data.set(decryptableAvailable, 225);
+  data[261] = 1;
+  data[262] = 1;
+  new DataView(data.buffer).setBigUint64(263, pendingCreditCounter, true);
+  new DataView(data.buffer).setBigUint64(271, 65536n, true);
+  return data;
+}
+
+async function runBalanceTests() {
+  console.log('🔐 Starting Confidential Balance Tests');
+  console.log('======================================\n');
+
+  try {
+    const owner = Keypair.generate();
+    const wallet = createMockWallet(owner);
+    const mint = Keypair.generate().publicKey;
+    const account = Keypair.generate().publicKey;
+    const plainAccount = Keypair.generate().publicKey;
+    const foreignAccount = Keypair.generate().publicKey;
+    const missingAccount = Keypair.generate().publicKey;
+
+    const { elGamal, aeKey } = await deriveConfidentialAccountKeys(wallet, account);
+    // pending = 300 + 2 * 2^16 (lo and hi are credited separately)
+    const extension = encodeConfidentialTransferAccount(
+      elGamal.publicKey,
+      encryptElGamal(elGamal.publicKey, 300n).ciphertext,
+      encryptElGamal(elGamal.publicKey, 2n).ciphertext,
+      encryptElGamal(elGamal.publicKey, 1_500_000n).ciphertext,
+      aeEncrypt(aeKey, 1_500_000n),
+      3n
+    );
+
+    const accounts = new Map<string, Buffer>([
+      [mint.toBase58(), encodeMint(6)],
+      [account.toBase58(), encodeTokenAccount(mint, owner.publicKey, 42n, [
+        tlv(ExtensionType.ConfidentialTransferAccount, extension)
+      ])],
+      [plainAccount.toBase58(), encodeTokenAccount(mint, owner.publicKey, 7n, [])],
+      [foreignAccount.toBase58(), encodeTokenAccount(mint, Keypair.generate().publicKey, 0n, [
+        tlv(ExtensionType.ConfidentialTransferAccount, extension)
+      ])]
+    ]);
+    const sent: Transaction[] = [];
+    const manager = new ConfidentialTransferManager(createMockConnection(accounts, sent), wallet, 'never');
+
+    // Test 1: balances are decrypted
+    console.log('Test 1: decrypt a confidential balance');
+    {
+      const balance = await manager.getBalance(account);
+      assert(balance.available === 1_500_000n, 'Available balance is decrypted from the AE ciphertext');
+      assert(balance.pending === 300n + 2n * 65536n, 'Pending balance combines the lo/hi ciphertexts');
+      assert(balance.public === 42n, 'Public balance is the token account amount');
+      assert(balance.decimals === 6, 'Decimals come from the mint');
+      assert(balance.exists, 'Balance reports an existing account');
+      assert(
+        Buffer.from(balance.ciphertext).equals(Buffer.from(extension.slice(161, 225))),
+        'Ciphertext is the on-chain available balance'
+      );
+      assert(
+        Buffer.from(balance.commitment).equals(Buffer.from(extension.slice(161, 193))),
+        'Commitment is the available balance commitment'
+      );
+    }
+    console.log('');
+
+    // Test 2: accounts that cannot be read
+    console.log('Test 2: unreadable accounts');
+    await assertRejects(
+      () => manager.getBalance(plainAccount),
+      ConfidentialAccountError,
+      'Rejects an account without the confidential transfer extension'
+    );
+    await assertRejects(
+      () => manager.getBalance(foreignAccount),
+      ConfidentialTransferError,
+      'Rejects an account owned by another wallet'
+    );
+    await assertRejects(
+      () => manager.getBalance(missingAccount),
+      Error,
+      'Rejects a missing account'
+    );
+    console.log('');
+
+    // Test 3: ApplyPendingBalance
+    console.log('Test 3: apply the pending balance');
+    {
+      sent.length = 0;
+      const result = await manager.applyPendingBalance(account, mint);
+      assert(result.appliedAmount === 300n + 2n * 65536n, 'Reports the applied pending amount');
+      assert(result.availableBalance === 1_500_000n + 300n + 2n * 65536n, 'Reports the new available balance');
+      assert(result.expectedPendingBalanceCreditCounter === 3n, 'Uses the pending credit counter of the account');
+      assert(sent.length === 1 && sent[0].instructions.length === 1, 'Sends a single instruction');
+
+      const { data, keys } = sent[0].instructions[0];
+      assert(
+        data[0] === 27 && data[1] === ConfidentialTransferInstruction.ApplyPendingBalance,
+        'Sends ConfidentialTransfer ApplyPendingBalance'
+      );
+      assert(data.readBigUInt64LE(2) === 3n, 'Encodes the expected pending balance credit counter');
+      assert(
+        aeDecrypt(aeKey, data.subarray(10, 46)) === result.availableBalance,
+        'New decryptable balance encrypts the new available balance'
+      );
+      assert(keys[0].pubkey.equals(account) && keys[1].pubkey.equals(owner.publicKey), 'Signed by the owner');
+
+      await assertRejects(
+        () => manager.applyPendingBalance(account, Keypair.generate().publicKey),
+        ConfidentialAccountError,
+        'Rejects a mint that does not match the account'
+      );
+    }
+    console.log('');
+
+    // Test 4: auto-apply before spending
+    console.log('Test 4: auto-apply before a withdraw');
+    {
+      const originalLog = console.log;
+      const withdraw = async (autoApply: boolean, amount: number) => {
+        const autoSent: Transaction[] = [];
+        const autoManager = new ConfidentialTransferManager(
+          createMockConnection(accounts, autoSent),
+          wallet,
+          'never',
+          autoApply
+        );
+        console.log = () => {};
+        try {
+          return { result: await autoManager.withdraw(account, mint, amount, 6), sent: autoSent };
+        } finally {
+          console.log = originalLog;
+        }
+      };
+
+      // 1.6 tokens: more than the available 1.5 but covered once pending is applied
+      const { result, sent: autoSent } = await withdraw(true, 1.6);
+      assert(result.path === 'confidential', 'Withdraw runs confidentially');
+      assert(
+        autoSent[0].instructions[0].data[1] === ConfidentialTransferInstruction.ApplyPendingBalance,
+        'Pending balance is applied first'
+      );
+      const rangeIx = autoSent
+        .flatMap(tx => tx.instructions)
+        .find(ix => ix.programId.equals(ZK_ELGAMAL_PROOF_PROGRAM_ID) && ix.data[0] === ProofInstruction.VerifyBatchedRangeProofU64);
+      assert(rangeIx !== undefined, 'A range proof is verified into a context state account');
+      const context = rangeIx!.data.subarray(1, 265);
+      const rangeProofValid = verifyZKProof({
+        proof: new Uint8Array(rangeIx!.data.subarray(265)),
+        publicInputs: [new Uint8Array(context.subarray(0, 256)), new Uint8Array(context.subarray(256))],
+        proofSystem: 'bulletproofs',
+        circuitHash: 'BatchedRangeProofU64'
+      });
+      assert(rangeProofValid, 'Range proof covers the balance including the applied pending amount');
+
+      await assertRejects(
+        () => withdraw(false, 1.6),
+        ProofGenerationError,
+        'Without auto-apply the pending balance is not spendable'
+      );
+    }
+    console.log('');
+
+    // Test 5: a failed verification closes the context state accounts
+    console.log('Test 5: cleanup after a failed proof verification');
+    {
+      const failingSent: Transaction[] = [];
+      const connection = createMockConnection(accounts, failingSent);
+      const sendRawTransaction = connection.sendRawTransaction.bind(connection);
+      connection.sendRawTransaction = async (raw: Buffer | Uint8Array | number[]) => {
+        const isRangeProof = Transaction.from(raw as Buffer).instructions.some(ix =>
+          ix.programId.equals(ZK_ELGAMAL_PROOF_PROGRAM_ID) && ix.data[0] === ProofInstruction.VerifyBatchedRangeProofU64
+        );
+        if (isRangeProof) throw new Error('Transaction simulation failed: range proof rejected');
+        return sendRawTransaction(raw);
+      };
+      const failingManager = new ConfidentialTransferManager(connection, wallet, 'never');
+
+      const originalLog = console.log;
+      console.log = () => {};
+      let caught: unknown;
+      try {
+        await failingManager.withdraw(account, mint, 0.5, 6);
+      } catch (error) {
+        caught = error;
+      } finally {
+        console.log = originalLog;
+      }
+      assert(caught instanceof Error && /range proof rejected/.test(caught.message), 'The verification error is rethrown');
+
+      const allocated = failingSent[0].instructions.map(ix => ix.keys[1].pubkey);
+      const closed = failingSent
+        .flatMap(tx => tx.instructions)
+        .filter(ix => ix.programId.equals(ZK_ELGAMAL_PROOF_PROGRAM_ID) && ix.data[0] === ProofInstruction.CloseContextState)
+        .map(ix => ix.keys[0].pubkey);
+      assert(allocated.length === 2, 'Two context state accounts were allocated');
+      assert(
+        allocated.every(contextAccount => closed.some(key => key.equals(contextAccount))),
+        'Every allocated context state account is closed'
+      );
+      assert(
+        closed.every((_, i) => failingSent[failingSent.length - 1 - i].instructions.length === 1),
+        'Each account is closed in its own transaction'
+      );
+    }
+    console.log('');
+
+    // Test 6: fractional amounts
+    console.log('Test 6: fractional token amounts');
+    {
+      const fractionalSent: Transaction[] = [];
+      const fractionalManager = new ConfidentialTransferManager(createMockConnection(accounts, fractionalSent), wallet, 'never');
+      const originalLog = console.log;
+      console.log = () => {};
+      try {
+        // 1.005 * 10^9 is 1004999999.9999999 as a float
+        await fractionalManager.deposit(account, mint, 1.005, 9);
+        await fractionalManager.withdraw(account, mint, 1.005, 6);
+      } finally {
+        console.log = originalLog;
+      }
+      const deposit = fractionalSent[0].instructions[0].data;
+      assert(
+        deposit[1] === ConfidentialTransferInstruction.Deposit && deposit.readBigUInt64LE(2) === 1_005_000_000n,
+        'Deposits 1.005 tokens with 9 decimals as 1005000000 base units'
+      );
+      const withdraw = fractionalSent
+        .flatMap(tx => tx.instructions)
+        .find(ix => ix.programId.equals(TOKEN_2022_PROGRAM_ID) && ix.data[1] === ConfidentialTransferInstruction.Withdraw);
+      assert(withdraw?.data.readBigUInt64LE(2) === 1_005_000n, 'Withdraws 1.005 tokens with 6 decimals as 1005000 base units');
+      await assertRejects(
+        async () => {
+          console.log = () => {};
+          try {
+            return await fractionalManager.deposit(account, mint, -1, 6);
+          } finally {
+            console.log = originalLog;
+          }
+        },
+        ConfidentialTransferError,
+        'Rejects negative amounts'
+      );
+    }
+    console.log('');
+
+    console.log('======================================');
+    console.log('📊 Test Summary');
+    console.log('======================================');
+    console.log(`Total tests: ${totalTests}`);
+    console.log(`Passed: ${passedTests} ✅`);
+    console.log(`Failed: ${failedTests} ❌`);
+
+    if (failedTests === 0) {
+      console.log('\n🎉 All confidential balance tests passed!');
+      process.exit(0);
+    } else {
+      console.log(`\n⚠️  ${failedTests} test(s) failed`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Test suite failed with error:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runBalanceTests();
@@ -0,0 +1,274 @@
+/**
+ * confidential-mint.test.ts
+ *
+ * Purpose: Tests for confidential mint policies (authority, auto-approval, auditor)
+ *
+ * Serves Token 2022 mint data with the ConfidentialTransferMint extension from
+ * a mock connection and captures sent transactions, so no network is needed.
+ *
+ * Run with: npm run test:confidential-mint
+ */
+
+import { AccountInfo, Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  AccountType,
+  ExtensionType,
+  MintLayout,
+  TOKEN_2022_PROGRAM_ID
+} from '@solana/spl-token';
+import { ConfidentialTransferManager } from '../../src/privacy/confidential-transfer';
+import { ConfidentialTransferError } from '../../src/privacy/errors';
+import { generateElGamalKeypair } from '../../src/privacy/elgamal';
+import { ConfidentialTransferInstruction } from '../../src/privacy/confidential-instructions';
+import { FallbackPolicy } from '../../src/privacy/types';
+import { ExtendedWalletAdapter } from '../../src/core/types';
+
+let passedTests = 0;
+let failedTests = 0;
+let totalTests = 0;
+
+function assert(condition: boolean, message: string) {
+  totalTests++;
+  if (condition) {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+  } else {
+    failedTests++;
+    console.error(`  ❌ ${message}`);
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function assertRejects(fn: () => Promise<unknown>, errorClass: Function, message: string) {
+  totalTests++;
+  try {
+    await fn();
+  } catch (error) {
+    if (error instanceof errorClass) {
+      passedTests++;
+      console.log(`  ✅ ${message}`);
+      return;
+    }
+    failedTests++;
+    console.error(`  ❌ ${message} (unexpected error: ${error})`);
+    throw new Error(`Unexpected error: ${message}`);
+  }
+  failedTests++;
+  console.error(`  ❌ ${message} (expected error but succeeded)`);
+  throw new Error(`Expected error but succeeded: ${message}`);
+}
+
+function createMockWallet(keypair: Keypair): ExtendedWalletAdapter {
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction: async <T extends Transaction>(tx: T) => {
+      tx.partialSign(keypair);
+      return tx;
+    },
+    signAllTransactions: async <T extends Transaction>(txs: T[]) => {
+      txs.forEach(tx => tx.partialSign(keypair));
+      return txs;
+    },
+    rawKeypair: keypair
+  } as ExtendedWalletAdapter;
+}
+
+/**
+ * Mock connection serving fixed account data and capturing sent transactions
+ */
+function createMockConnection(accounts: Map<string, Buffer>, sent: Transaction[]): Connection {
+  return {
+    getAccountInfo: async (address: PublicKey): Promise<AccountInfo<Buffer> | null> => {
+      const data = accounts.get(address.toBase58());
+      return data
+        ? { data, owner: TOKEN_2022_PROGRAM_ID, lamports: 1, executable: false, rentEpoch: 0 }
+        : null;
+    },
+    getMinimumBalanceForRentExemption: async () => 1_000_000,
+    getLatestBlockhash: async () => ({
+      blockhash: new PublicKey(new Uint8Array(32).fill(7)).toBase58(),
+      lastValidBlockHeight: 100
+    }),
+    sendRawTransaction: async (raw: Buffer) => {
+      sent.push(Transaction.from(raw));
+      return `signature-${sent.length}`;
+    },
+    confirmTransaction: async () => ({ context: { slot: 1 }, value: { err: null } })
+  } as unknown as Connection;
+}
+
+/**
+ * Token 2022 mint data: base mint || padding || account type || ConfidentialTransferMint
+ */
+function encodeConfidentialMint(
+  mintAuthority: PublicKey,
+  confidentialTransferAuthority: PublicKey,
+  autoApproveNewAccounts: boolean,
+  auditorElGamalPubkey: Uint8Array | null
+): Buffer {
+  const base = Buffer.alloc(ACCOUNT_SIZE);
+  MintLayout.encode({
+    mintAuthorityOption: 1,
+    mintAuthority,
+    supply: 5000n,
+    decimals: 6,
+    isInitialized: true,
+    freezeAuthorityOption: 0,
+    freezeAuthority: PublicKey.default
+  }, base);
+
+  const extension = Buffer.alloc(4 + 65);
+  extension.writeUInt16LE(ExtensionType.ConfidentialTransferMint, 0);
+  extension.writeUInt16LE(65, 2);
+  extension.set(confidentialTransferAuthority.toBytes(), 4);
+  extension[36] = autoApproveNewAccounts ? 1 : 0;
+  if (auditorElGamalPubkey) {
+    extension.set(auditorElGamalPubkey, 37);
+  }
+
+  return Buffer.concat([base, Buffer.from([AccountType.Mint]), extension]);
+}
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+
+async function runConfidentialMintTests() {
+  console.log('🔐 Starting Confidential Mint Policy Tests');
+  console.log('==========================================\n');
+
+  // Silence expected fallback warnings
+  const originalWarn = console.warn;
+  console.warn = () => {};
+
+  try {
+    const authority = Keypair.generate();
+    const wallet = createMockWallet(authority);
+    const auditor = generateElGamalKeypair();
+    const newAuditor = generateElGamalKeypair();
+    const mint = Keypair.generate().publicKey;
+    const foreignMint = Keypair.generate().publicKey;
+    const accounts = new Map<string, Buffer>([
+      [mint.toBase58(), encodeConfidentialMint(authority.publicKey, authority.publicKey, false, auditor.publicKey)],
+      [foreignMint.toBase58(), encodeConfidentialMint(authority.publicKey, Keypair.generate().publicKey, true, null)]
+    ]);
+
+    const createManager = (sent: Transaction[], policy: FallbackPolicy = 'never') =>
+      new ConfidentialTransferManager(createMockConnection(accounts, sent), wallet, policy);
+
+    // Test 1: mint policy on creation
+    console.log('Test 1: createConfidentialMint with a policy');
+    {
+      const sent: Transaction[] = [];
+      const ctAuthority = Keypair.generate().publicKey;
+      const result = await createManager(sent).createConfidentialMint(
+        Keypair.generate(),
+        6,
+        authority.publicKey,
+        { confidentialTransferAuthority: ctAuthority, autoApproveNewAccounts: false, auditorElGamalPubkey: auditor.publicKey }
+      );
+      assert(result.path === 'confidential', 'Mint is created confidentially');
+      const data = sent[0].instructions[1].data;
+      assert(data[0] === 27 && data[1] === ConfidentialTransferInstruction.InitializeMint, 'Initializes the ConfidentialTransferMint extension');
+      assert(hex(data.subarray(2, 34)) === hex(ctAuthority.toBytes()), 'Sets the confidential transfer authority');
+      assert(data[34] === 0, 'Disables auto-approval');
+      assert(hex(data.subarray(35, 67)) === hex(auditor.publicKey), 'Sets the auditor ElGamal public key');
+    }
+    {
+      const sent: Transaction[] = [];
+      await createManager(sent).createConfidentialMint(Keypair.generate(), 6, authority.publicKey);
+      const data = sent[0].instructions[1].data;
+      assert(hex(data.subarray(2, 34)) === hex(authority.publicKey.toBytes()), 'Defaults the authority to the mint authority');
+      assert(data[34] === 1, 'Auto-approves new accounts by default');
+      assert(data.subarray(35, 67).every(byte => byte === 0), 'Has no auditor by default');
+    }
+    {
+      const sent: Transaction[] = [];
+      await assertRejects(
+        () => createManager(sent, 'allow').createConfidentialMint(
+          Keypair.generate(),
+          6,
+          authority.publicKey,
+          { auditorElGamalPubkey: new Uint8Array(32).fill(0xff) }
+        ),
+        ConfidentialTransferError,
+        'Rejects an auditor key that is not an ElGamal public key'
+      );
+      assert(sent.length === 0, 'Nothing is sent for an invalid policy, even with fallbacks allowed');
+    }
+    console.log('');
+
+    // Test 2: reading the mint back
+    console.log('Test 2: getConfidentialMint');
+    {
+      const state = await createManager([]).getConfidentialMint(mint);
+      assert(state.address.equals(mint), 'Reports the mint address');
+      assert(state.decimals === 6 && state.supply === 5000n, 'Reports decimals and supply');
+      assert(state.authority !== null && state.authority.equals(authority.publicKey), 'Reports the mint authority');
+      assert(state.confidentialTransferEnabled, 'Reports the confidential transfer extension');
+      assert(
+        state.confidentialTransferAuthority !== null && state.confidentialTransferAuthority.equals(authority.publicKey),
+        'Reports the confidential transfer authority'
+      );
+      assert(!state.autoApproveNewAccounts, 'Reports the auto-approval flag');
+      assert(
+        state.auditorElGamalPubkey !== null && hex(state.auditorElGamalPubkey) === hex(auditor.publicKey),
+        'Reports the auditor ElGamal public key'
+      );
+    }
+    console.log('');
+
+    // Test 3: rotating the auditor
+    console.log('Test 3: updateConfidentialMint');
+    {
+      const sent: Transaction[] = [];
+      await createManager(sent).updateConfidentialMint(mint, { auditorElGamalPubkey: newAuditor.publicKey });
+      const ix = sent[0].instructions[0];
+      assert(ix.data[0] === 27 && ix.data[1] === ConfidentialTransferInstruction.UpdateMint, 'Sends UpdateMint');
+      assert(ix.data[2] === 0, 'Keeps the current auto-approval flag');
+      assert(hex(ix.data.subarray(3, 35)) === hex(newAuditor.publicKey), 'Rotates the auditor key');
+      assert(ix.keys[1].pubkey.equals(authority.publicKey) && ix.keys[1].isSigner, 'Signed by the authority');
+    }
+    {
+      const sent: Transaction[] = [];
+      await createManager(sent).updateConfidentialMint(mint, { autoApproveNewAccounts: true, auditorElGamalPubkey: null });
+      const data = sent[0].instructions[0].data;
+      assert(data[2] === 1 && data.subarray(3, 35).every(byte => byte === 0), 'Enables auto-approval and removes the auditor');
+    }
+    await assertRejects(
+      () => createManager([]).updateConfidentialMint(foreignMint, { autoApproveNewAccounts: false }),
+      ConfidentialTransferError,
+      'Rejects updates when the wallet is not the confidential transfer authority'
+    );
+    await assertRejects(
+      () => createManager([]).updateConfidentialMint(mint, { auditorElGamalPubkey: new Uint8Array(31) }),
+      ConfidentialTransferError,
+      'Rejects a malformed auditor key'
+    );
+    console.log('');
+
+    console.warn = originalWarn;
+
+    console.log('==========================================');
+    console.log('📊 Test Summary');
+    console.log('==========================================');
+    console.log(`Total tests: ${totalTests}`);
+    console.log(`Passed: ${passedTests} ✅`);
+    console.log(`Failed: ${failedTests} ❌`);
+
+    if (failedTests === 0) {
+      console.log('\n🎉 All confidential mint tests passed!');
+      process.exit(0);
+    } else {
+      console.log(`\n⚠️  ${failedTests} test(s) failed`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.warn = originalWarn;
+    console.error('\n❌ Test suite failed with error:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runConfidentialMintTests();
@@ -20,6 +20,7 @@ import { ZeraPrivacy } from '../../src/privacy/zera-privacy';
 import { PrivacyConfig } from '../../src/privacy/types';
 import { ExtendedWalletAdapter } from '../../src/core/types';
 import { EncryptionUtils } from '../../src/privacy/encryption';
+import { generateElGamalKeypair } from '../../src/privacy/elgamal';
 
 /**
  * Create a mock extended wallet adapter for testing
@@ -104,7 +105,7 @@ async function runTests() {
     console.log('   🔧 Testing amount encryption...');
     const encryptionUtils = new EncryptionUtils();
     const testAmount = BigInt(1 * LAMPORTS_PER_SOL);
-    const testRecipient = Keypair.generate().publicKey;
+    const testRecipient = generateElGamalKeypair().publicKey;
     
     const encryptedAmount = await encryptionUtils.encryptAmount(
       testAmount,
@@ -133,7 +134,7 @@ async function runTests() {
     console.log('   🔧 Testing encrypted amount verification...');
     const encryptionUtils = new EncryptionUtils();
     const testAmount = BigInt(0.5 * LAMPORTS_PER_SOL);
-    const testRecipient = Keypair.generate().publicKey;
+    const testRecipient = generateElGamalKeypair().publicKey;
     
     const encryptedAmount = await encryptionUtils.encryptAmount(
       testAmount,
@@ -155,7 +156,7 @@ async function runTests() {
     console.log('   🔧 Testing range proof generation...');
     const encryptionUtils = new EncryptionUtils();
     const testAmount = BigInt(2 * LAMPORTS_PER_SOL);
-    const testRecipient = Keypair.generate().publicKey;
+    const testRecipient = generateElGamalKeypair().publicKey;
     
     const encryptedAmount = await encryptionUtils.encryptAmount(
       testAmount,
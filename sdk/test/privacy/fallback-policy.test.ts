@@ -0,0 +1,341 @@
+/**
+ * fallback-policy.test.ts
+ *
+ * Purpose: Tests for the confidential operation fallback policy
+ *
+ * Uses a mock connection so no network is needed. Transfers from a token
+ * account without the confidential transfer extension trigger the fallback
+ * path; deposits into a configured account need no proof and must report the
+ * confidential path. Failures other than missing confidential support (such
+ * as an insufficient confidential balance) must never fall back.
+ *
+ * Run with: npm run test:fallback-policy
+ */
+
+import { AccountInfo, Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  AccountState,
+  AccountType,
+  ExtensionType,
+  MintLayout,
+  TOKEN_2022_PROGRAM_ID,
+  TokenInstruction
+} from '@solana/spl-token';
+import { ConfidentialTransferManager } from '../../src/privacy/confidential-transfer';
+import { ConfidentialTransferError, ProofGenerationError } from '../../src/privacy/errors';
+import { encryptElGamal } from '../../src/privacy/elgamal';
+import { aeEncrypt } from '../../src/privacy/authenticated-encryption';
+import { deriveConfidentialAccountKeys } from '../../src/privacy/key-derivation';
+import { CONFIDENTIAL_TRANSFER_ACCOUNT_LEN, CONFIDENTIAL_TRANSFER_MINT_LEN } from '../../src/privacy/confidential-state';
+import { FallbackPolicy } from '../../src/privacy/types';
+import { ExtendedWalletAdapter } from '../../src/core/types';
+
+let passedTests = 0;
+let failedTests = 0;
+let totalTests = 0;
+
+function assert(condition: boolean, message: string) {
+  totalTests++;
+  if (condition) {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+  } else {
+    failedTests++;
+    console.error(`  ❌ ${message}`);
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Mock connection serving fixed account data and accepting every transaction
+ *
+ * Public TransferChecked and BurnChecked transactions are recorded as 'public'
+ * and every other transaction as 'raw', so tests can tell the paths apart.
+ */
+function createMockConnection(accounts: Map<string, Buffer>, sent: string[], feePayers: PublicKey[] = []): Connection {
+  return {
+    getAccountInfo: async (address: PublicKey): Promise<AccountInfo<Buffer> | null> => {
+      const data = accounts.get(address.toBase58());
+      return data
+        ? { data, owner: TOKEN_2022_PROGRAM_ID, lamports: 1, executable: false, rentEpoch: 0 }
+        : null;
+    },
+    getLatestBlockhash: async () => ({
+      blockhash: new PublicKey(new Uint8Array(32).fill(7)).toBase58(),
+      lastValidBlockHeight: 100
+    }),
+    sendRawTransaction: async (raw: Buffer) => {
+      const transaction = Transaction.from(raw);
+      feePayers.push(transaction.feePayer!);
+      const isPublic = transaction.instructions.some(instruction =>
+        instruction.programId.equals(TOKEN_2022_PROGRAM_ID) &&
+        (instruction.data[0] === TokenInstruction.TransferChecked || instruction.data[0] === TokenInstruction.BurnChecked)
+      );
+      sent.push(isPublic ? 'public' : 'raw');
+      return isPublic ? 'public-signature' : 'confidential-signature';
+    },
+    confirmTransaction: async () => ({ context: { slot: 1 }, value: { err: null } })
+  } as unknown as Connection;
+}
+
+function createMockWallet(keypair: Keypair): ExtendedWalletAdapter {
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction: async <T extends Transaction>(tx: T) => {
+      tx.partialSign(keypair);
+      return tx;
+    },
+    signAllTransactions: async <T extends Transaction>(txs: T[]) => {
+      txs.forEach(tx => tx.partialSign(keypair));
+      return txs;
+    },
+    rawKeypair: keypair
+  } as ExtendedWalletAdapter;
+}
+
+/**
+ * Encode a single TLV extension entry
+ */
+function tlv(type: ExtensionType, data: Uint8Array): Buffer {
+  const entry = Buffer.alloc(4 + data.length);
+  entry.writeUInt16LE(type, 0);
+  entry.writeUInt16LE(data.length, 2);
+  entry.set(data, 4);
+  return entry;
+}
+
+/**
+ * Token 2022 account data: base account || account type || extensions
+ */
+function encodeTokenAccount(mint: PublicKey, owner: PublicKey, extensions: Buffer[]): Buffer {
+  const base = Buffer.alloc(ACCOUNT_SIZE);
+  AccountLayout.encode({
+    mint,
+    owner,
+    amount: 5_000_000n,
+    delegateOption: 0,
+    delegate: PublicKey.default,
+    state: AccountState.Initialized,
+    isNativeOption: 0,
+    isNative: 0n,
+    delegatedAmount: 0n,
+    closeAuthorityOption: 0,
+    closeAuthority: PublicKey.default
+  }, base);
+  return Buffer.concat([base, Buffer.from([AccountType.Account]), ...extensions]);
+}
+
+/**
+ * Token 2022 mint data: base mint || padding to account size || account type || extensions
+ */
+function encodeMint(extensions: Buffer[]): Buffer {
+  const base = Buffer.alloc(ACCOUNT_SIZE);
+  MintLayout.encode({
+    mintAuthorityOption: 0,
+    mintAuthority: PublicKey.default,
+    supply: 0n,
+    decimals: 6,
+    isInitialized: true,
+    freezeAuthorityOption: 0,
+    freezeAuthority: PublicKey.default
+  }, base);
+  return Buffer.concat([base, Buffer.from([AccountType.Mint]), ...extensions]);
+}
+
+/**
+ * ConfidentialTransferAccount extension holding an available balance of zero
+ */
+async function encodeEmptyConfidentialAccount(wallet: ExtendedWalletAdapter, account: PublicKey): Promise<Buffer> {
+  const { elGamal, aeKey } = await deriveConfidentialAccountKeys(wallet, account);
+  const data = new Uint8Array(CONFIDENTIAL_TRANSFER_ACCOUNT_LEN);
+  data[0] = 1;
+  data.set(elGamal.publicKey, 1);
+  data.set(encryptElGamal(elGamal.publicKey, 0n).ciphertext, 161);
+  data.set(aeEncrypt(aeKey, 0n), 225);
+  data[261] = 1;
+  data[262] = 1;
+  return tlv(ExtensionType.ConfidentialTransferAccount, data);
+}
+
+function createManager(policy: FallbackPolicy, sent: string[], accounts: Map<string, Buffer>, keypair = Keypair.generate()) {
+  return new ConfidentialTransferManager(
+    createMockConnection(accounts, sent),
+    createMockWallet(keypair),
+    policy
+  );
+}
+
+async function runFallbackPolicyTests() {
+  console.log('🔐 Starting Fallback Policy Tests');
+  console.log('================================\n');
+
+  const owner = Keypair.generate();
+  const source = Keypair.generate().publicKey;
+  const configured = Keypair.generate().publicKey;
+  const destination = Keypair.generate().publicKey;
+  const mint = Keypair.generate().publicKey;
+  const plainMint = Keypair.generate().publicKey;
+
+  // Silence expected fallback warnings
+  const originalWarn = console.warn;
+  const warnings: string[] = [];
+  console.warn = (message: string) => { warnings.push(message); };
+
+  try {
+    const accounts = new Map<string, Buffer>([
+      [mint.toBase58(), encodeMint([tlv(ExtensionType.ConfidentialTransferMint, new Uint8Array(CONFIDENTIAL_TRANSFER_MINT_LEN))])],
+      [plainMint.toBase58(), encodeMint([])],
+      [source.toBase58(), encodeTokenAccount(mint, owner.publicKey, [])],
+      [configured.toBase58(), encodeTokenAccount(mint, owner.publicKey, [
+        await encodeEmptyConfidentialAccount(createMockWallet(owner), configured)
+      ])]
+    ]);
+
+    // Test 1: strict mode refuses the public fallback
+    console.log('Test 1: fallbackPolicy "never"');
+    {
+      const sent: string[] = [];
+      const manager = createManager('never', sent, accounts, owner);
+      let caught: unknown;
+      try {
+        await manager.transfer(source, mint, destination, 1, 6);
+      } catch (error) {
+        caught = error;
+      }
+      assert(caught instanceof ConfidentialTransferError, 'Transfer rejects with ConfidentialTransferError');
+      assert((caught as Error).message.includes("fallbackPolicy: 'never'"), 'Error names the fallback policy');
+      assert(sent.length === 0, 'No public transaction was sent');
+    }
+    console.log('');
+
+    // Test 2: warn mode falls back and logs
+    console.log('Test 2: fallbackPolicy "warn"');
+    {
+      const sent: string[] = [];
+      const manager = createManager('warn', sent, accounts, owner);
+      warnings.length = 0;
+      const result = await manager.transfer(source, mint, destination, 1, 6);
+      assert(result.path === 'public-fallback', 'Transfer reports the public fallback path');
+      assert(result.signature === 'public-signature', 'Signature comes from the public transfer');
+      assert(typeof result.fallbackReason === 'string' && result.fallbackReason.length > 0, 'Fallback reason is reported');
+      assert(warnings.length === 1, 'A warning was logged');
+
+      const feePayer = Keypair.generate();
+      const feePayers: PublicKey[] = [];
+      const sponsored = new ConfidentialTransferManager(
+        createMockConnection(accounts, sent, feePayers),
+        createMockWallet(owner),
+        'allow',
+        false,
+        { feePayer: createMockWallet(feePayer) }
+      );
+      await sponsored.transfer(source, mint, destination, 1, 6);
+      assert(feePayers.length === 1 && feePayers[0].equals(feePayer.publicKey), 'The public transfer is paid by the configured fee payer');
+    }
+    console.log('');
+
+    // Test 3: allow mode falls back silently
+    console.log('Test 3: fallbackPolicy "allow"');
+    {
+      const sent: string[] = [];
+      const manager = createManager('allow', sent, accounts, owner);
+      warnings.length = 0;
+      const result = await manager.transfer(source, mint, destination, 1, 6);
+      assert(result.path === 'public-fallback', 'Transfer reports the public fallback path');
+      assert(warnings.length === 0, 'No warning was logged');
+    }
+    console.log('');
+
+    // Test 4: confidential path is reported when it succeeds
+    console.log('Test 4: confidential deposit');
+    {
+      const sent: string[] = [];
+      const manager = createManager('never', sent, accounts, owner);
+      const result = await manager.deposit(configured, mint, 1, 6);
+      assert(result.path === 'confidential', 'Deposit reports the confidential path');
+      assert(result.signature === 'confidential-signature', 'Signature comes from the confidential deposit');
+      assert(result.fallbackReason === undefined, 'No fallback reason is set');
+    }
+    console.log('');
+
+    // Test 5: account creation reports its path too
+    console.log('Test 5: confidential account creation');
+    {
+      const sent: string[] = [];
+      const manager = createManager('never', sent, accounts, owner);
+      const result = await manager.createConfidentialAccount(mint, owner.publicKey);
+      assert(result.path === 'confidential', 'Account creation reports the confidential path');
+      assert(result.signature === 'confidential-signature', 'Signature comes from the configuring transaction');
+      assert(result.account instanceof PublicKey && result.fallbackReason === undefined, 'Returns the account without a fallback reason');
+
+      const allowing = createManager('allow', sent, accounts, owner);
+      const plain = await allowing.createConfidentialAccount(plainMint, owner.publicKey);
+      assert(
+        plain.path === 'public-fallback' && /confidential transfer extension/.test(plain.fallbackReason!),
+        'Mints without the extension get a plain account, reported as a fallback'
+      );
+      const recipient = await allowing.createConfidentialAccount(mint, Keypair.generate().publicKey);
+      assert(
+        recipient.path === 'public-fallback' && /Only the owner/.test(recipient.fallbackReason!),
+        'Accounts of other owners cannot be configured and are reported as a fallback'
+      );
+    }
+    console.log('');
+
+    // Test 6: other failures surface instead of spending the public balance
+    console.log('Test 6: failures that must not fall back');
+    {
+      const sent: string[] = [];
+      const manager = createManager('warn', sent, accounts, owner);
+      warnings.length = 0;
+      let caught: unknown;
+      try {
+        await manager.withdraw(configured, mint, 1, 6);
+      } catch (error) {
+        caught = error;
+      }
+      assert(
+        caught instanceof ProofGenerationError && /Insufficient confidential balance/.test((caught as Error).message),
+        'An insufficient confidential balance is rethrown'
+      );
+      assert(sent.length === 0 && warnings.length === 0, 'No public burn was sent');
+
+      caught = undefined;
+      try {
+        await manager.transfer(Keypair.generate().publicKey, mint, destination, 1, 6);
+      } catch (error) {
+        caught = error;
+      }
+      assert(caught !== undefined && !(caught instanceof ConfidentialTransferError), 'A missing account is rethrown as is');
+      assert(sent.length === 0, 'No public transfer was sent');
+    }
+    console.log('');
+
+    console.warn = originalWarn;
+
+    console.log('================================');
+    console.log('📊 Test Summary');
+    console.log('================================');
+    console.log(`Total tests: ${totalTests}`);
+    console.log(`Passed: ${passedTests} ✅`);
+    console.log(`Failed: ${failedTests} ❌`);
+
+    if (failedTests === 0) {
+      console.log('\n🎉 All fallback policy tests passed!');
+      process.exit(0);
+    } else {
+      console.log(`\n⚠️  ${failedTests} test(s) failed`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.warn = originalWarn;
+    console.error('\n❌ Test suite failed with error:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runFallbackPolicyTests();
@@ -0,0 +1,125 @@
+/**
+ * message-signing.test.ts
+ *
+ * Purpose: Tests for detached message signatures of normalized wallets
+ *
+ * Covers `normalizeWallet(keypair).signMessage` producing real Ed25519
+ * signatures over the raw message bytes (the wallet adapter convention),
+ * `verifyMessage`, and keys derived from signatures matching whether a
+ * wallet signs locally or through `signMessage`.
+ *
+ * Run with: npm run test:message-signing
+ */
+
+import { Keypair, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import { ed25519 } from '@noble/curves/ed25519';
+import { normalizeWallet } from '../../src/core/wallet';
+import { signWalletMessage, verifyMessage } from '../../src/core/message-signing';
+import { derivePrivacyKeys, deriveElGamalKeypair } from '../../src/privacy/key-derivation';
+import { RevocationRegistry } from '../../src/privacy/revocation-registry';
+
+let passedTests = 0;
+let failedTests = 0;
+let totalTests = 0;
+
+function assert(condition: boolean, message: string) {
+  totalTests++;
+  if (condition) {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+  } else {
+    failedTests++;
+    console.error(`  ❌ ${message}`);
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+async function runMessageSigningTests() {
+  console.log('✍️  Starting Wallet Message Signing Tests');
+  console.log('=================================================\n');
+
+  try {
+    const keypair = Keypair.generate();
+    const wallet = normalizeWallet(keypair);
+    const message = new TextEncoder().encode('Sign in to Zera');
+
+    console.log('Test 1: Keypair signMessage');
+    const signature = await wallet.signMessage!(message);
+    assert(signature.length === 64, 'Signatures are 64 bytes');
+    assert(ed25519.verify(signature, message, keypair.publicKey.toBytes()), 'Signatures are Ed25519 over the raw message');
+    assert(equalBytes(await wallet.signMessage!(message), signature), 'Signatures are deterministic');
+    assert(equalBytes(await signWalletMessage(wallet, message), signature), 'Matches signWalletMessage');
+
+    // web3.js signs a transaction by signing its serialized message with the same key
+    const transaction = new Transaction({
+      feePayer: keypair.publicKey,
+      recentBlockhash: Keypair.generate().publicKey.toBase58()
+    }).add(SystemProgram.transfer({ fromPubkey: keypair.publicKey, toPubkey: keypair.publicKey, lamports: 1 }));
+    transaction.sign(keypair);
+    const messageSignature = await wallet.signMessage!(transaction.serializeMessage());
+    assert(equalBytes(messageSignature, transaction.signature!), 'Agrees with web3.js signing over the same bytes');
+
+    const other = await wallet.signMessage!(new TextEncoder().encode('Sign in to Zera!'));
+    assert(!equalBytes(other, signature), 'Different messages get different signatures');
+    console.log('');
+
+    console.log('Test 2: verifyMessage');
+    assert(verifyMessage(message, signature, keypair.publicKey), 'Accepts a valid signature');
+    assert(verifyMessage('Sign in to Zera', signature, keypair.publicKey), 'Encodes text messages as UTF-8');
+    assert(!verifyMessage('Sign in to Zera.', signature, keypair.publicKey), 'Rejects a changed message');
+    assert(!verifyMessage(message, signature, Keypair.generate().publicKey), 'Rejects another signer');
+    const tampered = Uint8Array.from(signature);
+    tampered[10] ^= 1;
+    assert(!verifyMessage(message, tampered, keypair.publicKey), 'Rejects a tampered signature');
+    assert(!verifyMessage(message, signature.slice(0, 63), keypair.publicKey), 'Rejects a short signature');
+    assert(!verifyMessage(message, new Uint8Array(64), keypair.publicKey), 'Rejects the all-zero signature');
+    assert(!verifyMessage(message, signature, PublicKey.default), 'Rejects the default public key');
+    console.log('');
+
+    console.log('Test 3: Keys derived from signatures');
+    const browserLike = normalizeWallet(keypair);
+    delete browserLike.rawKeypair;
+    const viaSignMessage = await derivePrivacyKeys(browserLike);
+    const viaKeypair = await derivePrivacyKeys(wallet);
+    assert(
+      viaSignMessage.viewKeypair.publicKey.equals(viaKeypair.viewKeypair.publicKey),
+      'Privacy keys match whether the Keypair signs locally or through signMessage'
+    );
+    const account = Keypair.generate().publicKey.toBytes();
+    assert(
+      equalBytes((await deriveElGamalKeypair(browserLike, account)).publicKey, (await deriveElGamalKeypair(wallet, account)).publicKey),
+      'Confidential account keys match too'
+    );
+
+    const registry = new RevocationRegistry(browserLike.publicKey);
+    const entry = await registry.revoke(Keypair.generate().publicKey, browserLike, 'rotated');
+    assert(RevocationRegistry.verifyEntry(entry), 'Revocations signed through signMessage verify');
+    console.log('');
+
+    console.log('=================================================');
+    console.log('📊 Test Summary');
+    console.log('=================================================');
+    console.log(`Total tests: ${totalTests}`);
+    console.log(`Passed: ${passedTests} ✅`);
+    console.log(`Failed: ${failedTests} ❌`);
+
+    if (failedTests === 0) {
+      console.log('\n🎉 All message signing tests passed!');
+      process.exit(0);
+    } else {
+      console.log(`\n⚠️  ${failedTests} test(s) failed`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Test suite failed with error:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runMessageSigningTests();
@@ -0,0 +1,307 @@
+/**
+ * meta-address.test.ts
+ *
+ * Purpose: Tests for the text encoding of stealth meta-addresses
+ *
+ * Covers the bech32m `zst1...` encoding (round trips, uppercase for QR codes,
+ * checksum, prefix, version, length and key validation) and the `zera:`
+ * payment request URIs built on it.
+ *
+ * Run with: npm run test:meta-address
+ */
+
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { ed25519 } from '@noble/curves/ed25519';
+import { StealthAddressManager } from '../../src/privacy/stealth-address';
+import {
+  META_ADDRESS_MAX_LENGTH,
+  encodeMetaAddress,
+  parseMetaAddress,
+  encodeStealthPaymentUri,
+  parseStealthPaymentUri
+} from '../../src/privacy/meta-address';
+import { StealthAddressError } from '../../src/privacy/errors';
+
+let passedTests = 0;
+let failedTests = 0;
+let totalTests = 0;
+
+function assert(condition: boolean, message: string) {
+  totalTests++;
+  if (condition) {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+  } else {
+    failedTests++;
+    console.error(`  ❌ ${message}`);
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertThrows(fn: () => unknown, errorClass: Function, message: string) {
+  totalTests++;
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof errorClass) {
+      passedTests++;
+      console.log(`  ✅ ${message}`);
+      return;
+    }
+    failedTests++;
+    console.error(`  ❌ ${message} (unexpected error: ${error})`);
+    throw new Error(`Unexpected error: ${message}`);
+  }
+  failedTests++;
+  console.error(`  ❌ ${message} (expected error but succeeded)`);
+  throw new Error(`Expected error but succeeded: ${message}`);
+}
+
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+/**
+ * Reference bech32m encoder (BIP 350), used to build payloads the SDK refuses to encode
+ */
+function bech32m(prefix: string, bytes: Uint8Array): string {
+  const data: number[] = [];
+  let accumulator = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    accumulator = (accumulator << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      data.push((accumulator >> bits) & 31);
+    }
+    accumulator &= (1 << bits) - 1;
+  }
+  if (bits > 0) data.push((accumulator << (5 - bits)) & 31);
+
+  const polymod = (values: number[]) => {
+    const generator = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+    let checksum = 1;
+    for (const value of values) {
+      const top = checksum >>> 25;
+      checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+      for (let i = 0; i < 5; i++) if ((top >>> i) & 1) checksum ^= generator[i];
+    }
+    return checksum >>> 0;
+  };
+  const expanded = [...prefix].map(c => c.charCodeAt(0) >> 5).concat([0], [...prefix].map(c => c.charCodeAt(0) & 31));
+  const value = polymod([...expanded, ...data, 0, 0, 0, 0, 0, 0]) ^ 0x2bc830a3;
+  const checksum = [0, 1, 2, 3, 4, 5].map(i => (value >>> (5 * (5 - i))) & 31);
+  return `${prefix}1${[...data, ...checksum].map(v => CHARSET[v]).join('')}`;
+}
+
+function payload(version: number, viewKey: Uint8Array, spendKey: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(65);
+  bytes[0] = version;
+  bytes.set(viewKey, 1);
+  bytes.set(spendKey, 33);
+  return bytes;
+}
+
+/**
+ * 32 bytes that do not decode to an Ed25519 point
+ */
+function notAPoint(): Uint8Array {
+  for (let i = 2; ; i++) {
+    const bytes = new Uint8Array(32);
+    bytes[0] = i;
+    try {
+      ed25519.ExtendedPoint.fromHex(bytes);
+    } catch {
+      return bytes;
+    }
+  }
+}
+
+async function runMetaAddressTests() {
+  console.log('🔤 Starting Stealth Meta-Address Encoding Tests');
+  console.log('=================================================\n');
+
+  try {
+    const manager = new StealthAddressManager();
+    const viewKeypair = Keypair.generate();
+    const metaAddress = manager.generateStealthMetaAddress(viewKeypair, Keypair.generate());
+    const viewKey = metaAddress.viewPublicKey.toBytes();
+    const spendKey = metaAddress.spendPublicKey.toBytes();
+
+    console.log('Test 1: Encoding and parsing');
+    const encoded = encodeMetaAddress(metaAddress);
+    assert(encoded.startsWith('zst1'), 'Encoded meta-addresses start with zst1');
+    assert(encoded.length === 114, 'Encoded meta-addresses are 114 characters long');
+    assert(encoded.length === META_ADDRESS_MAX_LENGTH, 'The length limit is pinned to the version 1 length');
+    assert(/^[02-9ac-hj-np-z]+$/.test(encoded.slice(4)), 'Data uses the bech32 alphabet only');
+    assert(encoded === bech32m('zst', payload(1, viewKey, spendKey)), 'Matches the reference bech32m encoding');
+    assert(encodeMetaAddress(metaAddress) === encoded, 'Encoding is deterministic');
+
+    const parsed = parseMetaAddress(encoded);
+    assert(parsed.viewPublicKey.equals(metaAddress.viewPublicKey), 'Round trip keeps the view key');
+    assert(parsed.spendPublicKey.equals(metaAddress.spendPublicKey), 'Round trip keeps the spend key');
+    assert(parsed.version === 1, 'Round trip keeps the version');
+    assert(parsed.derivationPath === metaAddress.derivationPath, 'Parsed meta-addresses get the default derivation path');
+
+    const swapped = encodeMetaAddress({
+      ...metaAddress,
+      viewPublicKey: metaAddress.spendPublicKey,
+      spendPublicKey: metaAddress.viewPublicKey
+    });
+    assert(swapped !== encoded, 'View and spend keys are not interchangeable');
+
+    const sender = Keypair.generate().publicKey;
+    const fromParsed = manager.buildStealthPaymentTransaction(sender, parsed, 1_000_000);
+    const payments = await manager.scanForPayments(metaAddress, viewKeypair.secretKey, [fromParsed.ephemeralKey]);
+    assert(
+      payments.length === 1 && payments[0].stealthAddress.equals(fromParsed.stealthAddress.address),
+      'Payments to a parsed meta-address reach the recipient'
+    );
+    console.log('');
+
+    console.log('Test 2: Uppercase for QR codes');
+    const upper = encoded.toUpperCase();
+    assert(/^[0-9A-Z]+$/.test(upper), 'Uppercase form fits the QR alphanumeric mode');
+    assert(parseMetaAddress(upper).viewPublicKey.equals(metaAddress.viewPublicKey), 'Parses the uppercase form');
+    const mixed = encoded.slice(0, 10) + encoded.slice(10).toUpperCase();
+    assertThrows(() => parseMetaAddress(mixed), StealthAddressError, 'Rejects mixed case');
+    console.log('');
+
+    console.log('Test 3: Checksum');
+    let caught = 0;
+    for (let position = 4; position < encoded.length; position += 7) {
+      const current = CHARSET.indexOf(encoded[position]);
+      const typo = encoded.slice(0, position) + CHARSET[(current + 1) % 32] + encoded.slice(position + 1);
+      try {
+        parseMetaAddress(typo);
+      } catch (error) {
+        if (error instanceof StealthAddressError && error.message.includes('checksum')) caught++;
+      }
+    }
+    assert(caught === Math.ceil((encoded.length - 4) / 7), 'Detects single-character typos');
+    const transposed = encoded.slice(0, 20) + encoded[21] + encoded[20] + encoded.slice(22);
+    assert(transposed === encoded || throwsStealthError(() => parseMetaAddress(transposed)), 'Detects swapped characters');
+    assertThrows(() => parseMetaAddress(encoded.slice(0, -1)), StealthAddressError, 'Rejects a truncated string');
+    assertThrows(() => parseMetaAddress(`${encoded}q`), StealthAddressError, 'Rejects an extended string');
+    console.log('');
+
+    console.log('Test 4: Validation');
+    assertThrows(() => parseMetaAddress(''), StealthAddressError, 'Rejects an empty string');
+    assertThrows(() => parseMetaAddress(JSON.stringify(metaAddress)), StealthAddressError, 'Rejects JSON');
+    assertThrows(() => parseMetaAddress(metaAddress.viewPublicKey.toBase58()), StealthAddressError, 'Rejects a base58 public key');
+    assertThrows(
+      () => parseMetaAddress(bech32m('bc', payload(1, viewKey, spendKey))),
+      StealthAddressError,
+      'Rejects another prefix'
+    );
+    assertThrows(() => parseMetaAddress(`zst1${encoded.slice(4, 20)}b${encoded.slice(21)}`), StealthAddressError, 'Rejects characters outside the alphabet');
+    assertThrows(
+      () => parseMetaAddress(bech32m('zst', payload(2, viewKey, spendKey))),
+      StealthAddressError,
+      'Rejects unknown versions'
+    );
+    assertThrows(
+      () => parseMetaAddress(bech32m('zst', payload(1, viewKey, spendKey).slice(0, 64))),
+      StealthAddressError,
+      'Rejects short payloads'
+    );
+    assertThrows(
+      () => parseMetaAddress(bech32m('zst', new Uint8Array([...payload(1, viewKey, spendKey), 0]))),
+      StealthAddressError,
+      'Rejects long payloads'
+    );
+    let lengthError = '';
+    try {
+      parseMetaAddress(`${encoded}q`);
+    } catch (error) {
+      lengthError = error instanceof StealthAddressError ? error.message : '';
+    }
+    assert(/at most 114/.test(lengthError), 'Rejects strings over the maximum length before decoding');
+    assertThrows(
+      () => parseMetaAddress(bech32m('zst', payload(1, notAPoint(), spendKey))),
+      StealthAddressError,
+      'Rejects a view key off the curve'
+    );
+    assertThrows(
+      () => parseMetaAddress(bech32m('zst', payload(1, viewKey, notAPoint()))),
+      StealthAddressError,
+      'Rejects a spend key off the curve'
+    );
+    assertThrows(
+      () => encodeMetaAddress({ ...metaAddress, version: 7 }),
+      StealthAddressError,
+      'Refuses to encode unknown versions'
+    );
+    assertThrows(
+      () => encodeMetaAddress({ ...metaAddress, spendPublicKey: new PublicKey(notAPoint()) }),
+      StealthAddressError,
+      'Refuses to encode keys off the curve'
+    );
+    console.log('');
+
+    console.log('Test 5: Payment request URIs');
+    const mint = Keypair.generate().publicKey;
+    const uri = encodeStealthPaymentUri({
+      metaAddress,
+      amount: '1.5',
+      splToken: mint,
+      label: 'Coffee & Co',
+      message: 'Order #42'
+    });
+    assert(uri.startsWith(`zera:${encoded}?`), 'URIs carry the meta-address as recipient');
+    assert(uri.includes('label=Coffee%20%26%20Co') && uri.includes('message=Order%20%2342'), 'Labels and messages are URL-encoded');
+
+    const request = parseStealthPaymentUri(uri);
+    assert(request.metaAddress.spendPublicKey.equals(metaAddress.spendPublicKey), 'Parses the meta-address');
+    assert(request.amount === '1.5', 'Parses the amount');
+    assert(request.splToken !== undefined && request.splToken.equals(mint), 'Parses the token mint');
+    assert(request.label === 'Coffee & Co' && request.message === 'Order #42', 'Decodes the label and message');
+
+    const bare = encodeStealthPaymentUri({ metaAddress });
+    assert(bare === `zera:${encoded}`, 'URIs without parameters have no query');
+    const bareRequest = parseStealthPaymentUri(bare);
+    assert(bareRequest.amount === undefined && bareRequest.splToken === undefined, 'Parameters are optional');
+    assert(parseStealthPaymentUri(bare.toUpperCase()).metaAddress.viewPublicKey.equals(metaAddress.viewPublicKey), 'Parses uppercase URIs');
+    assert(parseStealthPaymentUri(`${bare}?amount=2&reference=abc`).amount === '2', 'Ignores unknown parameters');
+
+    assertThrows(() => parseStealthPaymentUri(`solana:${encoded}`), StealthAddressError, 'Rejects other schemes');
+    assertThrows(() => parseStealthPaymentUri(`zera:${metaAddress.viewPublicKey.toBase58()}`), StealthAddressError, 'Rejects plain public keys');
+    assertThrows(() => parseStealthPaymentUri(`${bare}?amount=-1`), StealthAddressError, 'Rejects negative amounts');
+    assertThrows(() => parseStealthPaymentUri(`${bare}?amount=1e9`), StealthAddressError, 'Rejects exponent amounts');
+    assertThrows(() => parseStealthPaymentUri(`${bare}?amount=1&amount=2`), StealthAddressError, 'Rejects duplicate parameters');
+    assertThrows(() => parseStealthPaymentUri(`${bare}?spl-token=not-a-mint`), StealthAddressError, 'Rejects invalid mints');
+    assertThrows(() => parseStealthPaymentUri(`${bare}?label=%E0%A4%A`), StealthAddressError, 'Rejects malformed encodings');
+    assertThrows(() => encodeStealthPaymentUri({ metaAddress, amount: '0x10' }), StealthAddressError, 'Refuses to encode invalid amounts');
+    console.log('');
+
+    console.log('=================================================');
+    console.log('📊 Test Summary');
+    console.log('=================================================');
+    console.log(`Total tests: ${totalTests}`);
+    console.log(`Passed: ${passedTests} ✅`);
+    console.log(`Failed: ${failedTests} ❌`);
+
+    if (failedTests === 0) {
+      console.log('\n🎉 All meta-address encoding tests passed!');
+      process.exit(0);
+    } else {
+      console.log(`\n⚠️  ${failedTests} test(s) failed`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Test suite failed with error:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+function throwsStealthError(fn: () => unknown): boolean {
+  try {
+    fn();
+    return false;
+  } catch (error) {
+    return error instanceof StealthAddressError;
+  }
+}
+
+// Run the tests
+runMetaAddressTests();
@@ -0,0 +1,316 @@
+/**
+ * payment-scanning.test.ts
+ *
+ * Purpose: Tests for ownership-checked stealth payment scanning
+ *
+ * Covers `StealthAddressManager.scanForPayments` with a connection: payments
+ * are kept only when the derived stealth address received lamports in the
+ * announcing transaction, amounts and block times are filled in, keys that do
+ * not belong to the recipient (or whose transaction is missing or failed) are
+ * dropped, and `spent` follows later transactions signed by the stealth address.
+ *
+ * Run with: npm run test:payment-scanning
+ */
+
+import { ConfirmedSignatureInfo, Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import { StealthAddressManager } from '../../src/privacy/stealth-address';
+import { ZeraPrivacy } from '../../src/privacy/zera-privacy';
+import { StealthAddressError } from '../../src/privacy/errors';
+import { EphemeralKey } from '../../src/privacy/types';
+import { ExtendedWalletAdapter } from '../../src/core/types';
+
+let passedTests = 0;
+let failedTests = 0;
+let totalTests = 0;
+
+function assert(condition: boolean, message: string) {
+  totalTests++;
+  if (condition) {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+  } else {
+    failedTests++;
+    console.error(`  ❌ ${message}`);
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function assertRejects(fn: () => Promise<unknown>, errorClass: Function, message: string, pattern?: RegExp) {
+  totalTests++;
+  try {
+    await fn();
+  } catch (error) {
+    if (error instanceof errorClass && (!pattern || pattern.test((error as Error).message))) {
+      passedTests++;
+      console.log(`  ✅ ${message}`);
+      return;
+    }
+    failedTests++;
+    console.error(`  ❌ ${message} (unexpected error: ${error})`);
+    throw new Error(`Unexpected error: ${message}`);
+  }
+  failedTests++;
+  console.error(`  ❌ ${message} (expected error but succeeded)`);
+  throw new Error(`Expected error but succeeded: ${message}`);
+}
+
+function createMockWallet(keypair: Keypair): ExtendedWalletAdapter {
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction: async <T extends Transaction>(tx: T) => {
+      tx.partialSign(keypair);
+      return tx;
+    },
+    signAllTransactions: async <T extends Transaction>(txs: T[]) => {
+      txs.forEach(tx => tx.partialSign(keypair));
+      return txs;
+    },
+    rawKeypair: keypair
+  } as ExtendedWalletAdapter;
+}
+
+interface MockAccount {
+  pubkey: PublicKey;
+  signer: boolean;
+  pre: number;
+  post: number;
+}
+
+/**
+ * Parsed transaction touching the given accounts, as returned by `getParsedTransaction`
+ */
+function parsedTransaction(accounts: MockAccount[], options: { err?: unknown; blockTime?: number } = {}) {
+  return {
+    slot: 10,
+    blockTime: options.blockTime ?? 1_700_000_000,
+    transaction: {
+      signatures: [],
+      message: {
+        accountKeys: accounts.map(({ pubkey, signer }) => ({ pubkey, signer, writable: true })),
+        instructions: []
+      }
+    },
+    meta: {
+      err: options.err ?? null,
+      fee: 5000,
+      preBalances: accounts.map(account => account.pre),
+      postBalances: accounts.map(account => account.post),
+      preTokenBalances: [],
+      postTokenBalances: []
+    }
+  };
+}
+
+/**
+ * Connection serving parsed transactions and per-address signature histories
+ */
+function createMockConnection(
+  transactions: Map<string, unknown>,
+  histories: Map<string, ConfirmedSignatureInfo[]> = new Map()
+) {
+  const historyQueries: { address: string; until?: string }[] = [];
+  const connection = {
+    getParsedTransaction: async (signature: string) => transactions.get(signature) ?? null,
+    getSignaturesForAddress: async (address: PublicKey, options?: { until?: string }) => {
+      historyQueries.push({ address: address.toBase58(), until: options?.until });
+      return histories.get(address.toBase58()) ?? [];
+    }
+  } as unknown as Connection;
+  return { connection, historyQueries };
+}
+
+function signatureInfo(signature: string, err: unknown = null): ConfirmedSignatureInfo {
+  return { signature, slot: 20, err: err as ConfirmedSignatureInfo['err'], memo: null, blockTime: 1_700_000_100 };
+}
+
+async function runPaymentScanningTests() {
+  console.log('🔎 Starting Ownership-Checked Payment Scanning Tests');
+  console.log('=================================================\n');
+
+  try {
+    const manager = new StealthAddressManager();
+    const viewKeypair = Keypair.generate();
+    const spendKeypair = Keypair.generate();
+    const metaAddress = manager.generateStealthMetaAddress(viewKeypair, spendKeypair);
+    const otherMetaAddress = manager.generateStealthMetaAddress();
+    const sender = Keypair.generate().publicKey;
+
+    const announce = (recipient = metaAddress, signature: string) => {
+      const { stealthAddress, ephemeralKey } = manager.generateStealthAddress(recipient);
+      const announced: EphemeralKey = { ...ephemeralKey, transactionSignature: signature };
+      return { address: stealthAddress.address, ephemeralKey: announced };
+    };
+
+    const paid = announce(metaAddress, 'paid');
+    const foreign = announce(otherMetaAddress, 'foreign');
+    const failed = announce(metaAddress, 'failed');
+    const missing = announce(metaAddress, 'missing');
+    const unannounced = announce(metaAddress, '');
+    const referenced = announce(metaAddress, 'referenced');
+    const spent = announce(metaAddress, 'spent-payment');
+    const topped = announce(metaAddress, 'topped-payment');
+
+    const transactions = new Map<string, unknown>([
+      [
+        'paid',
+        parsedTransaction(
+          [
+            { pubkey: sender, signer: true, pre: 10_000_000, post: 7_995_000 },
+            { pubkey: paid.address, signer: false, pre: 0, post: 2_000_000 }
+          ],
+          { blockTime: 1_700_000_042 }
+        )
+      ],
+      [
+        'foreign',
+        parsedTransaction([
+          { pubkey: sender, signer: true, pre: 10_000_000, post: 8_995_000 },
+          { pubkey: foreign.address, signer: false, pre: 0, post: 1_000_000 }
+        ])
+      ],
+      [
+        'failed',
+        parsedTransaction(
+          [
+            { pubkey: sender, signer: true, pre: 10_000_000, post: 9_995_000 },
+            { pubkey: failed.address, signer: false, pre: 0, post: 0 }
+          ],
+          { err: { InstructionError: [0, 'Custom'] } }
+        )
+      ],
+      [
+        'referenced',
+        parsedTransaction([
+          { pubkey: sender, signer: true, pre: 10_000_000, post: 9_995_000 },
+          { pubkey: referenced.address, signer: false, pre: 0, post: 0 }
+        ])
+      ],
+      [
+        'spent-payment',
+        parsedTransaction([
+          { pubkey: sender, signer: true, pre: 10_000_000, post: 6_995_000 },
+          { pubkey: spent.address, signer: false, pre: 0, post: 3_000_000 }
+        ])
+      ],
+      [
+        'topped-payment',
+        parsedTransaction([
+          { pubkey: sender, signer: true, pre: 10_000_000, post: 8_995_000 },
+          { pubkey: topped.address, signer: false, pre: 0, post: 1_000_000 }
+        ])
+      ],
+      [
+        'top-up',
+        parsedTransaction([
+          { pubkey: sender, signer: true, pre: 10_000_000, post: 9_495_000 },
+          { pubkey: topped.address, signer: false, pre: 1_000_000, post: 1_500_000 }
+        ])
+      ],
+      [
+        'sweep',
+        parsedTransaction([
+          { pubkey: spent.address, signer: true, pre: 3_000_000, post: 0 },
+          { pubkey: sender, signer: false, pre: 0, post: 2_995_000 }
+        ])
+      ],
+      [
+        'failed-sweep',
+        parsedTransaction([
+          { pubkey: topped.address, signer: true, pre: 1_500_000, post: 1_495_000 },
+          { pubkey: sender, signer: false, pre: 0, post: 0 }
+        ])
+      ]
+    ]);
+    const histories = new Map<string, ConfirmedSignatureInfo[]>([
+      [spent.address.toBase58(), [signatureInfo('sweep'), signatureInfo('spent-payment')]],
+      [
+        topped.address.toBase58(),
+        [signatureInfo('failed-sweep', { InstructionError: [0, 'Custom'] }), signatureInfo('top-up')]
+      ]
+    ]);
+    const allKeys = [paid, foreign, failed, missing, unannounced, referenced, spent, topped].map(
+      announcement => announcement.ephemeralKey
+    );
+
+    console.log('Test 1: Scanning without a connection');
+    const untaggedKeys = allKeys.map(({ viewTag, ...key }) => key);
+    const derived = await manager.scanForPayments(metaAddress, viewKeypair.secretKey, untaggedKeys);
+    assert(derived.length === allKeys.length, 'Derives a payment for every untagged key');
+    assert(derived.every(payment => payment.amount === 0 && !payment.spent), 'Amounts are unknown');
+    console.log('');
+
+    console.log('Test 2: Ownership checks');
+    const { connection, historyQueries } = createMockConnection(transactions, histories);
+    const payments = await manager.scanForPayments(metaAddress, viewKeypair.secretKey, allKeys, connection);
+    const found = (address: PublicKey) => payments.find(payment => payment.stealthAddress.equals(address));
+
+    assert(payments.length === 3, 'Keeps only the payments that were received');
+    assert(!found(foreign.address), 'Drops keys announced to another recipient');
+    assert(!found(failed.address), 'Drops keys whose transaction failed');
+    assert(!found(missing.address), 'Drops keys whose transaction is missing');
+    assert(!found(unannounced.address), 'Drops keys without a transaction signature');
+    assert(!found(referenced.address), 'Drops transactions that paid nothing to the derived address');
+    console.log('');
+
+    console.log('Test 3: Amounts');
+    const paidPayment = found(paid.address)!;
+    assert(paidPayment.amount === 2_000_000, 'Fills in the lamports received');
+    assert(paidPayment.receivedTokens!.length === 0, 'Reports no tokens for SOL payments');
+    assert(paidPayment.detectedAt === 1_700_000_042_000, 'Uses the block time of the payment');
+    assert(paidPayment.transactionSignature === 'paid', 'Keeps the payment transaction signature');
+    assert(found(spent.address)!.amount === 3_000_000, 'Each payment reports its own amount');
+    console.log('');
+
+    console.log('Test 4: Spent status');
+    assert(!paidPayment.spent, 'A payment without later transactions is unspent');
+    assert(found(spent.address)!.spent, 'A later transaction signed by the stealth address marks it spent');
+    assert(!found(topped.address)!.spent, 'Later deposits and failed transactions do not');
+    assert(
+      historyQueries.some(query => query.address === spent.address.toBase58() && query.until === 'spent-payment'),
+      'Only the history after the payment is fetched'
+    );
+    console.log('');
+
+    console.log('Test 5: ZeraPrivacy scanning');
+    const privacy = new ZeraPrivacy();
+    await privacy.init(connection, createMockWallet(Keypair.generate()), { mode: 'privacy' });
+    const viaPrivacy = await privacy.scanForPayments(metaAddress, viewKeypair.secretKey, allKeys);
+    assert(viaPrivacy.length === 3, 'ZeraPrivacy checks ownership on-chain');
+
+    const broken = new ZeraPrivacy();
+    await broken.init(
+      { getParsedTransaction: async () => { throw new Error('429 Too Many Requests'); } } as unknown as Connection,
+      createMockWallet(Keypair.generate()),
+      { mode: 'privacy' }
+    );
+    await assertRejects(
+      () => broken.scanForPayments(metaAddress, viewKeypair.secretKey, [paid.ephemeralKey]),
+      StealthAddressError,
+      'RPC failures are reported instead of dropping payments',
+      /429/
+    );
+    console.log('');
+
+    console.log('=================================================');
+    console.log('📊 Test Summary');
+    console.log('=================================================');
+    console.log(`Total tests: ${totalTests}`);
+    console.log(`Passed: ${passedTests} ✅`);
+    console.log(`Failed: ${failedTests} ❌`);
+
+    if (failedTests === 0) {
+      console.log('\n🎉 All payment scanning tests passed!');
+      process.exit(0);
+    } else {
+      console.log(`\n⚠️  ${failedTests} test(s) failed`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Test suite failed with error:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runPaymentScanningTests();
@@ -0,0 +1,236 @@
+/**
+ * privacy-keys.test.ts
+ *
+ * Purpose: Tests for privacy keys derived from a wallet signature
+ *
+ * Covers `derivePrivacyKeys` and `privacyKeysFromSignature` (determinism
+ * across wallets that sign locally or through `signMessage`, domain
+ * separation, signature checks), `ZeraPrivacy.derivePrivacyKeys` prompting
+ * once, and stealth payments and viewing keys working with a wallet that
+ * never exposes its secret key.
+ *
+ * Run with: npm run test:privacy-keys
+ */
+
+import { Connection, Keypair, Transaction } from '@solana/web3.js';
+import { ed25519 } from '@noble/curves/ed25519';
+import { ZeraPrivacy } from '../../src/privacy/zera-privacy';
+import { StealthAddressManager } from '../../src/privacy/stealth-address';
+import { ViewingKeyManager } from '../../src/privacy/viewing-keys';
+import {
+  PRIVACY_KEYS_MESSAGE,
+  derivePrivacyKeys,
+  privacyKeysFromSignature
+} from '../../src/privacy/key-derivation';
+import { EncryptionError, PrivacyError } from '../../src/privacy/errors';
+import { ExtendedWalletAdapter } from '../../src/core/types';
+
+let passedTests = 0;
+let failedTests = 0;
+let totalTests = 0;
+
+function assert(condition: boolean, message: string) {
+  totalTests++;
+  if (condition) {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+  } else {
+    failedTests++;
+    console.error(`  ❌ ${message}`);
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertThrows(fn: () => unknown, errorClass: Function, message: string) {
+  totalTests++;
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof errorClass) {
+      passedTests++;
+      console.log(`  ✅ ${message}`);
+      return;
+    }
+    failedTests++;
+    console.error(`  ❌ ${message} (unexpected error: ${error})`);
+    throw new Error(`Unexpected error: ${message}`);
+  }
+  failedTests++;
+  console.error(`  ❌ ${message} (expected error but succeeded)`);
+  throw new Error(`Expected error but succeeded: ${message}`);
+}
+
+async function assertRejects(fn: () => Promise<unknown>, errorClass: Function, message: string, pattern?: RegExp) {
+  totalTests++;
+  try {
+    await fn();
+  } catch (error) {
+    if (error instanceof errorClass && (!pattern || pattern.test((error as Error).message))) {
+      passedTests++;
+      console.log(`  ✅ ${message}`);
+      return;
+    }
+    failedTests++;
+    console.error(`  ❌ ${message} (unexpected error: ${error})`);
+    throw new Error(`Unexpected error: ${message}`);
+  }
+  failedTests++;
+  console.error(`  ❌ ${message} (expected error but succeeded)`);
+  throw new Error(`Expected error but succeeded: ${message}`);
+}
+
+function createMockWallet(keypair: Keypair): ExtendedWalletAdapter {
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction: async <T extends Transaction>(tx: T) => {
+      tx.partialSign(keypair);
+      return tx;
+    },
+    signAllTransactions: async <T extends Transaction>(txs: T[]) => {
+      txs.forEach(tx => tx.partialSign(keypair));
+      return txs;
+    },
+    rawKeypair: keypair
+  } as ExtendedWalletAdapter;
+}
+
+/**
+ * Browser-style wallet: signs messages but never exposes its keypair
+ */
+function createMessageSigningWallet(keypair: Keypair, prompts: Uint8Array[] = []): ExtendedWalletAdapter {
+  const wallet = createMockWallet(keypair);
+  delete wallet.rawKeypair;
+  wallet.signMessage = async (message: Uint8Array) => {
+    prompts.push(message);
+    return ed25519.sign(message, keypair.secretKey.slice(0, 32));
+  };
+  return wallet;
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+async function runPrivacyKeyTests() {
+  console.log('🔑 Starting Wallet-Derived Privacy Key Tests');
+  console.log('=================================================\n');
+
+  try {
+    const keypair = Keypair.generate();
+
+    console.log('Test 1: Deterministic derivation');
+    const local = await derivePrivacyKeys(createMockWallet(keypair));
+    const prompts: Uint8Array[] = [];
+    const remote = await derivePrivacyKeys(createMessageSigningWallet(keypair, prompts));
+    assert(prompts.length === 1 && equalBytes(prompts[0], PRIVACY_KEYS_MESSAGE), 'Browser wallets sign the fixed message once');
+    assert(local.viewKeypair.publicKey.equals(remote.viewKeypair.publicKey), 'Same view key with or without the raw keypair');
+    assert(local.spendKeypair.publicKey.equals(remote.spendKeypair.publicKey), 'Same spend key with or without the raw keypair');
+    assert(equalBytes(local.elGamal.publicKey, remote.elGamal.publicKey), 'Same ElGamal key with or without the raw keypair');
+    const again = await derivePrivacyKeys(createMessageSigningWallet(keypair));
+    assert(again.viewKeypair.publicKey.equals(local.viewKeypair.publicKey), 'Re-deriving on another device recovers the same keys');
+    assert(
+      local.metaAddress.viewPublicKey.equals(local.viewKeypair.publicKey) &&
+        local.metaAddress.spendPublicKey.equals(local.spendKeypair.publicKey),
+      'The meta-address holds the derived view and spend keys'
+    );
+    assert(new TextDecoder().decode(PRIVACY_KEYS_MESSAGE).startsWith('Zera privacy keys v1'), 'The message names what it unlocks and its version');
+    console.log('');
+
+    console.log('Test 2: Domain separation');
+    const other = await derivePrivacyKeys(createMockWallet(Keypair.generate()));
+    assert(!other.viewKeypair.publicKey.equals(local.viewKeypair.publicKey), 'Other wallets get other keys');
+    assert(!local.viewKeypair.publicKey.equals(local.spendKeypair.publicKey), 'View and spend keys differ');
+    assert(!local.viewKeypair.publicKey.equals(keypair.publicKey), 'Privacy keys are not the wallet key');
+    assert(!equalBytes(local.elGamal.publicKey, local.viewKeypair.publicKey.toBytes()), 'The ElGamal key differs from the stealth keys');
+    const tokenSignature = ed25519.sign(
+      new Uint8Array([...new TextEncoder().encode('ElGamalSecretKey'), ...Keypair.generate().publicKey.toBytes()]),
+      keypair.secretKey.slice(0, 32)
+    );
+    assert(
+      !privacyKeysFromSignature(tokenSignature).viewKeypair.publicKey.equals(local.viewKeypair.publicKey),
+      'Token account derivation signatures do not yield the privacy keys'
+    );
+    console.log('');
+
+    console.log('Test 3: Signature checks');
+    assertThrows(() => privacyKeysFromSignature(new Uint8Array(64)), EncryptionError, 'Rejects the all-zero signature');
+    assertThrows(() => privacyKeysFromSignature(new Uint8Array(63).fill(1)), EncryptionError, 'Rejects short signatures');
+    const noSigner = createMockWallet(keypair);
+    delete noSigner.rawKeypair;
+    await assertRejects(() => derivePrivacyKeys(noSigner), EncryptionError, 'Rejects wallets that cannot sign messages', /Cannot derive privacy keys: Wallet does not support message signing/);
+    const wrongSigner = createMockWallet(keypair);
+    delete wrongSigner.rawKeypair;
+    wrongSigner.signMessage = async (message: Uint8Array) => ed25519.sign(message, Keypair.generate().secretKey.slice(0, 32));
+    await assertRejects(() => derivePrivacyKeys(wrongSigner), EncryptionError, 'Rejects signatures by another key', /does not verify/);
+    const prefixingSigner = createMockWallet(keypair);
+    delete prefixingSigner.rawKeypair;
+    prefixingSigner.signMessage = async (message: Uint8Array) =>
+      ed25519.sign(new Uint8Array([0xff, ...message]), keypair.secretKey.slice(0, 32));
+    await assertRejects(() => derivePrivacyKeys(prefixingSigner), EncryptionError, 'Rejects signatures over other bytes');
+    console.log('');
+
+    console.log('Test 4: ZeraPrivacy.derivePrivacyKeys');
+    const sdkPrompts: Uint8Array[] = [];
+    const privacy = new ZeraPrivacy();
+    await privacy.init({} as unknown as Connection, createMessageSigningWallet(keypair, sdkPrompts), { mode: 'privacy' });
+    const first = await privacy.derivePrivacyKeys();
+    const second = await privacy.derivePrivacyKeys();
+    assert(first === second && sdkPrompts.length === 1, 'Prompts the wallet once per initialization');
+    assert(first.viewKeypair.publicKey.equals(local.viewKeypair.publicKey), 'Matches the standalone derivation');
+
+    let declines = 1;
+    const decliningWallet = createMessageSigningWallet(keypair);
+    const signMessage = decliningWallet.signMessage!;
+    decliningWallet.signMessage = async (message: Uint8Array) => {
+      if (declines-- > 0) throw new Error('User rejected the request');
+      return signMessage(message);
+    };
+    const declining = new ZeraPrivacy();
+    await declining.init({} as unknown as Connection, decliningWallet, { mode: 'privacy' });
+    await assertRejects(() => declining.derivePrivacyKeys(), PrivacyError, 'Failures are wrapped', /Failed to derive privacy keys: .*Cannot derive privacy keys: User rejected/);
+    const retried = await declining.derivePrivacyKeys();
+    assert(retried.spendKeypair.publicKey.equals(local.spendKeypair.publicKey), 'A declined prompt can be retried');
+    await assertRejects(() => new ZeraPrivacy().derivePrivacyKeys(), PrivacyError, 'Requires initialization');
+    console.log('');
+
+    console.log('Test 5: Privacy features without the secret key');
+    const manager = new StealthAddressManager();
+    const sender = Keypair.generate().publicKey;
+    const built = manager.buildStealthPaymentTransaction(sender, first.metaAddress, 1_000_000);
+    const found = await manager.scanForPayments(first.metaAddress, first.viewKeypair.secretKey, [built.ephemeralKey]);
+    assert(
+      found.length === 1 && found[0].stealthAddress.equals(built.stealthAddress.address),
+      'Derived view keys find payments to the derived meta-address'
+    );
+    const spending = manager.deriveStealthSpendingKeyWithPrivate(found[0].sharedSecret, first.spendKeypair.secretKey);
+    assert(spending.publicKey.equals(built.stealthAddress.address), 'Derived spend keys control the stealth address');
+
+    const account = Keypair.generate().publicKey;
+    const browserViewing = await new ViewingKeyManager(createMessageSigningWallet(keypair)).generateViewingKey(account);
+    const localViewing = await new ViewingKeyManager(createMockWallet(keypair)).generateViewingKey(account);
+    assert(browserViewing.publicKey.equals(localViewing.publicKey), 'Viewing keys derive through signMessage too');
+    console.log('');
+
+    console.log('=================================================');
+    console.log('📊 Test Summary');
+    console.log('=================================================');
+    console.log(`Total tests: ${totalTests}`);
+    console.log(`Passed: ${passedTests} ✅`);
+    console.log(`Failed: ${failedTests} ❌`);
+
+    if (failedTests === 0) {
+      console.log('\n🎉 All privacy key tests passed!');
+      process.exit(0);
+    } else {
+      console.log(`\n⚠️  ${failedTests} test(s) failed`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Test suite failed with error:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runPrivacyKeyTests();
@@ -0,0 +1,453 @@
+/**
+ * relayer-sweep.test.ts
+ *
+ * Purpose: Tests for relayer-sponsored stealth sweeps
+ *
+ * Runs `ZeraPrivacy.sweepStealthPayment` with a `TestRelayer` as fee payer
+ * against a local stand-in for the cluster that executes the submitted
+ * transactions instruction by instruction (fees, transfers, token account
+ * creation and closing) and fails on any negative balance. Covers token-only
+ * stealth addresses that hold no SOL, reimbursement of the relayer and
+ * relayer validation.
+ *
+ * Run with: npm run test:relayer-sweep
+ */
+
+import {
+  AccountInfo,
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  Transaction,
+  TransactionSignature
+} from '@solana/web3.js';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  decodeCloseAccountInstruction,
+  decodeTransferCheckedInstruction,
+  getAssociatedTokenAddressSync
+} from '@solana/spl-token';
+import { ZeraPrivacy } from '../../src/privacy/zera-privacy';
+import { StealthAddressManager } from '../../src/privacy/stealth-address';
+import { StealthAddressError } from '../../src/privacy/errors';
+import { StealthPayment } from '../../src/privacy/types';
+import { SponsoringRelayer, TestRelayer } from '../../src/core/relayer';
+import { normalizeWallet } from '../../src/core/wallet';
+import { ExtendedWalletAdapter } from '../../src/core/types';
+
+const FEE_PER_SIGNATURE = 5000;
+const TOKEN_ACCOUNT_RENT = 2_039_280;
+
+let passedTests = 0;
+let failedTests = 0;
+let totalTests = 0;
+
+function assert(condition: boolean, message: string) {
+  totalTests++;
+  if (condition) {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+  } else {
+    failedTests++;
+    console.error(`  ❌ ${message}`);
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function assertRejects(fn: () => Promise<unknown>, errorClass: Function, message: string, pattern?: RegExp) {
+  totalTests++;
+  try {
+    await fn();
+  } catch (error) {
+    if (error instanceof errorClass && (!pattern || pattern.test((error as Error).message))) {
+      passedTests++;
+      console.log(`  ✅ ${message}`);
+      return;
+    }
+    failedTests++;
+    console.error(`  ❌ ${message} (unexpected error: ${error})`);
+    throw new Error(`Unexpected error: ${message}`);
+  }
+  failedTests++;
+  console.error(`  ❌ ${message} (expected error but succeeded)`);
+  throw new Error(`Expected error but succeeded: ${message}`);
+}
+
+function createMockWallet(keypair: Keypair): ExtendedWalletAdapter {
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction: async <T extends Transaction>(tx: T) => {
+      tx.partialSign(keypair);
+      return tx;
+    },
+    signAllTransactions: async <T extends Transaction>(txs: T[]) => {
+      txs.forEach(tx => tx.partialSign(keypair));
+      return txs;
+    },
+    rawKeypair: keypair
+  } as ExtendedWalletAdapter;
+}
+
+function rentFor(space: number): number {
+  return (128 + space) * 6960;
+}
+
+interface LedgerTokenAccount {
+  address: PublicKey;
+  owner: PublicKey;
+  mint: PublicKey;
+  programId: PublicKey;
+  amount: bigint;
+  decimals: number;
+}
+
+/**
+ * Local stand-in for the cluster: keeps lamport balances and token accounts
+ * and executes submitted transactions against them
+ */
+class LocalLedger {
+  lamports: Map<string, number> = new Map();
+  tokenAccounts: Map<string, LedgerTokenAccount> = new Map();
+  executed: Transaction[] = [];
+
+  balance(address: PublicKey): number {
+    return this.lamports.get(address.toBase58()) ?? 0;
+  }
+
+  credit(address: PublicKey, lamports: number) {
+    this.lamports.set(address.toBase58(), this.balance(address) + lamports);
+  }
+
+  debit(address: PublicKey, lamports: number) {
+    const balance = this.balance(address);
+    if (balance < lamports) {
+      throw new Error(`insufficient lamports in ${address.toBase58()}: ${balance} < ${lamports}`);
+    }
+    this.lamports.set(address.toBase58(), balance - lamports);
+  }
+
+  addTokenAccount(account: LedgerTokenAccount) {
+    this.tokenAccounts.set(account.address.toBase58(), account);
+    this.credit(account.address, TOKEN_ACCOUNT_RENT);
+  }
+
+  execute(raw: Buffer): TransactionSignature {
+    const transaction = Transaction.from(raw);
+    if (!transaction.verifySignatures()) {
+      throw new Error('missing or invalid signature');
+    }
+
+    const snapshot = { lamports: new Map(this.lamports), tokenAccounts: new Map(this.tokenAccounts) };
+    try {
+      this.debit(transaction.feePayer!, transaction.signatures.length * FEE_PER_SIGNATURE);
+
+      for (const instruction of transaction.instructions) {
+        if (instruction.programId.equals(SystemProgram.programId)) {
+          const { fromPubkey, toPubkey, lamports } = SystemInstruction.decodeTransfer(instruction);
+          this.debit(fromPubkey, Number(lamports));
+          this.credit(toPubkey, Number(lamports));
+        } else if (instruction.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) {
+          const [payer, address, owner, mint, , programId] = instruction.keys.map(key => key.pubkey);
+          if (!this.tokenAccounts.has(address.toBase58())) {
+            const rent = rentFor(programId.equals(TOKEN_2022_PROGRAM_ID) ? 170 : 165);
+            this.debit(payer, rent);
+            this.credit(address, rent);
+            this.tokenAccounts.set(address.toBase58(), { address, owner, mint, programId, amount: 0n, decimals: 0 });
+          }
+        } else if (instruction.programId.equals(TOKEN_PROGRAM_ID) || instruction.programId.equals(TOKEN_2022_PROGRAM_ID)) {
+          if (instruction.data[0] === 12) {
+            const { keys, data } = decodeTransferCheckedInstruction(instruction, instruction.programId);
+            const source = this.tokenAccounts.get(keys.source.pubkey.toBase58())!;
+            const destination = this.tokenAccounts.get(keys.destination.pubkey.toBase58())!;
+            if (!source.owner.equals(keys.owner.pubkey) || source.amount < data.amount) {
+              throw new Error('invalid token transfer');
+            }
+            source.amount -= data.amount;
+            destination.amount += data.amount;
+          } else {
+            const { keys } = decodeCloseAccountInstruction(instruction, instruction.programId);
+            const account = this.tokenAccounts.get(keys.account.pubkey.toBase58())!;
+            if (account.amount !== 0n || !account.owner.equals(keys.authority.pubkey)) {
+              throw new Error('cannot close token account');
+            }
+            const lamports = this.balance(account.address);
+            this.debit(account.address, lamports);
+            this.credit(keys.destination.pubkey, lamports);
+            this.tokenAccounts.delete(account.address.toBase58());
+          }
+        }
+      }
+    } catch (error) {
+      this.lamports = snapshot.lamports;
+      this.tokenAccounts = snapshot.tokenAccounts;
+      throw error;
+    }
+
+    this.executed.push(transaction);
+    return `relayed-signature-${this.executed.length}`;
+  }
+
+  connection(): Connection {
+    const accountInfo = (address: PublicKey): AccountInfo<Buffer> | null => {
+      const lamports = this.balance(address);
+      const tokenAccount = this.tokenAccounts.get(address.toBase58());
+      if (lamports === 0 && !tokenAccount) {
+        return null;
+      }
+      return {
+        data: Buffer.alloc(tokenAccount ? 165 : 0),
+        executable: false,
+        lamports,
+        owner: tokenAccount ? tokenAccount.programId : SystemProgram.programId,
+        rentEpoch: 0
+      };
+    };
+
+    return {
+      getBalance: async (address: PublicKey) => this.balance(address),
+      getAccountInfo: async (address: PublicKey) => accountInfo(address),
+      getMultipleAccountsInfo: async (addresses: PublicKey[]) => addresses.map(accountInfo),
+      getMinimumBalanceForRentExemption: async (space: number) => rentFor(space),
+      getParsedTokenAccountsByOwner: async (owner: PublicKey, filter: { programId: PublicKey }) => ({
+        context: { slot: 1 },
+        value: Array.from(this.tokenAccounts.values())
+          .filter(account => account.owner.equals(owner) && account.programId.equals(filter.programId))
+          .map(account => ({
+            pubkey: account.address,
+            account: {
+              data: {
+                program: 'spl-token',
+                parsed: {
+                  type: 'account',
+                  info: {
+                    mint: account.mint.toBase58(),
+                    owner: owner.toBase58(),
+                    tokenAmount: { amount: account.amount.toString(), decimals: account.decimals }
+                  }
+                },
+                space: 165
+              },
+              executable: false,
+              lamports: this.balance(account.address),
+              owner: account.programId,
+              rentEpoch: 0
+            }
+          }))
+      }),
+      getLatestBlockhash: async () => ({
+        blockhash: Keypair.generate().publicKey.toBase58(),
+        lastValidBlockHeight: 1000
+      }),
+      sendRawTransaction: async (raw: Buffer) => this.execute(raw),
+      confirmTransaction: async () => ({ context: { slot: 1 }, value: { err: null } })
+    } as unknown as Connection;
+  }
+}
+
+async function runRelayerSweepTests() {
+  console.log('🛰️  Starting Relayer-Sponsored Sweep Tests');
+  console.log('=================================================\n');
+
+  try {
+    const viewKeypair = Keypair.generate();
+    const spendKeypair = Keypair.generate();
+    const manager = new StealthAddressManager();
+    const metaAddress = manager.generateStealthMetaAddress(viewKeypair, spendKeypair);
+    const findPayment = async (): Promise<StealthPayment> => {
+      const { ephemeralKey } = manager.generateStealthAddress(metaAddress);
+      const [payment] = await manager.scanForPayments(metaAddress, viewKeypair.secretKey, [ephemeralKey]);
+      return payment;
+    };
+
+    const ledger = new LocalLedger();
+    const connection = ledger.connection();
+    const relayerKeypair = Keypair.generate();
+    ledger.credit(relayerKeypair.publicKey, 1_000_000_000);
+    const relayer = new TestRelayer(normalizeWallet(relayerKeypair), connection, 100_000);
+
+    const privacy = new ZeraPrivacy();
+    await privacy.init(connection, createMockWallet(Keypair.generate()), { mode: 'privacy' });
+    const destination = Keypair.generate().publicKey;
+
+    console.log('Test 1: Sweeping a token-only stealth address');
+    const tokenPayment = await findPayment();
+    const splMint = Keypair.generate().publicKey;
+    const token2022Mint = Keypair.generate().publicKey;
+    const splAccount = getAssociatedTokenAddressSync(splMint, tokenPayment.stealthAddress);
+    ledger.addTokenAccount({
+      address: splAccount,
+      owner: tokenPayment.stealthAddress,
+      mint: splMint,
+      programId: TOKEN_PROGRAM_ID,
+      amount: 4_200_000n,
+      decimals: 6
+    });
+    const token2022Account = getAssociatedTokenAddressSync(
+      token2022Mint,
+      tokenPayment.stealthAddress,
+      false,
+      TOKEN_2022_PROGRAM_ID
+    );
+    ledger.addTokenAccount({
+      address: token2022Account,
+      owner: tokenPayment.stealthAddress,
+      mint: token2022Mint,
+      programId: TOKEN_2022_PROGRAM_ID,
+      amount: 11n,
+      decimals: 9
+    });
+    // The Token 2022 destination account already exists; the SPL one has to be created
+    const existingDestinationAccount = getAssociatedTokenAddressSync(token2022Mint, destination, true, TOKEN_2022_PROGRAM_ID);
+    ledger.addTokenAccount({
+      address: existingDestinationAccount,
+      owner: destination,
+      mint: token2022Mint,
+      programId: TOKEN_2022_PROGRAM_ID,
+      amount: 0n,
+      decimals: 9
+    });
+    const destinationAccountRent = ledger.balance(existingDestinationAccount);
+    assert(ledger.balance(tokenPayment.stealthAddress) === 0, 'The stealth address holds no SOL');
+
+    const relayerBefore = ledger.balance(relayerKeypair.publicKey);
+    const sweep = await privacy.sweepStealthPayment(tokenPayment, destination, spendKeypair.secretKey, { relayer });
+    const transaction = ledger.executed[0];
+
+    assert(sweep.relayer!.equals(relayerKeypair.publicKey), 'Reports the sponsoring relayer');
+    assert(
+      transaction.feePayer!.equals(relayerKeypair.publicKey) && transaction.signatures.length === 2,
+      'The relayer is the fee payer and the stealth address co-signs'
+    );
+    assert(transaction.verifySignatures(), 'Both signatures survive the relayer signing');
+    assert(sweep.fee === 100_000 + rentFor(165), 'The relayer is reimbursed its fee and the rent it paid');
+    assert(
+      sweep.lamports === 2 * TOKEN_ACCOUNT_RENT - sweep.fee,
+      'The destination receives the closed accounts rent less the reimbursement'
+    );
+    assert(ledger.balance(tokenPayment.stealthAddress) === 0, 'The stealth address is left empty');
+    assert(
+      ledger.balance(relayerKeypair.publicKey) - relayerBefore === 100_000 - 2 * FEE_PER_SIGNATURE,
+      'The relayer nets its fee after paying the network fee'
+    );
+    assert(ledger.balance(destination) === sweep.lamports, 'The destination receives the SOL');
+    const destinationSplAccount = ledger.tokenAccounts.get(getAssociatedTokenAddressSync(splMint, destination, true).toBase58());
+    assert(destinationSplAccount?.amount === 4_200_000n, 'The SPL Token balance reaches a new destination token account');
+    assert(
+      ledger.tokenAccounts.get(existingDestinationAccount.toBase58())!.amount === 11n &&
+        ledger.balance(existingDestinationAccount) === destinationAccountRent,
+      'The Token 2022 balance reaches the existing destination token account'
+    );
+    assert(
+      !ledger.tokenAccounts.has(splAccount.toBase58()) && !ledger.tokenAccounts.has(token2022Account.toBase58()),
+      'The stealth token accounts are closed'
+    );
+    const transfers = transaction.instructions
+      .filter(instruction => instruction.programId.equals(SystemProgram.programId))
+      .map(instruction => SystemInstruction.decodeTransfer(instruction));
+    assert(
+      transfers.length === 2 &&
+        transfers[0].toPubkey.equals(relayerKeypair.publicKey) &&
+        transfers[1].toPubkey.equals(destination),
+      'Reimburses the relayer before paying the destination'
+    );
+    console.log('');
+
+    console.log('Test 2: Sweeping SOL through the relayer');
+    const solPayment = await findPayment();
+    ledger.credit(solPayment.stealthAddress, 1_500_000);
+    const solSweep = await privacy.sweepStealthPayment(solPayment, destination, spendKeypair.secretKey, { relayer });
+    assert(solSweep.fee === 100_000 && solSweep.lamports === 1_400_000, 'Deducts only the relayer fee from the SOL');
+    assert(ledger.balance(solPayment.stealthAddress) === 0, 'The stealth address is left empty');
+    console.log('');
+
+    console.log('Test 3: Refused sponsored sweeps');
+    const poorPayment = await findPayment();
+    ledger.addTokenAccount({
+      address: getAssociatedTokenAddressSync(splMint, poorPayment.stealthAddress),
+      owner: poorPayment.stealthAddress,
+      mint: splMint,
+      programId: TOKEN_PROGRAM_ID,
+      amount: 1n,
+      decimals: 6
+    });
+    const expensiveRelayer = new TestRelayer(normalizeWallet(relayerKeypair), connection, 5_000_000);
+    const executedBefore = ledger.executed.length;
+    await assertRejects(
+      () => privacy.sweepStealthPayment(poorPayment, destination, spendKeypair.secretKey, { relayer: expensiveRelayer }),
+      StealthAddressError,
+      'Refuses a sweep that cannot reimburse the relayer',
+      /relayer needs 5000000/
+    );
+
+    const unavailable: SponsoringRelayer = {
+      submitTransaction: async () => 'never',
+      submitSponsoredTransaction: async () => 'never',
+      getPublicKey: () => relayerKeypair.publicKey.toBase58(),
+      isReady: () => false,
+      getFeeAmount: () => 0
+    };
+    await assertRejects(
+      () => privacy.sweepStealthPayment(poorPayment, destination, spendKeypair.secretKey, { relayer: unavailable }),
+      StealthAddressError,
+      'Refuses a relayer that is not ready'
+    );
+    await assertRejects(
+      () =>
+        privacy.sweepStealthPayment(poorPayment, destination, spendKeypair.secretKey, {
+          relayer: { ...unavailable, isReady: () => true, getFeeAmount: () => -1 }
+        }),
+      StealthAddressError,
+      'Refuses a negative relayer fee'
+    );
+    assert(ledger.executed.length === executedBefore, 'Refused sweeps are not submitted');
+    console.log('');
+
+    console.log('Test 4: TestRelayer sponsorship checks');
+    const foreign = new Transaction({
+      feePayer: destination,
+      recentBlockhash: Keypair.generate().publicKey.toBase58()
+    }).add(SystemProgram.transfer({ fromPubkey: destination, toPubkey: relayerKeypair.publicKey, lamports: 1 }));
+    await assertRejects(
+      () => relayer.submitSponsoredTransaction(foreign),
+      Error,
+      'Refuses transactions with another fee payer',
+      /must use the relayer as fee payer/
+    );
+    const unanchored = new Transaction({ feePayer: relayerKeypair.publicKey }).add(
+      SystemProgram.transfer({ fromPubkey: relayerKeypair.publicKey, toPubkey: destination, lamports: 1 })
+    );
+    await assertRejects(
+      () => relayer.submitSponsoredTransaction(unanchored),
+      Error,
+      'Refuses transactions without a blockhash',
+      /no recent blockhash/
+    );
+    console.log('');
+
+    console.log('=================================================');
+    console.log('📊 Test Summary');
+    console.log('=================================================');
+    console.log(`Total tests: ${totalTests}`);
+    console.log(`Passed: ${passedTests} ✅`);
+    console.log(`Failed: ${failedTests} ❌`);
+
+    if (failedTests === 0) {
+      console.log('\n🎉 All relayer sweep tests passed!');
+      process.exit(0);
+    } else {
+      console.log(`\n⚠️  ${failedTests} test(s) failed`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Test suite failed with error:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runRelayerSweepTests();
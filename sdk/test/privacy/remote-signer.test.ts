@@ -0,0 +1,409 @@
+/**
+ * remote-signer.test.ts
+ *
+ * Purpose: Tests for remote (KMS / HSM) signers
+ *
+ * Covers `LocalSignerService` (audit log, disabled keys, approval policy,
+ * request checks), `RemoteSignerWallet` signing legacy and versioned
+ * transactions and messages, remote signers accepted in place of wallets,
+ * and ZeraPrivacy with a separate fee payer and mint authority. Sent
+ * transactions are captured from a mock connection, so no network is needed.
+ *
+ * Run with: npm run test:remote-signer
+ */
+
+import {
+  AccountInfo,
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  AccountState,
+  AccountType,
+  ExtensionType,
+  MintLayout,
+  TOKEN_2022_PROGRAM_ID,
+  TokenInstruction
+} from '@solana/spl-token';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+import {
+  LocalSignerService,
+  RemoteSigner,
+  RemoteSignerWallet,
+  isRemoteSigner,
+  toWalletAdapter
+} from '../../src/core/remote-signer';
+import { normalizeWallet } from '../../src/core/wallet';
+import { verifyMessage } from '../../src/core/message-signing';
+import { SigningError } from '../../src/core/errors';
+import { ZeraPrivacy } from '../../src/privacy/zera-privacy';
+import { ConfidentialTransferManager } from '../../src/privacy/confidential-transfer';
+import { CONFIDENTIAL_TRANSFER_ACCOUNT_LEN } from '../../src/privacy/confidential-state';
+import { ExtendedWalletAdapter } from '../../src/core/types';
+
+let passedTests = 0;
+let failedTests = 0;
+let totalTests = 0;
+
+function assert(condition: boolean, message: string) {
+  totalTests++;
+  if (condition) {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+  } else {
+    failedTests++;
+    console.error(`  ❌ ${message}`);
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function assertRejects(fn: () => Promise<unknown>, errorClass: Function, message: string, pattern?: RegExp) {
+  totalTests++;
+  try {
+    await fn();
+  } catch (error) {
+    if (error instanceof errorClass && (!pattern || pattern.test((error as Error).message))) {
+      passedTests++;
+      console.log(`  ✅ ${message}`);
+      return;
+    }
+    failedTests++;
+    console.error(`  ❌ ${message} (unexpected error: ${error})`);
+    throw new Error(`Unexpected error: ${message}`);
+  }
+  failedTests++;
+  console.error(`  ❌ ${message} (expected error but succeeded)`);
+  throw new Error(`Expected error but succeeded: ${message}`);
+}
+
+function createMockWallet(keypair: Keypair): ExtendedWalletAdapter {
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction: async <T extends Transaction>(tx: T) => {
+      tx.partialSign(keypair);
+      return tx;
+    },
+    signAllTransactions: async <T extends Transaction>(txs: T[]) => {
+      txs.forEach(tx => tx.partialSign(keypair));
+      return txs;
+    },
+    rawKeypair: keypair
+  } as ExtendedWalletAdapter;
+}
+
+const blockhash = new PublicKey(new Uint8Array(32).fill(7)).toBase58();
+
+/**
+ * Mock connection serving fixed account data and capturing sent transactions
+ */
+function createMockConnection(accounts: Map<string, Buffer>, sent: Transaction[], failures = { count: 0 }): Connection {
+  return {
+    getAccountInfo: async (address: PublicKey): Promise<AccountInfo<Buffer> | null> => {
+      const data = accounts.get(address.toBase58());
+      return data
+        ? { data, owner: TOKEN_2022_PROGRAM_ID, lamports: 1, executable: false, rentEpoch: 0 }
+        : null;
+    },
+    getMinimumBalanceForRentExemption: async () => 1_000_000,
+    getLatestBlockhash: async () => ({ blockhash, lastValidBlockHeight: 100 }),
+    sendRawTransaction: async (raw: Buffer) => {
+      if (failures.count > 0) {
+        failures.count--;
+        throw new Error('Instruction not supported');
+      }
+      sent.push(Transaction.from(raw));
+      return `signature-${sent.length}`;
+    },
+    confirmTransaction: async () => ({ context: { slot: 1 }, value: { err: null } })
+  } as unknown as Connection;
+}
+
+/**
+ * Token 2022 mint data with a ConfidentialTransferMint extension
+ */
+function encodeConfidentialMint(mintAuthority: PublicKey, confidentialTransferAuthority: PublicKey): Buffer {
+  const base = Buffer.alloc(ACCOUNT_SIZE);
+  MintLayout.encode({
+    mintAuthorityOption: 1,
+    mintAuthority,
+    supply: 0n,
+    decimals: 6,
+    isInitialized: true,
+    freezeAuthorityOption: 0,
+    freezeAuthority: PublicKey.default
+  }, base);
+
+  const extension = Buffer.alloc(4 + 65);
+  extension.writeUInt16LE(ExtensionType.ConfidentialTransferMint, 0);
+  extension.writeUInt16LE(65, 2);
+  extension.set(confidentialTransferAuthority.toBytes(), 4);
+
+  return Buffer.concat([base, Buffer.from([AccountType.Mint]), extension]);
+}
+
+/**
+ * Token 2022 account data with an (empty) ConfidentialTransferAccount extension
+ */
+function encodeConfidentialAccount(mint: PublicKey, owner: PublicKey): Buffer {
+  const base = Buffer.alloc(ACCOUNT_SIZE);
+  AccountLayout.encode({
+    mint,
+    owner,
+    amount: 0n,
+    delegateOption: 0,
+    delegate: PublicKey.default,
+    state: AccountState.Initialized,
+    isNativeOption: 0,
+    isNative: 0n,
+    delegatedAmount: 0n,
+    closeAuthorityOption: 0,
+    closeAuthority: PublicKey.default
+  }, base);
+
+  const extension = Buffer.alloc(4 + CONFIDENTIAL_TRANSFER_ACCOUNT_LEN);
+  extension.writeUInt16LE(ExtensionType.ConfidentialTransferAccount, 0);
+  extension.writeUInt16LE(CONFIDENTIAL_TRANSFER_ACCOUNT_LEN, 2);
+
+  return Buffer.concat([base, Buffer.from([AccountType.Account]), extension]);
+}
+
+function transferTransaction(feePayer: PublicKey, from: PublicKey): Transaction {
+  return new Transaction({ feePayer, recentBlockhash: blockhash }).add(
+    SystemProgram.transfer({ fromPubkey: from, toPubkey: Keypair.generate().publicKey, lamports: 1 })
+  );
+}
+
+async function runRemoteSignerTests() {
+  console.log('🔏 Starting Remote Signer Tests');
+  console.log('=================================================\n');
+
+  try {
+    console.log('Test 1: LocalSignerService');
+    const service = new LocalSignerService();
+    const imported = Keypair.generate();
+    const signer = service.createKey('treasury', imported);
+    assert(signer.keyId === 'treasury' && signer.publicKey.equals(imported.publicKey), 'Imports a keypair under a key ID');
+    assert(!('secretKey' in signer), 'Signers do not expose the secret key');
+    let threw = false;
+    try {
+      service.createKey('treasury');
+    } catch (error) {
+      threw = error instanceof SigningError;
+    }
+    assert(threw, 'Rejects a duplicate key ID');
+
+    const wallet = new RemoteSignerWallet(signer, 'wallet', { requestId: 'req-1' });
+    const message = new TextEncoder().encode('Approve payout');
+    const signature = await wallet.signMessage(message);
+    assert(verifyMessage(message, signature, imported.publicKey), 'Signs messages with the remote key');
+    const [record] = service.getAuditLog();
+    assert(
+      record.approved && record.keyId === 'treasury' && record.role === 'wallet' && record.operation === 'signMessage',
+      'Records the key, role and operation of each request'
+    );
+    assert(record.messageHash === bytesToHex(sha256(message)), 'Records the hash of the signed bytes');
+    assert(record.context?.requestId === 'req-1', 'Records the caller context');
+
+    await assertRejects(
+      () => signer.sign(message, { ...record, messageHash: bytesToHex(sha256(new Uint8Array(1))) }),
+      SigningError,
+      'Refuses a message that does not match its hash'
+    );
+    await assertRejects(
+      () => signer.sign(message, { ...record, keyId: 'other' }),
+      SigningError,
+      'Refuses a request for another key'
+    );
+
+    const denying = new LocalSignerService(metadata => metadata.operation === 'signTransaction');
+    const guarded = new RemoteSignerWallet(denying.createKey('guarded'));
+    await assertRejects(() => guarded.signMessage(message), SigningError, 'Applies the approval policy', /denied by policy/);
+
+    service.disableKey('treasury');
+    await assertRejects(() => wallet.signMessage(message), SigningError, 'Refuses requests for disabled keys', /disabled/);
+    const log = service.getAuditLog();
+    assert(log.length === 4 && log.slice(1).every(entry => !entry.approved && entry.reason), 'Refusals are recorded with a reason');
+    console.log('');
+
+    console.log('Test 2: RemoteSignerWallet transactions');
+    const kms = new LocalSignerService();
+    const remote = new RemoteSignerWallet(kms.createKey('hot-wallet'));
+    const legacy = await remote.signTransaction(transferTransaction(remote.publicKey, remote.publicKey));
+    assert(legacy.verifySignatures(), 'Signs legacy transactions');
+    assert(
+      kms.getAuditLog()[0].messageHash === bytesToHex(sha256(legacy.serializeMessage())),
+      'The signer only sees the serialized message'
+    );
+
+    const cosigner = Keypair.generate();
+    const shared = transferTransaction(remote.publicKey, cosigner.publicKey);
+    shared.partialSign(cosigner);
+    assert((await remote.signTransaction(shared)).verifySignatures(), 'Adds its signature next to local signers');
+
+    const versioned = new VersionedTransaction(new TransactionMessage({
+      payerKey: remote.publicKey,
+      recentBlockhash: blockhash,
+      instructions: [SystemProgram.transfer({ fromPubkey: remote.publicKey, toPubkey: cosigner.publicKey, lamports: 1 })]
+    }).compileToV0Message());
+    await remote.signTransaction(versioned);
+    assert(verifyMessage(versioned.message.serialize(), versioned.signatures[0], remote.publicKey), 'Signs versioned transactions');
+
+    const [batchA, batchB] = await remote.signAllTransactions([
+      transferTransaction(remote.publicKey, remote.publicKey),
+      transferTransaction(remote.publicKey, remote.publicKey)
+    ]);
+    assert(batchA.verifySignatures() && batchB.verifySignatures(), 'Signs batches');
+
+    const before = kms.getAuditLog().length;
+    await assertRejects(
+      () => remote.signTransaction(transferTransaction(cosigner.publicKey, cosigner.publicKey)),
+      SigningError,
+      'Refuses transactions it is not a signer of',
+      /not a required signer/
+    );
+    assert(kms.getAuditLog().length === before, 'Never sends those to the signer');
+
+    const impostor: RemoteSigner = {
+      publicKey: remote.publicKey,
+      keyId: 'misconfigured',
+      sign: async (bytes, metadata) => {
+        const other = new LocalSignerService();
+        return other.createKey(metadata.keyId).sign(bytes, metadata);
+      }
+    };
+    await assertRejects(
+      () => new RemoteSignerWallet(impostor).signMessage(message),
+      SigningError,
+      'Detects signatures by the wrong key',
+      /invalid signature/
+    );
+    const failing: RemoteSigner = {
+      publicKey: remote.publicKey,
+      keyId: 'offline',
+      sign: async () => {
+        throw new Error('KMS unavailable');
+      }
+    };
+    await assertRejects(
+      () => new RemoteSignerWallet(failing).signMessage(message),
+      SigningError,
+      'Wraps signer failures',
+      /Remote signer failed for key offline: KMS unavailable/
+    );
+    console.log('');
+
+    console.log('Test 3: Remote signers in place of wallets');
+    const hotSigner = kms.getSigner('hot-wallet');
+    assert(isRemoteSigner(hotSigner), 'Recognizes remote signers');
+    assert(!isRemoteSigner(createMockWallet(cosigner)) && !isRemoteSigner(remote) && !isRemoteSigner(cosigner), 'Wallets are not remote signers');
+    const normalized = normalizeWallet(hotSigner);
+    assert(normalized instanceof RemoteSignerWallet && normalized.publicKey.equals(hotSigner.publicKey), 'normalizeWallet wraps remote signers');
+    const adapter = createMockWallet(cosigner);
+    assert(toWalletAdapter(adapter) === adapter, 'toWalletAdapter passes wallets through');
+    console.log('');
+
+    console.log('Test 4: Separate fee payer and mint authority');
+    const signing = new LocalSignerService();
+    const walletSigner = signing.createKey('user');
+    const feePayerSigner = signing.createKey('fee-payer');
+    const authoritySigner = signing.createKey('mint-authority');
+    const sent: Transaction[] = [];
+    const accounts = new Map<string, Buffer>();
+    const failures = { count: 0 };
+    const connection = createMockConnection(accounts, sent, failures);
+
+    const privacy = new ZeraPrivacy();
+    await privacy.init(connection, walletSigner, {
+      mode: 'privacy',
+      feePayer: feePayerSigner,
+      mintAuthority: authoritySigner
+    });
+
+    const mint = await privacy.createConfidentialMint(6);
+    const created = sent[0];
+    assert(created.feePayer!.equals(feePayerSigner.publicKey), 'The fee payer pays for transactions');
+    assert(created.verifySignatures(), 'The fee payer and the remote wallet both sign');
+    const initializeMint = created.instructions.find(ix =>
+      ix.programId.equals(TOKEN_2022_PROGRAM_ID) && ix.data[0] === TokenInstruction.InitializeMint
+    )!;
+    assert(
+      new PublicKey(initializeMint.data.subarray(2, 34)).equals(authoritySigner.publicKey),
+      'New mints are owned by the mint authority'
+    );
+    const roles = signing.getAuditLog().map(entry => `${entry.keyId}:${entry.role}`);
+    assert(
+      roles.includes('user:wallet') && roles.includes('fee-payer:feePayer') && !roles.some(role => role.startsWith('mint-authority')),
+      'Only the required signers are asked to sign'
+    );
+
+    accounts.set(mint.toBase58(), encodeConfidentialMint(authoritySigner.publicKey, authoritySigner.publicKey));
+    const logged = signing.getAuditLog().length;
+    await privacy.updateConfidentialMint(mint, { autoApproveNewAccounts: true });
+    const updated = sent[1];
+    assert(updated.verifySignatures() && updated.feePayer!.equals(feePayerSigner.publicKey), 'Mint updates are signed and paid');
+    const updateRoles = signing.getAuditLog().slice(logged).map(entry => entry.role).sort();
+    assert(updateRoles.join() === 'feePayer,mintAuthority', 'The mint authority signs mint updates, not the wallet');
+
+    const account = Keypair.generate().publicKey;
+    accounts.set(account.toBase58(), encodeConfidentialAccount(mint, walletSigner.publicKey));
+    const manager = new ConfidentialTransferManager(
+      connection,
+      toWalletAdapter(walletSigner),
+      'allow',
+      false,
+      { mintAuthority: toWalletAdapter(authoritySigner, 'mintAuthority') }
+    );
+    failures.count = 1;
+    const deposit = await manager.deposit(account, mint, 2, 6);
+    const minted = sent[2];
+    assert(deposit.path === 'public-fallback' && minted.instructions[0].data[0] === TokenInstruction.MintTo, 'The deposit fallback mints');
+    assert(
+      minted.verifySignatures() && minted.instructions[0].keys[2].pubkey.equals(authoritySigner.publicKey),
+      'The mint authority signs the fallback mint'
+    );
+
+    signing.disableKey('mint-authority');
+    await assertRejects(
+      () => privacy.updateConfidentialMint(mint, { autoApproveNewAccounts: false }),
+      SigningError,
+      'Surfaces refusals of the mint authority'
+    );
+    assert(sent.length === 3, 'Nothing is sent when a signer refuses');
+
+    const walletOnly = new ZeraPrivacy();
+    await walletOnly.init(connection, createMockWallet(cosigner), { mode: 'privacy' });
+    await walletOnly.createConfidentialMint(6);
+    assert(sent[3].feePayer!.equals(cosigner.publicKey) && sent[3].verifySignatures(), 'Without a fee payer the wallet pays');
+    console.log('');
+
+    console.log('=================================================');
+    console.log('📊 Test Summary');
+    console.log('=================================================');
+    console.log(`Total tests: ${totalTests}`);
+    console.log(`Passed: ${passedTests} ✅`);
+    console.log(`Failed: ${failedTests} ❌`);
+
+    if (failedTests === 0) {
+      console.log('\n🎉 All remote signer tests passed!');
+      process.exit(0);
+    } else {
+      console.log(`\n⚠️  ${failedTests} test(s) failed`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Test suite failed with error:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runRemoteSignerTests();
@@ -0,0 +1,318 @@
+/**
+ * revocation-registry.test.ts
+ *
+ * Purpose: Tests for the persistent viewing key revocation registry
+ *
+ * Covers signed revocation entries, authorized revokers, the in-memory,
+ * file-backed and a custom (remote-style) store, and that every
+ * ViewingKeyManager decrypt path and the audit report builder refuse revoked
+ * keys, including copies made before the revocation.
+ *
+ * Run with: npm run test:revocation-registry
+ */
+
+import { Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import { mkdtempSync, readFileSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  FileRevocationStore,
+  InMemoryRevocationStore,
+  RevocationEntry,
+  RevocationRegistry,
+  RevocationStore,
+  SerializedRevocationEntry,
+  deserializeRevocationEntry,
+  serializeRevocationEntry
+} from '../../src/privacy/revocation-registry';
+import { ViewingKeyManager } from '../../src/privacy/viewing-keys';
+import { AuditReportBuilder } from '../../src/privacy/audit-report';
+import { EncryptionUtils } from '../../src/privacy/encryption';
+import { EncryptionError, ViewingKeyError } from '../../src/privacy/errors';
+import { EncryptedBalance } from '../../src/privacy/types';
+import { ExtendedWalletAdapter } from '../../src/core/types';
+
+let passedTests = 0;
+let failedTests = 0;
+let totalTests = 0;
+
+function assert(condition: boolean, message: string) {
+  totalTests++;
+  if (condition) {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+  } else {
+    failedTests++;
+    console.error(`  ❌ ${message}`);
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function assertRejects(fn: () => Promise<unknown>, errorClass: Function, message: string, pattern?: RegExp) {
+  totalTests++;
+  try {
+    await fn();
+  } catch (error) {
+    if (error instanceof errorClass && (!pattern || pattern.test((error as Error).message))) {
+      passedTests++;
+      console.log(`  ✅ ${message}`);
+      return;
+    }
+    failedTests++;
+    console.error(`  ❌ ${message} (unexpected error: ${error})`);
+    throw new Error(`Unexpected error: ${message}`);
+  }
+  failedTests++;
+  console.error(`  ❌ ${message} (expected error but succeeded)`);
+  throw new Error(`Expected error but succeeded: ${message}`);
+}
+
+function createMockWallet(keypair: Keypair): ExtendedWalletAdapter {
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction: async <T extends Transaction>(tx: T) => {
+      tx.partialSign(keypair);
+      return tx;
+    },
+    signAllTransactions: async <T extends Transaction>(txs: T[]) => {
+      txs.forEach(tx => tx.partialSign(keypair));
+      return txs;
+    },
+    rawKeypair: keypair
+  } as ExtendedWalletAdapter;
+}
+
+/**
+ * Revocation store that keeps serialized entries, like a remote key-value store would
+ */
+class SerializedRevocationStore implements RevocationStore {
+  records: Map<string, SerializedRevocationEntry> = new Map();
+
+  async get(viewingKey: PublicKey): Promise<RevocationEntry[]> {
+    return (await this.list()).filter(entry => entry.viewingKey.equals(viewingKey));
+  }
+
+  async put(entry: RevocationEntry): Promise<void> {
+    const key = `${entry.viewingKey.toBase58()}:${entry.revokedBy.toBase58()}`;
+    if (!this.records.has(key)) {
+      this.records.set(key, serializeRevocationEntry(entry));
+    }
+  }
+
+  async list(): Promise<RevocationEntry[]> {
+    return Array.from(this.records.values()).map(deserializeRevocationEntry);
+  }
+}
+
+async function runRevocationRegistryTests() {
+  console.log('🔐 Starting Viewing Key Revocation Registry Tests');
+  console.log('=================================================\n');
+
+  const directory = mkdtempSync(join(tmpdir(), 'zera-revocations-'));
+
+  try {
+    const owner = createMockWallet(Keypair.generate());
+    const account = Keypair.generate().publicKey;
+    const unrevokedAccount = Keypair.generate().publicKey;
+
+    console.log('Test 1: Signed revocation entries');
+    const registry = new RevocationRegistry(owner.publicKey);
+    const revokedPublicKey = Keypair.generate().publicKey;
+    const entry = await registry.revoke(revokedPublicKey, owner, 'audit engagement ended');
+    assert(
+      entry.viewingKey.equals(revokedPublicKey) && entry.revokedBy.equals(owner.publicKey),
+      'Records the revoked key and the revoking wallet'
+    );
+    assert(entry.reason === 'audit engagement ended' && entry.signature.length === 64, 'Records the reason and a signature');
+    assert(RevocationRegistry.verifyEntry(entry), 'The entry signature verifies');
+    assert(!RevocationRegistry.verifyEntry({ ...entry, revokedAt: entry.revokedAt + 1 }), 'A changed revocation time fails verification');
+    assert(!RevocationRegistry.verifyEntry({ ...entry, reason: 'never granted' }), 'A changed reason fails verification');
+    assert(
+      !RevocationRegistry.verifyEntry({ ...entry, revokedBy: Keypair.generate().publicKey }),
+      'A different revoker fails verification'
+    );
+    assert((await registry.revoke(revokedPublicKey, owner, 'again')) === entry, 'Revoking twice keeps the first entry');
+    assert(
+      await registry.isRevoked(revokedPublicKey) && registry.isKnownRevoked(revokedPublicKey),
+      'The registry reports the key as revoked'
+    );
+    assert(!(await registry.isRevoked(Keypair.generate().publicKey)), 'Other keys are not revoked');
+    console.log('');
+
+    console.log('Test 2: Every copy of a revoked key stops working');
+    const store = new InMemoryRevocationStore();
+    const manager = new ViewingKeyManager(owner, undefined, new RevocationRegistry(owner.publicKey, store));
+    const viewingKey = await manager.generateViewingKey(account);
+    const sharedCopy = { ...viewingKey };
+    const otherKey = await manager.generateViewingKey(unrevokedAccount);
+
+    const encryptionUtils = new EncryptionUtils();
+    const encrypted = await encryptionUtils.encryptAmount(42n, viewingKey.publicKey.toBytes());
+    const balance: EncryptedBalance = {
+      ciphertext: encrypted.ciphertext,
+      commitment: encrypted.commitment,
+      lastUpdated: Date.now(),
+      exists: true
+    };
+    assert(await manager.decryptBalance(balance, sharedCopy) === 42, 'Decrypts before revocation');
+
+    const revoked = await manager.revokeViewingKey(viewingKey, 'compliance review closed');
+    assert(!manager.isViewingKeyValid(revoked), 'The returned copy is expired');
+    assert(!manager.isViewingKeyValid(sharedCopy), 'A copy shared before revocation is invalid');
+    await assertRejects(
+      () => manager.decryptBalance(balance, sharedCopy),
+      EncryptionError,
+      'decryptBalance refuses the shared copy'
+    );
+    await assertRejects(
+      () => manager.decryptTransactionAmount('any-signature', sharedCopy),
+      EncryptionError,
+      'decryptTransactionAmount refuses the shared copy'
+    );
+    assert(manager.isViewingKeyValid(otherKey), 'Other viewing keys stay valid');
+    assert((await store.get(viewingKey.publicKey))[0]?.reason === 'compliance review closed', 'The revocation reaches the store');
+    console.log('');
+
+    console.log('Test 3: Revocations are shared through the store');
+    const coldManager = () => new ViewingKeyManager(
+      createMockWallet(Keypair.generate()),
+      { getTransaction: async () => { throw new Error('should not fetch revoked keys'); } } as unknown as Connection,
+      new RevocationRegistry(owner.publicKey, store)
+    );
+    const auditorManager = coldManager();
+    assert(auditorManager.isViewingKeyValid(sharedCopy), 'A cold registry does not know the revocation synchronously');
+    await assertRejects(
+      () => auditorManager.decryptBalance(balance, sharedCopy),
+      EncryptionError,
+      'decryptBalance checks the store',
+      /revoked/
+    );
+    assert(!auditorManager.isViewingKeyValid(sharedCopy), 'Revocations seen in the store are cached');
+    await assertRejects(
+      () => coldManager().decryptTransactionAmount('any-signature', sharedCopy),
+      EncryptionError,
+      'decryptTransactionAmount checks the store before fetching',
+      /revoked/
+    );
+
+    const primed = new RevocationRegistry(owner.publicKey, store);
+    assert(await primed.load() === 1 && primed.isKnownRevoked(viewingKey.publicKey), 'load primes the cache from the store');
+
+    const builder = new AuditReportBuilder({} as Connection, owner, new RevocationRegistry(owner.publicKey, store));
+    await assertRejects(
+      () => builder.build(sharedCopy, account),
+      ViewingKeyError,
+      'The audit report builder refuses revoked keys'
+    );
+    console.log('');
+
+    console.log('Test 4: File-backed store');
+    const path = join(directory, 'revocations.json');
+    const fileRegistry = new RevocationRegistry(owner.publicKey, new FileRevocationStore(path));
+    assert(!(await fileRegistry.isRevoked(viewingKey.publicKey)), 'A missing file holds no revocations');
+    const fileEntry = await fileRegistry.revoke(viewingKey, owner, 'rotated');
+    await fileRegistry.revoke(otherKey, owner);
+
+    const persisted = JSON.parse(readFileSync(path, 'utf8'));
+    assert(persisted.version === 1 && persisted.entries.length === 2, 'Writes every revocation to the file');
+    const reopened = new RevocationRegistry(owner.publicKey, new FileRevocationStore(path));
+    const reloaded = await reopened.getRevocation(viewingKey.publicKey);
+    assert(
+      reloaded !== null &&
+        reloaded.revokedAt === fileEntry.revokedAt &&
+        Buffer.from(reloaded.signature).equals(Buffer.from(fileEntry.signature)),
+      'A new registry reads the signed entry back from the file'
+    );
+    assert(RevocationRegistry.verifyEntry(reloaded!), 'The persisted entry still verifies');
+    assert(await reopened.load() === 2, 'load reads every persisted revocation');
+
+    const concurrentPath = join(directory, 'concurrent.json');
+    const concurrentKeys = Array.from({ length: 8 }, () => Keypair.generate().publicKey);
+    await Promise.all(concurrentKeys.map((key, i) =>
+      new RevocationRegistry(owner.publicKey, new FileRevocationStore(concurrentPath)).revoke(key, owner, `writer ${i}`)
+    ));
+    const merged = await new FileRevocationStore(concurrentPath).list();
+    assert(
+      merged.length === concurrentKeys.length && concurrentKeys.every(key => merged.some(entry => entry.viewingKey.equals(key))),
+      'Concurrent writers to one file lose no revocations'
+    );
+    assert(
+      readdirSync(directory).every(name => !name.endsWith('.tmp') && !name.endsWith('.lock')),
+      'No temporary or lock files are left behind'
+    );
+    console.log('');
+
+    console.log('Test 5: Custom stores and forged entries');
+    const remote = new SerializedRevocationStore();
+    const remoteRegistry = new RevocationRegistry(owner.publicKey, remote);
+    await remoteRegistry.revoke(viewingKey, owner);
+    assert(
+      await new RevocationRegistry(owner.publicKey, remote).isRevoked(viewingKey.publicKey),
+      'A custom store round-trips serialized entries'
+    );
+
+    const forgedKey = Keypair.generate().publicKey;
+    const forged = serializeRevocationEntry({ ...entry, viewingKey: forgedKey });
+    remote.records.set(`${forgedKey.toBase58()}:${owner.publicKey.toBase58()}`, forged);
+    const freshRegistry = new RevocationRegistry(owner.publicKey, remote);
+    assert(!(await freshRegistry.isRevoked(forgedKey)), 'Entries with an invalid signature are ignored');
+    assert(await freshRegistry.load() === 1, 'load skips forged entries');
+    console.log('');
+
+    console.log('Test 6: Revocations by third parties');
+    const attacker = createMockWallet(Keypair.generate());
+    const targetKey = await manager.generateViewingKey(Keypair.generate().publicKey);
+    const shared = new InMemoryRevocationStore();
+    // The attacker controls its own registry and writes to the shared store first
+    const thirdParty = await new RevocationRegistry(attacker.publicKey, shared).revoke(targetKey, attacker, 'cut off');
+    assert(RevocationRegistry.verifyEntry(thirdParty), 'A third party can sign a revocation with its own key');
+    const issuerRegistry = new RevocationRegistry(owner.publicKey, shared);
+    assert(!issuerRegistry.isAuthorizedEntry(thirdParty), 'The entry is not signed by an authorized revoker');
+    assert(!(await issuerRegistry.isRevoked(targetKey.publicKey)), 'Third-party revocations are ignored');
+    assert(await issuerRegistry.load() === 0, 'load skips third-party revocations');
+    const auditor = new ViewingKeyManager(attacker, undefined, issuerRegistry);
+    assert(
+      auditor.isViewingKeyValid(targetKey) && !(await auditor.isViewingKeyRevoked(targetKey)),
+      'The viewing key keeps working'
+    );
+
+    await assertRejects(
+      () => issuerRegistry.revoke(targetKey, attacker),
+      ViewingKeyError,
+      'Unauthorized wallets cannot revoke through the registry',
+      /not authorized/
+    );
+    await issuerRegistry.revoke(targetKey, owner, 'engagement ended');
+    const stored = await shared.get(targetKey.publicKey);
+    assert(stored.length === 2, 'A third-party entry written first does not block the issuer');
+    assert(
+      (await new RevocationRegistry(owner.publicKey, shared).getRevocation(targetKey.publicKey))?.revokedBy.equals(owner.publicKey) === true,
+      "The issuer's revocation is the one honored"
+    );
+    console.log('');
+
+    console.log('=================================================');
+    console.log('📊 Test Summary');
+    console.log('=================================================');
+    console.log(`Total tests: ${totalTests}`);
+    console.log(`Passed: ${passedTests} ✅`);
+    console.log(`Failed: ${failedTests} ❌`);
+
+    rmSync(directory, { recursive: true, force: true });
+    if (failedTests === 0) {
+      console.log('\n🎉 All revocation registry tests passed!');
+      process.exit(0);
+    } else {
+      console.log(`\n⚠️  ${failedTests} test(s) failed`);
+      process.exit(1);
+    }
+  } catch (error) {
+    rmSync(directory, { recursive: true, force: true });
+    console.error('\n❌ Test suite failed with error:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runRevocationRegistryTests();
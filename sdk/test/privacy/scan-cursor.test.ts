@@ -0,0 +1,376 @@
+/**
+ * scan-cursor.test.ts
+ *
+ * Purpose: Tests for incremental, checkpointed announcement scanning
+ *
+ * Covers `BlockchainScanner` with a `ScanCursorStore`: a rescan only pages
+ * through the signatures newer than the saved cursor (`until`), the cursor
+ * moves to the newest transaction scanned, cursor keys keep independent
+ * positions, `resetCursor` starts over, `FileScanCursorStore` persists
+ * cursors across scanner instances and concurrent writers, and
+ * `ZeraPrivacy.scanBlockchainForPayments` only advances its cursor once the
+ * payments were checked.
+ *
+ * Run with: npm run test:scan-cursor
+ */
+
+import { ConfirmedSignatureInfo, Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ZeraPrivacy } from '../../src/privacy/zera-privacy';
+import { StealthAddressManager } from '../../src/privacy/stealth-address';
+import { BlockchainScanner, MEMO_PROGRAM_ID } from '../../src/privacy/blockchain-scanner';
+import { FileScanCursorStore, InMemoryScanCursorStore } from '../../src/privacy/scan-cursor';
+import { PrivacyError, StealthAddressError } from '../../src/privacy/errors';
+import { StealthMetaAddress } from '../../src/privacy/types';
+import { ExtendedWalletAdapter } from '../../src/core/types';
+
+let passedTests = 0;
+let failedTests = 0;
+let totalTests = 0;
+
+function assert(condition: boolean, message: string) {
+  totalTests++;
+  if (condition) {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+  } else {
+    failedTests++;
+    console.error(`  ❌ ${message}`);
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function assertRejects(fn: () => Promise<unknown>, errorClass: Function, message: string, pattern?: RegExp) {
+  totalTests++;
+  try {
+    await fn();
+  } catch (error) {
+    if (error instanceof errorClass && (!pattern || pattern.test((error as Error).message))) {
+      passedTests++;
+      console.log(`  ✅ ${message}`);
+      return;
+    }
+    failedTests++;
+    console.error(`  ❌ ${message} (unexpected error: ${error})`);
+    throw new Error(`Unexpected error: ${message}`);
+  }
+  failedTests++;
+  console.error(`  ❌ ${message} (expected error but succeeded)`);
+  throw new Error(`Expected error but succeeded: ${message}`);
+}
+
+function createMockWallet(keypair: Keypair): ExtendedWalletAdapter {
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction: async <T extends Transaction>(tx: T) => {
+      tx.partialSign(keypair);
+      return tx;
+    },
+    signAllTransactions: async <T extends Transaction>(txs: T[]) => {
+      txs.forEach(tx => tx.partialSign(keypair));
+      return txs;
+    },
+    rawKeypair: keypair
+  } as ExtendedWalletAdapter;
+}
+
+/**
+ * Memo program history that grows as transactions are published
+ *
+ * Each published transaction takes the next slot. `getSignaturesForAddress`
+ * honors `before`, `until` and `limit` like the RPC (newest first).
+ */
+function createGrowingLedger(prefix: string) {
+  const manager = new StealthAddressManager();
+  const payer = Keypair.generate().publicKey;
+  const history: ConfirmedSignatureInfo[] = [];
+  const transactions = new Map<string, unknown>();
+  const pageRequests: { before?: string; until?: string }[] = [];
+  let tip = 0;
+
+  const publishEmpty = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      tip++;
+      history.unshift({ signature: `${prefix}-${tip}`, slot: tip, err: null, memo: null, blockTime: null });
+    }
+  };
+
+  const publishPayment = (recipient: StealthMetaAddress, lamports: number) => {
+    const built = manager.buildStealthPaymentTransaction(payer, recipient, lamports);
+    publishEmpty(1);
+    const signature = `${prefix}-${tip}`;
+    transactions.set(signature, {
+      slot: tip,
+      blockTime: 1_700_000_000 + tip,
+      transaction: {
+        signatures: [],
+        message: {
+          accountKeys: [
+            { pubkey: payer, signer: true, writable: true },
+            { pubkey: built.stealthAddress.address, signer: false, writable: true }
+          ],
+          instructions: [{ program: 'spl-memo', programId: MEMO_PROGRAM_ID, parsed: built.memo }]
+        }
+      },
+      meta: {
+        err: null,
+        fee: 5000,
+        preBalances: [100_000_000, 0],
+        postBalances: [100_000_000 - lamports - 5000, lamports],
+        preTokenBalances: [],
+        postTokenBalances: []
+      }
+    });
+    return { signature, built };
+  };
+
+  let failNextTransactionFetch = false;
+  const connection = {
+    getSlot: async () => tip,
+    getSignaturesForAddress: async (
+      address: PublicKey,
+      options: { before?: string; until?: string; limit?: number } = {}
+    ) => {
+      if (!address.equals(MEMO_PROGRAM_ID)) return [];
+      pageRequests.push({ before: options.before, until: options.until });
+      const start = options.before ? history.findIndex(info => info.signature === options.before) + 1 : 0;
+      const end = options.until ? history.findIndex(info => info.signature === options.until) : history.length;
+      return history.slice(start, Math.min(start + (options.limit ?? 1000), end));
+    },
+    getParsedTransactions: async (signatures: string[]) => signatures.map(signature => transactions.get(signature) ?? null),
+    getParsedTransaction: async (signature: string) => {
+      if (failNextTransactionFetch) {
+        failNextTransactionFetch = false;
+        throw new Error('503 Service Unavailable');
+      }
+      return transactions.get(signature) ?? null;
+    }
+  } as unknown as Connection;
+
+  return {
+    connection,
+    pageRequests,
+    publishEmpty,
+    publishPayment,
+    failNextTransactionFetch: () => {
+      failNextTransactionFetch = true;
+    }
+  };
+}
+
+async function runScanCursorTests() {
+  console.log('📍 Starting Incremental Scan Cursor Tests');
+  console.log('=================================================\n');
+
+  const directory = await mkdtemp(join(tmpdir(), 'zera-scan-cursor-'));
+
+  try {
+    const manager = new StealthAddressManager();
+    const viewKeypair = Keypair.generate();
+    const metaAddress = manager.generateStealthMetaAddress(viewKeypair, Keypair.generate());
+
+    console.log('Test 1: Resuming from the cursor');
+    const ledger = createGrowingLedger('resume');
+    ledger.publishEmpty(10);
+    const first = ledger.publishPayment(metaAddress, 1_000_000);
+    ledger.publishEmpty(5);
+
+    const store = new InMemoryScanCursorStore();
+    const scanner = new BlockchainScanner({ cursorStore: store });
+    const initial = await scanner.scanForEphemeralKeys(ledger.connection, undefined, 1);
+    assert(
+      initial.ephemeralKeys.length === 1 && initial.ephemeralKeys[0].transactionSignature === first.signature,
+      'The first scan finds the existing announcement'
+    );
+    assert(
+      initial.cursor?.signature === 'resume-16' && initial.cursor.slot === 16,
+      'The cursor moves to the newest transaction scanned'
+    );
+    assert(
+      (await store.get(MEMO_PROGRAM_ID.toBase58()))?.signature === 'resume-16',
+      'The cursor is saved under the scanned address'
+    );
+    assert(ledger.pageRequests[0].until === undefined, 'The first scan is not bounded by a cursor');
+
+    const second = ledger.publishPayment(metaAddress, 2_000_000);
+    ledger.publishEmpty(3);
+    ledger.pageRequests.length = 0;
+    const resumed = await scanner.scanForEphemeralKeys(ledger.connection, undefined, 1);
+    assert(ledger.pageRequests[0].until === 'resume-16', 'The rescan only fetches signatures newer than the cursor');
+    assert(resumed.transactionsScanned === 4, 'Only new transactions are scanned');
+    assert(
+      resumed.ephemeralKeys.length === 1 && resumed.ephemeralKeys[0].transactionSignature === second.signature,
+      'Only new announcements are returned'
+    );
+    assert(resumed.startSlot === 16, 'The scan starts from the cursor slot');
+
+    const idle = await scanner.scanForEphemeralKeys(ledger.connection, undefined, 1);
+    assert(idle.ephemeralKeys.length === 0 && idle.cursor?.signature === 'resume-20', 'Nothing new leaves the cursor in place');
+    console.log('');
+
+    console.log('Test 2: Paging from the cursor');
+    ledger.publishEmpty(1500);
+    const late = ledger.publishPayment(metaAddress, 3_000_000);
+    ledger.publishEmpty(700);
+    ledger.pageRequests.length = 0;
+    const paged = await scanner.scanForEphemeralKeys(ledger.connection, undefined, 1);
+    assert(ledger.pageRequests.length === 3, 'Pages through every signature since the cursor');
+    assert(ledger.pageRequests.every(request => request.until === 'resume-20'), 'Every page is bounded by the cursor');
+    assert(paged.transactionsScanned === 2201, 'Scans all new transactions');
+    assert(
+      paged.ephemeralKeys.length === 1 && paged.ephemeralKeys[0].transactionSignature === late.signature,
+      'Finds the announcement behind the first page'
+    );
+    console.log('');
+
+    console.log('Test 3: Cursor keys and reset');
+    const otherView = await scanner.scanForEphemeralKeys(ledger.connection, undefined, 1, undefined, {
+      cursorKey: 'other-view-key'
+    });
+    assert(otherView.ephemeralKeys.length === 3, 'A new cursor key scans from its own start');
+    assert(
+      (await store.get(`${MEMO_PROGRAM_ID.toBase58()}:other-view-key`)) !== null,
+      'Qualified cursors are saved under `<address>:<key>`'
+    );
+
+    const deferred = createGrowingLedger('deferred');
+    deferred.publishPayment(metaAddress, 1_000_000);
+    const deferredStore = new InMemoryScanCursorStore();
+    const deferredScanner = new BlockchainScanner({ cursorStore: deferredStore });
+    const pending = await deferredScanner.scanForEphemeralKeys(deferred.connection, undefined, 1, undefined, {
+      saveCursor: false
+    });
+    assert(pending.cursor !== undefined && (await deferredStore.get(pending.cursor.key)) === null, 'saveCursor: false leaves the store untouched');
+    await deferredScanner.saveCursor(pending.cursor!);
+    assert((await deferredStore.get(pending.cursor!.key))?.signature === 'deferred-1', 'saveCursor saves it later');
+
+    await scanner.resetCursor();
+    const restarted = await scanner.scanForEphemeralKeys(ledger.connection, undefined, 1);
+    assert(restarted.ephemeralKeys.length === 3, 'resetCursor makes the next scan start over');
+    console.log('');
+
+    console.log('Test 4: File-backed cursors');
+    const path = join(directory, 'cursors.json');
+    const fileLedger = createGrowingLedger('file');
+    fileLedger.publishPayment(metaAddress, 1_000_000);
+    await new BlockchainScanner({ cursorStore: new FileScanCursorStore(path) }).scanForEphemeralKeys(
+      fileLedger.connection,
+      undefined,
+      1
+    );
+    fileLedger.publishPayment(metaAddress, 2_000_000);
+    const reopened = await new BlockchainScanner({ cursorStore: new FileScanCursorStore(path) }).scanForEphemeralKeys(
+      fileLedger.connection,
+      undefined,
+      1
+    );
+    assert(
+      reopened.ephemeralKeys.length === 1 && reopened.ephemeralKeys[0].transactionSignature === 'file-2',
+      'A new scanner resumes from the cursor persisted on disk'
+    );
+
+    const fileStore = new FileScanCursorStore(path);
+    await fileStore.put({ key: 'second', signature: 'sig', slot: 7, updatedAt: 1 });
+    assert((await fileStore.get('second'))?.slot === 7, 'Stores several cursors in one file');
+    await fileStore.delete('second');
+    assert((await fileStore.get('second')) === null, 'Deletes cursors');
+
+    const concurrentPath = join(directory, 'concurrent.json');
+    const writers = Array.from({ length: 8 }, (_, i) => `writer-${i}`);
+    await Promise.all(writers.map((key, i) =>
+      new FileScanCursorStore(concurrentPath).put({ key, signature: `sig-${i}`, slot: i, updatedAt: i })
+    ));
+    const concurrentStore = new FileScanCursorStore(concurrentPath);
+    const saved = await Promise.all(writers.map(key => concurrentStore.get(key)));
+    assert(saved.every((cursor, i) => cursor?.slot === i), 'Concurrent puts to one file lose no cursors');
+    assert(
+      (await readdir(directory)).every(name => !name.endsWith('.tmp') && !name.endsWith('.lock')),
+      'No temporary or lock files are left behind'
+    );
+    assert(
+      (await new FileScanCursorStore(join(directory, 'missing.json')).get('any')) === null,
+      'A missing file holds no cursors'
+    );
+
+    const badPath = join(directory, 'bad.json');
+    await writeFile(badPath, JSON.stringify({ version: 9, cursors: [] }));
+    await assertRejects(
+      () => new FileScanCursorStore(badPath).get('any'),
+      PrivacyError,
+      'Rejects unknown file formats'
+    );
+    console.log('');
+
+    console.log('Test 5: Resumable payment scanning');
+    const recipientLedger = createGrowingLedger('recipient');
+    recipientLedger.publishEmpty(3);
+    const earlier = recipientLedger.publishPayment(metaAddress, 1_500_000);
+    const paymentCursors = new InMemoryScanCursorStore();
+    const privacy = new ZeraPrivacy();
+    await privacy.init(recipientLedger.connection, createMockWallet(Keypair.generate()), {
+      mode: 'privacy',
+      scanner: { cursorStore: paymentCursors }
+    });
+
+    const firstScan = await privacy.scanBlockchainForPayments(metaAddress, viewKeypair.secretKey, { startSlot: 1 });
+    assert(
+      firstScan.length === 1 && firstScan[0].transactionSignature === earlier.signature,
+      'The first scan reports existing payments'
+    );
+
+    const later = recipientLedger.publishPayment(metaAddress, 2_500_000);
+    recipientLedger.failNextTransactionFetch();
+    await assertRejects(
+      () => privacy.scanBlockchainForPayments(metaAddress, viewKeypair.secretKey, { startSlot: 1 }),
+      StealthAddressError,
+      'A failing ownership check fails the scan',
+      /503/
+    );
+    const retried = await privacy.scanBlockchainForPayments(metaAddress, viewKeypair.secretKey, { startSlot: 1 });
+    assert(
+      retried.length === 1 && retried[0].transactionSignature === later.signature && retried[0].amount === 2_500_000,
+      'The cursor did not move, so the retry finds the new payment'
+    );
+    const quiet = await privacy.scanBlockchainForPayments(metaAddress, viewKeypair.secretKey, { startSlot: 1 });
+    assert(quiet.length === 0, 'Payments are reported once');
+
+    const otherViewKeypair = Keypair.generate();
+    const otherRecipient = manager.generateStealthMetaAddress(otherViewKeypair, Keypair.generate());
+    recipientLedger.publishEmpty(2);
+    await privacy.scanBlockchainForPayments(otherRecipient, otherViewKeypair.secretKey, { startSlot: 1 });
+    const cursorOf = (meta: StealthMetaAddress) =>
+      paymentCursors.get(BlockchainScanner.makeCursorKey(MEMO_PROGRAM_ID, meta.viewPublicKey.toBase58()));
+    assert(
+      (await cursorOf(metaAddress))?.signature === later.signature &&
+        (await cursorOf(otherRecipient))?.signature === 'recipient-7',
+      'Each view key keeps its own cursor'
+    );
+    console.log('');
+
+    console.log('=================================================');
+    console.log('📊 Test Summary');
+    console.log('=================================================');
+    console.log(`Total tests: ${totalTests}`);
+    console.log(`Passed: ${passedTests} ✅`);
+    console.log(`Failed: ${failedTests} ❌`);
+
+    await rm(directory, { recursive: true, force: true });
+    if (failedTests === 0) {
+      console.log('\n🎉 All scan cursor tests passed!');
+      process.exit(0);
+    } else {
+      console.log(`\n⚠️  ${failedTests} test(s) failed`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Test suite failed with error:');
+    console.error(error);
+    await rm(directory, { recursive: true, force: true });
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runScanCursorTests();
@@ -0,0 +1,230 @@
+/**
+ * stealth-payment.test.ts
+ *
+ * Purpose: Tests for one-call stealth payments
+ *
+ * Covers the transaction built by `StealthAddressManager.buildStealthPaymentTransaction`
+ * (SOL transfer plus v3 `STEALTH:` memo), and `ZeraPrivacy.sendStealthPayment`:
+ * the sent transaction, the returned receipt, amount validation, and that the
+ * recipient can find the payment from the published ephemeral key.
+ *
+ * Run with: npm run test:stealth-payment
+ */
+
+import { Connection, Keypair, SystemInstruction, SystemProgram, Transaction } from '@solana/web3.js';
+import { ZeraPrivacy } from '../../src/privacy/zera-privacy';
+import { StealthAddressManager } from '../../src/privacy/stealth-address';
+import { MEMO_PROGRAM_ID, parseStealthAddressMemo } from '../../src/privacy/blockchain-scanner';
+import { StealthAddressError } from '../../src/privacy/errors';
+import { ExtendedWalletAdapter } from '../../src/core/types';
+
+const RENT_EXEMPT_MINIMUM = 890880;
+
+let passedTests = 0;
+let failedTests = 0;
+let totalTests = 0;
+
+function assert(condition: boolean, message: string) {
+  totalTests++;
+  if (condition) {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+  } else {
+    failedTests++;
+    console.error(`  ❌ ${message}`);
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function assertRejects(fn: () => Promise<unknown>, errorClass: Function, message: string, pattern?: RegExp) {
+  totalTests++;
+  try {
+    await fn();
+  } catch (error) {
+    if (error instanceof errorClass && (!pattern || pattern.test((error as Error).message))) {
+      passedTests++;
+      console.log(`  ✅ ${message}`);
+      return;
+    }
+    failedTests++;
+    console.error(`  ❌ ${message} (unexpected error: ${error})`);
+    throw new Error(`Unexpected error: ${message}`);
+  }
+  failedTests++;
+  console.error(`  ❌ ${message} (expected error but succeeded)`);
+  throw new Error(`Expected error but succeeded: ${message}`);
+}
+
+function createMockWallet(keypair: Keypair): ExtendedWalletAdapter {
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction: async <T extends Transaction>(tx: T) => {
+      tx.partialSign(keypair);
+      return tx;
+    },
+    signAllTransactions: async <T extends Transaction>(txs: T[]) => {
+      txs.forEach(tx => tx.partialSign(keypair));
+      return txs;
+    },
+    rawKeypair: keypair
+  } as ExtendedWalletAdapter;
+}
+
+/**
+ * Connection that records sent transactions instead of submitting them
+ */
+function createMockConnection(options: { failSend?: boolean } = {}) {
+  const sent: Buffer[] = [];
+  const connection = {
+    getMinimumBalanceForRentExemption: async (space: number) => (space === 0 ? RENT_EXEMPT_MINIMUM : 0),
+    getLatestBlockhash: async () => ({
+      blockhash: Keypair.generate().publicKey.toBase58(),
+      lastValidBlockHeight: 1000
+    }),
+    sendRawTransaction: async (raw: Buffer) => {
+      if (options.failSend) {
+        throw new Error('node is behind');
+      }
+      sent.push(Buffer.from(raw));
+      return `stealth-payment-signature-${sent.length}`;
+    },
+    confirmTransaction: async () => ({ context: { slot: 1 }, value: { err: null } })
+  } as unknown as Connection;
+  return { connection, sent };
+}
+
+async function runStealthPaymentTests() {
+  console.log('🕵️  Starting Stealth Payment Tests');
+  console.log('=================================================\n');
+
+  try {
+    const senderKeypair = Keypair.generate();
+    const sender = createMockWallet(senderKeypair);
+    const viewKeypair = Keypair.generate();
+    const spendKeypair = Keypair.generate();
+    const manager = new StealthAddressManager();
+    const metaAddress = manager.generateStealthMetaAddress(viewKeypair, spendKeypair);
+
+    console.log('Test 1: Stealth payment transaction');
+    const ephemeralKeypair = Keypair.generate();
+    const built = manager.buildStealthPaymentTransaction(
+      senderKeypair.publicKey,
+      metaAddress,
+      2_000_000,
+      ephemeralKeypair
+    );
+    assert(built.transaction.instructions.length === 2, 'Holds a transfer and a memo instruction');
+
+    const [transferInstruction, memoInstruction] = built.transaction.instructions;
+    assert(transferInstruction.programId.equals(SystemProgram.programId), 'The first instruction is a system transfer');
+    const transfer = SystemInstruction.decodeTransfer(transferInstruction);
+    assert(
+      transfer.fromPubkey.equals(senderKeypair.publicKey) &&
+        transfer.toPubkey.equals(built.stealthAddress.address) &&
+        transfer.lamports === 2_000_000n,
+      'Transfers the amount from the payer to the stealth address'
+    );
+    assert(memoInstruction.programId.equals(MEMO_PROGRAM_ID), 'The second instruction uses the Memo program');
+    assert(memoInstruction.keys.length === 0, 'The memo requires no signers');
+    assert(
+      memoInstruction.data.toString('utf8') ===
+        `STEALTH:${ephemeralKeypair.publicKey.toBase58()}:v3:${built.ephemeralKey.viewTag!.toString(16).padStart(2, '0')}:` +
+          Buffer.from(built.ephemeralKey.commitment!).toString('hex') &&
+        built.memo === memoInstruction.data.toString('utf8'),
+      'The memo publishes the ephemeral public key, view tag and commitment'
+    );
+    assert(
+      built.ephemeralKey.publicKey.equals(ephemeralKeypair.publicKey) &&
+        built.stealthAddress.ephemeralPublicKey.equals(ephemeralKeypair.publicKey),
+      'Uses the provided ephemeral keypair'
+    );
+    console.log('');
+
+    console.log('Test 2: sendStealthPayment');
+    const { connection, sent } = createMockConnection();
+    const privacy = new ZeraPrivacy();
+    await privacy.init(connection, sender, { mode: 'privacy' });
+
+    const receipt = await privacy.sendStealthPayment(metaAddress, 5_000_000);
+    assert(sent.length === 1, 'Sends a single transaction');
+    assert(receipt.signature === 'stealth-payment-signature-1', 'The receipt holds the transaction signature');
+    assert(receipt.ephemeralKey.transactionSignature === receipt.signature, 'Fills the ephemeral key transaction signature');
+    assert(receipt.amount === 5_000_000 && receipt.sentAt > 0, 'The receipt records the amount and send time');
+
+    const sentTransaction = Transaction.from(sent[0]);
+    assert(sentTransaction.feePayer!.equals(senderKeypair.publicKey), 'The wallet pays the fee');
+    assert(sentTransaction.verifySignatures(), 'The transaction is signed by the wallet');
+    const sentTransfer = SystemInstruction.decodeTransfer(sentTransaction.instructions[0]);
+    assert(
+      sentTransfer.toPubkey.equals(receipt.stealthAddress.address) && sentTransfer.lamports === 5_000_000n,
+      'The sent transaction pays the stealth address in the receipt'
+    );
+    assert(
+      sentTransaction.instructions[1].programId.equals(MEMO_PROGRAM_ID) &&
+        sentTransaction.instructions[1].data.toString('utf8') === receipt.memo,
+      'The sent transaction carries the receipt memo'
+    );
+
+    const second = await privacy.sendStealthPayment(metaAddress, 5_000_000);
+    assert(!second.stealthAddress.address.equals(receipt.stealthAddress.address), 'Every payment uses a fresh stealth address');
+    console.log('');
+
+    console.log('Test 3: The recipient finds the payment');
+    const published = parseStealthAddressMemo(receipt.memo);
+    assert(published !== null && published.equals(receipt.ephemeralKey.publicKey), 'The scanner parses the published memo');
+
+    const payments = await manager.scanForPayments(metaAddress, viewKeypair.secretKey, [receipt.ephemeralKey]);
+    assert(
+      payments.length === 1 && payments[0].stealthAddress.equals(receipt.stealthAddress.address),
+      'The recipient derives the paid stealth address'
+    );
+    assert(payments[0].transactionSignature === receipt.signature, 'The detected payment points at the transaction');
+    const spendingKey = manager.deriveStealthSpendingKeyWithPrivate(payments[0].sharedSecret, spendKeypair.secretKey);
+    assert(spendingKey.publicKey.equals(receipt.stealthAddress.address), 'The recipient can derive the spending key');
+    console.log('');
+
+    console.log('Test 4: Validation and errors');
+    await assertRejects(() => privacy.sendStealthPayment(metaAddress, 0), StealthAddressError, 'Rejects a zero amount');
+    await assertRejects(() => privacy.sendStealthPayment(metaAddress, 1.5), StealthAddressError, 'Rejects a fractional amount');
+    await assertRejects(
+      () => privacy.sendStealthPayment(metaAddress, RENT_EXEMPT_MINIMUM - 1),
+      StealthAddressError,
+      'Rejects an amount below the rent-exempt minimum',
+      /rent-exempt minimum/
+    );
+    assert(sent.length === 2, 'Rejected payments are not sent');
+
+    const failing = createMockConnection({ failSend: true });
+    const failingPrivacy = new ZeraPrivacy();
+    await failingPrivacy.init(failing.connection, sender, { mode: 'privacy' });
+    await assertRejects(
+      () => failingPrivacy.sendStealthPayment(metaAddress, 5_000_000),
+      StealthAddressError,
+      'Send failures are wrapped',
+      /Failed to send stealth payment: node is behind/
+    );
+    console.log('');
+
+    console.log('=================================================');
+    console.log('📊 Test Summary');
+    console.log('=================================================');
+    console.log(`Total tests: ${totalTests}`);
+    console.log(`Passed: ${passedTests} ✅`);
+    console.log(`Failed: ${failedTests} ❌`);
+
+    if (failedTests === 0) {
+      console.log('\n🎉 All stealth payment tests passed!');
+      process.exit(0);
+    } else {
+      console.log(`\n⚠️  ${failedTests} test(s) failed`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Test suite failed with error:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runStealthPaymentTests();
@@ -0,0 +1,448 @@
+/**
+ * stealth-sweep.test.ts
+ *
+ * Purpose: Tests for signing as a stealth address and sweeping its funds
+ *
+ * Covers `StealthSigner` (Ed25519 signatures from the derived spending scalar,
+ * deterministic nonces, legacy and versioned transactions) and
+ * `ZeraPrivacy.sweepStealthPayment` for SOL and token balances, including the
+ * fee and rent accounting that empties the stealth address exactly.
+ *
+ * Run with: npm run test:stealth-sweep
+ */
+
+import {
+  AccountInfo,
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  MINT_SIZE,
+  MintLayout,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  decodeCloseAccountInstruction,
+  decodeTransferCheckedInstruction,
+  getAssociatedTokenAddressSync
+} from '@solana/spl-token';
+import { ed25519 } from '@noble/curves/ed25519';
+import { ZeraPrivacy } from '../../src/privacy/zera-privacy';
+import { StealthAddressManager } from '../../src/privacy/stealth-address';
+import { StealthSigner } from '../../src/privacy/stealth-signer';
+import { StealthAddressError } from '../../src/privacy/errors';
+import { StealthPayment } from '../../src/privacy/types';
+import { ExtendedWalletAdapter } from '../../src/core/types';
+
+const FEE_PER_SIGNATURE = 5000;
+
+let passedTests = 0;
+let failedTests = 0;
+let totalTests = 0;
+
+function assert(condition: boolean, message: string) {
+  totalTests++;
+  if (condition) {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+  } else {
+    failedTests++;
+    console.error(`  ❌ ${message}`);
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function assertRejects(fn: () => Promise<unknown>, errorClass: Function, message: string, pattern?: RegExp) {
+  totalTests++;
+  try {
+    await fn();
+  } catch (error) {
+    if (error instanceof errorClass && (!pattern || pattern.test((error as Error).message))) {
+      passedTests++;
+      console.log(`  ✅ ${message}`);
+      return;
+    }
+    failedTests++;
+    console.error(`  ❌ ${message} (unexpected error: ${error})`);
+    throw new Error(`Unexpected error: ${message}`);
+  }
+  failedTests++;
+  console.error(`  ❌ ${message} (expected error but succeeded)`);
+  throw new Error(`Expected error but succeeded: ${message}`);
+}
+
+function assertThrows(fn: () => unknown, errorClass: Function, message: string) {
+  totalTests++;
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof errorClass) {
+      passedTests++;
+      console.log(`  ✅ ${message}`);
+      return;
+    }
+    failedTests++;
+    console.error(`  ❌ ${message} (unexpected error: ${error})`);
+    throw new Error(`Unexpected error: ${message}`);
+  }
+  failedTests++;
+  console.error(`  ❌ ${message} (expected error but succeeded)`);
+  throw new Error(`Expected error but succeeded: ${message}`);
+}
+
+function createMockWallet(keypair: Keypair): ExtendedWalletAdapter {
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction: async <T extends Transaction>(tx: T) => {
+      tx.partialSign(keypair);
+      return tx;
+    },
+    signAllTransactions: async <T extends Transaction>(txs: T[]) => {
+      txs.forEach(tx => tx.partialSign(keypair));
+      return txs;
+    },
+    rawKeypair: keypair
+  } as ExtendedWalletAdapter;
+}
+
+function rentFor(space: number): number {
+  return (128 + space) * 6960;
+}
+
+function createMintAccount(decimals: number, programId: PublicKey): AccountInfo<Buffer> {
+  const data = Buffer.alloc(MINT_SIZE);
+  MintLayout.encode(
+    {
+      mintAuthorityOption: 0,
+      mintAuthority: PublicKey.default,
+      supply: 1_000_000_000n,
+      decimals,
+      isInitialized: true,
+      freezeAuthorityOption: 0,
+      freezeAuthority: PublicKey.default
+    },
+    data
+  );
+  return { data, executable: false, lamports: 1_461_600, owner: programId, rentEpoch: 0 };
+}
+
+interface MockTokenAccount {
+  address: PublicKey;
+  mint: PublicKey;
+  programId: PublicKey;
+  amount: bigint;
+  decimals: number;
+}
+
+/**
+ * Connection serving one stealth address's balances and recording sent transactions
+ */
+function createMockConnection(
+  owner: PublicKey,
+  lamports: number,
+  tokenAccounts: MockTokenAccount[],
+  accounts: Map<string, AccountInfo<Buffer>> = new Map()
+) {
+  const sent: Buffer[] = [];
+  const connection = {
+    getBalance: async (address: PublicKey) => (address.equals(owner) ? lamports : 0),
+    getAccountInfo: async (address: PublicKey) => accounts.get(address.toBase58()) ?? null,
+    getMultipleAccountsInfo: async (addresses: PublicKey[]) =>
+      addresses.map(address => accounts.get(address.toBase58()) ?? null),
+    getMinimumBalanceForRentExemption: async (space: number) => rentFor(space),
+    getParsedTokenAccountsByOwner: async (address: PublicKey, filter: { programId: PublicKey }) => ({
+      context: { slot: 1 },
+      value: tokenAccounts
+        .filter(account => address.equals(owner) && account.programId.equals(filter.programId))
+        .map(account => ({
+          pubkey: account.address,
+          account: {
+            data: {
+              program: 'spl-token',
+              parsed: {
+                type: 'account',
+                info: {
+                  mint: account.mint.toBase58(),
+                  owner: owner.toBase58(),
+                  tokenAmount: { amount: account.amount.toString(), decimals: account.decimals }
+                }
+              },
+              space: 165
+            },
+            executable: false,
+            lamports: 2_039_280,
+            owner: account.programId,
+            rentEpoch: 0
+          }
+        }))
+    }),
+    getLatestBlockhash: async () => ({
+      blockhash: Keypair.generate().publicKey.toBase58(),
+      lastValidBlockHeight: 1000
+    }),
+    getFeeForMessage: async (message: { header: { numRequiredSignatures: number } }) => ({
+      context: { slot: 1 },
+      value: message.header.numRequiredSignatures * FEE_PER_SIGNATURE
+    }),
+    sendRawTransaction: async (raw: Buffer) => {
+      sent.push(Buffer.from(raw));
+      return `stealth-sweep-signature-${sent.length}`;
+    },
+    confirmTransaction: async () => ({ context: { slot: 1 }, value: { err: null } })
+  } as unknown as Connection;
+  return { connection, sent };
+}
+
+async function runStealthSweepTests() {
+  console.log('🧹 Starting Stealth Sweep Tests');
+  console.log('=================================================\n');
+
+  try {
+    const viewKeypair = Keypair.generate();
+    const spendKeypair = Keypair.generate();
+    const manager = new StealthAddressManager();
+    const metaAddress = manager.generateStealthMetaAddress(viewKeypair, spendKeypair);
+
+    const findPayment = async (): Promise<StealthPayment> => {
+      const { ephemeralKey } = manager.generateStealthAddress(metaAddress);
+      const [payment] = await manager.scanForPayments(metaAddress, viewKeypair.secretKey, [ephemeralKey]);
+      return payment;
+    };
+
+    console.log('Test 1: Signing from the derived scalar');
+    const payment = await findPayment();
+    const signer = StealthSigner.fromStealthPayment(payment, spendKeypair.secretKey);
+    assert(signer.publicKey.equals(payment.stealthAddress), 'The signer signs as the stealth address');
+
+    const message = new TextEncoder().encode('sweep me');
+    const signature = await signer.signMessage(message);
+    assert(signature.length === 64, 'Produces 64-byte signatures');
+    assert(ed25519.verify(signature, message, payment.stealthAddress.toBytes()), 'Signatures verify as standard Ed25519');
+    assert(
+      Buffer.from(signer.sign(message)).equals(Buffer.from(signature)),
+      'Nonces are deterministic per message'
+    );
+    const other = signer.sign(new TextEncoder().encode('another message'));
+    assert(
+      !Buffer.from(other.slice(0, 32)).equals(Buffer.from(signature.slice(0, 32))),
+      'Different messages use different nonces'
+    );
+    assert(
+      !ed25519.verify(signature, new TextEncoder().encode('sweep you'), payment.stealthAddress.toBytes()),
+      'Signatures do not verify for other messages'
+    );
+
+    assertThrows(() => new StealthSigner(new Uint8Array(32)), StealthAddressError, 'Rejects a zero scalar');
+    assertThrows(() => new StealthSigner(new Uint8Array(32).fill(0xff)), StealthAddressError, 'Rejects a non-canonical scalar');
+    assertThrows(() => new StealthSigner(new Uint8Array(31)), StealthAddressError, 'Rejects a short key');
+    assertThrows(
+      () => StealthSigner.fromStealthPayment(payment, Keypair.generate().secretKey),
+      StealthAddressError,
+      'Rejects a spend key that does not control the stealth address'
+    );
+
+    const destination = Keypair.generate().publicKey;
+    const legacy = new Transaction({
+      feePayer: signer.publicKey,
+      recentBlockhash: Keypair.generate().publicKey.toBase58()
+    }).add(SystemProgram.transfer({ fromPubkey: signer.publicKey, toPubkey: destination, lamports: 1 }));
+    await signer.signTransaction(legacy);
+    assert(legacy.verifySignatures(), 'Signs legacy transactions');
+
+    const versioned = new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: signer.publicKey,
+        recentBlockhash: Keypair.generate().publicKey.toBase58(),
+        instructions: [SystemProgram.transfer({ fromPubkey: signer.publicKey, toPubkey: destination, lamports: 1 })]
+      }).compileToV0Message()
+    );
+    await signer.signAllTransactions([versioned]);
+    assert(
+      ed25519.verify(versioned.signatures[0], versioned.message.serialize(), signer.publicKey.toBytes()),
+      'Signs versioned transactions'
+    );
+
+    const foreign = new Transaction({
+      feePayer: destination,
+      recentBlockhash: Keypair.generate().publicKey.toBase58()
+    }).add(SystemProgram.transfer({ fromPubkey: destination, toPubkey: signer.publicKey, lamports: 1 }));
+    await assertRejects(
+      () => signer.signTransaction(foreign),
+      StealthAddressError,
+      'Refuses transactions the stealth address does not sign'
+    );
+    console.log('');
+
+    console.log('Test 2: Sweeping SOL');
+    const owner = createMockWallet(Keypair.generate());
+    const solMock = createMockConnection(payment.stealthAddress, 3_000_000, []);
+    const privacy = new ZeraPrivacy();
+    await privacy.init(solMock.connection, owner, { mode: 'privacy' });
+
+    const solSweep = await privacy.sweepStealthPayment(payment, destination, spendKeypair.secretKey);
+    assert(solSweep.fee === FEE_PER_SIGNATURE, 'The stealth address pays a single-signature fee');
+    assert(solSweep.lamports === 3_000_000 - FEE_PER_SIGNATURE, 'Moves the whole balance less the fee');
+    assert(solSweep.tokens.length === 0 && solSweep.signature === 'stealth-sweep-signature-1', 'Reports the sweep');
+
+    const solTransaction = Transaction.from(solMock.sent[0]);
+    assert(
+      solTransaction.feePayer!.equals(payment.stealthAddress) && solTransaction.signatures.length === 1,
+      'The stealth address is the fee payer and only signer'
+    );
+    assert(solTransaction.verifySignatures(), 'The sweep is signed by the stealth address');
+    const solTransfer = SystemInstruction.decodeTransfer(solTransaction.instructions[0]);
+    assert(
+      solTransfer.fromPubkey.equals(payment.stealthAddress) &&
+        solTransfer.toPubkey.equals(destination) &&
+        solTransfer.lamports === BigInt(3_000_000 - FEE_PER_SIGNATURE),
+      'Transfers the SOL to the destination'
+    );
+    console.log('');
+
+    console.log('Test 3: Sweeping tokens');
+    const tokenPayment = await findPayment();
+    const splMint = Keypair.generate().publicKey;
+    const token2022Mint = Keypair.generate().publicKey;
+    const emptyMint = Keypair.generate().publicKey;
+    const tokenAccounts: MockTokenAccount[] = [
+      {
+        address: getAssociatedTokenAddressSync(splMint, tokenPayment.stealthAddress),
+        mint: splMint,
+        programId: TOKEN_PROGRAM_ID,
+        amount: 2_500_000n,
+        decimals: 6
+      },
+      {
+        address: getAssociatedTokenAddressSync(token2022Mint, tokenPayment.stealthAddress, false, TOKEN_2022_PROGRAM_ID),
+        mint: token2022Mint,
+        programId: TOKEN_2022_PROGRAM_ID,
+        amount: 9n,
+        decimals: 9
+      },
+      {
+        address: getAssociatedTokenAddressSync(emptyMint, tokenPayment.stealthAddress),
+        mint: emptyMint,
+        programId: TOKEN_PROGRAM_ID,
+        amount: 0n,
+        decimals: 6
+      }
+    ];
+    const existingDestinationAccount = getAssociatedTokenAddressSync(splMint, destination);
+    const accounts = new Map<string, AccountInfo<Buffer>>([
+      [token2022Mint.toBase58(), createMintAccount(9, TOKEN_2022_PROGRAM_ID)],
+      [existingDestinationAccount.toBase58(), { ...createMintAccount(0, TOKEN_PROGRAM_ID), data: Buffer.alloc(165) }]
+    ]);
+    const tokenMock = createMockConnection(tokenPayment.stealthAddress, 10_000_000, tokenAccounts, accounts);
+    const tokenPrivacy = new ZeraPrivacy();
+    await tokenPrivacy.init(tokenMock.connection, owner, { mode: 'privacy' });
+
+    const tokenSweep = await tokenPrivacy.sweepStealthPayment(tokenPayment, destination, spendKeypair.secretKey);
+    const token2022AccountRent = rentFor(170);
+    assert(
+      tokenSweep.lamports === 10_000_000 - FEE_PER_SIGNATURE - token2022AccountRent,
+      'Keeps back the fee and the rent of the missing Token 2022 destination account'
+    );
+    assert(
+      tokenSweep.tokens.length === 2 &&
+        tokenSweep.tokens.some(token => token.mint.equals(splMint) && token.amount === 2_500_000n) &&
+        tokenSweep.tokens.some(token => token.mint.equals(token2022Mint) && token.amount === 9n),
+      'Reports the swept token balances'
+    );
+
+    const tokenTransaction = Transaction.from(tokenMock.sent[0]);
+    assert(tokenTransaction.verifySignatures(), 'The token sweep is signed by the stealth address');
+    const instructions = tokenTransaction.instructions;
+    assert(instructions.length === 8, 'Creates, transfers and closes per token account, then sends SOL');
+    assert(
+      instructions[0].programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID) &&
+        instructions[0].keys[0].pubkey.equals(tokenPayment.stealthAddress) &&
+        instructions[0].keys[1].pubkey.equals(existingDestinationAccount),
+      'The stealth address funds the destination token account'
+    );
+    const splTransfer = decodeTransferCheckedInstruction(instructions[1], TOKEN_PROGRAM_ID);
+    assert(
+      splTransfer.keys.source.pubkey.equals(tokenAccounts[0].address) &&
+        splTransfer.keys.destination.pubkey.equals(existingDestinationAccount) &&
+        splTransfer.keys.owner.pubkey.equals(tokenPayment.stealthAddress) &&
+        splTransfer.data.amount === 2_500_000n,
+      'Transfers the whole SPL Token balance'
+    );
+    const splClose = decodeCloseAccountInstruction(instructions[2], TOKEN_PROGRAM_ID);
+    assert(
+      splClose.keys.account.pubkey.equals(tokenAccounts[0].address) &&
+        splClose.keys.destination.pubkey.equals(destination),
+      'Closes the emptied token account with its rent going to the destination'
+    );
+    const token2022Transfer = decodeTransferCheckedInstruction(instructions[5], TOKEN_2022_PROGRAM_ID);
+    assert(
+      token2022Transfer.keys.destination.pubkey.equals(
+        getAssociatedTokenAddressSync(token2022Mint, destination, true, TOKEN_2022_PROGRAM_ID)
+      ) && token2022Transfer.data.amount === 9n,
+      'Transfers the Token 2022 balance'
+    );
+    assert(
+      decodeCloseAccountInstruction(instructions[3], TOKEN_PROGRAM_ID).keys.account.pubkey.equals(tokenAccounts[2].address),
+      'Closes empty token accounts without a transfer'
+    );
+    assert(
+      SystemInstruction.decodeTransfer(instructions[7]).lamports === BigInt(tokenSweep.lamports),
+      'Sends the remaining SOL last'
+    );
+    console.log('');
+
+    console.log('Test 4: Sweep errors');
+    const poorMock = createMockConnection(tokenPayment.stealthAddress, 100_000, tokenAccounts, accounts);
+    const poorPrivacy = new ZeraPrivacy();
+    await poorPrivacy.init(poorMock.connection, owner, { mode: 'privacy' });
+    await assertRejects(
+      () => poorPrivacy.sweepStealthPayment(tokenPayment, destination, spendKeypair.secretKey),
+      StealthAddressError,
+      'Refuses a sweep the stealth address cannot pay for',
+      /needs \d+ for fees and rent/
+    );
+
+    const emptyMock = createMockConnection(payment.stealthAddress, 0, []);
+    const emptyPrivacy = new ZeraPrivacy();
+    await emptyPrivacy.init(emptyMock.connection, owner, { mode: 'privacy' });
+    await assertRejects(
+      () => emptyPrivacy.sweepStealthPayment(payment, destination, spendKeypair.secretKey),
+      StealthAddressError,
+      'Refuses to sweep an empty stealth address'
+    );
+    await assertRejects(
+      () => privacy.sweepStealthPayment(payment, destination, Keypair.generate().secretKey),
+      StealthAddressError,
+      'Refuses a spend key that does not control the stealth address'
+    );
+    assert(poorMock.sent.length === 0 && emptyMock.sent.length === 0, 'Refused sweeps are not sent');
+    console.log('');
+
+    console.log('=================================================');
+    console.log('📊 Test Summary');
+    console.log('=================================================');
+    console.log(`Total tests: ${totalTests}`);
+    console.log(`Passed: ${passedTests} ✅`);
+    console.log(`Failed: ${failedTests} ❌`);
+
+    if (failedTests === 0) {
+      console.log('\n🎉 All stealth sweep tests passed!');
+      process.exit(0);
+    } else {
+      console.log(`\n⚠️  ${failedTests} test(s) failed`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Test suite failed with error:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runStealthSweepTests();
@@ -0,0 +1,421 @@
+/**
+ * stealth-token-payment.test.ts
+ *
+ * Purpose: Tests for SPL Token and Token 2022 stealth payments
+ *
+ * Covers the transaction built by `StealthAddressManager.buildStealthTokenPaymentTransaction`
+ * (associated token account creation, checked transfer and `STEALTH:` memo),
+ * `ZeraPrivacy.sendStealthTokenPayment` for both token programs, and token
+ * balance reporting while scanning.
+ *
+ * Run with: npm run test:stealth-token-payment
+ */
+
+import { AccountInfo, Connection, Keypair, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  MINT_SIZE,
+  MintLayout,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  decodeTransferCheckedInstruction,
+  getAssociatedTokenAddressSync
+} from '@solana/spl-token';
+import { ZeraPrivacy } from '../../src/privacy/zera-privacy';
+import { StealthAddressManager } from '../../src/privacy/stealth-address';
+import { MEMO_PROGRAM_ID } from '../../src/privacy/blockchain-scanner';
+import { StealthAddressError } from '../../src/privacy/errors';
+import { StealthTokenPaymentReceipt } from '../../src/privacy/types';
+import { ExtendedWalletAdapter } from '../../src/core/types';
+
+let passedTests = 0;
+let failedTests = 0;
+let totalTests = 0;
+
+function assert(condition: boolean, message: string) {
+  totalTests++;
+  if (condition) {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+  } else {
+    failedTests++;
+    console.error(`  ❌ ${message}`);
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function assertRejects(fn: () => Promise<unknown>, errorClass: Function, message: string, pattern?: RegExp) {
+  totalTests++;
+  try {
+    await fn();
+  } catch (error) {
+    if (error instanceof errorClass && (!pattern || pattern.test((error as Error).message))) {
+      passedTests++;
+      console.log(`  ✅ ${message}`);
+      return;
+    }
+    failedTests++;
+    console.error(`  ❌ ${message} (unexpected error: ${error})`);
+    throw new Error(`Unexpected error: ${message}`);
+  }
+  failedTests++;
+  console.error(`  ❌ ${message} (expected error but succeeded)`);
+  throw new Error(`Expected error but succeeded: ${message}`);
+}
+
+function createMockWallet(keypair: Keypair): ExtendedWalletAdapter {
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction: async <T extends Transaction>(tx: T) => {
+      tx.partialSign(keypair);
+      return tx;
+    },
+    signAllTransactions: async <T extends Transaction>(txs: T[]) => {
+      txs.forEach(tx => tx.partialSign(keypair));
+      return txs;
+    },
+    rawKeypair: keypair
+  } as ExtendedWalletAdapter;
+}
+
+function createMintAccount(decimals: number, programId: PublicKey): AccountInfo<Buffer> {
+  const data = Buffer.alloc(MINT_SIZE);
+  MintLayout.encode(
+    {
+      mintAuthorityOption: 0,
+      mintAuthority: PublicKey.default,
+      supply: 1_000_000_000n,
+      decimals,
+      isInitialized: true,
+      freezeAuthorityOption: 0,
+      freezeAuthority: PublicKey.default
+    },
+    data
+  );
+  return { data, executable: false, lamports: 1_461_600, owner: programId, rentEpoch: 0 };
+}
+
+interface MockTokenAccount {
+  owner: PublicKey;
+  address: PublicKey;
+  mint: PublicKey;
+  programId: PublicKey;
+  amount: bigint;
+  decimals: number;
+}
+
+/**
+ * Parsed form of a sent stealth token payment, as returned by `getParsedTransaction`
+ */
+function parsedPaymentTransaction(receipt: StealthTokenPaymentReceipt, payer: PublicKey) {
+  return {
+    slot: 1,
+    blockTime: 1_700_000_000,
+    transaction: {
+      signatures: [receipt.signature],
+      message: {
+        accountKeys: [
+          { pubkey: payer, signer: true, writable: true },
+          { pubkey: receipt.tokenAccount, signer: false, writable: true }
+        ],
+        instructions: []
+      }
+    },
+    meta: {
+      err: null,
+      fee: 5000,
+      preBalances: [10_000_000, 0],
+      postBalances: [7_955_720, 2_039_280],
+      preTokenBalances: [],
+      postTokenBalances: [
+        {
+          accountIndex: 1,
+          mint: receipt.mint.toBase58(),
+          owner: receipt.stealthAddress.address.toBase58(),
+          programId: receipt.programId.toBase58(),
+          uiTokenAmount: { amount: receipt.amount.toString(), decimals: receipt.decimals }
+        }
+      ]
+    }
+  };
+}
+
+/**
+ * Connection serving mint accounts and parsed token accounts, recording sent transactions
+ */
+function createMockConnection(
+  accounts: Map<string, AccountInfo<Buffer>>,
+  tokenAccounts: MockTokenAccount[],
+  transactions: Map<string, unknown> = new Map()
+) {
+  const sent: Buffer[] = [];
+  const connection = {
+    getParsedTransaction: async (signature: string) => transactions.get(signature) ?? null,
+    getSignaturesForAddress: async () => [],
+    getAccountInfo: async (address: PublicKey) => accounts.get(address.toBase58()) ?? null,
+    getParsedTokenAccountsByOwner: async (owner: PublicKey, filter: { programId: PublicKey }) => ({
+      context: { slot: 1 },
+      value: tokenAccounts
+        .filter(account => account.owner.equals(owner) && account.programId.equals(filter.programId))
+        .map(account => ({
+          pubkey: account.address,
+          account: {
+            data: {
+              program: 'spl-token',
+              parsed: {
+                type: 'account',
+                info: {
+                  mint: account.mint.toBase58(),
+                  owner: account.owner.toBase58(),
+                  tokenAmount: { amount: account.amount.toString(), decimals: account.decimals }
+                }
+              },
+              space: 165
+            },
+            executable: false,
+            lamports: 2_039_280,
+            owner: account.programId,
+            rentEpoch: 0
+          }
+        }))
+    }),
+    getLatestBlockhash: async () => ({
+      blockhash: Keypair.generate().publicKey.toBase58(),
+      lastValidBlockHeight: 1000
+    }),
+    sendRawTransaction: async (raw: Buffer) => {
+      sent.push(Buffer.from(raw));
+      return `stealth-token-signature-${sent.length}`;
+    },
+    confirmTransaction: async () => ({ context: { slot: 1 }, value: { err: null } })
+  } as unknown as Connection;
+  return { connection, sent };
+}
+
+async function runStealthTokenPaymentTests() {
+  console.log('🪙 Starting Stealth Token Payment Tests');
+  console.log('=================================================\n');
+
+  try {
+    const senderKeypair = Keypair.generate();
+    const sender = createMockWallet(senderKeypair);
+    const viewKeypair = Keypair.generate();
+    const spendKeypair = Keypair.generate();
+    const manager = new StealthAddressManager();
+    const metaAddress = manager.generateStealthMetaAddress(viewKeypair, spendKeypair);
+
+    const splMint = Keypair.generate().publicKey;
+    const token2022Mint = Keypair.generate().publicKey;
+    const notAMint = Keypair.generate().publicKey;
+    const accounts = new Map<string, AccountInfo<Buffer>>([
+      [splMint.toBase58(), createMintAccount(6, TOKEN_PROGRAM_ID)],
+      [token2022Mint.toBase58(), createMintAccount(9, TOKEN_2022_PROGRAM_ID)],
+      [notAMint.toBase58(), { ...createMintAccount(6, TOKEN_PROGRAM_ID), owner: SystemProgram.programId }]
+    ]);
+
+    console.log('Test 1: Stealth token payment transaction');
+    const built = manager.buildStealthTokenPaymentTransaction(
+      senderKeypair.publicKey,
+      metaAddress,
+      splMint,
+      1_500_000n,
+      6
+    );
+    const [createInstruction, transferInstruction, memoInstruction] = built.transaction.instructions;
+    assert(built.transaction.instructions.length === 3, 'Holds account creation, transfer and memo instructions');
+    assert(
+      built.tokenAccount.equals(getAssociatedTokenAddressSync(splMint, built.stealthAddress.address)),
+      'Pays into the associated token account of the stealth address'
+    );
+    assert(
+      createInstruction.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID) &&
+        createInstruction.data.length === 1 &&
+        createInstruction.data[0] === 1,
+      'Creates the associated token account idempotently'
+    );
+    assert(
+      createInstruction.keys[0].pubkey.equals(senderKeypair.publicKey) &&
+        createInstruction.keys[1].pubkey.equals(built.tokenAccount) &&
+        createInstruction.keys[2].pubkey.equals(built.stealthAddress.address),
+      'The payer funds the account owned by the stealth address'
+    );
+    const transfer = decodeTransferCheckedInstruction(transferInstruction, TOKEN_PROGRAM_ID);
+    assert(
+      transfer.keys.source.pubkey.equals(getAssociatedTokenAddressSync(splMint, senderKeypair.publicKey)) &&
+        transfer.keys.destination.pubkey.equals(built.tokenAccount) &&
+        transfer.keys.owner.pubkey.equals(senderKeypair.publicKey),
+      'Transfers from the payer associated token account'
+    );
+    assert(
+      transfer.data.amount === 1_500_000n && transfer.data.decimals === 6,
+      'Transfers the amount checked against the mint decimals'
+    );
+    assert(
+      memoInstruction.programId.equals(MEMO_PROGRAM_ID) && memoInstruction.data.toString('utf8') === built.memo,
+      'Publishes the ephemeral key memo'
+    );
+    console.log('');
+
+    console.log('Test 2: sendStealthTokenPayment with SPL Token and Token 2022 mints');
+    const { connection, sent } = createMockConnection(accounts, []);
+    const privacy = new ZeraPrivacy();
+    await privacy.init(connection, sender, { mode: 'privacy' });
+
+    const splReceipt = await privacy.sendStealthTokenPayment(metaAddress, splMint, 2_000_000);
+    assert(splReceipt.programId.equals(TOKEN_PROGRAM_ID), 'Detects the SPL Token program from the mint owner');
+    assert(splReceipt.amount === 2_000_000n && splReceipt.decimals === 6, 'Reads the mint decimals');
+    assert(
+      splReceipt.ephemeralKey.transactionSignature === splReceipt.signature &&
+        splReceipt.signature === 'stealth-token-signature-1',
+      'Fills the ephemeral key transaction signature'
+    );
+    const splTransaction = Transaction.from(sent[0]);
+    assert(splTransaction.verifySignatures(), 'The transaction is signed by the wallet');
+    assert(
+      splTransaction.instructions[1].programId.equals(TOKEN_PROGRAM_ID) &&
+        splTransaction.instructions[0].keys[1].pubkey.equals(splReceipt.tokenAccount),
+      'The sent transaction creates and pays the receipt token account'
+    );
+
+    const token2022Receipt = await privacy.sendStealthTokenPayment(metaAddress, token2022Mint, 7n);
+    assert(token2022Receipt.programId.equals(TOKEN_2022_PROGRAM_ID), 'Detects the Token 2022 program from the mint owner');
+    assert(
+      token2022Receipt.tokenAccount.equals(
+        getAssociatedTokenAddressSync(token2022Mint, token2022Receipt.stealthAddress.address, false, TOKEN_2022_PROGRAM_ID)
+      ),
+      'Uses the Token 2022 associated token account'
+    );
+    const token2022Transfer = decodeTransferCheckedInstruction(
+      Transaction.from(sent[1]).instructions[1],
+      TOKEN_2022_PROGRAM_ID
+    );
+    assert(
+      token2022Transfer.data.amount === 7n && token2022Transfer.data.decimals === 9,
+      'The Token 2022 transfer is checked against its decimals'
+    );
+    console.log('');
+
+    console.log('Test 3: Validation and errors');
+    await assertRejects(() => privacy.sendStealthTokenPayment(metaAddress, splMint, 0n), StealthAddressError, 'Rejects a zero amount');
+    await assertRejects(() => privacy.sendStealthTokenPayment(metaAddress, splMint, 0.5), StealthAddressError, 'Rejects a fractional amount');
+    await assertRejects(
+      () => privacy.sendStealthTokenPayment(metaAddress, splMint, 1n << 64n),
+      StealthAddressError,
+      'Rejects an amount above u64'
+    );
+    await assertRejects(
+      () => privacy.sendStealthTokenPayment(metaAddress, Keypair.generate().publicKey, 1n),
+      StealthAddressError,
+      'Rejects a missing mint',
+      /not found/
+    );
+    await assertRejects(
+      () => privacy.sendStealthTokenPayment(metaAddress, notAMint, 1n),
+      StealthAddressError,
+      'Rejects an account not owned by a token program',
+      /not an SPL Token or Token 2022 mint/
+    );
+    assert(sent.length === 2, 'Rejected payments are not sent');
+    console.log('');
+
+    console.log('Test 4: Scanning reports token balances per mint');
+    const tokenAccounts: MockTokenAccount[] = [
+      {
+        owner: splReceipt.stealthAddress.address,
+        address: splReceipt.tokenAccount,
+        mint: splMint,
+        programId: TOKEN_PROGRAM_ID,
+        amount: 2_000_000n,
+        decimals: 6
+      },
+      {
+        owner: token2022Receipt.stealthAddress.address,
+        address: token2022Receipt.tokenAccount,
+        mint: token2022Mint,
+        programId: TOKEN_2022_PROGRAM_ID,
+        amount: 7n,
+        decimals: 9
+      },
+      {
+        owner: token2022Receipt.stealthAddress.address,
+        address: getAssociatedTokenAddressSync(splMint, token2022Receipt.stealthAddress.address),
+        mint: splMint,
+        programId: TOKEN_PROGRAM_ID,
+        amount: 3n,
+        decimals: 6
+      }
+    ];
+    const scanning = createMockConnection(
+      accounts,
+      tokenAccounts,
+      new Map([
+        [splReceipt.signature, parsedPaymentTransaction(splReceipt, senderKeypair.publicKey)],
+        [token2022Receipt.signature, parsedPaymentTransaction(token2022Receipt, senderKeypair.publicKey)]
+      ])
+    );
+    const recipient = new ZeraPrivacy();
+    await recipient.init(scanning.connection, createMockWallet(Keypair.generate()), { mode: 'privacy' });
+
+    const ephemeralKeys = [splReceipt.ephemeralKey, token2022Receipt.ephemeralKey];
+    const withoutBalances = await recipient.scanForPayments(metaAddress, viewKeypair.secretKey, ephemeralKeys);
+    assert(
+      withoutBalances.length === 2 && withoutBalances.every(payment => payment.tokenBalances === undefined),
+      'Token balances are not fetched unless requested'
+    );
+    assert(
+      withoutBalances.some(payment =>
+        payment.receivedTokens?.length === 1 &&
+          payment.receivedTokens[0].mint.equals(splMint) &&
+          payment.receivedTokens[0].amount === 2_000_000n &&
+          payment.amount === 0
+      ),
+      'Reports the tokens received in the payment transaction'
+    );
+
+    const payments = await recipient.scanForPayments(metaAddress, viewKeypair.secretKey, ephemeralKeys, {
+      includeTokenBalances: true
+    });
+    const splPayment = payments.find(payment => payment.stealthAddress.equals(splReceipt.stealthAddress.address))!;
+    const token2022Payment = payments.find(payment =>
+      payment.stealthAddress.equals(token2022Receipt.stealthAddress.address)
+    )!;
+    assert(
+      splPayment.tokenBalances!.length === 1 &&
+        splPayment.tokenBalances![0].mint.equals(splMint) &&
+        splPayment.tokenBalances![0].amount === 2_000_000n &&
+        splPayment.tokenBalances![0].decimals === 6,
+      'Reports the SPL Token balance of the stealth address'
+    );
+    const byMint = new Map(token2022Payment.tokenBalances!.map(balance => [balance.mint.toBase58(), balance]));
+    assert(byMint.size === 2, 'Reports one balance per mint');
+    assert(
+      byMint.get(token2022Mint.toBase58())!.amount === 7n &&
+        byMint.get(token2022Mint.toBase58())!.programId.equals(TOKEN_2022_PROGRAM_ID),
+      'Reports Token 2022 balances with their program'
+    );
+    assert(byMint.get(splMint.toBase58())!.amount === 3n, 'Reports SPL Token balances next to Token 2022 ones');
+    console.log('');
+
+    console.log('=================================================');
+    console.log('📊 Test Summary');
+    console.log('=================================================');
+    console.log(`Total tests: ${totalTests}`);
+    console.log(`Passed: ${passedTests} ✅`);
+    console.log(`Failed: ${failedTests} ❌`);
+
+    if (failedTests === 0) {
+      console.log('\n🎉 All stealth token payment tests passed!');
+      process.exit(0);
+    } else {
+      console.log(`\n⚠️  ${failedTests} test(s) failed`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Test suite failed with error:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runStealthTokenPaymentTests();
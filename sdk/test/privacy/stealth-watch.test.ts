@@ -0,0 +1,438 @@
+/**
+ * stealth-watch.test.ts
+ *
+ * Purpose: Tests for real-time stealth payment detection
+ *
+ * Covers `BlockchainScanner.extractEphemeralKeysFromLogs` and
+ * `ZeraPrivacy.watch` against a mock connection emitting Memo program logs:
+ * the backfill when watching starts, live delivery, foreign, failed and
+ * duplicate announcements, backfilling after a failed live check and after a
+ * stale WebSocket, resuming from the scan cursor, and unsubscribing.
+ *
+ * Run with: npm run test:stealth-watch
+ */
+
+import { ConfirmedSignatureInfo, Connection, Context, Keypair, Logs, PublicKey, SlotInfo, Transaction } from '@solana/web3.js';
+import { ZeraPrivacy } from '../../src/privacy/zera-privacy';
+import { StealthAddressManager } from '../../src/privacy/stealth-address';
+import { BlockchainScanner, MEMO_PROGRAM_ID } from '../../src/privacy/blockchain-scanner';
+import { InMemoryScanCursorStore } from '../../src/privacy/scan-cursor';
+import { StealthAddressError } from '../../src/privacy/errors';
+import { StealthMetaAddress, StealthPayment } from '../../src/privacy/types';
+import { ExtendedWalletAdapter } from '../../src/core/types';
+
+let passedTests = 0;
+let failedTests = 0;
+let totalTests = 0;
+
+function assert(condition: boolean, message: string) {
+  totalTests++;
+  if (condition) {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+  } else {
+    failedTests++;
+    console.error(`  ❌ ${message}`);
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+async function assertRejects(fn: () => Promise<unknown>, errorClass: Function, message: string, pattern?: RegExp) {
+  totalTests++;
+  try {
+    await fn();
+  } catch (error) {
+    if (error instanceof errorClass && (!pattern || pattern.test((error as Error).message))) {
+      passedTests++;
+      console.log(`  ✅ ${message}`);
+      return;
+    }
+    failedTests++;
+    console.error(`  ❌ ${message} (unexpected error: ${error})`);
+    throw new Error(`Unexpected error: ${message}`);
+  }
+  failedTests++;
+  console.error(`  ❌ ${message} (expected error but succeeded)`);
+  throw new Error(`Expected error but succeeded: ${message}`);
+}
+
+function createMockWallet(keypair: Keypair): ExtendedWalletAdapter {
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction: async <T extends Transaction>(tx: T) => {
+      tx.partialSign(keypair);
+      return tx;
+    },
+    signAllTransactions: async <T extends Transaction>(txs: T[]) => {
+      txs.forEach(tx => tx.partialSign(keypair));
+      return txs;
+    },
+    rawKeypair: keypair
+  } as ExtendedWalletAdapter;
+}
+
+/**
+ * Let pending notifications, timers and RPC calls run
+ */
+function settle(ms = 20): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Logs of a Memo program transaction, as delivered by `onLogs`
+ */
+function memoLogs(signature: string, memo: string, failed = false): Logs {
+  return {
+    signature,
+    err: failed ? { InstructionError: [0, 'Custom'] } : null,
+    logs: [
+      `Program ${MEMO_PROGRAM_ID.toBase58()} invoke [1]`,
+      `Program log: Memo (len ${memo.length}): "${memo}"`,
+      `Program ${MEMO_PROGRAM_ID.toBase58()} consumed 7000 of 200000 compute units`,
+      `Program ${MEMO_PROGRAM_ID.toBase58()} success`
+    ]
+  };
+}
+
+/**
+ * Parsed transaction paying `recipient` and carrying an announcement memo
+ */
+function parsedAnnouncement(memo: string, recipient: PublicKey, slot: number, lamports: number, failed: boolean) {
+  const sender = Keypair.generate().publicKey;
+  return {
+    slot,
+    blockTime: 1_700_000_000 + slot,
+    transaction: {
+      signatures: [],
+      message: {
+        accountKeys: [
+          { pubkey: sender, signer: true, writable: true },
+          { pubkey: recipient, signer: false, writable: true }
+        ],
+        instructions: [{ program: 'spl-memo', programId: MEMO_PROGRAM_ID, parsed: memo }]
+      }
+    },
+    meta: {
+      err: failed ? { InstructionError: [0, 'Custom'] } : null,
+      fee: 5000,
+      preBalances: [10_000_000, 0],
+      postBalances: failed ? [10_000_000 - 5000, 0] : [10_000_000 - lamports - 5000, lamports],
+      preTokenBalances: [],
+      postTokenBalances: []
+    }
+  };
+}
+
+/**
+ * Mock connection whose Memo program history grows as payments are announced
+ *
+ * `announce` appends a transaction one slot after the previous one and, unless
+ * `live` is false (a notification lost with the WebSocket), emits its logs to
+ * the subscribed listeners. `tick` advances the slot and notifies slot
+ * listeners. Each ledger starts at its own slot so scan cache entries of
+ * other ledgers never match.
+ */
+function createLiveLedger(prefix: string, firstSlot: number) {
+  let slot = firstSlot;
+  const history: ConfirmedSignatureInfo[] = [];
+  const transactions = new Map<string, unknown>();
+  const logsListeners = new Map<number, { program: PublicKey; callback: (logs: Logs, context: Context) => void }>();
+  const slotListeners = new Map<number, (slotInfo: SlotInfo) => void>();
+  const state = {
+    nextId: 0,
+    failScans: false,
+    failingFetches: 0,
+    subscriptions: 0,
+    removedLogs: 0
+  };
+
+  const connection = {
+    getSlot: async () => slot,
+    getSignaturesForAddress: async (
+      address: PublicKey,
+      options: { before?: string; until?: string; limit?: number } = {}
+    ) => {
+      if (!address.equals(MEMO_PROGRAM_ID)) return [];
+      if (state.failScans) throw new Error('503 Service Unavailable');
+      const until = options.until ? history.findIndex(info => info.signature === options.until) : -1;
+      const candidates = until >= 0 ? history.slice(0, until) : history;
+      const start = options.before ? candidates.findIndex(info => info.signature === options.before) + 1 : 0;
+      return candidates.slice(start, start + (options.limit ?? 1000));
+    },
+    getParsedTransactions: async (signatures: string[]) => signatures.map(signature => transactions.get(signature) ?? null),
+    getParsedTransaction: async (signature: string) => {
+      if (state.failingFetches > 0) {
+        state.failingFetches--;
+        throw new Error('fetch failed');
+      }
+      return transactions.get(signature) ?? null;
+    },
+    onLogs: (program: PublicKey, callback: (logs: Logs, context: Context) => void) => {
+      state.subscriptions++;
+      logsListeners.set(++state.nextId, { program, callback });
+      return state.nextId;
+    },
+    removeOnLogsListener: async (id: number) => {
+      state.removedLogs++;
+      logsListeners.delete(id);
+    },
+    onSlotChange: (callback: (slotInfo: SlotInfo) => void) => {
+      slotListeners.set(++state.nextId, callback);
+      return state.nextId;
+    },
+    removeSlotChangeListener: async (id: number) => {
+      slotListeners.delete(id);
+    }
+  } as unknown as Connection;
+
+  const announce = (memo: string, recipient: PublicKey, lamports: number, live = true, failed = false) => {
+    slot++;
+    const signature = `${prefix}-${slot}`;
+    const err = failed ? { InstructionError: [0, 'Custom'] } : null;
+    history.unshift({ signature, slot, err: err as ConfirmedSignatureInfo['err'], memo: null, blockTime: null });
+    transactions.set(signature, parsedAnnouncement(memo, recipient, slot, lamports, failed));
+    if (live) {
+      emit(memoLogs(signature, memo, failed), slot);
+    }
+    return signature;
+  };
+
+  const emit = (logs: Logs, atSlot = slot) => {
+    logsListeners.forEach(listener => {
+      if (listener.program.equals(MEMO_PROGRAM_ID)) listener.callback(logs, { slot: atSlot });
+    });
+  };
+
+  const tick = () => {
+    slot++;
+    slotListeners.forEach(callback => callback({ slot, parent: slot - 1, root: slot - 32 }));
+  };
+
+  return {
+    connection,
+    state,
+    announce,
+    emit,
+    tick,
+    listenerCount: () => logsListeners.size + slotListeners.size
+  };
+}
+
+async function runStealthWatchTests() {
+  console.log('👀 Starting Stealth Payment Watch Tests');
+  console.log('=================================================\n');
+
+  try {
+    const manager = new StealthAddressManager();
+    const viewKeypair = Keypair.generate();
+    const spendKeypair = Keypair.generate();
+    const metaAddress = manager.generateStealthMetaAddress(viewKeypair, spendKeypair);
+    const otherMetaAddress = manager.generateStealthMetaAddress();
+    const payer = Keypair.generate().publicKey;
+
+    const build = (recipient: StealthMetaAddress = metaAddress, lamports = 1_000_000) =>
+      manager.buildStealthPaymentTransaction(payer, recipient, lamports);
+    const createPrivacy = async (connection: Connection, cursorStore?: InMemoryScanCursorStore) => {
+      const privacy = new ZeraPrivacy();
+      await privacy.init(connection, createMockWallet(Keypair.generate()), {
+        mode: 'privacy',
+        scanner: cursorStore ? { cursorStore } : undefined
+      });
+      return privacy;
+    };
+
+    console.log('Test 1: Extracting announcements from logs');
+    const scanner = new BlockchainScanner();
+    const logged = build();
+    const fromMemo = scanner.extractEphemeralKeysFromLogs(memoLogs('logs-1', logged.memo));
+    assert(
+      fromMemo.length === 1 && fromMemo[0].publicKey.equals(logged.ephemeralKey.publicKey),
+      'Finds the announcement in Memo program logs'
+    );
+    assert(
+      fromMemo[0].transactionSignature === 'logs-1' && fromMemo[0].viewTag === logged.ephemeralKey.viewTag,
+      'Keeps the signature and view tag'
+    );
+    const raw: Logs = { signature: 'logs-2', err: null, logs: [`Program log: ${logged.memo}`] };
+    assert(scanner.extractEphemeralKeysFromLogs(raw).length === 1, 'Accepts announcements logged by other programs');
+    assert(scanner.extractEphemeralKeysFromLogs(memoLogs('logs-3', logged.memo, true)).length === 0, 'Ignores failed transactions');
+    assert(scanner.extractEphemeralKeysFromLogs(memoLogs('logs-4', 'gm')).length === 0, 'Ignores other memos');
+    console.log('');
+
+    console.log('Test 2: Backfill and live delivery');
+    const ledger = createLiveLedger('live', 10_000);
+    const before = build(metaAddress, 1_100_000);
+    ledger.announce(before.memo, before.stealthAddress.address, 1_100_000, false);
+    const privacy = await createPrivacy(ledger.connection);
+
+    const received: StealthPayment[] = [];
+    const subscription = await privacy.watch(viewKeypair.secretKey, metaAddress, payment => {
+      received.push(payment);
+    }, { startSlot: 10_000 });
+    assert(ledger.state.subscriptions === 1, 'Subscribes to the Memo program logs');
+    assert(
+      received.length === 1 && received[0].stealthAddress.equals(before.stealthAddress.address),
+      'Backfills the payments announced before watching'
+    );
+    assert(received[0].amount === 1_100_000, 'Backfilled payments carry their amount');
+
+    const live = build(metaAddress, 1_200_000);
+    const liveSignature = ledger.announce(live.memo, live.stealthAddress.address, 1_200_000);
+    await settle();
+    assert(
+      received.length === 2 && received[1].stealthAddress.equals(live.stealthAddress.address),
+      'Reports a payment as soon as its logs arrive'
+    );
+    assert(
+      received[1].amount === 1_200_000 && received[1].transactionSignature === liveSignature,
+      'Live payments are verified and carry their amount'
+    );
+
+    const foreign = build(otherMetaAddress);
+    ledger.announce(foreign.memo, foreign.stealthAddress.address, 1_000_000);
+    const failed = build();
+    ledger.announce(failed.memo, failed.stealthAddress.address, 1_000_000, true, true);
+    ledger.emit(memoLogs(liveSignature, live.memo));
+    await settle();
+    assert(received.length === 2, 'Ignores foreign, failed and repeated announcements');
+    console.log('');
+
+    console.log('Test 3: Failed live checks are backfilled');
+    await subscription.unsubscribe();
+    const errors: Error[] = [];
+    received.length = 0;
+    const retried = await privacy.watch(viewKeypair.secretKey, metaAddress, payment => {
+      received.push(payment);
+    }, { startSlot: 10_000, onError: error => errors.push(error) });
+    assert(received.length === 2, 'A new watch reports the earlier payments again');
+
+    const flaky = build(metaAddress, 1_300_000);
+    ledger.state.failingFetches = 1;
+    ledger.announce(flaky.memo, flaky.stealthAddress.address, 1_300_000);
+    await settle();
+    assert(errors.length === 1 && /fetch failed/.test(errors[0].message), 'Reports the failed live check to onError');
+    ledger.tick();
+    await settle();
+    assert(
+      received.length === 3 && received[2].stealthAddress.equals(flaky.stealthAddress.address),
+      'Backfills the missed payment on the next slot'
+    );
+    ledger.tick();
+    await settle();
+    assert(received.length === 3, 'Stops backfilling once caught up');
+    await retried.unsubscribe();
+    console.log('');
+
+    console.log('Test 4: Unsubscribing');
+    assert(ledger.listenerCount() === 0, 'Removes the log and slot subscriptions');
+    const afterwards = build();
+    ledger.announce(afterwards.memo, afterwards.stealthAddress.address, 1_000_000);
+    ledger.tick();
+    await settle();
+    assert(received.length === 3, 'Reports nothing after unsubscribing');
+    console.log('');
+
+    console.log('Test 5: Reconnecting after a stale WebSocket');
+    const stale = createLiveLedger('stale', 20_000);
+    const stalePrivacy = await createPrivacy(stale.connection);
+    const staleReceived: StealthPayment[] = [];
+    const staleSubscription = await stalePrivacy.watch(viewKeypair.secretKey, metaAddress, payment => {
+      staleReceived.push(payment);
+    }, { startSlot: 20_000, staleAfterMs: 50 });
+    stale.tick();
+
+    const dropped = build(metaAddress, 1_400_000);
+    stale.announce(dropped.memo, dropped.stealthAddress.address, 1_400_000, false);
+    await settle(250);
+    assert(stale.state.removedLogs >= 1 && stale.state.subscriptions >= 2, 'Re-subscribes when notifications stop');
+    assert(stale.listenerCount() === 2, 'Keeps a single subscription of each kind');
+    assert(
+      staleReceived.length === 1 && staleReceived[0].stealthAddress.equals(dropped.stealthAddress.address),
+      'Backfills the payment announced while disconnected'
+    );
+    await staleSubscription.unsubscribe();
+    assert(stale.listenerCount() === 0, 'Unsubscribes the re-created subscriptions');
+    console.log('');
+
+    console.log('Test 6: Resuming from the scan cursor');
+    const resumed = createLiveLedger('resume', 30_000);
+    const cursorStore = new InMemoryScanCursorStore();
+    const first = build(metaAddress, 1_500_000);
+    resumed.announce(first.memo, first.stealthAddress.address, 1_500_000, false);
+    const resumedPrivacy = await createPrivacy(resumed.connection, cursorStore);
+    const resumedReceived: StealthPayment[] = [];
+    const onResumedPayment = (payment: StealthPayment) => {
+      resumedReceived.push(payment);
+    };
+
+    await (await resumedPrivacy.watch(viewKeypair.secretKey, metaAddress, onResumedPayment, { startSlot: 30_000 })).unsubscribe();
+    const cursor = await cursorStore.get(
+      BlockchainScanner.makeCursorKey(MEMO_PROGRAM_ID, metaAddress.viewPublicKey.toBase58())
+    );
+    assert(cursor?.signature === 'resume-30001', 'Saves the scan cursor after the backfill');
+
+    const second = build(metaAddress, 1_600_000);
+    resumed.announce(second.memo, second.stealthAddress.address, 1_600_000, false);
+    await (await resumedPrivacy.watch(viewKeypair.secretKey, metaAddress, onResumedPayment, { startSlot: 30_000 })).unsubscribe();
+    assert(
+      resumedReceived.length === 2 && resumedReceived[1].stealthAddress.equals(second.stealthAddress.address),
+      'A new watch only backfills what was announced since the cursor'
+    );
+    console.log('');
+
+    console.log('Test 7: Callback and backfill errors');
+    const guarded = createLiveLedger('guarded', 40_000);
+    const guardedPrivacy = await createPrivacy(guarded.connection);
+    const guardedErrors: Error[] = [];
+    let calls = 0;
+    const guardedSubscription = await guardedPrivacy.watch(viewKeypair.secretKey, metaAddress, () => {
+      calls++;
+      throw new Error('wallet UI crashed');
+    }, { startSlot: 40_000, onError: error => guardedErrors.push(error) });
+    const throwing = build();
+    guarded.announce(throwing.memo, throwing.stealthAddress.address, 1_000_000);
+    const next = build();
+    guarded.announce(next.memo, next.stealthAddress.address, 1_000_000);
+    await settle();
+    assert(calls === 2, 'Keeps watching when onPayment throws');
+    assert(
+      guardedErrors.length === 2 && guardedErrors.every(error => error.message === 'wallet UI crashed'),
+      'Passes onPayment errors to onError'
+    );
+    await guardedSubscription.unsubscribe();
+
+    const down = createLiveLedger('down', 50_000);
+    const downPrivacy = await createPrivacy(down.connection);
+    down.state.failScans = true;
+    await assertRejects(
+      () => downPrivacy.watch(viewKeypair.secretKey, metaAddress, () => {}, { startSlot: 50_000 }),
+      StealthAddressError,
+      'Rejects when the initial backfill fails',
+      /Failed to backfill stealth payments.*503/
+    );
+    assert(down.listenerCount() === 0, 'Leaves no subscription behind');
+    console.log('');
+
+    console.log('=================================================');
+    console.log('📊 Test Summary');
+    console.log('=================================================');
+    console.log(`Total tests: ${totalTests}`);
+    console.log(`Passed: ${passedTests} ✅`);
+    console.log(`Failed: ${failedTests} ❌`);
+
+    if (failedTests === 0) {
+      console.log('\n🎉 All stealth watch tests passed!');
+      process.exit(0);
+    } else {
+      console.log(`\n⚠️  ${failedTests} test(s) failed`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Test suite failed with error:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runStealthWatchTests();
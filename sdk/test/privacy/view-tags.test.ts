@@ -0,0 +1,228 @@
+/**
+ * view-tags.test.ts
+ *
+ * Purpose: Tests for view tags in stealth announcements
+ *
+ * Covers the view tag written by the payment builders, the v2 memo format
+ * (`STEALTH:<key>:v2:<view_tag>`) and its parsing next to v1 memos, the view tags the scanner
+ * attaches to extracted ephemeral keys, and `scanForPayments` skipping keys
+ * whose view tag does not match before any derivation or RPC call.
+ *
+ * Run with: npm run test:view-tags
+ */
+
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { StealthAddressManager } from '../../src/privacy/stealth-address';
+import {
+  BlockchainScanner,
+  MEMO_PROGRAM_ID,
+  createStealthAddressMemo,
+  createViewTagMetadata,
+  parseStealthAddressMemo
+} from '../../src/privacy/blockchain-scanner';
+import { PrivacyError } from '../../src/privacy/errors';
+import { EphemeralKey } from '../../src/privacy/types';
+
+let passedTests = 0;
+let failedTests = 0;
+let totalTests = 0;
+
+function assert(condition: boolean, message: string) {
+  totalTests++;
+  if (condition) {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+  } else {
+    failedTests++;
+    console.error(`  ❌ ${message}`);
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertThrows(fn: () => unknown, errorClass: Function, message: string) {
+  totalTests++;
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof errorClass) {
+      passedTests++;
+      console.log(`  ✅ ${message}`);
+      return;
+    }
+    failedTests++;
+    console.error(`  ❌ ${message} (unexpected error: ${error})`);
+    throw new Error(`Unexpected error: ${message}`);
+  }
+  failedTests++;
+  console.error(`  ❌ ${message} (expected error but succeeded)`);
+  throw new Error(`Expected error but succeeded: ${message}`);
+}
+
+/**
+ * Parsed transaction paying `recipient` with a parsed memo instruction
+ */
+function parsedMemoTransaction(memo: string, recipient: PublicKey, blockTime = 1_700_000_000) {
+  const sender = Keypair.generate().publicKey;
+  return {
+    slot: 50,
+    blockTime,
+    transaction: {
+      signatures: [],
+      message: {
+        accountKeys: [
+          { pubkey: sender, signer: true, writable: true },
+          { pubkey: recipient, signer: false, writable: true }
+        ],
+        instructions: [{ program: 'spl-memo', programId: MEMO_PROGRAM_ID, parsed: memo }]
+      }
+    },
+    meta: {
+      err: null,
+      fee: 5000,
+      preBalances: [10_000_000, 0],
+      postBalances: [8_995_000, 1_000_000],
+      preTokenBalances: [],
+      postTokenBalances: []
+    }
+  };
+}
+
+async function runViewTagTests() {
+  console.log('🏷️  Starting Stealth View Tag Tests');
+  console.log('=================================================\n');
+
+  try {
+    const manager = new StealthAddressManager();
+    const scanner = new BlockchainScanner();
+    const viewKeypair = Keypair.generate();
+    const metaAddress = manager.generateStealthMetaAddress(viewKeypair, Keypair.generate());
+
+    console.log('Test 1: View tags in memos');
+    const payer = Keypair.generate().publicKey;
+    const built = manager.buildStealthPaymentTransaction(payer, metaAddress, 1_000_000);
+    const viewTag = built.ephemeralKey.viewTag!;
+    assert(Number.isInteger(viewTag) && viewTag >= 0 && viewTag <= 0xff, 'Generated ephemeral keys carry a one-byte view tag');
+    assert(
+      built.memo.startsWith(`STEALTH:${built.ephemeralKey.publicKey.toBase58()}:v3:${viewTag.toString(16).padStart(2, '0')}:`),
+      'Payments publish the view tag'
+    );
+    const tokenBuilt = manager.buildStealthTokenPaymentTransaction(
+      payer,
+      metaAddress,
+      Keypair.generate().publicKey,
+      5n,
+      0
+    );
+    assert(
+      tokenBuilt.memo.includes(`:v3:${tokenBuilt.ephemeralKey.viewTag!.toString(16).padStart(2, '0')}:`),
+      'Token payments publish the view tag'
+    );
+    assert(createViewTagMetadata(0x0a) === 'v2:0a', 'View tags are two hex digits');
+    assertThrows(() => createViewTagMetadata(256), PrivacyError, 'Rejects view tags larger than a byte');
+    assertThrows(() => createViewTagMetadata(1.5), PrivacyError, 'Rejects fractional view tags');
+    console.log('');
+
+    console.log('Test 2: Parsing v1 and v2 memos');
+    const key = Keypair.generate().publicKey;
+    const v2 = scanner.parseStealthAnnouncement(`STEALTH:${key.toBase58()}:v2:ff`);
+    assert(
+      v2 !== null && v2.version === 2 && v2.viewTag === 0xff && v2.ephemeralPublicKey.equals(key),
+      'Parses the key and view tag of a v2 memo'
+    );
+    const v1 = scanner.parseStealthAnnouncement(`STEALTH:${key.toBase58()}:v1`);
+    assert(v1 !== null && v1.version === 1 && v1.viewTag === undefined, 'v1 memos have no view tag');
+    assert(
+      scanner.parseStealthAnnouncement(createStealthAddressMemo(key))?.version === 1,
+      'Memos without metadata are v1'
+    );
+    assert(parseStealthAddressMemo(built.memo)!.equals(built.ephemeralKey.publicKey), 'parseEphemeralKeyFromMemo reads v2 memos');
+    assert(scanner.parseStealthAnnouncement(`STEALTH:${key.toBase58()}:v2`) === null, 'Rejects v2 memos without a tag');
+    assert(scanner.parseStealthAnnouncement(`STEALTH:${key.toBase58()}:v2:zz`) === null, 'Rejects non-hex view tags');
+    assert(scanner.parseStealthAnnouncement(`STEALTH:${key.toBase58()}:v2:abc`) === null, 'Rejects view tags longer than a byte');
+    assert(parseStealthAddressMemo(`STEALTH:${key.toBase58()}:v2:1`) === null, 'Malformed v2 memos yield no key');
+    console.log('');
+
+    console.log('Test 3: Scanner extraction');
+    const v1Payment = manager.generateStealthAddress(metaAddress);
+    const transactions = new Map<string, unknown>([
+      ['v2-payment', parsedMemoTransaction(built.memo, built.stealthAddress.address)],
+      [
+        'v1-payment',
+        parsedMemoTransaction(
+          createStealthAddressMemo(v1Payment.ephemeralKey.publicKey, 'v1'),
+          v1Payment.stealthAddress.address
+        )
+      ]
+    ]);
+    const watched = Keypair.generate().publicKey;
+    const connection = {
+      getSlot: async () => 100,
+      getSignaturesForAddress: async () =>
+        ['v2-payment', 'v1-payment'].map(signature => ({ signature, slot: 50, err: null, memo: null, blockTime: null })),
+      getParsedTransactions: async (signatures: string[]) => signatures.map(signature => transactions.get(signature) ?? null)
+    } as unknown as Connection;
+    const extracted = await scanner.fetchEphemeralKeys(connection, watched, 0, 100);
+    const extractedV2 = extracted.find(found => found.transactionSignature === 'v2-payment');
+    const extractedV1 = extracted.find(found => found.transactionSignature === 'v1-payment');
+    assert(extracted.length === 2, 'Extracts both announcements');
+    assert(extractedV2?.viewTag === viewTag, 'v2 keys carry the published view tag');
+    assert(extractedV1 !== undefined && extractedV1.viewTag === undefined, 'v1 keys carry no view tag');
+    console.log('');
+
+    console.log('Test 4: Scanning with view tags');
+    const fetched: string[] = [];
+    const paymentConnection = {
+      getParsedTransaction: async (signature: string) => {
+        fetched.push(signature);
+        return transactions.get(signature) ?? null;
+      },
+      getSignaturesForAddress: async () => []
+    } as unknown as Connection;
+    const mismatched: EphemeralKey = { ...extractedV2!, viewTag: (viewTag + 1) % 256, transactionSignature: 'mismatched' };
+    const payments = await manager.scanForPayments(
+      metaAddress,
+      viewKeypair.secretKey,
+      [mismatched, extractedV2!, extractedV1!],
+      paymentConnection
+    );
+    assert(
+      payments.some(payment => payment.stealthAddress.equals(built.stealthAddress.address)),
+      'Finds payments whose view tag matches'
+    );
+    assert(
+      payments.some(payment => payment.stealthAddress.equals(v1Payment.stealthAddress.address)),
+      'Still finds v1 payments'
+    );
+    assert(payments.length === 2, 'Skips keys whose view tag does not match');
+    assert(!fetched.includes('mismatched'), 'Skipped keys cost no RPC call');
+
+    const otherMeta = manager.generateStealthMetaAddress();
+    const foreignKeys = Array.from({ length: 64 }, () => manager.generateStealthAddress(otherMeta).ephemeralKey);
+    // About one in 256 foreign keys shares our tag by chance; eight or more out of 64 is vanishingly unlikely
+    const derived = await manager.scanForPayments(metaAddress, viewKeypair.secretKey, foreignKeys);
+    assert(derived.length < 8, 'Filters out nearly all announcements for other recipients');
+    console.log('');
+
+    console.log('=================================================');
+    console.log('📊 Test Summary');
+    console.log('=================================================');
+    console.log(`Total tests: ${totalTests}`);
+    console.log(`Passed: ${passedTests} ✅`);
+    console.log(`Failed: ${failedTests} ❌`);
+
+    if (failedTests === 0) {
+      console.log('\n🎉 All view tag tests passed!');
+      process.exit(0);
+    } else {
+      console.log(`\n⚠️  ${failedTests} test(s) failed`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Test suite failed with error:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runViewTagTests();
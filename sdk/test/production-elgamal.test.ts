@@ -3,29 +3,52 @@
 /**
  * Production ElGamal Integration Test Suite
  * 
- * This comprehensive test suite validates the production ElGamal implementation
- * including proper key derivation, encryption/decryption, range proofs, and
- * integration with SPL Token 2022.
+ * This test suite validates the twisted ElGamal and authenticated encryption
+ * modules used by confidential accounts against SPL Token 2022 behaviour.
+ * Golden vectors were produced with `@solana/zk-sdk`.
  * 
  * Test Coverage:
- * - ✅ Proper ElGamal key derivation from Solana keypairs
- * - ✅ Encryption/decryption with correct mathematical relationships
- * - ✅ Range proof generation and verification
+ * - ✅ ElGamal key derivation from wallet signatures
+ * - ✅ Encryption/decryption with discrete log recovery (u48 via lo/hi split)
+ * - ✅ Homomorphic addition and subtraction of ciphertexts
  * - ✅ Pedersen commitment properties
- * - ✅ Transfer proof generation
- * - ✅ Integration with viewing keys
- * - ✅ SPL Token 2022 compatibility
+ * - ✅ Authenticated encryption of decryptable balances
+ * - ✅ Compatibility with solana-zk-sdk encodings
  * 
  * Run with: npm run test:production-elgamal
  */
 
-import { Keypair, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
-import { 
-  ProductionElGamal, 
-  ElGamalUtils, 
-  ElGamalKeypair 
-} from '../src/privacy/elgamal-production';
-import { EncryptedAmount } from '../src/privacy/types';
+import { Keypair, LAMPORTS_PER_SOL, Transaction } from '@solana/web3.js';
+import { ed25519 } from '@noble/curves/ed25519';
+import {
+  G,
+  H,
+  addAmountToCiphertext,
+  addElGamalCiphertexts,
+  combineLoHiCiphertexts,
+  createDecryptHandle,
+  createPedersenCommitment,
+  decryptElGamal,
+  decryptElGamalLoHi,
+  elGamalKeypairFromSecretKey,
+  elGamalSecretKeyFromSignature,
+  encryptElGamal,
+  generateElGamalKeypair,
+  generatePedersenOpening,
+  multiply,
+  splitAmountLoHi,
+  subtractAmountFromCiphertext,
+  subtractElGamalCiphertexts
+} from '../src/privacy/elgamal';
+import {
+  AE_CIPHERTEXT_LENGTH,
+  aeDecrypt,
+  aeEncrypt,
+  generateAeKey
+} from '../src/privacy/authenticated-encryption';
+import { deriveConfidentialAccountKeys, deriveElGamalKeypair } from '../src/privacy/key-derivation';
+import { EncryptionUtils } from '../src/privacy/encryption';
+import { ExtendedWalletAdapter } from '../src/core/types';
 
 // Test configuration
 const ENABLE_VERBOSE = process.env.VERBOSE === 'true';
@@ -91,418 +114,247 @@ function assert(condition: boolean, message: string) {
 
 async function assertRejects(fn: () => Promise<any>, message: string) {
   totalTests++;
+  let rejected = false;
   try {
     await fn();
+  } catch {
+    rejected = true;
+  }
+  if (rejected) {
+    passedTests++;
+    logSuccess(message);
+  } else {
     failedTests++;
     logError(`${message} (expected rejection but succeeded)`);
     throw new Error(`Expected rejection but succeeded: ${message}`);
-  } catch (error) {
-    passedTests++;
-    logSuccess(message);
   }
 }
 
+function toHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex');
+}
+
+function fromHex(hex: string): Uint8Array {
+  return new Uint8Array(Buffer.from(hex, 'hex'));
+}
+
+function createMockWallet(keypair: Keypair, withRawKeypair: boolean = true): ExtendedWalletAdapter {
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction: async <T extends Transaction>(tx: T) => {
+      tx.partialSign(keypair);
+      return tx;
+    },
+    signAllTransactions: async <T extends Transaction>(txs: T[]) => {
+      txs.forEach(tx => tx.partialSign(keypair));
+      return txs;
+    },
+    signMessage: async (message: Uint8Array) => ed25519.sign(message, keypair.secretKey.slice(0, 32)),
+    rawKeypair: withRawKeypair ? keypair : undefined
+  } as ExtendedWalletAdapter;
+}
+
+// Golden vectors generated with @solana/zk-sdk 0.4.1
+const GOLDEN_SECRET_KEY = new Uint8Array(32).fill(1);
+const GOLDEN_PUBLIC_KEY = '02064b89dc89f5c353cf2077800e24fb83300d48b1af4a3926f1fe0a1864cf06';
+const GOLDEN_CIPHERTEXT_AMOUNT = 424242n;
+const GOLDEN_CIPHERTEXT =
+  'aeb65a87a31fe40a77bd53c38e45fd7d2ba276aa22d6d7bd7268374ba6430c32' +
+  '0af8e339a6e83e678450817853641ce4ad131732cfabdb2f8ef4eea610edf976';
+const GOLDEN_AE_KEY = new Uint8Array(16).fill(2);
+const GOLDEN_AE_AMOUNT = 1_000_000_000_000n;
+const GOLDEN_AE_CIPHERTEXT = '1ec1f61960af8abfda8c6b1ac1915a3019e414ef7862699a86439cc9ef567b2b9de6ef41';
+
 /**
  * Main test runner
  */
 async function runProductionElGamalTests() {
   log('\n🔐 Production ElGamal with SPL Token 2022 Integration - Test Suite', 'bright');
   log('='.repeat(80), 'cyan');
-  logInfo('Testing production-grade ElGamal encryption implementation');
-  logInfo('Verifying proper key derivation and SPL Token 2022 compatibility\n');
-
-  const elgamal = new ProductionElGamal();
-  const elgamalUtils = new ElGamalUtils();
+  logInfo('Testing twisted ElGamal and authenticated encryption');
+  logInfo('Verifying key derivation and SPL Token 2022 compatibility\n');
 
   try {
     // =================================================================
-    // Test 1: Proper ElGamal Key Derivation
+    // Test 1: ElGamal Key Derivation
     // =================================================================
-    logStep('Test 1: Proper ElGamal Key Derivation');
+    logStep('Test 1: ElGamal Key Derivation');
 
     const solanaKeypair = Keypair.generate();
-    const elgamalKeypair = elgamal.deriveElGamalKeypair(solanaKeypair);
+    const wallet = createMockWallet(solanaKeypair);
+    const tokenAccount = Keypair.generate().publicKey;
 
-    assert(elgamalKeypair !== undefined, 'ElGamal keypair derived successfully');
-    assert(elgamalKeypair.privateKey > 0n, 'Private key is non-zero scalar');
-    assert(elgamalKeypair.publicKey.length === 32, 'Public key is 32 bytes (Ristretto255 point)');
-    assert(elgamalKeypair.solanaKeypair !== undefined, 'Solana keypair reference preserved');
+    const elgamalKeypair = await deriveElGamalKeypair(wallet, tokenAccount.toBytes());
+    assert(elgamalKeypair.publicKey.length === 32, 'ElGamal public key is 32 bytes');
+    assert(elgamalKeypair.secretKey > 0n, 'ElGamal secret key is non-zero');
 
-    logInfo(`Private key (scalar): ${elgamalKeypair.privateKey.toString(16).slice(0, 16)}...`);
-    logInfo(`Public key: ${Buffer.from(elgamalKeypair.publicKey).toString('hex').slice(0, 16)}...`);
+    const again = await deriveElGamalKeypair(wallet, tokenAccount.toBytes());
+    assert(toHex(again.publicKey) === toHex(elgamalKeypair.publicKey), 'Derivation is deterministic');
 
-    // Verify deterministic derivation
-    const elgamalKeypair2 = elgamal.deriveElGamalKeypair(solanaKeypair);
-    assert(
-      elgamalKeypair.privateKey === elgamalKeypair2.privateKey,
-      'Key derivation is deterministic'
-    );
+    const otherAccount = await deriveElGamalKeypair(wallet, Keypair.generate().publicKey.toBytes());
+    assert(toHex(otherAccount.publicKey) !== toHex(elgamalKeypair.publicKey), 'Different accounts get different keys');
 
-    // Verify different keypairs produce different keys
-    const solanaKeypair2 = Keypair.generate();
-    const elgamalKeypair3 = elgamal.deriveElGamalKeypair(solanaKeypair2);
+    const viaSignMessage = await deriveElGamalKeypair(createMockWallet(solanaKeypair, false), tokenAccount.toBytes());
     assert(
-      elgamalKeypair.privateKey !== elgamalKeypair3.privateKey,
-      'Different Solana keypairs produce different ElGamal keys'
+      toHex(viaSignMessage.publicKey) === toHex(elgamalKeypair.publicKey),
+      'signMessage and raw keypair derive the same key'
     );
 
-    // =================================================================
-    // Test 2: Proper ElGamal Encryption/Decryption
-    // =================================================================
-    logStep('Test 2: Proper ElGamal Encryption and Decryption');
-
-    // Note: Discrete log is practical for amounts up to ~100M lamports (0.1 SOL)
-    // For larger amounts, SPL Token 2022 uses a different decryption approach
-    const testAmount = BigInt(50_000_000); // 50M lamports (~0.05 SOL)
-    logInfo(`Encrypting amount: ${testAmount} lamports (${(Number(testAmount) / LAMPORTS_PER_SOL).toFixed(4)} SOL)`);
-
-    const encrypted = await elgamal.encrypt(testAmount, elgamalKeypair.publicKey);
-
-    assert(encrypted !== undefined, 'Encryption succeeded');
-    assert(encrypted.ciphertext.length === 64, 'Ciphertext is 64 bytes (C1 + C2)');
-    assert(encrypted.commitment.length === 32, 'Commitment is 32 bytes (Pedersen)');
-    assert(encrypted.rangeProof.length >= 64, 'Range proof is present');
-
-    logVerbose(`Ciphertext: ${Buffer.from(encrypted.ciphertext).toString('hex').slice(0, 32)}...`);
-    logVerbose(`Commitment: ${Buffer.from(encrypted.commitment).toString('hex').slice(0, 32)}...`);
-
-    // Decrypt with correct private key
-    const decrypted = await elgamal.decrypt(encrypted.ciphertext, elgamalKeypair.privateKey);
+    const accountKeys = await deriveConfidentialAccountKeys(wallet, tokenAccount);
+    assert(toHex(accountKeys.elGamal.publicKey) === toHex(elgamalKeypair.publicKey), 'Account keys reuse the ElGamal derivation');
+    assert(accountKeys.aeKey.length === 16, 'AE key is 16 bytes');
 
-    assert(decrypted === testAmount, `Decryption recovered correct amount (${decrypted})`);
-    logSuccess(`Encryption/Decryption round-trip: ${testAmount} -> encrypt -> decrypt -> ${decrypted}`);
+    await assertRejects(
+      async () => elGamalSecretKeyFromSignature(new Uint8Array(64)),
+      'Default (all-zero) signature is rejected'
+    );
 
     // =================================================================
-    // Test 3: Encryption with Different Keys Produces Different Ciphertexts
+    // Test 2: Public Key Relationship
     // =================================================================
-    logStep('Test 3: Encryption Randomness');
-
-    const amount = BigInt(25_000_000); // 25M lamports
-    const encrypted1 = await elgamal.encrypt(amount, elgamalKeypair.publicKey);
-    const encrypted2 = await elgamal.encrypt(amount, elgamalKeypair.publicKey);
-
-    // Same amount should produce different ciphertexts (due to randomness)
-    assert(
-      !Buffer.from(encrypted1.ciphertext).equals(Buffer.from(encrypted2.ciphertext)),
-      'Same amount produces different ciphertexts (randomized encryption)'
-    );
+    logStep('Test 2: Public Key Relationship');
 
-    // But both should decrypt to the same value
-    const decrypted1 = await elgamal.decrypt(encrypted1.ciphertext, elgamalKeypair.privateKey);
-    const decrypted2 = await elgamal.decrypt(encrypted2.ciphertext, elgamalKeypair.privateKey);
+    // Twisted ElGamal: P = s^-1 * H, so s * P = H
+    const publicPoint = elGamalKeypairFromSecretKey(elgamalKeypair.secretKey).publicKey;
+    assert(toHex(publicPoint) === toHex(elgamalKeypair.publicKey), 'Public key recomputes from the secret key');
 
-    assert(decrypted1 === amount, 'First ciphertext decrypts correctly');
-    assert(decrypted2 === amount, 'Second ciphertext decrypts correctly');
+    const golden = elGamalKeypairFromSecretKey(GOLDEN_SECRET_KEY);
+    assert(toHex(golden.publicKey) === GOLDEN_PUBLIC_KEY, 'Public key matches solana-zk-sdk');
 
     // =================================================================
-    // Test 4: Cannot Decrypt with Wrong Private Key
+    // Test 3: Encryption and Decryption
     // =================================================================
-    logStep('Test 4: Security - Cannot Decrypt with Wrong Key');
+    logStep('Test 3: Encryption and Decryption');
 
-    const aliceKeypair = elgamal.deriveElGamalKeypair(Keypair.generate());
-    const bobKeypair = elgamal.deriveElGamalKeypair(Keypair.generate());
+    for (const amount of [0n, 1n, 65535n, 123456789n, 4294967295n]) {
+      const { ciphertext } = encryptElGamal(elgamalKeypair.publicKey, amount);
+      assert(ciphertext.length === 64, `Ciphertext of ${amount} is 64 bytes`);
+      assert(decryptElGamal(elgamalKeypair.secretKey, ciphertext) === amount, `Decrypts ${amount}`);
+    }
 
-    const aliceAmount = BigInt(75_000_000); // 75M lamports
-    const aliceEncrypted = await elgamal.encrypt(aliceAmount, aliceKeypair.publicKey);
+    const first = encryptElGamal(elgamalKeypair.publicKey, 42n);
+    const second = encryptElGamal(elgamalKeypair.publicKey, 42n);
+    assert(toHex(first.ciphertext) !== toHex(second.ciphertext), 'Encryption is randomized');
 
-    // Alice can decrypt her own balance
-    const aliceDecrypted = await elgamal.decrypt(
-      aliceEncrypted.ciphertext,
-      aliceKeypair.privateKey
-    );
-    assert(aliceDecrypted === aliceAmount, 'Alice decrypts her own balance correctly');
+    const wrongKey = generateElGamalKeypair();
+    assert(decryptElGamal(wrongKey.secretKey, first.ciphertext) !== 42n, 'Wrong key does not decrypt');
 
-    // Bob cannot decrypt Alice's balance (will get wrong value)
-    const bobDecrypted = await elgamal.decrypt(
-      aliceEncrypted.ciphertext,
-      bobKeypair.privateKey
-    );
     assert(
-      bobDecrypted !== aliceAmount,
-      'Bob cannot decrypt Alice\'s balance (gets wrong value)'
+      decryptElGamal(golden.secretKey, fromHex(GOLDEN_CIPHERTEXT)) === GOLDEN_CIPHERTEXT_AMOUNT,
+      'Decrypts a solana-zk-sdk ciphertext'
     );
 
-    logInfo('Encryption is secure: wrong key produces wrong decryption');
-
-    // =================================================================
-    // Test 5: Range Proof Generation and Verification
-    // =================================================================
-    logStep('Test 5: Range Proof Generation and Verification');
-
-    const amounts = [
-      0n,                    // Zero
-      1n,                    // Minimum
-      10_000n,               // 10K lamports
-      1_000_000n,            // 1M lamports
-      50_000_000n,           // 50M lamports (~0.05 SOL)
-    ];
-
-    for (const amt of amounts) {
-      const enc = await elgamal.encrypt(amt, elgamalKeypair.publicKey);
-      const isValid = await elgamal.verify(enc);
-      assert(isValid, `Range proof valid for amount: ${amt}`);
-    }
-
-    // Test invalid range proof detection
-    const validEncrypted = await elgamal.encrypt(100n, elgamalKeypair.publicKey);
-    const invalidEncrypted = {
-      ...validEncrypted,
-      rangeProof: new Uint8Array(128) // Invalid proof
-    };
-
-    const isInvalid = await elgamal.verify(invalidEncrypted);
-    assert(!isInvalid, 'Invalid range proof detected');
+    const outOfRange = encryptElGamal(elgamalKeypair.publicKey, 5n << 33n);
+    assert(decryptElGamal(elgamalKeypair.secretKey, outOfRange.ciphertext) === null, 'Values above 2^32 report null');
 
     // =================================================================
-    // Test 6: Pedersen Commitment Properties
+    // Test 4: u48 Amounts via Lo/Hi Split
     // =================================================================
-    logStep('Test 6: Pedersen Commitment Properties');
+    logStep('Test 4: u48 Amounts via Lo/Hi Split');
 
-    const value1 = BigInt(60_000_000); // 60M lamports
-    const value2 = BigInt(40_000_000); // 40M lamports
+    const largeAmount = 500n * BigInt(LAMPORTS_PER_SOL);
+    const { lo, hi } = splitAmountLoHi(largeAmount);
+    assert(lo < 1n << 16n, 'Low part fits in 16 bits');
+    assert(lo + (hi << 16n) === largeAmount, 'Lo/hi parts recombine');
 
-    const enc1 = await elgamal.encrypt(value1, elgamalKeypair.publicKey);
-    const enc2 = await elgamal.encrypt(value2, elgamalKeypair.publicKey);
-
-    assert(enc1.commitment.length === 32, 'Commitment 1 has correct length');
-    assert(enc2.commitment.length === 32, 'Commitment 2 has correct length');
+    const encryptedLo = encryptElGamal(elgamalKeypair.publicKey, lo);
+    const encryptedHi = encryptElGamal(elgamalKeypair.publicKey, hi);
     assert(
-      !Buffer.from(enc1.commitment).equals(Buffer.from(enc2.commitment)),
-      'Different amounts have different commitments'
+      decryptElGamalLoHi(elgamalKeypair.secretKey, encryptedLo.ciphertext, encryptedHi.ciphertext) === largeAmount,
+      'Decrypts a 500 SOL amount from lo/hi ciphertexts'
     );
 
-    logSuccess('Pedersen commitments hide the amount while binding to it');
-
-    // =================================================================
-    // Test 7: Transfer Proof Generation
-    // =================================================================
-    logStep('Test 7: Transfer Proof Generation');
-
-    const oldBalance = BigInt(80_000_000); // 80M lamports
-    const transferAmount = BigInt(30_000_000); // 30M lamports
-    const newBalance = oldBalance - transferAmount;
-
-    const oldBalanceEnc = await elgamal.encrypt(oldBalance, elgamalKeypair.publicKey);
-    const newBalanceEnc = await elgamal.encrypt(newBalance, elgamalKeypair.publicKey);
-
-    const transferProof = await elgamal.createTransferProof(
-      oldBalanceEnc,
-      transferAmount,
-      newBalanceEnc,
-      elgamalKeypair
+    const combined = combineLoHiCiphertexts(encryptedLo.ciphertext, encryptedHi.ciphertext);
+    const smallLo = encryptElGamal(elgamalKeypair.publicKey, 1000n);
+    const smallHi = encryptElGamal(elgamalKeypair.publicKey, 3n);
+    const smallCombined = combineLoHiCiphertexts(smallLo.ciphertext, smallHi.ciphertext);
+    assert(combined.length === 64, 'Combined ciphertext is 64 bytes');
+    assert(
+      decryptElGamal(elgamalKeypair.secretKey, smallCombined) === 1000n + (3n << 16n),
+      'Combined ciphertext encrypts lo + hi * 2^16'
     );
 
-    assert(transferProof !== undefined, 'Transfer proof generated');
-    assert(transferProof.proof.length > 0, 'Transfer proof has data');
-    assert(transferProof.publicInputs.length === 2, 'Transfer proof has 2 public inputs');
-    assert(transferProof.proofSystem === 'groth16', 'Transfer proof uses Groth16');
-
-    logSuccess('Transfer proof proves: oldBalance - transferAmount = newBalance');
-
-    // =================================================================
-    // Test 8: Integration with ElGamalUtils
-    // =================================================================
-    logStep('Test 8: ElGamalUtils Integration');
-
-    const utils = new ElGamalUtils();
-    const utilsKeypair = utils.createKeypair(Keypair.generate());
-
-    assert(utilsKeypair.privateKey > 0n, 'Utils created keypair with valid private key');
-
-    const utilsAmount = BigInt(45_000_000); // 45M lamports
-    const utilsEncrypted = await utils.encryptAmount(utilsAmount, utilsKeypair.publicKey);
-
-    assert(utilsEncrypted.ciphertext.length === 64, 'Utils encrypted correctly');
-
-    const utilsDecrypted = await utils.decryptAmount(
-      utilsEncrypted.ciphertext,
-      utilsKeypair.privateKey
+    await assertRejects(
+      async () => splitAmountLoHi(1n << 48n),
+      'Amounts above 48 bits are rejected'
     );
 
-    assert(utilsDecrypted === utilsAmount, 'Utils decrypted correctly');
-
-    const utilsValid = await utils.verifyAmount(utilsEncrypted);
-    assert(utilsValid, 'Utils verified encrypted amount');
-
-    logSuccess('ElGamalUtils provides convenient API for common operations');
-
     // =================================================================
-    // Test 9: Multiple Encryption/Decryption Cycles
+    // Test 5: Homomorphic Operations
     // =================================================================
-    logStep('Test 9: Multiple Encryption/Decryption Cycles');
-
-    const testAmounts = [
-      1n,
-      10n,
-      100n,
-      1000n,
-      10_000n,
-      100_000n,
-      1_000_000n,
-      10_000_000n,
-    ];
-
-    let successCount = 0;
-    for (const testAmt of testAmounts) {
-      const enc = await elgamal.encrypt(testAmt, elgamalKeypair.publicKey);
-      const dec = await elgamal.decrypt(enc.ciphertext, elgamalKeypair.privateKey);
-      if (dec === testAmt) {
-        successCount++;
-      }
-    }
+    logStep('Test 5: Homomorphic Operations');
 
-    assert(
-      successCount === testAmounts.length,
-      `All ${testAmounts.length} amounts encrypted/decrypted correctly`
-    );
+    const a = encryptElGamal(elgamalKeypair.publicKey, 700n).ciphertext;
+    const b = encryptElGamal(elgamalKeypair.publicKey, 300n).ciphertext;
+    assert(decryptElGamal(elgamalKeypair.secretKey, addElGamalCiphertexts(a, b)) === 1000n, 'Enc(700) + Enc(300) = Enc(1000)');
+    assert(decryptElGamal(elgamalKeypair.secretKey, subtractElGamalCiphertexts(a, b)) === 400n, 'Enc(700) - Enc(300) = Enc(400)');
+    assert(decryptElGamal(elgamalKeypair.secretKey, addAmountToCiphertext(a, 50n)) === 750n, 'Enc(700) + 50 = Enc(750)');
+    assert(decryptElGamal(elgamalKeypair.secretKey, subtractAmountFromCiphertext(a, 200n)) === 500n, 'Enc(700) - 200 = Enc(500)');
 
     // =================================================================
-    // Test 10: Edge Cases
+    // Test 6: Pedersen Commitments
     // =================================================================
-    logStep('Test 10: Edge Cases');
-
-    // Zero amount
-    const zeroEnc = await elgamal.encrypt(0n, elgamalKeypair.publicKey);
-    const zeroDec = await elgamal.decrypt(zeroEnc.ciphertext, elgamalKeypair.privateKey);
-    assert(zeroDec === 0n, 'Zero amount encrypts/decrypts correctly');
-
-    // Very small amount
-    const smallEnc = await elgamal.encrypt(1n, elgamalKeypair.publicKey);
-    const smallDec = await elgamal.decrypt(smallEnc.ciphertext, elgamalKeypair.privateKey);
-    assert(smallDec === 1n, 'Minimum amount (1) encrypts/decrypts correctly');
-
-    // Large amount (within discrete log range)
-    const largeAmount = BigInt(90_000_000); // 90M lamports (~0.09 SOL)
-    const largeEnc = await elgamal.encrypt(largeAmount, elgamalKeypair.publicKey);
-    const largeDec = await elgamal.decrypt(largeEnc.ciphertext, elgamalKeypair.privateKey);
-    assert(largeDec === largeAmount, 'Large amount (within discrete log limit) encrypts/decrypts correctly');
+    logStep('Test 6: Pedersen Commitments');
 
-    // Test negative amount rejection
-    await assertRejects(
-      () => elgamal.encrypt(-1n, elgamalKeypair.publicKey),
-      'Negative amounts are rejected'
-    );
+    const opening = generatePedersenOpening();
+    const commitment = createPedersenCommitment(1234n, opening);
+    const expected = multiply(G, 1234n).add(multiply(H, opening));
+    assert(toHex(commitment) === toHex(expected.toRawBytes()), 'Commitment equals x*G + r*H');
 
-    // Test invalid public key rejection
-    const invalidPubKey = new Uint8Array(16); // Wrong length
-    await assertRejects(
-      () => elgamal.encrypt(100n, invalidPubKey),
-      'Invalid public key length is rejected'
+    const withOpening = encryptElGamal(elgamalKeypair.publicKey, 1234n, opening);
+    assert(toHex(withOpening.ciphertext.slice(0, 32)) === toHex(commitment), 'Ciphertext commitment matches Pedersen commitment');
+    assert(
+      toHex(withOpening.ciphertext.slice(32)) === toHex(createDecryptHandle(elgamalKeypair.publicKey, opening)),
+      'Ciphertext handle equals r*P'
     );
+    assert(withOpening.opening === opening, 'Opening is returned');
 
     // =================================================================
-    // Test 11: SPL Token 2022 Compatibility
+    // Test 7: Authenticated Encryption
     // =================================================================
-    logStep('Test 11: SPL Token 2022 Compatibility');
+    logStep('Test 7: Authenticated Encryption');
 
-    // Verify ciphertext format matches SPL Token 2022 expectations
-    const splAmount = BigInt(50_000_000); // 50M lamports
-    const splEncrypted = await elgamal.encrypt(splAmount, elgamalKeypair.publicKey);
+    const aeKey = generateAeKey();
+    const aeCiphertext = aeEncrypt(aeKey, 987654321n);
+    assert(aeCiphertext.length === AE_CIPHERTEXT_LENGTH, 'AE ciphertext is 36 bytes');
+    assert(aeDecrypt(aeKey, aeCiphertext) === 987654321n, 'AE ciphertext decrypts');
+    assert(aeDecrypt(GOLDEN_AE_KEY, fromHex(GOLDEN_AE_CIPHERTEXT)) === GOLDEN_AE_AMOUNT, 'Decrypts a solana-zk-sdk AE ciphertext');
 
-    // SPL Token 2022 expects:
-    // - 64-byte ciphertext (32 bytes C1 + 32 bytes C2)
-    // - 32-byte Pedersen commitment
-    // - Range proof data
+    await assertRejects(async () => aeDecrypt(generateAeKey(), aeCiphertext), 'Wrong AE key is rejected');
 
-    assert(
-      splEncrypted.ciphertext.length === 64,
-      'Ciphertext format compatible with SPL Token 2022 (64 bytes)'
-    );
-
-    assert(
-      splEncrypted.commitment.length === 32,
-      'Commitment format compatible with SPL Token 2022 (32 bytes)'
-    );
-
-    assert(
-      splEncrypted.rangeProof.length >= 64,
-      'Range proof included for SPL Token 2022 validation'
-    );
-
-    logSuccess('Encryption format is compatible with SPL Token 2022 confidential transfers');
-
-    // =================================================================
-    // Test 12: Key Derivation Consistency
-    // =================================================================
-    logStep('Test 12: Key Derivation Consistency');
-
-    // Test that the same Solana keypair always produces the same ElGamal keypair
-    const consistency_tests = 10;
-    const baseSolanaKeypair = Keypair.generate();
-    const baseElGamalKeypair = elgamal.deriveElGamalKeypair(baseSolanaKeypair);
-
-    for (let i = 0; i < consistency_tests; i++) {
-      const derived = elgamal.deriveElGamalKeypair(baseSolanaKeypair);
-      assert(
-        derived.privateKey === baseElGamalKeypair.privateKey,
-        `Derivation ${i + 1}: Private key consistent`
-      );
-      assert(
-        Buffer.from(derived.publicKey).equals(Buffer.from(baseElGamalKeypair.publicKey)),
-        `Derivation ${i + 1}: Public key consistent`
-      );
-    }
-
-    logSuccess(`Key derivation is deterministic across ${consistency_tests} tests`);
+    const tampered = aeCiphertext.slice();
+    tampered[20] ^= 1;
+    await assertRejects(async () => aeDecrypt(aeKey, tampered), 'Tampered AE ciphertext is rejected');
 
     // =================================================================
-    // Test 13: Mathematical Relationship Verification
+    // Test 8: EncryptionUtils
     // =================================================================
-    logStep('Test 13: Mathematical Relationship (recipient_point = secret_key * G)');
+    logStep('Test 8: EncryptionUtils');
 
-    // This is the critical test: verify proper ElGamal relationship
-    const mathKeypair = elgamal.deriveElGamalKeypair(Keypair.generate());
+    const encryptionUtils = new EncryptionUtils();
+    const encrypted = await encryptionUtils.encryptAmount(largeAmount, elgamalKeypair.publicKey);
+    assert(encrypted.ciphertext.length === 128, 'Encrypted amount holds lo and hi ciphertexts');
+    assert(encrypted.commitment.length === 64, 'Encrypted amount holds lo and hi commitments');
+    assert(await encryptionUtils.verifyEncryptedAmount(encrypted), 'Encrypted amount is well-formed');
+    assert(await encryptionUtils.decryptAmount(encrypted.ciphertext, elgamalKeypair) === largeAmount, 'Encrypted amount decrypts');
 
-    // Manually compute: expected_public_key = private_key * G
-    const { ristretto255 } = await import('@noble/curves/ed25519');
-    const G = ristretto255.Point.BASE;
-    const computedPublicKey = G.multiply(mathKeypair.privateKey);
-    const computedPublicKeyBytes = computedPublicKey.toRawBytes();
-
-    assert(
-      Buffer.from(computedPublicKeyBytes).equals(Buffer.from(mathKeypair.publicKey)),
-      'Public key = Private key * G (proper ElGamal relationship)'
+    await assertRejects(
+      () => encryptionUtils.decryptAmount(encrypted.ciphertext, wrongKey),
+      'Decrypting with the wrong key is rejected'
     );
 
-    logSuccess('✓ Proper ElGamal mathematical relationship verified!');
-    logInfo('This is the key requirement for SPL Token 2022 integration');
-
     // =================================================================
-    // Test 14: Performance Benchmarks
+    // Test 9: Performance
     // =================================================================
-    logStep('Test 14: Performance Benchmarks');
-
-    const benchmarkIterations = 10;
-
-    // Key derivation benchmark
-    const keyGenStart = performance.now();
-    for (let i = 0; i < benchmarkIterations; i++) {
-      elgamal.deriveElGamalKeypair(Keypair.generate());
-    }
-    const keyGenTime = (performance.now() - keyGenStart) / benchmarkIterations;
-
-    // Encryption benchmark
-    const encStart = performance.now();
-    for (let i = 0; i < benchmarkIterations; i++) {
-      await elgamal.encrypt(BigInt(1000000), elgamalKeypair.publicKey);
-    }
-    const encTime = (performance.now() - encStart) / benchmarkIterations;
-
-    // Decryption benchmark
-    const testEnc = await elgamal.encrypt(BigInt(50_000_000), elgamalKeypair.publicKey);
-    const decStart = performance.now();
-    for (let i = 0; i < benchmarkIterations; i++) {
-      await elgamal.decrypt(testEnc.ciphertext, elgamalKeypair.privateKey);
-    }
-    const decTime = (performance.now() - decStart) / benchmarkIterations;
+    logStep('Test 9: Performance');
 
-    logInfo(`Key derivation: ${keyGenTime.toFixed(2)}ms per operation`);
-    logInfo(`Encryption: ${encTime.toFixed(2)}ms per operation`);
-    logInfo(`Decryption: ${decTime.toFixed(2)}ms per operation`);
+    const worstCase = encryptElGamal(elgamalKeypair.publicKey, 0xffffffffn).ciphertext;
+    const decStart = Date.now();
+    decryptElGamal(elgamalKeypair.secretKey, worstCase);
+    const decTime = Date.now() - decStart;
+    logVerbose(`32-bit decryption took ${decTime}ms`);
 
-    assert(keyGenTime < 100, 'Key derivation is reasonably fast (< 100ms)');
-    assert(encTime < 1000, 'Encryption is reasonably fast (< 1s)');
-    assert(decTime < 1000, 'Decryption is reasonably fast (< 1s)');
+    assert(decTime < 10000, 'Worst-case 32-bit decryption is reasonably fast (< 10s)');
 
     // =================================================================
     // Test Summary
@@ -517,29 +369,12 @@ async function runProductionElGamalTests() {
     if (failedTests === 0) {
       log('\n🎉 All production ElGamal tests passed!', 'green');
       log('\n✅ Success Criteria Met:', 'bright');
-      logSuccess('Proper ElGamal key derivation implemented');
-      logSuccess('Encryption/decryption with correct mathematical relationship');
-      logSuccess('recipient_point = secret_key * G relationship verified');
-      logSuccess('Range proofs generated and verified');
+      logSuccess('ElGamal keys derived from wallet signatures as Token 2022 does');
+      logSuccess('Encryption/decryption matches solana-zk-sdk');
+      logSuccess('u48 amounts recovered via the lo/hi split');
+      logSuccess('Homomorphic operations working correctly');
       logSuccess('Pedersen commitments working correctly');
-      logSuccess('Transfer proofs can be generated');
-      logSuccess('SPL Token 2022 format compatibility confirmed');
-      logSuccess('Performance is acceptable for production use');
-
-      log('\n📝 Key Achievements:', 'cyan');
-      logInfo('1. Proper ElGamal keypair derivation from Solana keypairs');
-      logInfo('2. Correct mathematical relationship: PublicKey = PrivateKey * G');
-      logInfo('3. Production-grade encryption/decryption');
-      logInfo('4. Range proofs prevent negative balance attacks');
-      logInfo('5. Pedersen commitments enable homomorphic operations');
-      logInfo('6. Full compatibility with SPL Token 2022 confidential transfers');
-      logInfo('7. Ready for integration with viewing keys and confidential transfers');
-
-      log('\n🚀 Next Steps:', 'magenta');
-      logInfo('1. Integrate production ElGamal with confidential transfer manager');
-      logInfo('2. Update viewing keys to use production ElGamal');
-      logInfo('3. Test end-to-end confidential transfer workflow');
-      logInfo('4. Deploy to devnet for integration testing');
+      logSuccess('Authenticated encryption matches solana-zk-sdk');
 
       process.exit(0);
     } else {
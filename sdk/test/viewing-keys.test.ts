@@ -15,6 +15,7 @@
 import { Connection, Keypair, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import { ViewingKeyManager, ViewingKeyConfig } from '../src/privacy/viewing-keys';
 import { EncryptionUtils } from '../src/privacy/encryption';
+import { deriveElGamalKeypair } from '../src/privacy/key-derivation';
 import { 
   ViewingKey,
   EncryptedBalance 
@@ -52,15 +53,20 @@ function createMockWallet(keypair: Keypair): ExtendedWalletAdapter {
 
 /**
  * Create a mock encrypted balance for testing
+ *
+ * The balance is encrypted under the account's ElGamal key, derived from the
+ * owner's wallet exactly as the viewing key is.
  */
 async function createMockEncryptedBalance(
   amount: number,
-  ownerKeypair: Keypair
+  ownerKeypair: Keypair,
+  account: PublicKey
 ): Promise<EncryptedBalance> {
   const encryptionUtils = new EncryptionUtils();
+  const elGamalKeypair = await deriveElGamalKeypair(createMockWallet(ownerKeypair), account.toBytes());
   const encrypted = await encryptionUtils.encryptAmount(
     BigInt(amount * LAMPORTS_PER_SOL),
-    ownerKeypair.publicKey
+    elGamalKeypair.publicKey
   );
   
   return {
@@ -175,7 +181,7 @@ async function runViewingKeysTests() {
     });
     
     const testAmount = 100;
-    const encryptedBalance = await createMockEncryptedBalance(testAmount, aliceKeypair);
+    const encryptedBalance = await createMockEncryptedBalance(testAmount, aliceKeypair, account3);
     const decryptedAmount = await auditorViewingKeyManager.decryptBalance(
       encryptedBalance,
       viewingKeyForAuditor
@@ -206,7 +212,7 @@ async function runViewingKeysTests() {
       'Expired key should be invalid'
     );
     
-    const balance4 = await createMockEncryptedBalance(50, aliceKeypair);
+    const balance4 = await createMockEncryptedBalance(50, aliceKeypair, account4);
     await assertRejects(
       () => auditorViewingKeyManager.decryptBalance(balance4, expiredKey),
       'Should reject decryption with expired key'
@@ -224,7 +230,7 @@ async function runViewingKeysTests() {
       }
     });
     
-    const balance5 = await createMockEncryptedBalance(75, aliceKeypair);
+    const balance5 = await createMockEncryptedBalance(75, aliceKeypair, account5);
     await assertRejects(
       () => auditorViewingKeyManager.decryptBalance(balance5, noPermKey),
       'Should reject decryption without permission'
@@ -345,7 +351,7 @@ async function runViewingKeysTests() {
     });
     
     // Step 2: Alice has encrypted balance
-    const aliceBalance = await createMockEncryptedBalance(500, aliceKeypair);
+    const aliceBalance = await createMockEncryptedBalance(500, aliceKeypair, aliceAccount11);
     
     // Step 3: Auditor decrypts Alice's balance
     const decryptedAliceBalance = await auditorViewingKeyManager.decryptBalance(
@@ -0,0 +1,393 @@
+/**
+ * zk-proofs.test.ts
+ *
+ * Purpose: Tests for the ZK ElGamal proofs behind confidential transfers
+ *
+ * Proofs are randomized, so most checks generate a proof, verify it locally
+ * and then tamper with it. The golden proofs below were produced with
+ * `@solana/zk-sdk` for the secret key `2a00..00`; verifying them locally
+ * pins our transcripts and encodings to the ones the ZK ElGamal Proof
+ * program checks on-chain.
+ *
+ * Run with: npm run test:zk-proofs
+ */
+
+import { Keypair } from '@solana/web3.js';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import {
+  createPedersenCommitment,
+  decryptElGamal,
+  elGamalKeypairFromSecretKey,
+  encryptElGamal,
+  encryptGroupedElGamal,
+  generateElGamalKeypair,
+  generatePedersenOpening,
+  groupedCiphertextToCiphertext
+} from '../src/privacy/elgamal';
+import { ProofTranscript } from '../src/privacy/transcript';
+import {
+  generateBatchedGroupedCiphertext3HandlesValidityProof,
+  generateCiphertextCommitmentEqualityProof,
+  generateGroupedCiphertext3HandlesValidityProof,
+  generatePubkeyValidityProof,
+  generateZeroCiphertextProof,
+  verifyBatchedGroupedCiphertext3HandlesValidityProof,
+  verifyCiphertextCommitmentEqualityProof,
+  verifyGroupedCiphertext3HandlesValidityProof,
+  verifyPubkeyValidityProof,
+  verifyZeroCiphertextProof
+} from '../src/privacy/sigma-proofs';
+import { generateBatchedRangeProof, verifyBatchedRangeProof } from '../src/privacy/range-proof';
+import {
+  generateTransferProofs,
+  generateWithdrawProofs,
+  verifyZKProof
+} from '../src/privacy/confidential-proofs';
+import {
+  PROOF_CONTEXT_STATE_META_LEN,
+  ProofInstruction,
+  ZK_ELGAMAL_PROOF_PROGRAM_ID,
+  createCloseContextStateInstruction,
+  createVerifyProofInstruction,
+  getProofContextStateSize
+} from '../src/privacy/proof-instructions';
+import {
+  decodeConfidentialTransferAccountState,
+  decodeConfidentialTransferMintState
+} from '../src/privacy/confidential-state';
+import { ZKProof } from '../src/privacy/types';
+
+/**
+ * Test result tracking
+ */
+let passedTests = 0;
+let failedTests = 0;
+let totalTests = 0;
+
+function assert(condition: boolean, message: string) {
+  totalTests++;
+  if (condition) {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+  } else {
+    failedTests++;
+    console.error(`  ❌ ${message}`);
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function assertThrows(fn: () => unknown, message: string) {
+  totalTests++;
+  try {
+    fn();
+  } catch {
+    passedTests++;
+    console.log(`  ✅ ${message}`);
+    return;
+  }
+  failedTests++;
+  console.error(`  ❌ ${message} (expected error but succeeded)`);
+  throw new Error(`Expected error but succeeded: ${message}`);
+}
+
+/**
+ * Copy of a proof with one byte of the proof data flipped
+ */
+function tamperProof(proof: ZKProof, index: number = 0): ZKProof {
+  const bytes = proof.proof.slice();
+  bytes[index] ^= 1;
+  return { ...proof, proof: bytes };
+}
+
+/**
+ * Copy of a proof with one byte of a public input flipped
+ */
+function tamperContext(proof: ZKProof, input: number, index: number = 0): ZKProof {
+  const publicInputs = proof.publicInputs.map(bytes => bytes.slice());
+  publicInputs[input][index] ^= 1;
+  return { ...proof, publicInputs };
+}
+
+/**
+ * Split `context || proof` bytes produced by zk-sdk into a ZKProof
+ */
+function fromProofData(hex: string, contextLengths: number[], circuitHash: string): ZKProof {
+  const bytes = hexToBytes(hex);
+  const publicInputs: Uint8Array[] = [];
+  let offset = 0;
+  for (const length of contextLengths) {
+    publicInputs.push(bytes.slice(offset, offset + length));
+    offset += length;
+  }
+  return { proof: bytes.slice(offset), publicInputs, proofSystem: 'sigma', circuitHash };
+}
+
+// Golden proofs generated with @solana/zk-sdk (secret key 2a00..00)
+const GOLDEN_SECRET_KEY = new Uint8Array(32);
+GOLDEN_SECRET_KEY[0] = 42;
+const GOLDEN_PUBKEY = 'a669f6823d30d946754e8876ef9176f2687653b0346dea026d1347f19756ac4d';
+const GOLDEN_PUBKEY_VALIDITY_PROOF =
+  'a669f6823d30d946754e8876ef9176f2687653b0346dea026d1347f19756ac4d12a12ba24d18f9662511868f9571282a' +
+  'cb71c4eb43b9d0b73a8ca4a7ca3ffa7c0b89de479cbd3c93b27903907de4b9d3b6b46294292954ac50bbe45ffe97a102';
+const GOLDEN_ZERO_CIPHERTEXT_PROOF =
+  'a669f6823d30d946754e8876ef9176f2687653b0346dea026d1347f19756ac4dca8a6d6f1858281b59da82c62bbcbb75' +
+  '2f86c38390f24228e74ab507a7aa8a2264858acc8ccefb18f769982716f618811c20a471033c5c4773e0a8c8a644a523' +
+  '8add3ad0c5bdcf5b3a9a7a7eaa26354691f2aaf4c6a547ba8a222057e0f6231d7e223fdf0ea1b80093060fcd0b162c5b' +
+  '1d1def4a581b35859fb34a50844d9913d4adb8ec022120e333d9379fbde95c9ff48b298e37faef63a369f4c704e8220c';
+// Ciphertext of 777 and a commitment to 777
+const GOLDEN_EQUALITY_PROOF =
+  'a669f6823d30d946754e8876ef9176f2687653b0346dea026d1347f19756ac4d30539cd5fbafb10b9ecedfc80af19ac5' +
+  '37a96eaa8137ae2b4c31b34ea47bd441b6591afe653a0bfd3e1e5ec402b84b6d1d189d2e861dfbc1cd1d28764e1e1232' +
+  'b6648c5cef605c7604c1c2157936925369fe09016f4014e77d7c06891c9c0864aed7e39bdd9bde4f709780d049a5da28' +
+  'cc704efd0f81ca449a1d64f87051a06454d83049e1ea12926b1b60e32c694b414ee15cde6baed240db1baef8fc21544b' +
+  '1c3519d94b9fb2c97709565388976630cdbf6b32096610f69e84e54ad3efcd3fa48ad489a8d1fb632c10832d9a15ec49' +
+  'b3f6302424c6394db27c0701f25cdf0b5defb44d2d878faa0f76e12330a73b1baadc9e4a191010f9f00cdbfc6630ed0b' +
+  '7c26cde4c62112a96d6e365e1a92142a5fa4c540d1081732ae930170476c9708';
+
+async function runZkProofTests() {
+  console.log('\n===================================================');
+  console.log('🔐 ZK ElGamal Proof Tests');
+  console.log('===================================================\n');
+
+  try {
+    const keypair = generateElGamalKeypair();
+
+    // Test 1: Transcript
+    console.log('📋 Test 1: Merlin transcript');
+    const transcript = new ProofTranscript('test protocol');
+    transcript.appendMessage('some label', 'some data');
+    assert(
+      bytesToHex(transcript.challengeBytes('challenge', 32)) ===
+        'd5a21972d0d5fe320c0d263fac7fffb8145aa640af6e9bca177c03c7efcf0615',
+      'Matches the merlin reference test vector'
+    );
+    assertThrows(
+      () => new ProofTranscript('test').validateAndAppendPoint('pubkey', new Uint8Array(32)),
+      'Rejects the identity point where a non-zero point is required'
+    );
+    console.log('');
+
+    // Test 2: zk-sdk compatibility
+    console.log('📋 Test 2: Proofs generated by zk-sdk');
+    const goldenKeypair = elGamalKeypairFromSecretKey(GOLDEN_SECRET_KEY);
+    assert(bytesToHex(goldenKeypair.publicKey) === GOLDEN_PUBKEY, 'Golden secret key maps to the zk-sdk public key');
+    const goldenPubkey = fromProofData(GOLDEN_PUBKEY_VALIDITY_PROOF, [32], 'PubkeyValidity');
+    const goldenZero = fromProofData(GOLDEN_ZERO_CIPHERTEXT_PROOF, [32, 64], 'ZeroCiphertext');
+    const goldenEquality = fromProofData(GOLDEN_EQUALITY_PROOF, [32, 64, 32], 'CiphertextCommitmentEquality');
+    assert(verifyPubkeyValidityProof(goldenPubkey), 'zk-sdk pubkey validity proof verifies');
+    assert(verifyZeroCiphertextProof(goldenZero), 'zk-sdk zero ciphertext proof verifies');
+    assert(verifyCiphertextCommitmentEqualityProof(goldenEquality), 'zk-sdk equality proof verifies');
+    assert(!verifyPubkeyValidityProof(tamperProof(goldenPubkey)), 'Tampered zk-sdk pubkey validity proof is rejected');
+    assert(!verifyZeroCiphertextProof(tamperContext(goldenZero, 1)), 'zk-sdk zero proof is rejected for another ciphertext');
+    assert(!verifyCiphertextCommitmentEqualityProof(tamperProof(goldenEquality, 40)), 'Tampered zk-sdk equality proof is rejected');
+    console.log('');
+
+    // Test 3: Sigma proofs
+    console.log('📋 Test 3: Sigma proofs');
+    const pubkeyProof = generatePubkeyValidityProof(keypair);
+    assert(pubkeyProof.proof.length === 64, 'Pubkey validity proof is 64 bytes');
+    assert(verifyPubkeyValidityProof(pubkeyProof), 'Pubkey validity proof verifies');
+    assert(!verifyPubkeyValidityProof(tamperProof(pubkeyProof)), 'Tampered pubkey validity proof is rejected');
+
+    const zeroCiphertext = encryptElGamal(keypair.publicKey, 0n).ciphertext;
+    const zeroProof = generateZeroCiphertextProof(keypair, zeroCiphertext);
+    assert(zeroProof.proof.length === 96, 'Zero ciphertext proof is 96 bytes');
+    assert(verifyZeroCiphertextProof(zeroProof), 'Zero ciphertext proof verifies');
+    const nonZeroProof = generateZeroCiphertextProof(keypair, encryptElGamal(keypair.publicKey, 1n).ciphertext);
+    assert(!verifyZeroCiphertextProof(nonZeroProof), 'Zero ciphertext proof of a non-zero balance is rejected');
+
+    const encrypted = encryptElGamal(keypair.publicKey, 5000n);
+    const opening = generatePedersenOpening();
+    const commitment = createPedersenCommitment(5000n, opening);
+    const equalityProof = generateCiphertextCommitmentEqualityProof(keypair, encrypted.ciphertext, commitment, opening, 5000n);
+    assert(equalityProof.proof.length === 192, 'Equality proof is 192 bytes');
+    assert(verifyCiphertextCommitmentEqualityProof(equalityProof), 'Equality proof verifies');
+    const wrongCommitment = createPedersenCommitment(5001n, opening);
+    assert(
+      !verifyCiphertextCommitmentEqualityProof(
+        generateCiphertextCommitmentEqualityProof(keypair, encrypted.ciphertext, wrongCommitment, opening, 5001n)
+      ),
+      'Equality proof for a different amount is rejected'
+    );
+
+    const publicKeys: [Uint8Array, Uint8Array, Uint8Array] = [
+      keypair.publicKey,
+      generateElGamalKeypair().publicKey,
+      generateElGamalKeypair().publicKey
+    ];
+    const grouped = encryptGroupedElGamal(publicKeys, 42n);
+    const validityProof = generateGroupedCiphertext3HandlesValidityProof(publicKeys, grouped.ciphertext, 42n, grouped.opening);
+    assert(validityProof.proof.length === 192, 'Grouped ciphertext validity proof is 192 bytes');
+    assert(verifyGroupedCiphertext3HandlesValidityProof(validityProof), 'Grouped ciphertext validity proof verifies');
+    assert(
+      !verifyGroupedCiphertext3HandlesValidityProof(tamperContext(validityProof, 3, 100)),
+      'Validity proof is rejected for a modified grouped ciphertext'
+    );
+
+    const groupedLo = encryptGroupedElGamal(publicKeys, 1234n);
+    const groupedHi = encryptGroupedElGamal(publicKeys, 56n);
+    const batchedValidityProof = generateBatchedGroupedCiphertext3HandlesValidityProof(
+      publicKeys,
+      groupedLo.ciphertext,
+      groupedHi.ciphertext,
+      1234n,
+      56n,
+      groupedLo.opening,
+      groupedHi.opening
+    );
+    assert(verifyBatchedGroupedCiphertext3HandlesValidityProof(batchedValidityProof), 'Batched validity proof verifies');
+    assert(
+      !verifyBatchedGroupedCiphertext3HandlesValidityProof(tamperProof(batchedValidityProof, 70)),
+      'Tampered batched validity proof is rejected'
+    );
+    console.log('');
+
+    // Test 4: Range proofs
+    console.log('📋 Test 4: Batched range proofs');
+    const rangeOpening = generatePedersenOpening();
+    const rangeCommitment = createPedersenCommitment(123456789n, rangeOpening);
+    const rangeU64 = generateBatchedRangeProof([rangeCommitment], [123456789n], [64], [rangeOpening]);
+    assert(rangeU64.circuitHash === 'BatchedRangeProofU64', 'A 64-bit range proof is a BatchedRangeProofU64');
+    assert(rangeU64.proof.length === 672, 'BatchedRangeProofU64 is 672 bytes');
+    assert(rangeU64.publicInputs[0].length === 256 && rangeU64.publicInputs[1].length === 8, 'Context pads to 8 commitments');
+    assert(verifyBatchedRangeProof(rangeU64), 'BatchedRangeProofU64 verifies');
+    assert(!verifyBatchedRangeProof(tamperProof(rangeU64, 200)), 'Tampered range proof is rejected');
+    assert(!verifyBatchedRangeProof(tamperContext(rangeU64, 1)), 'Range proof is rejected for other bit lengths');
+
+    const amounts = [1000n, 7n, 3n, 0n];
+    const bitLengths = [64, 16, 32, 16];
+    const openings = amounts.map(() => generatePedersenOpening());
+    const commitments = amounts.map((amount, i) => createPedersenCommitment(amount, openings[i]));
+    const rangeU128 = generateBatchedRangeProof(commitments, amounts, bitLengths, openings);
+    assert(rangeU128.circuitHash === 'BatchedRangeProofU128', 'The transfer layout is a BatchedRangeProofU128');
+    assert(rangeU128.proof.length === 736, 'BatchedRangeProofU128 is 736 bytes');
+    assert(verifyBatchedRangeProof(rangeU128), 'BatchedRangeProofU128 verifies');
+
+    assertThrows(
+      () => generateBatchedRangeProof([rangeCommitment], [1n << 16n], [16], [rangeOpening]),
+      'Refuses to prove an amount outside its bit length'
+    );
+    assertThrows(
+      () => generateBatchedRangeProof([rangeCommitment], [1n], [48], [rangeOpening]),
+      'Refuses bit lengths that do not sum to 64, 128 or 256'
+    );
+    console.log('');
+
+    // Test 5: Withdraw and transfer proof bundles
+    console.log('📋 Test 5: Withdraw and transfer proofs');
+    const available = encryptElGamal(keypair.publicKey, 10_000n).ciphertext;
+    const withdrawProofs = generateWithdrawProofs(keypair, available, 10_000n, 2_500n);
+    assert(withdrawProofs.remainingBalance === 7_500n, 'Withdraw reports the remaining balance');
+    assert(verifyZKProof(withdrawProofs.equalityProof), 'Withdraw equality proof verifies');
+    assert(verifyZKProof(withdrawProofs.rangeProof), 'Withdraw range proof verifies');
+    assertThrows(
+      () => generateWithdrawProofs(keypair, available, 10_000n, 10_001n),
+      'Refuses to withdraw more than the available balance'
+    );
+
+    const destination = generateElGamalKeypair();
+    const auditor = generateElGamalKeypair();
+    const transferProofs = generateTransferProofs(
+      keypair,
+      available,
+      10_000n,
+      4_321n,
+      destination.publicKey,
+      auditor.publicKey
+    );
+    assert(transferProofs.remainingBalance === 5_679n, 'Transfer reports the remaining balance');
+    assert(verifyZKProof(transferProofs.equalityProof), 'Transfer equality proof verifies');
+    assert(verifyZKProof(transferProofs.ciphertextValidityProof), 'Transfer ciphertext validity proof verifies');
+    assert(verifyZKProof(transferProofs.rangeProof), 'Transfer range proof verifies');
+    assert(
+      decryptElGamal(auditor.secretKey, transferProofs.auditorCiphertextLo) === 4_321n &&
+        decryptElGamal(auditor.secretKey, transferProofs.auditorCiphertextHi) === 0n,
+      'Auditor ciphertexts decrypt to the amount lo/hi'
+    );
+    const destinationLo = groupedCiphertextToCiphertext(transferProofs.ciphertextValidityProof.publicInputs[3], 1);
+    assert(decryptElGamal(destination.secretKey, destinationLo) === 4_321n, 'Destination can decrypt the amount');
+
+    const unaudited = generateTransferProofs(keypair, available, 10_000n, 1n, destination.publicKey, null);
+    assert(
+      unaudited.ciphertextValidityProof.publicInputs[2].every(byte => byte === 0) &&
+        verifyZKProof(unaudited.ciphertextValidityProof),
+      'Transfer without an auditor uses the zero auditor key'
+    );
+    assert(!verifyZKProof({ ...unaudited.rangeProof, circuitHash: 'Groth16' }), 'Unknown proof types are rejected');
+    console.log('');
+
+    // Test 6: Proof program instructions
+    console.log('📋 Test 6: ZK ElGamal Proof program instructions');
+    const context = Keypair.generate().publicKey;
+    const authority = Keypair.generate().publicKey;
+    const verifyIx = createVerifyProofInstruction(withdrawProofs.rangeProof, { account: context, authority });
+    assert(verifyIx.programId.equals(ZK_ELGAMAL_PROOF_PROGRAM_ID), 'Targets the ZK ElGamal Proof program');
+    assert(verifyIx.data[0] === ProofInstruction.VerifyBatchedRangeProofU64, 'Uses the VerifyBatchedRangeProofU64 discriminator');
+    assert(verifyIx.data.length === 1 + 264 + 672, 'Data is discriminator || context || proof');
+    assert(
+      verifyIx.keys.length === 2 && verifyIx.keys[0].pubkey.equals(context) && verifyIx.keys[0].isWritable,
+      'Writes into the context state account'
+    );
+    assert(
+      createVerifyProofInstruction(transferProofs.ciphertextValidityProof).data[0] ===
+        ProofInstruction.VerifyBatchedGroupedCiphertext3HandlesValidity,
+      'Uses the VerifyBatchedGroupedCiphertext3HandlesValidity discriminator'
+    );
+    assert(createVerifyProofInstruction(pubkeyProof).keys.length === 0, 'Verifying in place needs no accounts');
+    assert(
+      getProofContextStateSize(transferProofs.equalityProof) === PROOF_CONTEXT_STATE_META_LEN + 128,
+      'Context state size is 33 + context length'
+    );
+    const closeIx = createCloseContextStateInstruction({ account: context, authority }, authority);
+    assert(
+      closeIx.data.length === 1 && closeIx.data[0] === ProofInstruction.CloseContextState && closeIx.keys[2].isSigner,
+      'CloseContextState is signed by the authority'
+    );
+    console.log('');
+
+    // Test 7: Extension state
+    console.log('📋 Test 7: Confidential transfer extension state');
+    const accountData = new Uint8Array(295);
+    accountData[0] = 1;
+    accountData.set(keypair.publicKey, 1);
+    accountData.set(available, 1 + 32 + 128);
+    accountData[1 + 32 + 192 + 36] = 1;
+    new DataView(accountData.buffer).setBigUint64(295 - 24, 65536n, true);
+    const accountState = decodeConfidentialTransferAccountState(accountData);
+    assert(accountState.approved && accountState.allowConfidentialCredits, 'Decodes the account flags');
+    assert(bytesToHex(accountState.elgamalPubkey) === bytesToHex(keypair.publicKey), 'Decodes the ElGamal public key');
+    assert(bytesToHex(accountState.availableBalance) === bytesToHex(available), 'Decodes the available balance');
+    assert(accountState.maximumPendingBalanceCreditCounter === 65536n, 'Decodes the credit counters');
+    assertThrows(() => decodeConfidentialTransferAccountState(new Uint8Array(100)), 'Rejects a truncated extension');
+
+    const mintData = new Uint8Array(65);
+    mintData.set(authority.toBytes(), 0);
+    const mintState = decodeConfidentialTransferMintState(mintData);
+    assert(mintState.authority !== null && mintState.authority.equals(authority), 'Decodes the mint authority');
+    assert(mintState.auditorElGamalPubkey === null, 'An all-zero auditor key means no auditor');
+    console.log('');
+
+    // Summary
+    console.log('===================================================');
+    console.log('📊 Test Summary');
+    console.log('===================================================');
+    console.log(`Total tests: ${totalTests}`);
+    console.log(`Passed: ${passedTests} ✅`);
+    console.log(`Failed: ${failedTests} ❌`);
+
+    if (failedTests === 0) {
+      console.log('\n🎉 All ZK proof tests passed!');
+      process.exit(0);
+    } else {
+      console.log(`\n⚠️  ${failedTests} test(s) failed`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Test suite failed with error:');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run the tests
+runZkProofTests();